@@ -0,0 +1,41 @@
+/**
+ * fixture.ts
+ * テストスクリプト用の一時プロジェクト（<tmp>/angular-analyzer-<name>-XXXX/src）を作るヘルパー
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * プロジェクトルートからの相対パス → ファイルの内容
+ */
+export type FixtureFiles = Record<string, string>;
+
+export interface Fixture {
+  dir: string; // 一時ディレクトリ（プロジェクト外のファイルを置く場所）
+  projectPath: string; // <dir>/src
+}
+
+export function writeFixture(root: string, files: FixtureFiles): void {
+  Object.entries(files).forEach(([file, content]) => {
+    const filePath = path.join(root, file);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  });
+}
+
+/**
+ * 一時ディレクトリの src/ にファイルを書いて run を実行し、終わったら（失敗しても）削除する
+ */
+export function withFixture(name: string, files: FixtureFiles, run: (fixture: Fixture) => void): void {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), `angular-analyzer-${name}-`));
+  const projectPath = path.join(dir, 'src');
+  writeFixture(projectPath, files);
+
+  try {
+    run({ dir, projectPath });
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,71 @@
+#!/usr/bin/env ts-node
+
+/**
+ * test-analyze-project.ts
+ * コンポーネント一覧表（Markdown）に encapsulation と host が出力されるテスト
+ *
+ * Usage: npx ts-node scripts/test-analyze-project.ts
+ */
+
+import * as assert from 'assert';
+import { ProjectAnalyzer, ProjectAnalysis, formatMarkdown } from '../src/analyze-project';
+import { FixtureFiles, withFixture } from './fixture';
+
+const FIXTURE: FixtureFiles = {
+  'app/toggle.component.ts': `
+import { Component, ViewEncapsulation } from '@angular/core';
+
+@Component({
+  selector: 'app-toggle',
+  standalone: true,
+  template: '<button></button>',
+  encapsulation: ViewEncapsulation.None,
+  host: { '[class.active]': 'on || forced', '(click)': 'toggle()' }
+})
+export class ToggleComponent {
+  on = false;
+  forced = false;
+  toggle() { this.on = !this.on; }
+}
+`,
+  'app/plain.component.ts': `
+import { Component } from '@angular/core';
+
+@Component({ selector: 'app-plain', standalone: true, template: '' })
+export class PlainComponent {}
+`
+};
+
+async function testComponentTable(): Promise<void> {
+  console.log('🧪 Testing the components table in the Markdown report\n');
+
+  // analyze() は await を含まないので、一時ディレクトリの削除前に解析は終わっている
+  let pending!: Promise<ProjectAnalysis>;
+  withFixture('project', FIXTURE, ({ projectPath }) => {
+    pending = new ProjectAnalyzer(projectPath, false).analyze();
+  });
+  const md = formatMarkdown(await pending);
+
+  const rows = md.split('\n');
+  const row = (name: string) => rows.find(line => line.startsWith(`| ${name} |`))?.split(/(?<!\\)\|/).map(cell => cell.trim());
+
+  console.log('Test 1: Encapsulation and Host columns');
+  console.log('-'.repeat(40));
+  const header = rows.find(line => line.startsWith('| Component |'))!.split('|').map(cell => cell.trim());
+  const encapsulation = header.indexOf('Encapsulation');
+  const host = header.indexOf('Host');
+  assert.ok(encapsulation > 0 && host > 0, 'header has Encapsulation and Host');
+
+  assert.strictEqual(row('ToggleComponent')![encapsulation], 'None');
+  assert.strictEqual(row('ToggleComponent')![host], '`[class.active]="on \\|\\| forced"`<br>`(click)="toggle()"`');
+  assert.strictEqual(row('PlainComponent')![encapsulation], 'Emulated');
+  assert.strictEqual(row('PlainComponent')![host], '-');
+  console.log('✓ ViewEncapsulation.None and host bindings are shown; defaults are Emulated / -');
+
+  console.log('\n✅ All tests passed!\n');
+}
+
+testComponentTable().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
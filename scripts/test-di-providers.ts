@@ -0,0 +1,172 @@
+#!/usr/bin/env ts-node
+
+/**
+ * test-di-providers.ts
+ * 共有配列のスプレッドとプロジェクト内の provideXxx() 関数で登録したプロバイダの解決テスト
+ * （analyze-di.ts と trace-service-usage.ts --token）
+ *
+ * Usage: npx ts-node scripts/test-di-providers.ts
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import { ProjectModel } from '../src/utils/project-model';
+import { DependencyInjectionAnalyzer } from '../src/analyze-di';
+import { ServiceUsageTracer } from '../src/trace-service-usage';
+import { FixtureFiles, withFixture } from './fixture';
+
+const FIXTURE: FixtureFiles = {
+  'main.ts': `
+import { bootstrapApplication } from '@angular/platform-browser';
+import { AppComponent } from './app/app.component';
+import { appConfig } from './app/app.config';
+
+bootstrapApplication(AppComponent, appConfig);
+`,
+  'app/app.config.ts': `
+import { ApplicationConfig } from '@angular/core';
+import { provideHttpClient } from '@angular/common/http';
+import { provideRouter } from '@angular/router';
+import { CORE_PROVIDERS } from './core/core.providers';
+import { provideApi } from './core/api';
+import { routes } from './app.routes';
+
+export const appConfig: ApplicationConfig = {
+  providers: [...CORE_PROVIDERS, provideApi({ baseUrl: '/api' }), provideHttpClient(), provideRouter(routes)]
+};
+`,
+  'app/app.routes.ts': `
+import { Routes } from '@angular/router';
+import { FeatureComponent } from './feature.component';
+import { provideFeature } from './core/api';
+
+export const routes: Routes = [
+  { path: 'feature', component: FeatureComponent, providers: [provideFeature(true)] }
+];
+`,
+  'app/core/core.providers.ts': `
+import { HTTP_INTERCEPTORS } from '@angular/common/http';
+import { AuthService, AuthInterceptor } from './auth';
+
+export const CORE_PROVIDERS = [
+  AuthService,
+  { provide: HTTP_INTERCEPTORS, useClass: AuthInterceptor, multi: true }
+];
+`,
+  'app/core/auth.ts': `
+import { Injectable } from '@angular/core';
+
+@Injectable()
+export class AuthService {}
+
+@Injectable()
+export class AuthInterceptor {}
+`,
+  'app/core/api.ts': `
+import { InjectionToken, makeEnvironmentProviders } from '@angular/core';
+import { FeatureService, LegacyFeatureService } from './feature';
+
+export interface ApiConfig { baseUrl: string; }
+
+export const API_CONFIG = new InjectionToken<ApiConfig>('API_CONFIG');
+
+export function provideApi(config: ApiConfig) {
+  return makeEnvironmentProviders([{ provide: API_CONFIG, useValue: config }]);
+}
+
+// 戻り値が分岐するため静的には読み取れない
+export function provideFeature(legacy: boolean) {
+  if (legacy) {
+    return [{ provide: FeatureService, useClass: LegacyFeatureService }];
+  }
+  return [FeatureService];
+}
+`,
+  'app/core/feature.ts': `
+import { Injectable } from '@angular/core';
+
+@Injectable()
+export class FeatureService {}
+
+@Injectable()
+export class LegacyFeatureService {}
+
+@Injectable()
+export class MissingService {}
+`,
+  'app/app.component.ts': `
+import { Component, inject } from '@angular/core';
+import { HTTP_INTERCEPTORS } from '@angular/common/http';
+import { AuthService } from './core/auth';
+import { API_CONFIG } from './core/api';
+import { MissingService } from './core/feature';
+
+@Component({ selector: 'app-root', standalone: true, template: '' })
+export class AppComponent {
+  private auth = inject(AuthService);
+  private config = inject(API_CONFIG);
+  private interceptors = inject(HTTP_INTERCEPTORS);
+  private missing = inject(MissingService);
+}
+`,
+  'app/feature.component.ts': `
+import { Component, inject } from '@angular/core';
+import { FeatureService } from './core/feature';
+
+@Component({ selector: 'app-feature', standalone: true, template: '' })
+export class FeatureComponent {
+  private feature = inject(FeatureService);
+}
+`
+};
+
+function testProviderResolution(): void {
+  console.log('🧪 Testing provider resolution through spreads and provideXxx()\n');
+
+  withFixture('di', FIXTURE, ({ projectPath }) => {
+    const model = new ProjectModel(projectPath);
+    const analysis = new DependencyInjectionAnalyzer(projectPath, model).analyze();
+    const statusOf = (consumer: string, token: string) =>
+      analysis.injections.find(i => i.consumer === consumer && i.token === token)?.status;
+
+    console.log('Test 1: Spread provider array is expanded');
+    console.log('-'.repeat(40));
+    const auth = analysis.registrations.find(r => r.token === 'AuthService');
+    assert.ok(auth, 'AuthService should be registered through ...CORE_PROVIDERS');
+    assert.strictEqual(auth!.injector, 'root');
+    assert.strictEqual(auth!.file, path.join('app', 'core', 'core.providers.ts'));
+    assert.ok(!analysis.registrations.some(r => r.token === 'CORE_PROVIDERS'), 'the array itself is not a token');
+    assert.strictEqual(statusOf('AppComponent', 'AuthService'), 'resolved');
+    console.log('✓ AuthService is provided by the root injector');
+
+    console.log('\nTest 2: Local provideXxx() is followed into makeEnvironmentProviders()');
+    console.log('-'.repeat(40));
+    assert.strictEqual(statusOf('AppComponent', 'API_CONFIG'), 'resolved');
+    console.log('✓ API_CONFIG is provided through provideApi()');
+
+    console.log('\nTest 3: Registrations are not duplicated by bootstrapApplication(App, appConfig)');
+    console.log('-'.repeat(40));
+    assert.strictEqual(analysis.registrations.filter(r => r.token === 'API_CONFIG').length, 1);
+    console.log('✓ API_CONFIG is registered once');
+
+    console.log('\nTest 4: Providers that cannot be read statically are ambiguous, not unresolved');
+    console.log('-'.repeat(40));
+    assert.strictEqual(statusOf('FeatureComponent', 'FeatureService'), 'ambiguous');
+    assert.strictEqual(statusOf('AppComponent', 'MissingService'), 'unresolved');
+    console.log('✓ FeatureService is ambiguous, MissingService is still unresolved');
+
+    console.log('\nTest 5: trace-service-usage --token finds providers registered through helpers');
+    console.log('-'.repeat(40));
+    const apiConfig = new ServiceUsageTracer(path.join(projectPath, 'app/core/api.ts'), projectPath, model, 'API_CONFIG').trace(false);
+    assert.strictEqual(apiConfig.providers.length, 1);
+    assert.strictEqual(apiConfig.providers[0].shape, 'useValue');
+    const interceptors = new ServiceUsageTracer(null, projectPath, model, 'HTTP_INTERCEPTORS').trace(false);
+    assert.strictEqual(interceptors.providers.length, 1);
+    assert.strictEqual(interceptors.providers[0].target, 'AuthInterceptor');
+    console.log('✓ API_CONFIG and HTTP_INTERCEPTORS each have 1 provider');
+
+    console.log('\n✅ All tests passed!\n');
+  });
+}
+
+testProviderResolution();
@@ -0,0 +1,121 @@
+#!/usr/bin/env ts-node
+
+/**
+ * test-lazy-chunks.ts
+ * @defer ブロックの遅延コンポーネントをホストの imports から特定するテストと、
+ * 初期バンドルへの静的importの報告テスト
+ *
+ * Usage: npx ts-node scripts/test-lazy-chunks.ts
+ */
+
+import * as assert from 'assert';
+import * as path from 'path';
+import { LazyChunkAnalyzer } from '../src/analyze-lazy-chunks';
+import { FixtureFiles, withFixture } from './fixture';
+
+const FIXTURE: FixtureFiles = {
+  'main.ts': `
+import { bootstrapApplication } from '@angular/platform-browser';
+import { provideRouter } from '@angular/router';
+import { AppComponent } from './app/app.component';
+import { routes } from './app/app.routes';
+
+bootstrapApplication(AppComponent, { providers: [provideRouter(routes)] });
+`,
+  'app/app.routes.ts': `
+import { Routes } from '@angular/router';
+import { ReportsComponent } from './reports/reports.component';
+
+export const routes: Routes = [
+  { path: 'admin', loadComponent: () => import('./admin/admin.component').then(m => m.AdminComponent) },
+  { path: 'reports', loadComponent: () => import('./reports/reports.component').then(m => m.ReportsComponent) },
+  { path: 'home', component: ReportsComponent }
+];
+`,
+  'app/app.component.ts': `
+import { Component, inject } from '@angular/core';
+import { ChartComponent } from './charts/chart.component';
+import { AdminService } from './admin/admin.service';
+
+@Component({
+  selector: 'app-root',
+  standalone: true,
+  imports: [ChartComponent],
+  template: \`
+    @defer (on viewport) {
+      <app-chart />
+      <app-legacy-panel />
+    } @placeholder {
+      <p>loading</p>
+    }
+  \`
+})
+export class AppComponent {
+  private admin = inject(AdminService);
+}
+`,
+  'app/charts/chart.component.ts': `
+import { Component } from '@angular/core';
+
+@Component({ selector: 'app-chart', standalone: true, template: '<svg></svg>' })
+export class ChartComponent {}
+`,
+  // 同じセレクタを持つ別のコンポーネント（AppComponent の imports にはない）
+  'app/legacy/legacy-chart.component.ts': `
+import { Component } from '@angular/core';
+
+@Component({ selector: 'app-chart, app-legacy-panel', standalone: true, template: '<canvas></canvas>' })
+export class LegacyChartComponent {}
+`,
+  'app/admin/admin.component.ts': `
+import { Component, inject } from '@angular/core';
+import { AdminService } from './admin.service';
+
+@Component({ selector: 'app-admin', standalone: true, template: '' })
+export class AdminComponent {
+  private admin = inject(AdminService);
+}
+`,
+  'app/admin/admin.service.ts': `
+import { Injectable } from '@angular/core';
+
+@Injectable({ providedIn: 'root' })
+export class AdminService {}
+`,
+  'app/reports/reports.component.ts': `
+import { Component } from '@angular/core';
+
+@Component({ selector: 'app-reports', standalone: true, template: '' })
+export class ReportsComponent {}
+`
+};
+
+function testLazyChunks(): void {
+  console.log('🧪 Testing lazy chunk estimation\n');
+
+  withFixture('chunks', FIXTURE, ({ projectPath }) => {
+    const analysis = new LazyChunkAnalyzer(projectPath).analyze();
+
+    console.log('Test 1: @defer resolves components through the host imports');
+    console.log('-'.repeat(40));
+    const defers = analysis.boundaries.filter(b => b.kind === 'defer');
+    assert.deepStrictEqual(defers.map(b => b.label), ['AppComponent → ChartComponent']);
+    assert.strictEqual(defers[0].target, path.join('app', 'charts', 'chart.component.ts'));
+    assert.ok(analysis.chunks.some(c => c.kind === 'lazy' && c.entry === defers[0].target));
+    assert.ok(analysis.unbundledFiles.includes(path.join('app', 'legacy', 'legacy-chart.component.ts')));
+    console.log('✓ <app-chart> is attributed to ChartComponent, not LegacyChartComponent');
+
+    console.log('\nTest 2: Eager imports into main are reported with their reason');
+    console.log('-'.repeat(40));
+    const leaks = analysis.eagerLeaks.map(leak => `${leak.reason}:${leak.file}`).sort();
+    assert.deepStrictEqual(leaks, [
+      `entry:${path.join('app', 'reports', 'reports.component.ts')}`,
+      `feature:${path.join('app', 'admin', 'admin.service.ts')}`
+    ]);
+    console.log('✓ reports.component.ts (lazy entry) and admin.service.ts (feature file) are flagged');
+
+    console.log('\n✅ All tests passed!\n');
+  });
+}
+
+testLazyChunks();
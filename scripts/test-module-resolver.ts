@@ -0,0 +1,58 @@
+#!/usr/bin/env ts-node
+
+/**
+ * test-module-resolver.ts
+ * tsconfig の paths を baseUrl / extends元のディレクトリを基準に解決するテスト
+ *
+ * Usage: npx ts-node scripts/test-module-resolver.ts
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModuleResolver } from '../src/utils/module-resolver';
+import { FixtureFiles, withFixture } from './fixture';
+
+const FIXTURE: FixtureFiles = {
+  'main.ts': `export {};\n`,
+  'app/core/x.ts': `export const x = 1;\n`,
+  'shared/util.ts': `export const util = 1;\n`
+};
+
+function writeJson(file: string, value: any): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(value, null, 2));
+}
+
+function testPathsBase(): void {
+  console.log('🧪 Testing tsconfig paths resolution\n');
+
+  withFixture('resolver', FIXTURE, ({ dir, projectPath }) => {
+    const main = path.join(projectPath, 'main.ts');
+
+    console.log('Test 1: paths are relative to baseUrl when it is not the config directory');
+    console.log('-'.repeat(40));
+    writeJson(path.join(dir, 'tsconfig.json'), {
+      compilerOptions: { baseUrl: './src', paths: { '@app/*': ['app/*'] } }
+    });
+    const resolver = new ModuleResolver(projectPath);
+    assert.strictEqual(resolver.getConfig().pathsBasePath, projectPath);
+    assert.strictEqual(resolver.resolve('@app/core/x', main), path.join(projectPath, 'app', 'core', 'x.ts'));
+    console.log('✓ @app/core/x resolves to src/app/core/x.ts');
+
+    console.log('\nTest 2: Without baseUrl, paths are relative to the config that declares them');
+    console.log('-'.repeat(40));
+    writeJson(path.join(dir, 'config', 'tsconfig.base.json'), {
+      compilerOptions: { paths: { '@shared/*': ['../src/shared/*'] } }
+    });
+    writeJson(path.join(dir, 'tsconfig.json'), { extends: './config/tsconfig.base.json' });
+    const extended = new ModuleResolver(projectPath);
+    assert.strictEqual(extended.getConfig().pathsBasePath, path.join(dir, 'config'));
+    assert.strictEqual(extended.resolve('@shared/util', main), path.join(projectPath, 'shared', 'util.ts'));
+    console.log('✓ @shared/util resolves through the extended config directory');
+
+    console.log('\n✅ All tests passed!\n');
+  });
+}
+
+testPathsBase();
@@ -0,0 +1,132 @@
+#!/usr/bin/env ts-node
+
+/**
+ * test-openapi.ts
+ * YAML の OpenAPI 定義（アンカー・エイリアス、複数行のフロー形式）を読んで照合するテスト
+ *
+ * Usage: npx ts-node scripts/test-openapi.ts
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { OpenApiContractChecker, loadOpenApiSpec } from '../src/check-openapi';
+import { FixtureFiles, withFixture } from './fixture';
+
+const SPEC = `
+openapi: 3.0.3
+info: { title: Orders, version: "1.0" }
+servers: [
+  { url: "https://example.com/api" }
+]
+x-responses:
+  order-list: &orderList
+    description: Orders
+    content:
+      application/json:
+        schema:
+          type: array
+          items: { $ref: "#/components/schemas/Order" }
+paths:
+  /orders:
+    get:
+      operationId: listOrders
+      tags: [
+        orders,
+        read
+      ]
+      responses:
+        "200": *orderList
+    post:
+      operationId: createOrder
+      responses:
+        "201": &orderCreated
+          description: Created
+          content:
+            application/json:
+              schema: { $ref: "#/components/schemas/Order" }
+  /orders/{id}:
+    parameters: [
+      { name: id, in: path, required: true,
+        schema: { type: string } }
+    ]
+    put:
+      responses:
+        "200": *orderCreated
+components:
+  schemas:
+    Order:
+      type: object
+      properties:
+        id: { type: string }
+        total: { type: number }
+`;
+
+const FIXTURE: FixtureFiles = {
+  'app/order.ts': `
+export interface Order {
+  id: string;
+  total: number;
+}
+`,
+  'app/orders.service.ts': `
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Order } from './order';
+
+@Injectable({ providedIn: 'root' })
+export class OrdersService {
+  private http = inject(HttpClient);
+
+  list() {
+    return this.http.get<Order[]>('/api/orders');
+  }
+
+  create(order: Order) {
+    return this.http.post<Order>('/api/orders', order);
+  }
+
+  update(id: string, order: Order) {
+    return this.http.put<Order>('/api/orders/' + id, order);
+  }
+}
+`
+};
+
+function testYamlSpec(): void {
+  console.log('🧪 Testing OpenAPI YAML loading and contract check\n');
+
+  withFixture('openapi', FIXTURE, ({ dir, projectPath }) => {
+    const specPath = path.join(dir, 'openapi.yaml');
+    fs.writeFileSync(specPath, SPEC);
+
+    console.log('Test 1: Anchors, aliases and multi-line flow collections');
+    console.log('-'.repeat(40));
+    const spec = loadOpenApiSpec(specPath);
+    assert.strictEqual(spec.paths['/orders'].get.responses['200'], spec['x-responses']['order-list']);
+    assert.deepStrictEqual(spec.paths['/orders'].get.tags, ['orders', 'read']);
+    assert.strictEqual(spec.paths['/orders/{id}'].parameters[0].schema.type, 'string');
+    assert.strictEqual(spec.servers[0].url, 'https://example.com/api');
+    console.log('✓ *orderList / *orderCreated and multi-line [ ... ] are read');
+
+    console.log('\nTest 2: Calls are matched against the YAML spec');
+    console.log('-'.repeat(40));
+    const report = new OpenApiContractChecker(specPath, projectPath).check();
+    assert.strictEqual(report.summary.specOperations, 3);
+    assert.strictEqual(report.summary.matchedCalls, 3);
+    assert.deepStrictEqual(report.issues, []);
+    console.log('✓ GET / POST / PUT match with no issues');
+
+    console.log('\nTest 3: Invalid YAML reports the file and line');
+    console.log('-'.repeat(40));
+    const brokenPath = path.join(dir, 'broken.yaml');
+    fs.writeFileSync(brokenPath, 'openapi: 3.0.3\npaths:\n  /orders: *missing\n');
+    assert.throws(() => loadOpenApiSpec(brokenPath), (error: Error) =>
+      error.message.includes('broken.yaml') && error.message.includes('missing') && /\(3:\d+\)/.test(error.message));
+    console.log('✓ Unknown alias is reported with its location');
+
+    console.log('\n✅ All tests passed!\n');
+  });
+}
+
+testYamlSpec();
@@ -0,0 +1,193 @@
+#!/usr/bin/env ts-node
+
+/**
+ * test-route-reachability.ts
+ * ルート到達性のテスト（プロジェクト外の作業ディレクトリからの解析と、実際に呼ばれるサービスのメソッドのHTTP呼び出し）
+ *
+ * Usage: npx ts-node scripts/test-route-reachability.ts
+ */
+
+import * as assert from 'assert';
+import * as os from 'os';
+import { RouteReachabilityAnalyzer, RouteReachability } from '../src/analyze-route-reachability';
+import { FixtureFiles, withFixture } from './fixture';
+
+const FIXTURE: FixtureFiles = {
+  'app/app.routes.ts': `
+import { Routes } from '@angular/router';
+import { inject } from '@angular/core';
+import { OrderDetailComponent } from './orders/order-detail.component';
+import { HomeComponent } from './home.component';
+import { AuthService } from './auth.service';
+
+export const orderGuard = () => inject(AuthService).check();
+
+export const routes: Routes = [
+  { path: 'orders/:id', component: OrderDetailComponent, canActivate: [orderGuard] },
+  { path: 'home', component: HomeComponent }
+];
+`,
+  'app/auth.service.ts': `
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+
+@Injectable({ providedIn: 'root' })
+export class AuthService {
+  private http = inject(HttpClient);
+
+  check() {
+    return this.http.get('/api/session');
+  }
+
+  logout() {
+    return this.http.post('/api/logout', {});
+  }
+}
+`,
+  'app/home.component.ts': `
+import { Component, inject } from '@angular/core';
+import { OrdersService } from './orders/orders.service';
+
+// OrdersService を注入するが、どのメソッドも呼ばない
+@Component({ selector: 'app-home', standalone: true, template: '<h1>Home</h1>' })
+export class HomeComponent {
+  private orders = inject(OrdersService);
+}
+`,
+  'app/orders/order-detail.component.ts': `
+import { Component, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { OrdersService } from './orders.service';
+
+@Component({
+  selector: 'app-order-detail',
+  standalone: true,
+  imports: [OrderItemsComponent],
+  template: '<app-order-items /> {{ orders.getStatus() | async }}'
+})
+export class OrderDetailComponent {
+  private http = inject(HttpClient);
+  protected orders = inject(OrdersService);
+
+  load(id: string) {
+    this.orders.reload(id);
+    return this.http.get('/api/orders/' + id + '/history');
+  }
+}
+
+@Component({ selector: 'app-order-items', standalone: true, template: '' })
+export class OrderItemsComponent {
+  private http = inject(HttpClient);
+
+  load() {
+    return this.http.get('/api/order-items');
+  }
+}
+`,
+  'app/orders/orders.service.ts': `
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { AuditService } from './audit.service';
+
+@Injectable({ providedIn: 'root' })
+export class OrdersService {
+  private http = inject(HttpClient);
+  private audit = inject(AuditService);
+
+  reload(id: string) {
+    return this.getOrder(id);
+  }
+
+  getOrder(id: string) {
+    this.audit.log('view');
+    return this.http.get('/api/orders/' + id);
+  }
+
+  getStatus() {
+    return this.http.get('/api/orders/status');
+  }
+
+  deleteOrder(id: string) {
+    return this.http.delete('/api/orders/' + id);
+  }
+}
+`,
+  'app/orders/audit.service.ts': `
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+
+@Injectable({ providedIn: 'root' })
+export class AuditService {
+  private http = inject(HttpClient);
+
+  log(action: string) {
+    return this.http.post('/api/audit', { action });
+  }
+
+  purge() {
+    return this.http.delete('/api/audit');
+  }
+}
+`
+};
+
+function describeCalls(route: RouteReachability): string[] {
+  return route.httpCalls.map(call => `${call.owner}.${call.caller} ${call.method}`).sort();
+}
+
+function assertReachability(projectPath: string): void {
+  const analysis = new RouteReachabilityAnalyzer(projectPath).analyze('/orders/:id');
+  assert.strictEqual(analysis.routes.length, 1);
+
+  const route = analysis.routes[0];
+  assert.deepStrictEqual(route.components.map(c => c.name), ['OrderDetailComponent']);
+  assert.deepStrictEqual(route.components[0].children.map(c => c.name), ['OrderItemsComponent']);
+  assert.deepStrictEqual(route.services.map(s => s.token).sort(), ['AuditService', 'AuthService', 'HttpClient', 'OrdersService']);
+  assert.deepStrictEqual(route.httpCalls.map(c => c.owner).sort().filter((owner, i, all) => all.indexOf(owner) === i),
+    ['AuditService', 'AuthService', 'OrderDetailComponent', 'OrderItemsComponent', 'OrdersService']);
+}
+
+function testWorkingDirectory(): void {
+  console.log('🧪 Testing route reachability\n');
+
+  const originalCwd = process.cwd();
+  withFixture('reachability', FIXTURE, ({ dir, projectPath }) => {
+    try {
+      console.log('Test 1: Absolute project path, working directory outside the project');
+      console.log('-'.repeat(40));
+      process.chdir(os.tmpdir());
+      assertReachability(projectPath);
+      console.log('✓ Components, services and HTTP calls are found');
+
+      console.log('\nTest 2: Relative project path (./src --route /orders/:id)');
+      console.log('-'.repeat(40));
+      process.chdir(dir);
+      assertReachability('./src');
+      console.log('✓ Components, services and HTTP calls are found');
+    } finally {
+      process.chdir(originalCwd);
+    }
+
+    console.log('\nTest 3: Only service methods called from the route are listed');
+    console.log('-'.repeat(40));
+    const analyzer = new RouteReachabilityAnalyzer(projectPath);
+    assert.deepStrictEqual(describeCalls(analyzer.analyze('/orders/:id').routes[0]), [
+      'AuditService.log POST', // getOrder() → this.audit.log()
+      'AuthService.check GET', // orderGuard
+      'OrderDetailComponent.load GET',
+      'OrderItemsComponent.load GET',
+      'OrdersService.getOrder GET', // load() → reload() → this.getOrder()
+      'OrdersService.getStatus GET' // テンプレートの orders.getStatus()
+    ]);
+    console.log('✓ deleteOrder(), logout() and purge() are not listed for /orders/:id');
+
+    const home = new RouteReachabilityAnalyzer(projectPath).analyze('/home').routes[0];
+    assert.deepStrictEqual(home.services.map(s => s.token).sort(), ['AuditService', 'HttpClient', 'OrdersService']);
+    assert.deepStrictEqual(home.httpCalls, []);
+    console.log('✓ /home injects OrdersService but lists no HTTP calls');
+
+    console.log('\n✅ All tests passed!\n');
+  });
+}
+
+testWorkingDirectory();
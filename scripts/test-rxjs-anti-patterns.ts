@@ -0,0 +1,90 @@
+#!/usr/bin/env ts-node
+
+/**
+ * test-rxjs-anti-patterns.ts
+ * 注入したサービス経由のHTTP書き込みを switchMap で包んだ場合の検出テスト
+ *
+ * Usage: npx ts-node scripts/test-rxjs-anti-patterns.ts
+ */
+
+import * as assert from 'assert';
+import { RxJSAnalyzer } from '../src/analyze-rxjs';
+import { FixtureFiles, withFixture } from './fixture';
+
+const FIXTURE: FixtureFiles = {
+  'app/orders/order.service.ts': `
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+
+@Injectable({ providedIn: 'root' })
+export class OrderService {
+  private http = inject(HttpClient);
+
+  getOrders() {
+    return this.http.get('/api/orders');
+  }
+
+  deleteOrder(id: string) {
+    return this.http.delete('/api/orders/' + id);
+  }
+}
+`,
+  'app/orders/orders.component.ts': `
+import { Component, inject } from '@angular/core';
+import { Subject, switchMap } from 'rxjs';
+import { OrderService } from './order.service';
+
+@Component({ selector: 'app-orders', standalone: true, template: '' })
+export class OrdersComponent {
+  private delete$ = new Subject<string>();
+  private refresh$ = new Subject<void>();
+
+  constructor(private orderService: OrderService) {}
+
+  deleted$ = this.delete$.pipe(switchMap(id => this.orderService.deleteOrder(id)));
+  orders$ = this.refresh$.pipe(switchMap(() => this.orderService.getOrders()));
+}
+`,
+  'app/orders/order-actions.component.ts': `
+import { Component, inject } from '@angular/core';
+import { Subject } from 'rxjs';
+import { switchMap as rxSwitchMap } from 'rxjs/operators';
+import { OrderService } from './order.service';
+
+@Component({ selector: 'app-order-actions', standalone: true, template: '' })
+export class OrderActionsComponent {
+  private orders = inject(OrderService);
+  private remove$ = new Subject<string>();
+
+  removed$ = this.remove$.pipe(rxSwitchMap(id => this.orders.deleteOrder(id)));
+}
+`
+};
+
+function testSwitchMapThroughService(): void {
+  console.log('🧪 Testing switchmap-http-write through injected services\n');
+
+  withFixture('rxjs', FIXTURE, ({ projectPath }) => {
+    const analysis = new RxJSAnalyzer(projectPath).analyze();
+    const writes = analysis.antiPatterns.filter(p => p.rule === 'switchmap-http-write');
+
+    console.log('Test 1: Constructor-injected service');
+    console.log('-'.repeat(40));
+    const component = writes.filter(p => p.owner === 'OrdersComponent');
+    assert.strictEqual(component.length, 1, 'only deleteOrder() is a write');
+    assert.strictEqual(component[0].line, 13);
+    assert.ok(component[0].message.includes('this.orderService.deleteOrder'));
+    console.log('✓ switchMap(() => this.orderService.deleteOrder(id)) is flagged, getOrders() is not');
+
+    console.log('\nTest 2: inject() service with an aliased operator');
+    console.log('-'.repeat(40));
+    const actions = writes.filter(p => p.owner === 'OrderActionsComponent');
+    assert.strictEqual(actions.length, 1);
+    assert.ok(actions[0].message.includes('this.orders.deleteOrder'));
+    console.log('✓ rxSwitchMap(() => this.orders.deleteOrder(id)) is flagged');
+
+    console.log('\n✅ All tests passed!\n');
+  });
+}
+
+testSwitchMapThroughService();
@@ -0,0 +1,74 @@
+#!/usr/bin/env ts-node
+
+/**
+ * test-rxjs-stream-graph.ts
+ * ストリームグラフのエッジ（別名importしたオペレーターの表示名、takeUntil の通知元）のテスト
+ *
+ * Usage: npx ts-node scripts/test-rxjs-stream-graph.ts
+ */
+
+import * as assert from 'assert';
+import { RxJSAnalyzer, generateMermaidGraph } from '../src/analyze-rxjs';
+import { FixtureFiles, withFixture } from './fixture';
+
+const FIXTURE: FixtureFiles = {
+  'app/cart/cart.store.ts': `
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { map as rxMap } from 'rxjs/operators';
+import * as ops from 'rxjs/operators';
+
+@Injectable({ providedIn: 'root' })
+export class CartStore {
+  private items = new BehaviorSubject<string[]>([]);
+  count$ = this.items.pipe(rxMap(items => items.length), ops.distinctUntilChanged());
+}
+`,
+  'app/cart/cart.component.ts': `
+import { Component, OnDestroy } from '@angular/core';
+import { Subject, takeUntil } from 'rxjs';
+import { CartStore } from './cart.store';
+
+@Component({ selector: 'app-cart', standalone: true, template: '' })
+export class CartComponent implements OnDestroy {
+  private destroy$ = new Subject<void>();
+  count = 0;
+
+  constructor(private store: CartStore) {
+    this.store.count$.pipe(takeUntil(this.destroy$)).subscribe(count => this.count = count);
+  }
+
+  ngOnDestroy() {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+}
+`
+};
+
+function testStreamGraph(): void {
+  console.log('🧪 Testing stream graph edges\n');
+
+  withFixture('streams', FIXTURE, ({ projectPath }) => {
+    const graph = new RxJSAnalyzer(projectPath).analyze().streamGraph;
+    const edge = (from: string, to: string) => graph.edges.filter(e => e.from === from && e.to === to);
+
+    console.log('Test 1: Aliased operators are labelled with their RxJS names');
+    console.log('-'.repeat(40));
+    const derived = edge('CartStore.items', 'CartStore.count$');
+    assert.strictEqual(derived.length, 1);
+    assert.deepStrictEqual(derived[0].operators, ['map', 'distinctUntilChanged']);
+    console.log('✓ rxMap / ops.distinctUntilChanged are shown as map → distinctUntilChanged');
+
+    console.log('\nTest 2: takeUntil() notifier is not a subscriber');
+    console.log('-'.repeat(40));
+    assert.deepStrictEqual(edge('CartStore.count$', 'CartComponent').map(e => e.kind), ['subscribe']);
+    assert.deepStrictEqual(edge('CartComponent.destroy$', 'CartComponent').map(e => e.kind), ['notifier']);
+    assert.ok(generateMermaidGraph(graph).includes('-.-x|"notifier"|'));
+    console.log('✓ destroy$ is linked with a notifier edge');
+
+    console.log('\n✅ All tests passed!\n');
+  });
+}
+
+testStreamGraph();
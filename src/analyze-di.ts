@@ -0,0 +1,864 @@
+#!/usr/bin/env ts-node
+
+/**
+ * analyze-di.ts
+ * インジェクタツリー（platform / root / ルート / 遅延NgModule / コンポーネント）を構築し、
+ * 各注入箇所でどのインジェクタがインスタンスを供給するかを解決
+ *
+ * Usage: npx ts-node src/analyze-di.ts <project-dir>
+ */
+
+import * as fs from 'fs';
+import { ProjectModel, ClassFact } from './utils/project-model';
+import { getMetadataProperty, readString, parseLazyImport } from './utils/angular-metadata';
+import { DeclarationIndex } from './utils/angular-declarations';
+import { SelectorIndex } from './utils/selector-index';
+import {
+  ProviderDefinition,
+  InjectionPoint,
+  parseProviders,
+  createProviderResolver,
+  extractInjectionPoints,
+  findInjectCalls,
+  findInjectionTokens
+} from './utils/di-providers';
+import { parseTemplate, getTemplateElements } from './utils/template-parser';
+import { TemplateUsageAnalyzer } from './analyze-template-usage';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
+
+// ==================== Interfaces ====================
+
+export interface DIAnalysis {
+  injectors: InjectorNode[];
+  registrations: ProviderRegistration[];
+  injections: ResolvedInjection[];
+  multipleProvisions: MultipleProvision[];
+  summary: {
+    totalInjectors: number;
+    totalRegistrations: number;
+    totalInjections: number;
+    multipleProvisionsCount: number;
+    unresolvedCount: number;
+  };
+}
+
+export interface InjectorNode {
+  id: string;
+  kind: 'platform' | 'root' | 'route' | 'module' | 'component' | 'directive';
+  name: string;
+  parent: string | null; // 要素インジェクタの場合は環境インジェクタ
+  file?: string;
+}
+
+export interface ProviderRegistration extends ProviderDefinition {
+  injector: string;
+  source: 'providedIn' | 'providers' | 'viewProviders' | 'bootstrap' | 'route' | 'platform';
+  via?: string; // 登録元（NgModule名、ApplicationConfig変数名など）
+  file: string;
+}
+
+export interface ResolvedInjection extends InjectionPoint {
+  consumer: string;
+  consumerKind: 'component' | 'directive' | 'service' | 'pipe' | 'module' | 'function';
+  file: string;
+  suppliers: string[]; // 供給するインジェクタID（描画位置によって複数）
+  status: 'resolved' | 'ambiguous' | 'external' | 'optional' | 'unresolved';
+}
+
+export interface MultipleProvision {
+  token: string;
+  registrations: ProviderRegistration[];
+}
+
+// ==================== DI Analyzer ====================
+
+const CONSUMER_KINDS: Record<string, ResolvedInjection['consumerKind']> = {
+  Component: 'component',
+  Directive: 'directive',
+  Injectable: 'service',
+  Pipe: 'pipe',
+  NgModule: 'module'
+};
+
+const PLATFORM_ID = 'platform';
+const ROOT_ID = 'root';
+
+export class DependencyInjectionAnalyzer {
+  private projectPath: string;
+  private model: ProjectModel;
+  private declarations: DeclarationIndex;
+  private injectors = new Map<string, InjectorNode>();
+  private registrations: ProviderRegistration[] = [];
+  private injections: ResolvedInjection[] = [];
+  private routedComponents = new Map<string, string>(); // コンポーネント名 → ルートの環境インジェクタ
+  private lazyModules = new Map<string, string>(); // NgModule名 → 遅延ロード時の親インジェクタ
+  private templateParents: Map<string, Set<string>> | null = null;
+  private environmentCache = new Map<string, string>();
+
+  constructor(projectPath: string, model?: ProjectModel) {
+    this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
+    this.declarations = new DeclarationIndex(this.model);
+  }
+
+  analyze(): DIAnalysis {
+    console.log(`Analyzing dependency injection in: ${this.projectPath}\n`);
+
+    const files = this.model.getTypeScriptFiles();
+    console.log(`Analyzing ${files.length} files...\n`);
+
+    this.getRegistrations();
+    for (const file of files) {
+      this.collectInjectionSites(file);
+    }
+
+    const injections = this.injections.map(injection => this.resolveInjection(injection));
+    const multipleProvisions = this.findMultipleProvisions();
+
+    return {
+      injectors: Array.from(this.injectors.values()),
+      registrations: this.registrations,
+      injections,
+      multipleProvisions,
+      summary: {
+        totalInjectors: this.injectors.size,
+        totalRegistrations: this.registrations.length,
+        totalInjections: injections.length,
+        multipleProvisionsCount: multipleProvisions.length,
+        unresolvedCount: injections.filter(i => i.status === 'unresolved').length
+      }
+    };
+  }
+
+  /**
+   * インジェクタツリーを構築し、全プロバイダ登録を返す
+   */
+  getRegistrations(): ProviderRegistration[] {
+    if (this.injectors.size > 0) {
+      return this.registrations;
+    }
+
+    this.addInjector({ id: PLATFORM_ID, kind: 'platform', name: 'Platform', parent: null });
+    this.addInjector({ id: ROOT_ID, kind: 'root', name: 'Root', parent: PLATFORM_ID });
+
+    const files = this.model.getTypeScriptFiles();
+
+    // 遅延ロードされるファイルは、読み込み元のルートを処理するときに親インジェクタ付きで処理する
+    const lazyFiles = this.collectLazyFiles(files);
+    const processedRouteFiles = new Set<string>();
+    for (const file of files.filter(f => !lazyFiles.has(f))) {
+      this.collectRoutes(file, ROOT_ID, processedRouteFiles);
+    }
+    for (const file of files) {
+      this.collectRoutes(file, ROOT_ID, processedRouteFiles);
+    }
+
+    for (const file of files) {
+      this.collectBootstrapProviders(file);
+      for (const cls of this.model.getFacts(file).classes) {
+        this.collectClassProviders(cls, file);
+      }
+    }
+
+    return this.registrations;
+  }
+
+  getInjector(id: string): InjectorNode | undefined {
+    return this.injectors.get(id);
+  }
+
+  private addInjector(node: InjectorNode): InjectorNode {
+    if (!this.injectors.has(node.id)) {
+      this.injectors.set(node.id, node);
+    }
+    return this.injectors.get(node.id)!;
+  }
+
+  private register(
+    providers: ProviderDefinition[],
+    injector: string,
+    source: ProviderRegistration['source'],
+    file: string,
+    via?: string
+  ): void {
+    providers.forEach(provider => {
+      const registration = { ...provider, injector, source, via, file: this.model.relative(provider.file ?? file) };
+      // 同じ配列を ApplicationConfig と bootstrapApplication の両方から参照している場合などは1回だけ登録する
+      const duplicate = this.registrations.some(r =>
+        r.injector === injector && r.token === registration.token && r.file === registration.file && r.line === registration.line
+      );
+      if (!duplicate) {
+        this.registrations.push(registration);
+      }
+    });
+  }
+
+  /**
+   * providers 配列を読み取る（[...CORE_PROVIDERS] や provideApi() はプロジェクト内の定義まで辿る）
+   */
+  private readProviders(node: any, file: string): ProviderDefinition[] {
+    return parseProviders(node, createProviderResolver(this.model, file));
+  }
+
+  // ==================== Routes ====================
+
+  /**
+   * loadChildren / loadComponent の import() 先ファイル
+   */
+  private collectLazyFiles(files: string[]): Set<string> {
+    const lazyFiles = new Set<string>();
+
+    for (const file of files) {
+      walk(this.model.getAst(file), node => {
+        if (node.type === 'Property' && ['loadChildren', 'loadComponent'].includes(node.key?.name)) {
+          const lazy = parseLazyImport(node.value);
+          const resolved = lazy && this.model.getModuleResolver().resolve(lazy.source, file);
+          if (resolved) {
+            lazyFiles.add(resolved);
+          }
+        }
+      });
+    }
+
+    return lazyFiles;
+  }
+
+  /**
+   * ルート定義（path を持つオブジェクト）から providers とルーティング先を収集
+   */
+  private collectRoutes(file: string, parentInjector: string, processed: Set<string>): void {
+    if (processed.has(file)) return;
+    processed.add(file);
+
+    const visitRoute = (route: any, parent: string, parentPath: string): void => {
+      const routePath = readString(getMetadataProperty(route, 'path')) ?? '';
+      const fullPath = [parentPath, routePath].filter(p => p).join('/');
+      let injector = parent;
+
+      const providers = this.readProviders(getMetadataProperty(route, 'providers'), file);
+      if (providers.length > 0) {
+        injector = `route:/${fullPath}`;
+        this.addInjector({ id: injector, kind: 'route', name: `/${fullPath}`, parent, file: this.model.relative(file) });
+        this.register(providers, injector, 'route', file);
+      }
+
+      const component = getMetadataProperty(route, 'component');
+      if (component?.type === 'Identifier') {
+        this.routedComponents.set(component.name, injector);
+      }
+
+      for (const key of ['loadComponent', 'loadChildren']) {
+        const lazy = parseLazyImport(getMetadataProperty(route, key));
+        if (!lazy) continue;
+
+        const target = this.model.getModuleResolver().resolve(lazy.source, file);
+        const targetClass = target ? this.model.getFacts(target).classes.find(c => c.name === lazy.exportName) : undefined;
+
+        if (key === 'loadComponent') {
+          if (lazy.exportName) this.routedComponents.set(lazy.exportName, injector);
+        } else if (targetClass?.decorators.some(d => d.name === 'NgModule')) {
+          // 遅延NgModuleは専用のインジェクタを持つ
+          const moduleInjector = `module:${targetClass.name}`;
+          this.addInjector({ id: moduleInjector, kind: 'module', name: targetClass.name, parent: injector, file: this.model.relative(target!) });
+          this.lazyModules.set(targetClass.name, moduleInjector);
+          this.collectRoutes(target!, moduleInjector, processed);
+        } else if (target) {
+          this.collectRoutes(target, injector, processed);
+        }
+      }
+
+      const children = getMetadataProperty(route, 'children');
+      children?.elements?.forEach((child: any) => {
+        if (child?.type === 'ObjectExpression') visitRoute(child, injector, fullPath);
+      });
+    };
+
+    walk(this.model.getAst(file), node => {
+      if (node.type === 'ArrayExpression' && node.elements.some((el: any) => isRouteObject(el))) {
+        node.elements.filter((el: any) => isRouteObject(el)).forEach((el: any) => visitRoute(el, parentInjector, ''));
+        return false;
+      }
+      return true;
+    });
+  }
+
+  // ==================== Providers ====================
+
+  /**
+   * InjectionToken / bootstrapApplication / ApplicationConfig / platformBrowserDynamic のプロバイダ
+   */
+  private collectBootstrapProviders(file: string): void {
+    // new InjectionToken('...', { providedIn: 'root', factory }) は自身で提供される
+    findInjectionTokens(this.model.getAst(file))
+      .filter(token => token.providedIn)
+      .forEach(token => {
+        this.register(
+          [{ token: token.name, shape: 'useFactory', multi: false, line: token.line }],
+          token.providedIn === 'platform' ? PLATFORM_ID : ROOT_ID,
+          'providedIn',
+          file
+        );
+      });
+
+    walk(this.model.getAst(file), node => {
+      if (node.type === 'VariableDeclarator' && node.id?.typeAnnotation?.typeAnnotation?.typeName?.name === 'ApplicationConfig') {
+        this.register(this.readProviders(getMetadataProperty(node.init, 'providers'), file), ROOT_ID, 'bootstrap', file, node.id.name);
+      }
+
+      if (node.type === 'CallExpression' && node.callee.type === 'Identifier') {
+        if (node.callee.name === 'bootstrapApplication' && node.arguments[1]) {
+          // bootstrapApplication(App, appConfig) は設定オブジェクトの定義まで辿る
+          // （型注釈付きの ApplicationConfig と重複する登録は register でまとめる）
+          const config = node.arguments[1].type === 'ObjectExpression'
+            ? { node: node.arguments[1], file }
+            : createProviderResolver(this.model, file)(node.arguments[1]);
+          if (config?.node?.type === 'ObjectExpression') {
+            const via = node.arguments[1].type === 'Identifier' ? node.arguments[1].name : 'bootstrapApplication';
+            this.register(this.readProviders(getMetadataProperty(config.node, 'providers'), config.file), ROOT_ID, 'bootstrap', config.file, via);
+          }
+        }
+        if (/^platform\w*$/.test(node.callee.name) && node.arguments[0]?.type === 'ArrayExpression') {
+          this.register(this.readProviders(node.arguments[0], file), PLATFORM_ID, 'platform', file, node.callee.name);
+        }
+      }
+      return true;
+    });
+  }
+
+  private collectClassProviders(cls: ClassFact, file: string): void {
+    for (const decorator of cls.decorators) {
+      const metadata = decorator.metadata;
+
+      if (decorator.name === 'Injectable') {
+        const providedIn = getMetadataProperty(metadata, 'providedIn');
+        if (!providedIn) continue;
+
+        const scope = readString(providedIn) ?? (providedIn.type === 'Identifier' ? providedIn.name : null);
+        if (!scope || scope === 'null') continue;
+
+        // providedIn: 'any' は遅延モジュールごとにインスタンスが作られるが、ここではルートとして扱う
+        const injector = scope === 'platform'
+          ? PLATFORM_ID
+          : scope === 'root' || scope === 'any' ? ROOT_ID : this.lazyModules.get(scope) || ROOT_ID;
+        this.register(
+          [{ token: cls.name, shape: 'class', multi: false, line: cls.line }],
+          injector,
+          'providedIn',
+          file,
+          scope === 'root' || scope === 'platform' ? undefined : scope
+        );
+      }
+
+      if (decorator.name === 'NgModule') {
+        // 遅延ロードされないNgModuleのプロバイダはルートインジェクタに統合される
+        const injector = this.lazyModules.get(cls.name) || ROOT_ID;
+        this.register(this.readProviders(getMetadataProperty(metadata, 'providers'), file), injector, 'providers', file, cls.name);
+      }
+
+      if (decorator.name === 'Component' || decorator.name === 'Directive') {
+        const providers = this.readProviders(getMetadataProperty(metadata, 'providers'), file);
+        const viewProviders = this.readProviders(getMetadataProperty(metadata, 'viewProviders'), file);
+        if (providers.length === 0 && viewProviders.length === 0) continue;
+
+        const injector = `${decorator.name.toLowerCase()}:${cls.name}`;
+        this.addInjector({
+          id: injector,
+          kind: decorator.name === 'Component' ? 'component' : 'directive',
+          name: cls.name,
+          parent: null,
+          file: this.model.relative(file)
+        });
+        this.register(providers, injector, 'providers', file, cls.name);
+        this.register(viewProviders, injector, 'viewProviders', file, cls.name);
+      }
+    }
+  }
+
+  // ==================== Injection Sites ====================
+
+  private collectInjectionSites(file: string): void {
+    const facts = this.model.getFacts(file);
+    const relativePath = this.model.relative(file);
+
+    for (const cls of facts.classes) {
+      const decorator = cls.decorators.find(d => CONSUMER_KINDS[d.name]);
+      if (!decorator) continue;
+
+      extractInjectionPoints(cls.node).forEach(point => {
+        this.injections.push({
+          ...point,
+          consumer: cls.name,
+          consumerKind: CONSUMER_KINDS[decorator.name],
+          file: relativePath,
+          suppliers: [],
+          status: 'unresolved'
+        });
+      });
+    }
+
+    // クラス外の inject()（関数型ガード、インターセプタ、ファクトリなど）
+    const ast = this.model.getAst(file);
+    for (const statement of ast?.body || []) {
+      const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+      if (!declaration || declaration.type === 'ClassDeclaration') continue;
+
+      const name = declaration.id?.name ?? declaration.declarations?.[0]?.id?.name ?? '(module)';
+      findInjectCalls(declaration).forEach(point => {
+        this.injections.push({
+          ...point,
+          consumer: name,
+          consumerKind: 'function',
+          file: relativePath,
+          suppliers: [],
+          status: 'unresolved'
+        });
+      });
+    }
+  }
+
+  // ==================== Resolution ====================
+
+  private resolveInjection(injection: ResolvedInjection): ResolvedInjection {
+    const suppliers = new Set<string>();
+    const optional = injection.modifiers.includes('optional');
+    let scope: string[];
+
+    if (injection.consumerKind === 'component' || injection.consumerKind === 'directive') {
+      this.resolveFromElement(injection, suppliers);
+      scope = [this.findElementInjector(injection.consumer), this.getEnvironmentInjector(injection.consumer)]
+        .filter((id): id is string => !!id);
+    } else {
+      // サービスは自身が登録されたインジェクタから解決される
+      const hosts = this.registrations.filter(r =>
+        r.shape !== 'function' && (r.token === injection.consumer || (r.shape === 'useClass' && r.target === injection.consumer))
+      );
+      const starts = hosts.length > 0 ? Array.from(new Set(hosts.map(r => r.injector))) : [ROOT_ID];
+      scope = starts;
+
+      for (const start of starts) {
+        const node = this.injectors.get(start);
+        if (node && (node.kind === 'component' || node.kind === 'directive')) {
+          this.resolveFromElement({ ...injection, consumer: node.name }, suppliers);
+        } else {
+          this.addSupplier(this.resolveFromEnvironment(injection.token, start), suppliers);
+        }
+      }
+    }
+
+    const found = Array.from(suppliers).filter(s => s !== '');
+    let status: ResolvedInjection['status'];
+    if (found.length === 0) {
+      status = optional
+        ? 'optional'
+        : !this.isProjectToken(injection.token, injection.file)
+          ? 'external'
+          // 静的に読み取れないプロバイダが範囲内にあれば、そこで提供されている可能性がある
+          : this.hasOpaqueProviders(scope) ? 'ambiguous' : 'unresolved';
+    } else if (found.length > 1 || suppliers.has('')) {
+      // 描画位置によっては供給されない場合も含む
+      status = 'ambiguous';
+    } else {
+      status = 'resolved';
+    }
+
+    return { ...injection, suppliers: found, status };
+  }
+
+  /**
+   * 要素インジェクタ（コンポーネント → テンプレート上の親）を辿り、最後に環境インジェクタを探す
+   */
+  private resolveFromElement(injection: ResolvedInjection, suppliers: Set<string>): void {
+    const selfOnly = injection.modifiers.includes('self');
+    const hostOnly = injection.modifiers.includes('host');
+
+    const visit = (component: string, depth: number, visited: Set<string>): void => {
+      if (visited.has(component)) return;
+      const path = new Set(visited).add(component);
+
+      if (depth > 0 || !injection.modifiers.includes('skipSelf')) {
+        const elementInjector = this.findElementInjector(component);
+        if (elementInjector && this.providesToken(elementInjector, injection.token)) {
+          suppliers.add(elementInjector);
+          return;
+        }
+      }
+
+      if (selfOnly || (hostOnly && depth >= 1)) {
+        suppliers.add('');
+        return;
+      }
+
+      const parents = this.getTemplateParents().get(component);
+      if (!parents || parents.size === 0 || this.routedComponents.has(component)) {
+        this.addSupplier(this.resolveFromEnvironment(injection.token, this.getEnvironmentInjector(component)), suppliers);
+        if (!parents || parents.size === 0) return;
+      }
+
+      parents.forEach(parent => visit(parent, depth + 1, path));
+    };
+
+    visit(injection.consumer, 0, new Set());
+  }
+
+  private resolveFromEnvironment(token: string, start: string): string | null {
+    let current: string | null = start;
+    while (current) {
+      if (this.providesToken(current, token)) {
+        return current;
+      }
+      current = this.injectors.get(current)?.parent ?? null;
+    }
+    return null;
+  }
+
+  /**
+   * 指定したインジェクタから親方向に、中身を読み取れないプロバイダ（opaque）の登録があるか
+   */
+  private hasOpaqueProviders(starts: string[]): boolean {
+    return starts.some(start => {
+      for (let current: string | null = start; current; current = this.injectors.get(current)?.parent ?? null) {
+        const injector = current;
+        if (this.registrations.some(r => r.injector === injector && r.opaque)) return true;
+      }
+      return false;
+    });
+  }
+
+  private addSupplier(supplier: string | null, suppliers: Set<string>): void {
+    suppliers.add(supplier ?? '');
+  }
+
+  private providesToken(injector: string, token: string): boolean {
+    return this.registrations.some(r => r.injector === injector && r.token === token);
+  }
+
+  private findElementInjector(component: string): string | null {
+    for (const id of [`component:${component}`, `directive:${component}`]) {
+      if (this.injectors.has(id)) return id;
+    }
+    return null;
+  }
+
+  /**
+   * コンポーネントの環境インジェクタ（ルート / 遅延NgModule / テンプレート上の親 / ルート）
+   */
+  private getEnvironmentInjector(component: string, visited = new Set<string>()): string {
+    const cached = this.environmentCache.get(component);
+    if (cached) return cached;
+    if (visited.has(component)) return ROOT_ID;
+    visited.add(component);
+
+    let injector = this.routedComponents.get(component);
+
+    if (!injector) {
+      const declaration = this.declarations.getDeclarations().find(d => d.name === component);
+      const module = declaration ? this.declarations.findOwningModule(declaration) : null;
+      if (module && this.lazyModules.has(module.name)) {
+        injector = this.lazyModules.get(module.name);
+      }
+    }
+
+    if (!injector) {
+      const parents = Array.from(this.getTemplateParents().get(component) || []);
+      injector = parents.length > 0 ? this.getEnvironmentInjector(parents[0], visited) : ROOT_ID;
+    }
+
+    this.environmentCache.set(component, injector!);
+    return injector!;
+  }
+
+  /**
+   * コンポーネント/ディレクティブ名 → それをテンプレートで使っているコンポーネント
+   */
+  private getTemplateParents(): Map<string, Set<string>> {
+    if (this.templateParents) {
+      return this.templateParents;
+    }
+
+    this.templateParents = new Map();
+    const selectors = new SelectorIndex(this.model, this.declarations);
+
+    for (const host of this.declarations.getDeclarations().filter(d => d.kind === 'component' && d.file)) {
+      const template = new TemplateUsageAnalyzer(host.file!, this.model).extractTemplate();
+      if (!template.content) continue;
+
+      for (const element of getTemplateElements(parseTemplate(template.content))) {
+        for (const entry of selectors.matchElement(element)) {
+          if (!entry.file) continue;
+          if (!this.templateParents.has(entry.name)) {
+            this.templateParents.set(entry.name, new Set());
+          }
+          this.templateParents.get(entry.name)!.add(host.name);
+        }
+      }
+    }
+
+    return this.templateParents;
+  }
+
+  /**
+   * トークンがプロジェクト内で定義されているか（外部ライブラリのトークンは外部で提供されるとみなす）
+   */
+  private isProjectToken(token: string, relativeFile: string): boolean {
+    const file = this.model.getTypeScriptFiles().find(f => this.model.relative(f) === relativeFile);
+    if (!file) return false;
+
+    const facts = this.model.getFacts(file);
+    if (facts.classes.some(c => c.name === token)) return true;
+
+    const imported = facts.imports.find(imp => imp.specifiers.some(s => s.local === token));
+    if (imported) {
+      return !!this.model.getModuleResolver().resolve(imported.source, file);
+    }
+
+    // 同じファイルで定義された InjectionToken
+    let defined = false;
+    walk(this.model.getAst(file), node => {
+      if (node.type === 'VariableDeclarator' && node.id?.name === token) defined = true;
+      return !defined;
+    });
+    return defined;
+  }
+
+  private findMultipleProvisions(): MultipleProvision[] {
+    const byToken = new Map<string, ProviderRegistration[]>();
+
+    this.registrations
+      .filter(r => !r.multi && r.shape !== 'function')
+      .forEach(r => {
+        if (!byToken.has(r.token)) byToken.set(r.token, []);
+        byToken.get(r.token)!.push(r);
+      });
+
+    return Array.from(byToken.entries())
+      .filter(([, registrations]) => new Set(registrations.map(r => r.injector)).size > 1)
+      .map(([token, registrations]) => ({ token, registrations }));
+  }
+}
+
+function isRouteObject(node: any): boolean {
+  return node?.type === 'ObjectExpression' &&
+    ['path', 'component', 'loadComponent', 'loadChildren', 'redirectTo']
+      .some(key => getMetadataProperty(node, key)) &&
+    !getMetadataProperty(node, 'selector');
+}
+
+/**
+ * ASTを深さ優先で走査（visitor が false を返した場合は子を辿らない）
+ */
+function walk(root: any, visitor: (node: any) => boolean | void): void {
+  const traverse = (node: any): void => {
+    if (!node || typeof node !== 'object') return;
+    if (visitor(node) === false) return;
+
+    for (const key in node) {
+      if (key === 'parent' || key === 'loc' || key === 'range') continue;
+      const child = node[key];
+      if (Array.isArray(child)) {
+        child.forEach(traverse);
+      } else if (child && typeof child.type === 'string') {
+        traverse(child);
+      }
+    }
+  };
+
+  traverse(root);
+}
+
+// ==================== Output Formatters ====================
+
+function describeInjector(analysis: DIAnalysis, id: string): string {
+  const node = analysis.injectors.find(i => i.id === id);
+  if (!node) return id;
+  switch (node.kind) {
+    case 'platform': return 'Platform';
+    case 'root': return 'Root';
+    case 'route': return `Route ${node.name}`;
+    case 'module': return `NgModule ${node.name}`;
+    default: return `${node.name} (element)`;
+  }
+}
+
+function formatInjectorTree(analysis: DIAnalysis): string {
+  let md = '';
+
+  const render = (node: InjectorNode, depth: number): void => {
+    const tokens = analysis.registrations
+      .filter(r => r.injector === node.id)
+      .map(r => `${r.token}${r.multi ? ' (multi)' : ''}${r.source === 'viewProviders' ? ' (view)' : ''}`);
+
+    md += `${'  '.repeat(depth)}- **${describeInjector(analysis, node.id)}**`;
+    md += node.file ? ` — ${node.file}` : '';
+    md += tokens.length > 0 ? `: ${tokens.join(', ')}` : '';
+    md += `\n`;
+
+    analysis.injectors
+      .filter(child => child.parent === node.id)
+      .forEach(child => render(child, depth + 1));
+  };
+
+  analysis.injectors.filter(node => node.parent === null && node.kind === 'platform').forEach(node => render(node, 0));
+
+  const elementInjectors = analysis.injectors.filter(node => node.kind === 'component' || node.kind === 'directive');
+  if (elementInjectors.length > 0) {
+    md += `\n**Element Injectors**\n\n`;
+    elementInjectors.forEach(node => render(node, 0));
+  }
+
+  return md;
+}
+
+function formatMarkdown(analysis: DIAnalysis): string {
+  let md = `# Dependency Injection Analysis\n\n`;
+
+  md += `**Analyzed At**: ${new Date().toISOString()}\n\n`;
+
+  md += `## Summary\n\n`;
+  md += `- **Injectors**: ${analysis.summary.totalInjectors}\n`;
+  md += `- **Provider Registrations**: ${analysis.summary.totalRegistrations}\n`;
+  md += `- **Injection Sites**: ${analysis.summary.totalInjections}\n`;
+  md += `- **Provided in Multiple Places**: ${analysis.summary.multipleProvisionsCount}\n`;
+  md += `- **Unresolved Injections**: ${analysis.summary.unresolvedCount}\n\n`;
+
+  md += `## Injector Tree\n\n`;
+  md += formatInjectorTree(analysis);
+  md += `\n`;
+
+  if (analysis.multipleProvisions.length > 0) {
+    md += `## ⚠️ Provided in Multiple Places (${analysis.multipleProvisions.length})\n\n`;
+    md += `Each injector creates its own instance.\n\n`;
+    md += `| Token | Injector | Source | File |\n`;
+    md += `|-------|----------|--------|------|\n`;
+    analysis.multipleProvisions.forEach(multiple => {
+      multiple.registrations.forEach(r => {
+        md += `| ${multiple.token} | ${describeInjector(analysis, r.injector)} | ${r.source}${r.via ? ` (${r.via})` : ''} | ${r.file}:${r.line} |\n`;
+      });
+    });
+    md += `\n`;
+  }
+
+  const unresolved = analysis.injections.filter(i => i.status === 'unresolved');
+  if (unresolved.length > 0) {
+    md += `## 🔴 Unresolved Injections (${unresolved.length})\n\n`;
+    md += `No injector in scope provides these tokens (NullInjectorError at runtime).\n\n`;
+    unresolved.forEach(i => {
+      md += `- **${i.token}** in ${i.consumer} (${i.file}:${i.line})\n`;
+    });
+    md += `\n`;
+  }
+
+  if (analysis.injections.length > 0) {
+    md += `## Injection Resolution\n\n`;
+    md += `| Consumer | Kind | Token | Injection | Supplied By | Status |\n`;
+    md += `|----------|------|-------|-----------|-------------|--------|\n`;
+    analysis.injections.forEach(i => {
+      const suppliers = i.suppliers.length > 0 ? i.suppliers.map(s => describeInjector(analysis, s)).join(' / ') : '-';
+      const modifiers = i.modifiers.length > 0 ? ` (${i.modifiers.join(', ')})` : '';
+      md += `| ${i.consumer} | ${i.consumerKind} | ${i.token} | ${i.kind}${modifiers} | ${suppliers} | ${i.status} |\n`;
+    });
+    md += `\n`;
+  }
+
+  return md;
+}
+
+function formatConsole(analysis: DIAnalysis): void {
+  console.log(`\n📊 Dependency Injection Analysis\n`);
+
+  console.log(`Summary:`);
+  console.log(`  - Injectors: ${analysis.summary.totalInjectors}`);
+  console.log(`  - Provider Registrations: ${analysis.summary.totalRegistrations}`);
+  console.log(`  - Injection Sites: ${analysis.summary.totalInjections}`);
+  console.log(`  - Provided in Multiple Places: ${analysis.summary.multipleProvisionsCount}`);
+  console.log(`  - Unresolved Injections: ${analysis.summary.unresolvedCount}\n`);
+
+  if (analysis.multipleProvisions.length > 0) {
+    console.log(`⚠️  Provided in Multiple Places:`);
+    analysis.multipleProvisions.forEach(multiple => {
+      const injectors = Array.from(new Set(multiple.registrations.map(r => describeInjector(analysis, r.injector))));
+      console.log(`  - ${multiple.token}: ${injectors.join(', ')}`);
+    });
+    console.log('');
+  }
+
+  const unresolved = analysis.injections.filter(i => i.status === 'unresolved');
+  if (unresolved.length > 0) {
+    console.log(`🔴 Unresolved Injections:`);
+    unresolved.forEach(i => {
+      console.log(`  - ${i.token} in ${i.consumer} (${i.file}:${i.line})`);
+    });
+    console.log('');
+  }
+}
+
+// ==================== Main ====================
+
+function main(): void {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help')) {
+    console.log(`
+Usage: npx ts-node src/analyze-di.ts <project-dir> [options]
+
+Options:
+  --output <format>  Output format: md, json (default: md)
+  --save <path>      Save output to file
+  --project <names>  Analyze the given angular.json / project.json projects (comma separated)
+  --workspace        Analyze every project in the workspace
+  --help             Show this help message
+
+Examples:
+  npx ts-node src/analyze-di.ts ./src
+  npx ts-node src/analyze-di.ts ./src --save di-analysis.md
+  npx ts-node src/analyze-di.ts ./src --output json --save di-analysis.json
+`);
+    process.exit(0);
+  }
+
+  const projectPath = args[0];
+  const outputFormat = args.includes('--output') ? args[args.indexOf('--output') + 1] : 'md';
+  const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
+
+  if (!fs.existsSync(projectPath)) {
+    console.error(`Error: Project directory "${projectPath}" does not exist`);
+    process.exit(1);
+  }
+
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectPath, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const results: Array<{ target: AnalysisTarget; analysis: DIAnalysis }> = [];
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    const analysis = new DependencyInjectionAnalyzer(target.path, model).analyze();
+
+    if (target.project) {
+      console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===`);
+    }
+    formatConsole(analysis);
+    results.push({ target, analysis });
+  }
+
+  if (savePath) {
+    const output = outputFormat === 'json'
+      ? JSON.stringify(
+        targets.some(t => t.project)
+          ? results.map(r => ({ project: r.target.project!.name, type: r.target.project!.type, analysis: r.analysis }))
+          : results[0].analysis,
+        null,
+        2
+      )
+      : results.map(r => formatProjectHeading(r.target) + formatMarkdown(r.analysis)).join('\n');
+    fs.writeFileSync(savePath, output);
+    console.log(`✓ Saved to ${savePath}\n`);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,629 @@
+#!/usr/bin/env ts-node
+
+/**
+ * analyze-lazy-chunks.ts
+ * importグラフと遅延ロード境界（loadChildren / loadComponent / @defer / import()）から、
+ * ビルドせずに初期バンドルと各遅延チャンクに入るファイルを推定
+ *
+ * Usage: npx ts-node src/analyze-lazy-chunks.ts <project-dir>
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectModel } from './utils/project-model';
+import { DeclarationIndex } from './utils/angular-declarations';
+import { getMetadataProperty, readString, readStringList, parseLazyImport } from './utils/angular-metadata';
+import { parseTemplate, walkTemplate, matchesSelector } from './utils/template-parser';
+import { TemplateUsageAnalyzer } from './analyze-template-usage';
+import { RoutingAnalyzer, RouteAnalysis } from './analyze-routing';
+import { buildGraph } from './graph-ts-dependencies';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
+
+// ==================== Interfaces ====================
+
+export interface ChunkAnalysis {
+  entry: string | null;
+  chunks: ChunkEstimate[];
+  boundaries: LazyBoundary[];
+  eagerLeaks: EagerLeak[];
+  unbundledFiles: string[]; // エントリからも遅延境界からも到達しないファイル
+  summary: {
+    totalFiles: number;
+    initialFiles: number;
+    initialSize: number;
+    lazyChunks: number;
+    lazySize: number;
+    sharedSize: number;
+    eagerLeakCount: number;
+  };
+}
+
+export interface ChunkEstimate {
+  name: string;
+  kind: 'initial' | 'lazy' | 'shared';
+  entry?: string; // 遅延チャンクの起点ファイル
+  loadedBy: string[]; // このチャンクを読み込む境界（共有チャンクの場合は共有元のチャンク名）
+  files: ChunkFile[];
+  packages: string[]; // 初期バンドルにない外部パッケージ
+  size: number; // バイト数（ソース + templateUrl / styleUrls）
+}
+
+export interface ChunkFile {
+  file: string;
+  size: number;
+}
+
+export interface LazyBoundary {
+  kind: 'loadChildren' | 'loadComponent' | 'defer' | 'dynamic-import';
+  label: string; // ルートのフルパス、@defer のコンポーネント名など
+  from: string;
+  line: number;
+  target: string | null; // 解決できなかった場合はnull
+}
+
+export interface EagerLeak {
+  boundary: LazyBoundary;
+  file: string; // 初期バンドルに入ってしまう遅延側のファイル
+  reason: 'entry' | 'feature'; // entry: 境界の読み込み先ファイル自体 / feature: 同じ機能ディレクトリのファイル
+  chain: string[]; // エントリからのimport経路
+}
+
+// ==================== Lazy Chunk Analyzer ====================
+
+const ENTRY_CALLS = ['bootstrapApplication', 'bootstrapModule'];
+
+export class LazyChunkAnalyzer {
+  private projectPath: string;
+  private model: ProjectModel;
+  private edges = new Map<string, string[]>(); // 実行時に残る静的import
+  private externals = new Map<string, string[]>();
+  private boundaries: LazyBoundary[] = [];
+  private sizes = new Map<string, number>();
+
+  constructor(projectPath: string, model?: ProjectModel) {
+    this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
+  }
+
+  analyze(entryPath?: string): ChunkAnalysis {
+    console.log(`Estimating lazy chunks in: ${this.projectPath}\n`);
+
+    const files = this.model.getTypeScriptFiles().filter(file => !file.endsWith('.spec.ts'));
+    this.buildEdges(files);
+    this.collectRouteBoundaries(files);
+    this.collectDeferBoundaries();
+
+    const entry = entryPath ? path.resolve(entryPath) : this.findEntry(files);
+    const initial = entry ? this.closure(entry, new Set()) : new Set<string>();
+
+    const eagerLeaks: EagerLeak[] = [];
+    const lazyChunks = new Map<string, { boundaries: LazyBoundary[]; files: Set<string> }>();
+    const processed = new Set<string>();
+    const queue = [...initial];
+
+    // 初期バンドルから到達する境界を順に辿る（遅延チャンク内の境界も含む）
+    while (queue.length > 0) {
+      const file = queue.shift()!;
+      if (processed.has(file)) continue;
+      processed.add(file);
+
+      for (const boundary of this.boundaries.filter(b => b.from === this.model.relative(file) && b.target)) {
+        const target = path.join(this.model.projectPath, boundary.target!);
+
+        if (initial.has(target)) {
+          eagerLeaks.push({ boundary, file: boundary.target!, reason: 'entry', chain: this.findChain(entry!, target, initial) });
+          continue;
+        }
+        eagerLeaks.push(...this.findFeatureLeaks(boundary, target, entry!, initial));
+
+        if (!lazyChunks.has(target)) {
+          const chunkFiles = this.closure(target, initial);
+          lazyChunks.set(target, { boundaries: [], files: chunkFiles });
+          queue.push(...chunkFiles);
+        }
+        lazyChunks.get(target)!.boundaries.push(boundary);
+      }
+    }
+
+    const chunks = this.buildChunks(initial, lazyChunks);
+    const bundled = new Set([...initial, ...Array.from(lazyChunks.values()).flatMap(chunk => [...chunk.files])]);
+    const sum = (kind: ChunkEstimate['kind']) => chunks.filter(c => c.kind === kind).reduce((total, c) => total + c.size, 0);
+
+    return {
+      entry: entry ? this.model.relative(entry) : null,
+      chunks,
+      boundaries: this.boundaries,
+      eagerLeaks,
+      unbundledFiles: files.filter(file => !bundled.has(file)).map(file => this.model.relative(file)),
+      summary: {
+        totalFiles: files.length,
+        initialFiles: initial.size,
+        initialSize: sum('initial'),
+        lazyChunks: chunks.filter(c => c.kind === 'lazy').length,
+        lazySize: sum('lazy'),
+        sharedSize: sum('shared'),
+        eagerLeakCount: eagerLeaks.length
+      }
+    };
+  }
+
+  // ==================== Import Graph ====================
+
+  /**
+   * graph-ts-dependencies.ts のグラフから、型のみのimportと外部パッケージを除いたエッジ
+   */
+  private buildEdges(files: string[]): void {
+    const graph = buildGraph(this.projectPath, undefined, this.model);
+    const known = new Set(files);
+
+    graph.nodes.forEach((node, file) => {
+      const runtimeImports = node.imports.filter(importPath => !node.typeImports.includes(importPath));
+      this.edges.set(file, runtimeImports.filter(importPath => known.has(importPath)));
+      this.externals.set(file, runtimeImports.filter(importPath => !importPath.startsWith('/') && !importPath.startsWith('.')));
+    });
+  }
+
+  private closure(start: string, exclude: Set<string>): Set<string> {
+    const result = new Set<string>();
+    const stack = [start];
+
+    while (stack.length > 0) {
+      const file = stack.pop()!;
+      if (result.has(file) || exclude.has(file) || !this.edges.has(file)) continue;
+      result.add(file);
+      stack.push(...this.edges.get(file)!);
+    }
+
+    return result;
+  }
+
+  /**
+   * エントリから対象ファイルまでの最短のimport経路
+   */
+  private findChain(entry: string, target: string, within: Set<string>): string[] {
+    const parents = new Map<string, string | null>([[entry, null]]);
+    const queue = [entry];
+
+    while (queue.length > 0) {
+      const file = queue.shift()!;
+      if (file === target) break;
+      for (const next of this.edges.get(file) || []) {
+        if (within.has(next) && !parents.has(next)) {
+          parents.set(next, file);
+          queue.push(next);
+        }
+      }
+    }
+
+    const chain: string[] = [];
+    for (let file: string | null | undefined = target; file; file = parents.get(file)) {
+      chain.unshift(this.model.relative(file));
+    }
+    return chain;
+  }
+
+  /**
+   * 遅延ロード先と同じ機能ディレクトリにあるのに、初期バンドルにも静的importされているファイル
+   */
+  private findFeatureLeaks(boundary: LazyBoundary, target: string, entry: string, initial: Set<string>): EagerLeak[] {
+    const featureDir = path.dirname(target) + path.sep;
+    const fromFile = path.join(this.model.projectPath, boundary.from);
+
+    // 境界の読み込み元と同じディレクトリ（app/ 直下など）は機能ディレクトリとみなさない
+    if (fromFile.startsWith(featureDir) || entry.startsWith(featureDir)) {
+      return [];
+    }
+
+    return Array.from(this.closure(target, new Set()))
+      .filter(file => initial.has(file) && file.startsWith(featureDir))
+      .map(file => ({ boundary, file: this.model.relative(file), reason: 'feature' as const, chain: this.findChain(entry, file, initial) }));
+  }
+
+  private findEntry(files: string[]): string | null {
+    const candidates = files.filter(file => {
+      let found = false;
+      walk(this.model.getAst(file), node => {
+        if (node.type === 'CallExpression') {
+          const callee = node.callee.type === 'MemberExpression' ? node.callee.property.name : node.callee.name;
+          found = found || ENTRY_CALLS.includes(callee);
+        }
+      });
+      return found;
+    });
+
+    return candidates.find(file => path.basename(file) === 'main.ts') || candidates[0] ||
+      files.find(file => path.basename(file) === 'main.ts') || null;
+  }
+
+  // ==================== Lazy Boundaries ====================
+
+  /**
+   * ルートの loadChildren / loadComponent と、それ以外の import()
+   */
+  private collectRouteBoundaries(files: string[]): void {
+    const fullPaths = this.collectRouteFullPaths();
+
+    for (const file of files) {
+      const handled = new Set<any>();
+
+      walk(this.model.getAst(file), node => {
+        if (node.type === 'ObjectExpression') {
+          for (const kind of ['loadChildren', 'loadComponent'] as const) {
+            const value = getMetadataProperty(node, kind);
+            const lazy = value && parseLazyImport(value);
+            if (!lazy) continue;
+
+            walk(value, inner => {
+              if (inner.type === 'ImportExpression') handled.add(inner);
+            });
+
+            const line = node.loc.start.line;
+            const resolved = this.model.getModuleResolver().resolve(lazy.source, file);
+            const routePath = readString(getMetadataProperty(node, 'path'));
+            this.boundaries.push({
+              kind,
+              label: fullPaths.get(`${this.model.relative(file)}:${line}`) || routePath || lazy.source,
+              from: this.model.relative(file),
+              line,
+              target: resolved ? this.model.relative(resolved) : null
+            });
+          }
+        }
+
+        if (node.type === 'ImportExpression' && !handled.has(node)) {
+          const source = readString(node.source);
+          const resolved = source ? this.model.getModuleResolver().resolve(source, file) : null;
+          if (!source || (!resolved && !source.startsWith('.'))) return;
+
+          this.boundaries.push({
+            kind: 'dynamic-import',
+            label: source,
+            from: this.model.relative(file),
+            line: node.loc.start.line,
+            target: resolved ? this.model.relative(resolved) : null
+          });
+        }
+      });
+    }
+  }
+
+  private collectRouteFullPaths(): Map<string, string> {
+    const fullPaths = new Map<string, string>();
+    const visit = (routes: RouteAnalysis[]) => routes.forEach(route => {
+      fullPaths.set(`${route.file}:${route.line}`, route.fullPath);
+      visit(route.children);
+    });
+
+    visit(new RoutingAnalyzer(this.model).analyzeProject(this.projectPath).routes);
+    return fullPaths;
+  }
+
+  /**
+   * @defer ブロック内のスタンドアロンコンポーネント
+   * ホストのクラスで imports 以外から参照されていなければ、静的importはコンパイル時に import() に置き換わる
+   */
+  private collectDeferBoundaries(): void {
+    const declarations = new DeclarationIndex(this.model);
+
+    for (const host of declarations.getDeclarations().filter(d => d.kind === 'component' && d.file)) {
+      // 遅延できるのはスタンドアロンなホストの imports に直接書かれたスタンドアロンコンポーネントだけ
+      const scope = declarations.getCompilationScope(host);
+      if (scope.kind !== 'standalone') continue;
+
+      const candidates = scope.entries
+        .map(entry => entry.declaration)
+        .filter(decl => decl?.kind === 'component' && decl.file && decl.selector && decl.standalone !== false);
+      if (candidates.length === 0) continue;
+
+      const template = new TemplateUsageAnalyzer(host.file!, this.model).extractTemplate();
+      if (!template.content) continue;
+
+      const deferred = new Map<string, { file: string; line: number }>();
+      walkTemplate(parseTemplate(template.content).nodes, (node, ancestors) => {
+        if (node.kind !== 'element' || !ancestors.some(a => a.kind === 'block' && a.name === 'defer')) return;
+
+        for (const decl of candidates) {
+          if (matchesSelector(node, decl!.selector!) && !deferred.has(decl!.name)) {
+            deferred.set(decl!.name, { file: decl!.file!, line: node.line + template.lineOffset });
+          }
+        }
+      });
+
+      deferred.forEach((component, name) => {
+        if (countReferences(this.model.getAst(host.file!), name) > 1) return;
+
+        this.edges.set(host.file!, (this.edges.get(host.file!) || []).filter(file => file !== component.file));
+        this.boundaries.push({
+          kind: 'defer',
+          label: `${host.name} → ${name}`,
+          from: this.model.relative(host.file!),
+          line: component.line,
+          target: this.model.relative(component.file)
+        });
+      });
+    }
+  }
+
+  // ==================== Chunks ====================
+
+  /**
+   * 複数の遅延チャンクから参照されるファイルは共有チャンクとして切り出す
+   */
+  private buildChunks(initial: Set<string>, lazyChunks: Map<string, { boundaries: LazyBoundary[]; files: Set<string> }>): ChunkEstimate[] {
+    const nameOf = (target: string, boundaries: LazyBoundary[]) =>
+      Array.from(new Set(boundaries.map(b => b.label))).join(', ') || this.model.relative(target);
+
+    const owners = new Map<string, string[]>();
+    lazyChunks.forEach((chunk, target) => {
+      const name = nameOf(target, chunk.boundaries);
+      chunk.files.forEach(file => owners.set(file, [...(owners.get(file) || []), name]));
+    });
+
+    const initialPackages = new Set(Array.from(initial).flatMap(file => this.externals.get(file) || []));
+    const chunks: ChunkEstimate[] = [this.toChunk('main', 'initial', [], Array.from(initial), new Set())];
+
+    lazyChunks.forEach((chunk, target) => {
+      const name = nameOf(target, chunk.boundaries);
+      const files = Array.from(chunk.files).filter(file => owners.get(file)!.length === 1);
+      chunks.push({
+        ...this.toChunk(name, 'lazy', chunk.boundaries.map(b => `${b.kind} (${b.from}:${b.line})`), files, initialPackages),
+        entry: this.model.relative(target)
+      });
+    });
+
+    const shared = new Map<string, string[]>();
+    owners.forEach((names, file) => {
+      if (names.length < 2) return;
+      const key = names.join(' + ');
+      shared.set(key, [...(shared.get(key) || []), file]);
+    });
+    shared.forEach((files, key) => {
+      chunks.push(this.toChunk(`shared: ${key}`, 'shared', key.split(' + '), files, initialPackages));
+    });
+
+    return chunks;
+  }
+
+  private toChunk(name: string, kind: ChunkEstimate['kind'], loadedBy: string[], files: string[], excludePackages: Set<string>): ChunkEstimate {
+    const chunkFiles = files
+      .map(file => ({ file: this.model.relative(file), size: this.getSize(file) }))
+      .sort((a, b) => b.size - a.size);
+    const packages = Array.from(new Set(files.flatMap(file => this.externals.get(file) || [])))
+      .filter(pkg => !excludePackages.has(pkg))
+      .sort();
+
+    return { name, kind, loadedBy, files: chunkFiles, packages, size: chunkFiles.reduce((total, f) => total + f.size, 0) };
+  }
+
+  /**
+   * ソースのバイト数（コンポーネントの templateUrl / styleUrl(s) を含む）
+   */
+  private getSize(file: string): number {
+    if (this.sizes.has(file)) {
+      return this.sizes.get(file)!;
+    }
+
+    let size = Buffer.byteLength(this.model.getContent(file));
+    for (const cls of this.model.getFacts(file).classes) {
+      const component = cls.decorators.find(d => d.name === 'Component');
+      if (!component) continue;
+
+      const resources = [
+        readString(getMetadataProperty(component.metadata, 'templateUrl')),
+        readString(getMetadataProperty(component.metadata, 'styleUrl')),
+        ...readStringList(getMetadataProperty(component.metadata, 'styleUrls'))
+      ].filter((resource): resource is string => !!resource);
+
+      for (const resource of resources) {
+        const resourcePath = path.resolve(path.dirname(file), resource);
+        if (fs.existsSync(resourcePath)) {
+          size += fs.statSync(resourcePath).size;
+        }
+      }
+    }
+
+    this.sizes.set(file, size);
+    return size;
+  }
+}
+
+// ==================== Helpers ====================
+
+function walk(node: any, visit: (node: any) => void): void {
+  if (!node || typeof node !== 'object') return;
+  visit(node);
+  for (const key in node) {
+    if (key === 'parent' || key === 'loc' || key === 'range') continue;
+    const child = node[key];
+    if (Array.isArray(child)) {
+      child.forEach(c => walk(c, visit));
+    } else if (child && typeof child.type === 'string') {
+      walk(child, visit);
+    }
+  }
+}
+
+/**
+ * import文以外での識別子の参照数
+ */
+function countReferences(ast: any, name: string): number {
+  let count = 0;
+  for (const statement of ast?.body || []) {
+    if (statement.type === 'ImportDeclaration') continue;
+    walk(statement, node => {
+      if (node.type === 'Identifier' && node.name === name) count++;
+    });
+  }
+  return count;
+}
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+}
+
+// ==================== Output Formatters ====================
+
+const LEAK_REASON_LABELS: Record<EagerLeak['reason'], string> = {
+  entry: 'lazy entry imported eagerly',
+  feature: 'feature file imported eagerly'
+};
+
+function formatMarkdown(analysis: ChunkAnalysis): string {
+  let md = `# Lazy Chunk Estimation\n\n`;
+
+  md += `**Analyzed At**: ${new Date().toISOString()}\n\n`;
+  md += `**Entry**: ${analysis.entry || '(not found)'}\n\n`;
+
+  md += `## Summary\n\n`;
+  md += `- **Total Files**: ${analysis.summary.totalFiles}\n`;
+  md += `- **Initial Bundle**: ${analysis.summary.initialFiles} files, ${formatSize(analysis.summary.initialSize)}\n`;
+  md += `- **Lazy Chunks**: ${analysis.summary.lazyChunks} (${formatSize(analysis.summary.lazySize)})\n`;
+  md += `- **Shared Chunks**: ${formatSize(analysis.summary.sharedSize)}\n`;
+  md += `- **Eager Imports into Main**: ${analysis.summary.eagerLeakCount}\n`;
+  md += `- **Not Bundled**: ${analysis.unbundledFiles.length} files\n\n`;
+
+  md += `> サイズはソース（TypeScript + templateUrl / styleUrls）のバイト数で、ビルド後のサイズではありません。\n\n`;
+
+  md += `## Chunks\n\n`;
+  md += `| Chunk | Kind | Files | Source Size | Loaded By |\n`;
+  md += `|-------|------|-------|-------------|-----------|\n`;
+  analysis.chunks.forEach(chunk => {
+    md += `| ${chunk.name} | ${chunk.kind} | ${chunk.files.length} | ${formatSize(chunk.size)} | ${chunk.loadedBy.join('<br>') || '-'} |\n`;
+  });
+  md += `\n`;
+
+  if (analysis.eagerLeaks.length > 0) {
+    md += `## ⚠️ Eager Imports Pulling Lazy Code into Main\n\n`;
+    md += `| Reason | Boundary | File in Main | Import Chain |\n`;
+    md += `|--------|----------|--------------|--------------|\n`;
+    analysis.eagerLeaks.forEach(leak => {
+      const boundary = `${leak.boundary.kind} \`${leak.boundary.label}\` (${leak.boundary.from}:${leak.boundary.line})`;
+      md += `| ${LEAK_REASON_LABELS[leak.reason]} | ${boundary} | ${leak.file} | ${leak.chain.join(' → ')} |\n`;
+    });
+    md += `\n`;
+  }
+
+  const unresolved = analysis.boundaries.filter(b => !b.target);
+  if (unresolved.length > 0) {
+    md += `## Unresolved Lazy Boundaries\n\n`;
+    unresolved.forEach(boundary => {
+      md += `- ${boundary.kind} \`${boundary.label}\` (${boundary.from}:${boundary.line})\n`;
+    });
+    md += `\n`;
+  }
+
+  md += `## Chunk Contents\n\n`;
+  analysis.chunks.forEach(chunk => {
+    md += `### ${chunk.name} (${formatSize(chunk.size)})\n\n`;
+    if (chunk.entry) {
+      md += `**Entry**: ${chunk.entry}\n\n`;
+    }
+    if (chunk.packages.length > 0) {
+      md += `**Packages**: ${chunk.packages.map(pkg => `\`${pkg}\``).join(', ')}\n\n`;
+    }
+    chunk.files.forEach(file => {
+      md += `- ${file.file} (${formatSize(file.size)})\n`;
+    });
+    md += `\n`;
+  });
+
+  return md;
+}
+
+function formatConsole(analysis: ChunkAnalysis): void {
+  console.log(`\n📊 Lazy Chunk Estimation\n`);
+  console.log(`Entry: ${analysis.entry || '(not found)'}\n`);
+  console.log(`Summary:`);
+  console.log(`  - Initial Bundle: ${analysis.summary.initialFiles} files, ${formatSize(analysis.summary.initialSize)}`);
+  console.log(`  - Lazy Chunks: ${analysis.summary.lazyChunks} (${formatSize(analysis.summary.lazySize)})`);
+  console.log(`  - Shared Chunks: ${formatSize(analysis.summary.sharedSize)}`);
+  console.log(`  - Eager Imports into Main: ${analysis.summary.eagerLeakCount}`);
+  console.log(`  - Not Bundled: ${analysis.unbundledFiles.length} files\n`);
+
+  analysis.chunks.forEach(chunk => {
+    console.log(`  ${chunk.kind === 'initial' ? '📦' : chunk.kind === 'lazy' ? '💤' : '🔗'} ${chunk.name}: ${chunk.files.length} files, ${formatSize(chunk.size)}`);
+  });
+  console.log('');
+
+  analysis.eagerLeaks.forEach(leak => {
+    console.log(`⚠️  ${leak.file} is in main but belongs to ${leak.boundary.kind} '${leak.boundary.label}' (${LEAK_REASON_LABELS[leak.reason]})`);
+    console.log(`   ${leak.chain.join(' → ')}`);
+  });
+  if (analysis.eagerLeaks.length > 0) {
+    console.log('');
+  }
+}
+
+// ==================== Main ====================
+
+function main(): void {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help')) {
+    console.log(`
+Usage: npx ts-node src/analyze-lazy-chunks.ts <project-dir> [options]
+
+Options:
+  --entry <file>     Entry file (default: the file calling bootstrapApplication / bootstrapModule)
+  --output <format>  Output format: md, json (default: md)
+  --save <path>      Save output to file
+  --project <names>  Analyze the given angular.json / project.json projects (comma separated)
+  --workspace        Analyze every project in the workspace
+  --help             Show this help message
+
+Examples:
+  npx ts-node src/analyze-lazy-chunks.ts ./src
+  npx ts-node src/analyze-lazy-chunks.ts ./src --save chunks.md
+  npx ts-node src/analyze-lazy-chunks.ts ./src --output json --save chunks.json
+`);
+    process.exit(0);
+  }
+
+  const projectPath = args[0];
+  const entryPath = args.includes('--entry') ? args[args.indexOf('--entry') + 1] : undefined;
+  const outputFormat = args.includes('--output') ? args[args.indexOf('--output') + 1] : 'md';
+  const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
+
+  if (!fs.existsSync(projectPath)) {
+    console.error(`Error: Project directory "${projectPath}" does not exist`);
+    process.exit(1);
+  }
+
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectPath, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const results: Array<{ target: AnalysisTarget; analysis: ChunkAnalysis }> = [];
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    const analysis = new LazyChunkAnalyzer(target.path, model).analyze(targets.length === 1 ? entryPath : undefined);
+
+    if (target.project) {
+      console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===`);
+    }
+    formatConsole(analysis);
+    results.push({ target, analysis });
+  }
+
+  if (savePath) {
+    const output = outputFormat === 'json'
+      ? JSON.stringify(
+        targets.some(t => t.project)
+          ? results.map(r => ({ project: r.target.project!.name, type: r.target.project!.type, analysis: r.analysis }))
+          : results[0].analysis,
+        null,
+        2
+      )
+      : results.map(r => formatProjectHeading(r.target) + formatMarkdown(r.analysis)).join('\n');
+    fs.writeFileSync(savePath, output);
+    console.log(`✓ Saved to ${savePath}\n`);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
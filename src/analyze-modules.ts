@@ -9,11 +9,12 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { parse } from '@typescript-eslint/typescript-estree';
+import { ProjectModel } from './utils/project-model';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
 
 // ==================== Interfaces ====================
 
-interface ModuleAnalysis {
+export interface ModuleAnalysis {
   name: string;
   path: string;
   type: 'root' | 'feature' | 'shared' | 'core' | 'unknown';
@@ -25,26 +26,26 @@ interface ModuleAnalysis {
   lazyRoute?: string;
 }
 
-interface ModuleReference {
+export interface ModuleReference {
   name: string;
   path?: string;
   external: boolean;
 }
 
-interface ComponentReference {
+export interface ComponentReference {
   name: string;
 }
 
-interface ServiceReference {
+export interface ServiceReference {
   name: string;
 }
 
-interface ModuleGraph {
+export interface ModuleGraph {
   modules: ModuleAnalysis[];
   dependencies: ModuleDependency[];
 }
 
-interface ModuleDependency {
+export interface ModuleDependency {
   from: string;
   to: string;
   type: 'imports' | 'exports';
@@ -52,18 +53,20 @@ interface ModuleDependency {
 
 // ==================== Module Analyzer ====================
 
-class ModuleAnalyzer {
+export class ModuleAnalyzer {
   private projectPath: string;
+  private model: ProjectModel;
   private modules: ModuleAnalysis[] = [];
 
-  constructor(projectPath: string) {
+  constructor(projectPath: string, model?: ProjectModel) {
     this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
   }
 
   analyze(): ModuleGraph {
     console.log(`Analyzing modules in: ${this.projectPath}\n`);
 
-    const moduleFiles = this.findModuleFiles(this.projectPath);
+    const moduleFiles = this.model.getTypeScriptFiles().filter(file => file.endsWith('.module.ts'));
     console.log(`Found ${moduleFiles.length} module files\n`);
 
     for (const file of moduleFiles) {
@@ -86,77 +89,27 @@ class ModuleAnalyzer {
     };
   }
 
-  private findModuleFiles(dir: string): string[] {
-    const files: string[] = [];
-
-    const traverse = (currentPath: string): void => {
-      try {
-        const items = fs.readdirSync(currentPath);
-
-        for (const item of items) {
-          const fullPath = path.join(currentPath, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            if (!item.startsWith('.') && item !== 'node_modules' && item !== 'dist') {
-              traverse(fullPath);
-            }
-          } else if (stat.isFile() && item.endsWith('.module.ts') && !item.endsWith('.spec.ts')) {
-            files.push(fullPath);
-          }
-        }
-      } catch (error) {
-        console.error(`Error reading directory ${currentPath}:`, error);
-      }
-    };
-
-    traverse(dir);
-    return files;
-  }
-
   private analyzeModuleFile(filePath: string): ModuleAnalysis | null {
-    const content = fs.readFileSync(filePath, 'utf-8');
+    const { ast, parseError } = this.model.getSourceFile(filePath);
+    if (!ast) {
+      console.error(`Error parsing ${filePath}:`, parseError);
+      return null;
+    }
 
     try {
-      const ast = parse(content, {
-        loc: true,
-        range: true,
-        comment: false
-      });
-
       let moduleName: string | null = null;
       let ngModuleMetadata: any = null;
 
       // クラス名とデコレータを探す
-      const traverse = (node: any): void => {
-        if (!node) return;
-
-        if (node.type === 'ClassDeclaration' && node.id) {
-          moduleName = node.id.name;
-
-          if (node.decorators && Array.isArray(node.decorators)) {
-            for (const decorator of node.decorators) {
-              if (decorator.expression?.callee?.name === 'NgModule') {
-                if (decorator.expression.arguments && decorator.expression.arguments[0]) {
-                  ngModuleMetadata = decorator.expression.arguments[0];
-                }
-              }
-            }
-          }
-        }
+      for (const cls of this.model.getFacts(filePath).classes) {
+        moduleName = cls.name;
 
-        for (const key in node) {
-          if (node[key] && typeof node[key] === 'object') {
-            if (Array.isArray(node[key])) {
-              node[key].forEach((child: any) => traverse(child));
-            } else {
-              traverse(node[key]);
-            }
+        for (const decorator of cls.decorators) {
+          if (decorator.name === 'NgModule' && decorator.metadata) {
+            ngModuleMetadata = decorator.metadata;
           }
         }
-      };
-
-      traverse(ast);
+      }
 
       if (!moduleName || !ngModuleMetadata) {
         return null;
@@ -277,7 +230,7 @@ class ModuleAnalyzer {
 
 // ==================== Output Formatters ====================
 
-function generateMermaidGraph(graph: ModuleGraph): string {
+export function generateMermaidGraph(graph: ModuleGraph): string {
   let mermaid = 'graph TD\n\n';
 
   // スタイル定義
@@ -377,12 +330,15 @@ Usage: npx ts-node src/analyze-modules.ts <project-dir> [options]
 Options:
   --output <format>  Output format: md, mermaid (default: md)
   --save <path>      Save output to file
+  --project <names>  Analyze the given angular.json / project.json projects (comma separated)
+  --workspace        Analyze every project in the workspace
   --help             Show this help message
 
 Examples:
   npx ts-node src/analyze-modules.ts ./my-project
   npx ts-node src/analyze-modules.ts ./my-project --output mermaid
   npx ts-node src/analyze-modules.ts ./my-project --save modules.md
+  npx ts-node src/analyze-modules.ts ./my-workspace --workspace
 `);
     process.exit(0);
   }
@@ -396,18 +352,32 @@ Examples:
     process.exit(1);
   }
 
-  const analyzer = new ModuleAnalyzer(projectPath);
-  const graph = analyzer.analyze();
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectPath, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const outputs: string[] = [];
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    const analyzer = new ModuleAnalyzer(target.path, model);
+    const graph = analyzer.analyze();
 
-  console.log(`\n✓ Found ${graph.modules.length} modules\n`);
+    const label = target.project ? ` in ${target.project.name}` : '';
+    console.log(`\n✓ Found ${graph.modules.length} modules${label}\n`);
 
-  // Format output
-  let output: string;
-  if (outputFormat === 'mermaid') {
-    output = generateMermaidGraph(graph);
-  } else {
-    output = formatMarkdown(graph);
+    // Format output
+    if (outputFormat === 'mermaid') {
+      const comment = target.project ? `%% Project: ${target.project.name}\n` : '';
+      outputs.push(comment + generateMermaidGraph(graph));
+    } else {
+      outputs.push(formatProjectHeading(target) + formatMarkdown(graph));
+    }
   }
+  const output = outputs.join('\n');
 
   // Save or print
   if (savePath) {
@@ -418,4 +388,6 @@ Examples:
   }
 }
 
-main();
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,789 @@
+#!/usr/bin/env ts-node
+
+/**
+ * analyze-ngrx.ts
+ * NgRx の Action / Reducer / Effect / Selector と Store の呼び出し箇所を一覧化し、
+ * dispatch されない Action、どこにも処理されない Action、Action → Effect → Action の連鎖を検出
+ *
+ * Usage: npx ts-node src/analyze-ngrx.ts <project-dir>
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectModel } from './utils/project-model';
+import { expressionToString, getMetadataProperty, readString } from './utils/angular-metadata';
+import { extractInjectionPoints, findInjectCalls } from './utils/di-providers';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
+
+// ==================== Interfaces ====================
+
+export interface NgRxAnalysis {
+  actions: ActionInfo[];
+  reducers: ReducerInfo[];
+  effects: EffectInfo[];
+  selectors: SelectorInfo[];
+  dispatches: StoreCallSite[];
+  selects: StoreCallSite[];
+  neverDispatched: ActionInfo[];
+  unhandled: ActionInfo[];
+  chains: ActionChain[];
+  summary: {
+    totalActions: number;
+    totalReducers: number;
+    totalEffects: number;
+    totalSelectors: number;
+    totalDispatches: number;
+    totalSelects: number;
+    neverDispatchedCount: number;
+    unhandledCount: number;
+    chainsCount: number;
+  };
+}
+
+export interface ActionInfo {
+  name: string; // loadOrders / OrdersActions.loadOrders（createActionGroup）
+  type: string; // '[Orders] Load Orders'
+  group?: string;
+  file: string;
+  line: number;
+}
+
+export interface ReducerInfo {
+  name: string;
+  handles: string[]; // on() に渡された Action
+  file: string;
+  line: number;
+}
+
+export interface EffectInfo {
+  name: string; // OrdersEffects.load$ / loadOrders（関数型Effect）
+  ofType: string[];
+  dispatches: string[]; // Effect が返す Action
+  dispatch: boolean; // { dispatch: false } なら false
+  functional: boolean;
+  file: string;
+  line: number;
+}
+
+export interface SelectorInfo {
+  name: string;
+  kind: 'createSelector' | 'createFeatureSelector';
+  inputs: string[]; // createSelector の入力セレクタ / createFeatureSelector のフィーチャー名
+  file: string;
+  line: number;
+}
+
+export interface StoreCallSite {
+  method: 'dispatch' | 'select' | 'selectSignal';
+  target: string; // Action名・セレクタ名（解決できない場合は式）
+  resolved: boolean;
+  owner?: string;
+  file: string;
+  line: number;
+}
+
+export interface ActionChain {
+  steps: Array<{ kind: 'action' | 'effect'; name: string }>;
+  cyclic: boolean;
+}
+
+// ==================== NgRx Analyzer ====================
+
+const NGRX_MODULES = ['@ngrx/store', '@ngrx/effects'];
+
+const STORE_TOKENS = ['Store', 'MockStore'];
+
+interface ImportScope {
+  imports: Map<string, string>; // ローカル名 → エクスポート名（名前空間importは '*'）
+  file: string;
+}
+
+interface TraversalContext {
+  owner?: string; // クラス名
+  name?: string; // 代入先の変数名・プロパティ名
+}
+
+export class NgRxAnalyzer {
+  private projectPath: string;
+  private model: ProjectModel;
+  private actions = new Map<string, ActionInfo>();
+  private reducers: ReducerInfo[] = [];
+  private effects: EffectInfo[] = [];
+  private selectors: SelectorInfo[] = [];
+  private dispatches: StoreCallSite[] = [];
+  private selects: StoreCallSite[] = [];
+
+  constructor(projectPath: string, model?: ProjectModel) {
+    this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
+  }
+
+  analyze(): NgRxAnalysis {
+    console.log(`Analyzing NgRx store in: ${this.projectPath}\n`);
+
+    const files = this.model.getTypeScriptFiles();
+    console.log(`Analyzing ${files.length} files...\n`);
+
+    // Action を先に集めてから、Reducer / Effect / 呼び出し箇所の参照を解決する
+    files.forEach(file => this.collectActions(file));
+    files.forEach(file => this.analyzeFile(file));
+
+    const actions = Array.from(this.actions.values());
+    const dispatched = new Set([
+      ...this.dispatches.filter(site => site.resolved).map(site => site.target),
+      ...this.effects.flatMap(effect => effect.dispatches)
+    ]);
+    const handled = new Set([
+      ...this.reducers.flatMap(reducer => reducer.handles),
+      ...this.effects.flatMap(effect => effect.ofType)
+    ]);
+    this.selects.forEach(site => {
+      site.resolved = this.selectors.some(selector => selector.name === site.target);
+    });
+
+    const neverDispatched = actions.filter(action => !dispatched.has(action.name));
+    const unhandled = actions.filter(action => !handled.has(action.name));
+    const chains = this.buildChains();
+
+    return {
+      actions,
+      reducers: this.reducers,
+      effects: this.effects,
+      selectors: this.selectors,
+      dispatches: this.dispatches,
+      selects: this.selects,
+      neverDispatched,
+      unhandled,
+      chains,
+      summary: {
+        totalActions: actions.length,
+        totalReducers: this.reducers.length,
+        totalEffects: this.effects.length,
+        totalSelectors: this.selectors.length,
+        totalDispatches: this.dispatches.length,
+        totalSelects: this.selects.length,
+        neverDispatchedCount: neverDispatched.length,
+        unhandledCount: unhandled.length,
+        chainsCount: chains.length
+      }
+    };
+  }
+
+  // ==================== Actions ====================
+
+  /**
+   * createAction('[Orders] Load') / createActionGroup({ source: 'Orders', events: { 'Load Orders': emptyProps() } })
+   */
+  private collectActions(filePath: string): void {
+    const ast = this.model.getAst(filePath);
+    if (!ast) return;
+
+    const ngrx = this.getNgRxImports(filePath);
+    const relativePath = path.relative(this.projectPath, filePath);
+
+    traverse(ast, (node, ctx) => {
+      if (node.type !== 'CallExpression' || node.callee.type !== 'Identifier' || !ctx.name) return;
+      const fn = ngrx.get(node.callee.name);
+
+      if (fn === 'createAction') {
+        const type = readString(node.arguments[0]);
+        if (type && !this.actions.has(ctx.name)) {
+          this.actions.set(ctx.name, { name: ctx.name, type, file: relativePath, line: node.loc.start.line });
+        }
+      }
+
+      if (fn === 'createActionGroup') {
+        const config = node.arguments[0];
+        const source = readString(getMetadataProperty(config, 'source'));
+        const events = getMetadataProperty(config, 'events');
+        if (!source || events?.type !== 'ObjectExpression') return;
+
+        for (const property of events.properties) {
+          const event = property.key?.type === 'Literal' ? String(property.key.value) : property.key?.name;
+          if (!event) continue;
+          const name = `${ctx.name}.${toActionName(event)}`;
+          if (!this.actions.has(name)) {
+            this.actions.set(name, {
+              name,
+              type: `[${source}] ${event}`,
+              group: ctx.name,
+              file: relativePath,
+              line: property.loc.start.line
+            });
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * loadOrders / loadOrders() / OrdersActions.loadOrders() / import * as OrderActions の OrderActions.loadOrders
+   * （importしていない名前は同じファイルで定義された Action のみ）
+   */
+  private resolveAction(node: any, scope: ImportScope): ActionInfo | null {
+    const name = resolveImportedName(node?.type === 'CallExpression' ? node.callee : node, scope);
+    const action = name ? this.actions.get(name.name) : undefined;
+    if (!action || (!name!.imported && action.file !== scope.file)) return null;
+    return action;
+  }
+
+  // ==================== Reducers / Effects / Selectors ====================
+
+  private analyzeFile(filePath: string): void {
+    const ast = this.model.getAst(filePath);
+    if (!ast) return;
+
+    const ngrx = this.getNgRxImports(filePath);
+    const relativePath = path.relative(this.projectPath, filePath);
+    const scope: ImportScope = { imports: this.getImportScope(filePath), file: relativePath };
+    const storeMembers = this.getStoreMembers(ast);
+
+    traverse(ast, (node, ctx) => {
+      if (node.type !== 'CallExpression') return;
+      const fn = node.callee.type === 'Identifier' ? ngrx.get(node.callee.name) : undefined;
+
+      switch (fn) {
+        case 'createReducer':
+          this.reducers.push({
+            name: ctx.name || '(reducer)',
+            handles: unique(node.arguments
+              .filter((arg: any) => arg.type === 'CallExpression' && ngrx.get(arg.callee.name) === 'on')
+              .flatMap((on: any) => on.arguments.slice(0, -1))
+              .map((arg: any) => this.resolveAction(arg, scope)?.name)
+              .filter(Boolean)),
+            file: relativePath,
+            line: node.loc.start.line
+          });
+          return;
+
+        case 'createEffect':
+          this.effects.push(this.parseEffect(node, ctx, ngrx, scope));
+          return;
+
+        case 'createSelector':
+          this.selectors.push({
+            name: ctx.name || '(selector)',
+            kind: 'createSelector',
+            inputs: node.arguments.slice(0, -1)
+              .flatMap((arg: any) => arg.type === 'ArrayExpression' ? arg.elements : [arg])
+              .map((arg: any) => expressionToString(arg)),
+            file: relativePath,
+            line: node.loc.start.line
+          });
+          return;
+
+        case 'createFeatureSelector':
+          this.selectors.push({
+            name: ctx.name || '(selector)',
+            kind: 'createFeatureSelector',
+            inputs: [readString(node.arguments[0]) || expressionToString(node.arguments[0])],
+            file: relativePath,
+            line: node.loc.start.line
+          });
+          return;
+
+        case 'select':
+          // this.store.pipe(select(selectOrders))
+          this.selects.push(this.createSelectSite('select', node.arguments[0], ctx, scope, node));
+          return;
+      }
+
+      // this.store.dispatch(loadOrders()) / this.store.select(selectOrders) / this.store.selectSignal(selectOrders)
+      const callee = node.callee;
+      if (callee.type !== 'MemberExpression' || !isStoreReference(callee.object, storeMembers)) return;
+      const method = callee.property?.name;
+
+      if (method === 'dispatch') {
+        const action = this.resolveAction(node.arguments[0], scope);
+        this.dispatches.push({
+          method: 'dispatch',
+          target: action?.name || expressionToString(node.arguments[0]),
+          resolved: !!action,
+          owner: ctx.owner,
+          file: relativePath,
+          line: node.loc.start.line
+        });
+      } else if ((method === 'select' || method === 'selectSignal') && node.arguments[0]?.type !== 'Literal') {
+        this.selects.push(this.createSelectSite(method, node.arguments[0], ctx, scope, node));
+      }
+    });
+  }
+
+  /**
+   * createEffect(() => this.actions$.pipe(ofType(load), switchMap(() => ... map(() => loadSuccess()))))
+   */
+  private parseEffect(
+    node: any,
+    ctx: TraversalContext,
+    ngrx: Map<string, string>,
+    scope: ImportScope
+  ): EffectInfo {
+    const config = node.arguments[1];
+    const dispatchOption = getMetadataProperty(config, 'dispatch');
+    const functionalOption = getMetadataProperty(config, 'functional');
+    const dispatch = !(dispatchOption?.type === 'Literal' && dispatchOption.value === false);
+    const ofType: string[] = [];
+    const dispatches: string[] = [];
+
+    const visit = (inner: any): void => {
+      if (!inner || typeof inner !== 'object') return;
+
+      if (inner.type === 'CallExpression') {
+        if (inner.callee.type === 'Identifier' && ngrx.get(inner.callee.name) === 'ofType') {
+          inner.arguments.forEach((arg: any) => {
+            const action = this.resolveAction(arg, scope);
+            if (action) ofType.push(action.name);
+          });
+          return;
+        }
+
+        const action = this.resolveAction(inner, scope);
+        if (action && dispatch) {
+          dispatches.push(action.name);
+        }
+      }
+
+      for (const key in inner) {
+        if (key === 'parent' || key === 'loc' || key === 'range') continue;
+        const child = inner[key];
+        if (Array.isArray(child)) {
+          child.forEach(visit);
+        } else if (child && typeof child.type === 'string') {
+          visit(child);
+        }
+      }
+    };
+    visit(node.arguments[0]);
+
+    return {
+      name: ctx.owner && ctx.name ? `${ctx.owner}.${ctx.name}` : ctx.name || '(effect)',
+      ofType: unique(ofType),
+      dispatches: unique(dispatches),
+      dispatch,
+      functional: functionalOption?.type === 'Literal' && functionalOption.value === true,
+      file: scope.file,
+      line: node.loc.start.line
+    };
+  }
+
+  private createSelectSite(
+    method: StoreCallSite['method'],
+    selector: any,
+    ctx: TraversalContext,
+    scope: ImportScope,
+    node: any
+  ): StoreCallSite {
+    // selectOrderById(id) のようなファクトリは呼び出し先を、別名・名前空間importはエクスポート名を記録
+    const callee = selector?.type === 'CallExpression' ? selector.callee : selector;
+    return {
+      method,
+      target: resolveImportedName(callee, scope)?.name || expressionToString(callee),
+      resolved: false, // すべてのセレクタを集めた後で判定
+      owner: ctx.owner,
+      file: scope.file,
+      line: node.loc.start.line
+    };
+  }
+
+  // ==================== Chains ====================
+
+  /**
+   * 画面などから dispatch される Action を起点に Action → Effect → Action を辿る
+   */
+  private buildChains(): ActionChain[] {
+    const listeners = new Map<string, EffectInfo[]>();
+    this.effects.forEach(effect => effect.ofType.forEach(action => {
+      if (!listeners.has(action)) listeners.set(action, []);
+      listeners.get(action)!.push(effect);
+    }));
+
+    const produced = new Set(this.effects.flatMap(effect => effect.dispatches));
+    const starts = Array.from(listeners.keys()).filter(action => !produced.has(action));
+    const chains: ActionChain[] = [];
+    const typeOf = (name: string) => this.actions.get(name)?.type || name;
+
+    const follow = (action: string, steps: ActionChain['steps'], visited: Set<string>): void => {
+      for (const effect of listeners.get(action) || []) {
+        const withEffect = [...steps, { kind: 'effect' as const, name: effect.name }];
+        if (effect.dispatches.length === 0) {
+          chains.push({ steps: withEffect, cyclic: false });
+          continue;
+        }
+
+        for (const next of effect.dispatches) {
+          const withNext = [...withEffect, { kind: 'action' as const, name: typeOf(next) }];
+          if (visited.has(next)) {
+            chains.push({ steps: withNext, cyclic: true });
+          } else if (listeners.has(next)) {
+            follow(next, withNext, new Set([...visited, next]));
+          } else {
+            chains.push({ steps: withNext, cyclic: false });
+          }
+        }
+      }
+    };
+
+    starts.forEach(action => follow(action, [{ kind: 'action', name: typeOf(action) }], new Set([action])));
+    return chains;
+  }
+
+  // ==================== Helpers ====================
+
+  /**
+   * @ngrx/store・@ngrx/effects からimportした関数（ローカル名 → エクスポート名）
+   */
+  private getNgRxImports(filePath: string): Map<string, string> {
+    const imports = new Map<string, string>();
+    this.model.getFacts(filePath).imports
+      .filter(imp => NGRX_MODULES.includes(imp.source))
+      .forEach(imp => imp.specifiers
+        .filter(spec => spec.kind === 'named')
+        .forEach(spec => imports.set(spec.local, spec.imported)));
+    return imports;
+  }
+
+  /**
+   * import { loadOrders as load } / import * as OrderActions（ローカル名 → エクスポート名）
+   */
+  private getImportScope(filePath: string): Map<string, string> {
+    const imports = new Map<string, string>();
+    this.model.getFacts(filePath).imports.forEach(imp => imp.specifiers
+      .filter(spec => spec.kind !== 'default')
+      .forEach(spec => imports.set(spec.local, spec.kind === 'namespace' ? '*' : spec.imported)));
+    return imports;
+  }
+
+  /**
+   * Store を受け取るメンバー・変数（constructor(private store: Store) / store = inject(Store)）
+   */
+  private getStoreMembers(ast: any): Set<string> {
+    const members = new Set<string>();
+    const isStore = (token: string) => STORE_TOKENS.includes(token.replace(/<.*>$/, ''));
+
+    walk(ast, node => {
+      if (node.type === 'ClassDeclaration' || node.type === 'ClassExpression') {
+        extractInjectionPoints(node)
+          .filter(point => point.member && isStore(point.token))
+          .forEach(point => members.add(point.member!));
+      }
+    });
+    findInjectCalls(ast)
+      .filter(point => point.member && isStore(point.token))
+      .forEach(point => members.add(point.member!));
+
+    return members;
+  }
+}
+
+// ==================== AST Helpers ====================
+
+/**
+ * OrdersActions の 'Load Orders' イベントは OrdersActions.loadOrders になる
+ */
+function toActionName(event: string): string {
+  return event.trim().split(/\s+/)
+    .map((word, i) => i === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/**
+ * 参照式をエクスポート側の名前にする（load → loadOrders、OrderActions.loadOrders → loadOrders）
+ */
+function resolveImportedName(node: any, scope: ImportScope): { name: string; imported: boolean } | null {
+  const ref = expressionToString(node);
+  if (!ref) return null;
+
+  const [root, ...rest] = ref.split('.');
+  const imported = scope.imports.get(root);
+  if (imported === '*') {
+    return rest.length > 0 ? { name: rest.join('.'), imported: true } : null;
+  }
+  return imported ? { name: [imported, ...rest].join('.'), imported: true } : { name: ref, imported: false };
+}
+
+function isStoreReference(node: any, storeMembers: Set<string>): boolean {
+  if (node.type === 'Identifier') {
+    return storeMembers.has(node.name);
+  }
+  return node.type === 'MemberExpression' && node.object.type === 'ThisExpression' && storeMembers.has(node.property?.name);
+}
+
+function unique<T>(items: T[]): T[] {
+  return Array.from(new Set(items));
+}
+
+/**
+ * 代入先の名前と所属クラスを保ちながら走査する
+ */
+function traverse(root: any, visit: (node: any, ctx: TraversalContext) => void): void {
+  const step = (node: any, ctx: TraversalContext): void => {
+    if (!node || typeof node !== 'object') return;
+
+    if ((node.type === 'ClassDeclaration' || node.type === 'ClassExpression') && node.id?.name) {
+      ctx = { owner: node.id.name };
+    } else if (node.type === 'PropertyDefinition' && node.key?.name) {
+      ctx = { ...ctx, name: node.key.name };
+    } else if (node.type === 'VariableDeclarator' && node.id?.type === 'Identifier') {
+      ctx = { ...ctx, name: node.id.name };
+    }
+
+    visit(node, ctx);
+
+    for (const key in node) {
+      if (key === 'parent' || key === 'loc' || key === 'range') continue;
+      const child = node[key];
+      if (Array.isArray(child)) {
+        child.forEach(c => step(c, ctx));
+      } else if (child && typeof child.type === 'string') {
+        step(child, ctx);
+      }
+    }
+  };
+
+  step(root, {});
+}
+
+function walk(node: any, visit: (node: any) => void): void {
+  if (!node || typeof node !== 'object') return;
+  visit(node);
+  for (const key in node) {
+    if (key === 'parent' || key === 'loc' || key === 'range') continue;
+    const child = node[key];
+    if (Array.isArray(child)) {
+      child.forEach(c => walk(c, visit));
+    } else if (child && typeof child.type === 'string') {
+      walk(child, visit);
+    }
+  }
+}
+
+// ==================== Output Formatters ====================
+
+function formatChain(chain: ActionChain): string {
+  const steps = chain.steps.map(step => step.kind === 'action' ? `\`${step.name}\`` : step.name).join(' → ');
+  return chain.cyclic ? `${steps} (cycle)` : steps;
+}
+
+function formatMarkdown(analysis: NgRxAnalysis): string {
+  let md = `# NgRx Store Analysis\n\n`;
+
+  md += `**Analyzed At**: ${new Date().toISOString()}\n\n`;
+
+  md += `## Summary\n\n`;
+  md += `- **Actions**: ${analysis.summary.totalActions}\n`;
+  md += `- **Reducers**: ${analysis.summary.totalReducers}\n`;
+  md += `- **Effects**: ${analysis.summary.totalEffects}\n`;
+  md += `- **Selectors**: ${analysis.summary.totalSelectors}\n`;
+  md += `- **Dispatch Sites**: ${analysis.summary.totalDispatches}\n`;
+  md += `- **Select Sites**: ${analysis.summary.totalSelects}\n`;
+  md += `- **Never Dispatched**: ${analysis.summary.neverDispatchedCount}\n`;
+  md += `- **Unhandled**: ${analysis.summary.unhandledCount}\n\n`;
+
+  if (analysis.neverDispatched.length > 0) {
+    md += `## ⚠️ Actions Never Dispatched (${analysis.neverDispatched.length})\n\n`;
+    md += `Not passed to \`store.dispatch()\` and not returned by any effect.\n\n`;
+    md += `| Action | Type | File | Line |\n`;
+    md += `|--------|------|------|------|\n`;
+    analysis.neverDispatched.forEach(action => {
+      md += `| ${action.name} | \`${action.type}\` | ${action.file} | ${action.line} |\n`;
+    });
+    md += `\n`;
+  }
+
+  if (analysis.unhandled.length > 0) {
+    md += `## ⚠️ Unhandled Actions (${analysis.unhandled.length})\n\n`;
+    md += `Not handled by any reducer \`on()\` or effect \`ofType()\`.\n\n`;
+    md += `| Action | Type | File | Line |\n`;
+    md += `|--------|------|------|------|\n`;
+    analysis.unhandled.forEach(action => {
+      md += `| ${action.name} | \`${action.type}\` | ${action.file} | ${action.line} |\n`;
+    });
+    md += `\n`;
+  }
+
+  if (analysis.chains.length > 0) {
+    md += `## Action → Effect → Action Chains (${analysis.chains.length})\n\n`;
+    analysis.chains.forEach(chain => {
+      md += `- ${formatChain(chain)}\n`;
+    });
+    md += `\n`;
+  }
+
+  if (analysis.actions.length > 0) {
+    md += `## Actions (${analysis.actions.length})\n\n`;
+    md += `| Type | Action | Dispatched From | Handled By | File |\n`;
+    md += `|------|--------|-----------------|------------|------|\n`;
+    analysis.actions.forEach(action => {
+      const dispatchedFrom = [
+        ...analysis.dispatches.filter(site => site.resolved && site.target === action.name).map(site => site.owner || site.file),
+        ...analysis.effects.filter(effect => effect.dispatches.includes(action.name)).map(effect => effect.name)
+      ];
+      const handledBy = [
+        ...analysis.reducers.filter(reducer => reducer.handles.includes(action.name)).map(reducer => reducer.name),
+        ...analysis.effects.filter(effect => effect.ofType.includes(action.name)).map(effect => effect.name)
+      ];
+      md += `| \`${action.type}\` | ${action.name} | ${unique(dispatchedFrom).join(', ') || '-'} | ${unique(handledBy).join(', ') || '-'} | ${action.file}:${action.line} |\n`;
+    });
+    md += `\n`;
+  }
+
+  if (analysis.effects.length > 0) {
+    md += `## Effects (${analysis.effects.length})\n\n`;
+    md += `| Effect | ofType | Dispatches | File |\n`;
+    md += `|--------|--------|------------|------|\n`;
+    analysis.effects.forEach(effect => {
+      const dispatches = effect.dispatch ? effect.dispatches.join(', ') || '-' : '(dispatch: false)';
+      md += `| ${effect.name}${effect.functional ? ' (functional)' : ''} | ${effect.ofType.join(', ') || '-'} | ${dispatches} | ${effect.file}:${effect.line} |\n`;
+    });
+    md += `\n`;
+  }
+
+  if (analysis.reducers.length > 0) {
+    md += `## Reducers (${analysis.reducers.length})\n\n`;
+    md += `| Reducer | Handles | File |\n`;
+    md += `|---------|---------|------|\n`;
+    analysis.reducers.forEach(reducer => {
+      md += `| ${reducer.name} | ${reducer.handles.join(', ') || '-'} | ${reducer.file}:${reducer.line} |\n`;
+    });
+    md += `\n`;
+  }
+
+  if (analysis.selectors.length > 0) {
+    md += `## Selectors (${analysis.selectors.length})\n\n`;
+    md += `| Selector | Kind | Inputs | Selected From | File |\n`;
+    md += `|----------|------|--------|---------------|------|\n`;
+    analysis.selectors.forEach(selector => {
+      const selectedFrom = unique(analysis.selects.filter(site => site.target === selector.name).map(site => site.owner || site.file));
+      md += `| ${selector.name} | ${selector.kind} | ${selector.inputs.join(', ') || '-'} | ${selectedFrom.join(', ') || '-'} | ${selector.file}:${selector.line} |\n`;
+    });
+    md += `\n`;
+  }
+
+  const unresolved = analysis.dispatches.filter(site => !site.resolved);
+  if (unresolved.length > 0) {
+    md += `## Unresolved Dispatches (${unresolved.length})\n\n`;
+    md += `| Expression | Owner | File | Line |\n`;
+    md += `|------------|-------|------|------|\n`;
+    unresolved.forEach(site => {
+      md += `| \`${site.target}\` | ${site.owner || '-'} | ${site.file} | ${site.line} |\n`;
+    });
+    md += `\n`;
+  }
+
+  return md;
+}
+
+function formatConsole(analysis: NgRxAnalysis): void {
+  console.log(`\n📊 NgRx Store Analysis\n`);
+
+  console.log(`Summary:`);
+  console.log(`  - Actions: ${analysis.summary.totalActions}`);
+  console.log(`  - Reducers: ${analysis.summary.totalReducers}`);
+  console.log(`  - Effects: ${analysis.summary.totalEffects}`);
+  console.log(`  - Selectors: ${analysis.summary.totalSelectors}`);
+  console.log(`  - Dispatch / Select Sites: ${analysis.summary.totalDispatches} / ${analysis.summary.totalSelects}\n`);
+
+  if (analysis.neverDispatched.length > 0) {
+    console.log(`⚠️  Actions Never Dispatched (${analysis.neverDispatched.length}):`);
+    analysis.neverDispatched.slice(0, 10).forEach(action => {
+      console.log(`  - ${action.type} (${action.file}:${action.line})`);
+    });
+    if (analysis.neverDispatched.length > 10) {
+      console.log(`  ... and ${analysis.neverDispatched.length - 10} more\n`);
+    } else {
+      console.log('');
+    }
+  }
+
+  if (analysis.unhandled.length > 0) {
+    console.log(`⚠️  Unhandled Actions (${analysis.unhandled.length}):`);
+    analysis.unhandled.slice(0, 10).forEach(action => {
+      console.log(`  - ${action.type} (${action.file}:${action.line})`);
+    });
+    if (analysis.unhandled.length > 10) {
+      console.log(`  ... and ${analysis.unhandled.length - 10} more\n`);
+    } else {
+      console.log('');
+    }
+  }
+
+  if (analysis.chains.length > 0) {
+    console.log(`Action → Effect → Action Chains (${analysis.chains.length}):`);
+    analysis.chains.slice(0, 10).forEach(chain => {
+      console.log(`  - ${formatChain(chain).replace(/`/g, '')}`);
+    });
+    console.log('');
+  }
+}
+
+// ==================== Main ====================
+
+function main(): void {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help')) {
+    console.log(`
+Usage: npx ts-node src/analyze-ngrx.ts <project-dir> [options]
+
+Options:
+  --output <format>  Output format for --save: md, json (default: md)
+  --save <path>      Save output to file
+  --project <names>  Analyze the given angular.json / project.json projects (comma separated)
+  --workspace        Analyze every project in the workspace
+  --help             Show this help message
+
+Examples:
+  npx ts-node src/analyze-ngrx.ts ./src
+  npx ts-node src/analyze-ngrx.ts ./src --save ngrx-analysis.md
+  npx ts-node src/analyze-ngrx.ts ./src --output json --save ngrx-analysis.json
+`);
+    process.exit(0);
+  }
+
+  const projectPath = args[0];
+  const outputFormat = args.includes('--output') ? args[args.indexOf('--output') + 1] : 'md';
+  const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
+
+  if (!fs.existsSync(projectPath)) {
+    console.error(`Error: Project directory "${projectPath}" does not exist`);
+    process.exit(1);
+  }
+
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectPath, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const results: Array<{ target: AnalysisTarget; analysis: NgRxAnalysis }> = [];
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    const analysis = new NgRxAnalyzer(target.path, model).analyze();
+
+    if (target.project) {
+      console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===`);
+    }
+    formatConsole(analysis);
+    results.push({ target, analysis });
+  }
+
+  if (savePath) {
+    const output = outputFormat === 'json'
+      ? JSON.stringify(
+        targets.some(t => t.project)
+          ? results.map(r => ({ project: r.target.project!.name, type: r.target.project!.type, analysis: r.analysis }))
+          : results[0].analysis,
+        null,
+        2
+      )
+      : results.map(r => formatProjectHeading(r.target) + formatMarkdown(r.analysis)).join('\n');
+    fs.writeFileSync(savePath, output);
+    console.log(`✓ Saved to ${savePath}\n`);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -14,12 +14,14 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { parse as parseTs } from '@typescript-eslint/typescript-estree';
 import { CacheManager } from './utils/cache-manager';
+import { ProjectModel } from './utils/project-model';
+import { ComponentMetadata, extractComponentMetadata } from './utils/angular-metadata';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
 
 // ==================== Interfaces ====================
 
-interface ProjectAnalysis {
+export interface ProjectAnalysis {
   summary: ProjectSummary;
   files: FileAnalysis[];
   modules: ModuleAnalysis[];
@@ -31,7 +33,7 @@ interface ProjectAnalysis {
   analyzedAt: string;
 }
 
-interface ProjectSummary {
+export interface ProjectSummary {
   projectPath: string;
   totalFiles: number;
   totalLines: number;
@@ -42,7 +44,7 @@ interface ProjectSummary {
   };
 }
 
-interface FileAnalysis {
+export interface FileAnalysis {
   path: string;
   relativePath: string;
   type: FileType;
@@ -54,24 +56,25 @@ interface FileAnalysis {
   classes: ClassInfo[];
   decorators: string[];
   linesOfCode: number;
+  component?: { name: string; metadata: ComponentMetadata };
 }
 
-type FileType = 'component' | 'service' | 'module' | 'pipe' | 'directive' | 'guard' | 'interceptor' | 'interface' | 'enum' | 'other';
+export type FileType = 'component' | 'service' | 'module' | 'pipe' | 'directive' | 'guard' | 'interceptor' | 'interface' | 'enum' | 'other';
 
-interface ImportInfo {
+export interface ImportInfo {
   source: string;
   importType: 'named' | 'default' | 'namespace' | 'side-effect';
   imports: string[];
   line: number;
-  category: 'angular' | 'third-party' | 'relative';
+  category: 'angular' | 'third-party' | 'relative' | 'alias';
 }
 
-interface ExportInfo {
+export interface ExportInfo {
   name: string;
   type: 'class' | 'function' | 'variable' | 'interface' | 'type' | 'enum';
 }
 
-interface FunctionInfo {
+export interface FunctionInfo {
   name: string;
   type: 'function' | 'method' | 'arrow' | 'constructor';
   parameters: number;
@@ -79,13 +82,13 @@ interface FunctionInfo {
   isAsync: boolean;
 }
 
-interface ClassInfo {
+export interface ClassInfo {
   name: string;
   implements: string[];
   extends?: string;
 }
 
-interface ModuleAnalysis {
+export interface ModuleAnalysis {
   name: string;
   path: string;
   imports: string[];
@@ -94,47 +97,55 @@ interface ModuleAnalysis {
   providers: string[];
 }
 
-interface ComponentAnalysis {
+export interface ComponentAnalysis {
   name: string;
   path: string;
   selector?: string;
   templateUrl?: string;
+  template?: string;
   styleUrls: string[];
+  styles: string[];
   standalone: boolean;
+  standaloneExplicit: boolean; // falseの場合はAngularのバージョンから推定
   imports: string[];
+  changeDetection?: string;
+  encapsulation?: string;
+  providers: string[];
+  viewProviders: string[];
+  host: Record<string, string>;
 }
 
-interface ServiceAnalysis {
+export interface ServiceAnalysis {
   name: string;
   path: string;
   providedIn?: string;
 }
 
-interface DependencyGraph {
+export interface DependencyGraph {
   nodes: DependencyNode[];
   edges: DependencyEdge[];
 }
 
-interface DependencyNode {
+export interface DependencyNode {
   id: string;
   label: string;
   type: FileType;
 }
 
-interface DependencyEdge {
+export interface DependencyEdge {
   from: string;
   to: string;
   type: 'import' | 'external';
 }
 
-interface Warning {
+export interface Warning {
   type: 'error' | 'warning' | 'info';
   message: string;
   file?: string;
   line?: number;
 }
 
-interface CodeMetrics {
+export interface CodeMetrics {
   totalFunctions: number;
   totalClasses: number;
   averageFunctionsPerFile: number;
@@ -144,9 +155,10 @@ interface CodeMetrics {
 
 // ==================== Main Analysis Logic ====================
 
-class ProjectAnalyzer {
+export class ProjectAnalyzer {
   private projectPath: string;
   private baseDir: string;
+  private model: ProjectModel;
   private files: FileAnalysis[] = [];
   private modules: ModuleAnalysis[] = [];
   private components: ComponentAnalysis[] = [];
@@ -156,11 +168,13 @@ class ProjectAnalyzer {
   private useCache: boolean = true;
   private cacheHits: number = 0;
   private cacheMisses: number = 0;
+  private angularMajorVersion: number | null | undefined;
 
-  constructor(projectPath: string, useCache: boolean = true) {
+  constructor(projectPath: string, useCache: boolean = true, model?: ProjectModel) {
     this.projectPath = projectPath;
     this.baseDir = projectPath;
     this.useCache = useCache;
+    this.model = model || new ProjectModel(projectPath);
 
     if (this.useCache) {
       this.cacheManager = new CacheManager(projectPath);
@@ -179,7 +193,7 @@ class ProjectAnalyzer {
     }
 
     // ファイル収集
-    const tsFiles = this.getAllTypeScriptFiles(this.projectPath);
+    const tsFiles = this.model.getTypeScriptFiles();
     console.log(`Found ${tsFiles.length} TypeScript files`);
 
     // 各ファイルを解析
@@ -274,36 +288,8 @@ class ProjectAnalyzer {
     };
   }
 
-  private getAllTypeScriptFiles(dir: string): string[] {
-    const files: string[] = [];
-
-    const traverse = (currentPath: string): void => {
-      try {
-        const items = fs.readdirSync(currentPath);
-
-        for (const item of items) {
-          const fullPath = path.join(currentPath, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            if (!item.startsWith('.') && item !== 'node_modules' && item !== 'dist' && item !== 'coverage') {
-              traverse(fullPath);
-            }
-          } else if (stat.isFile() && item.endsWith('.ts') && !item.endsWith('.spec.ts')) {
-            files.push(fullPath);
-          }
-        }
-      } catch (error) {
-        console.error(`Error reading directory ${currentPath}:`, error);
-      }
-    };
-
-    traverse(dir);
-    return files;
-  }
-
   private analyzeTypeScriptFile(filePath: string): FileAnalysis {
-    const content = fs.readFileSync(filePath, 'utf-8');
+    const { content, ast, parseError } = this.model.getSourceFile(filePath);
     const lines = content.split('\n').length;
 
     const analysis: FileAnalysis = {
@@ -320,19 +306,22 @@ class ProjectAnalyzer {
       linesOfCode: lines
     };
 
-    try {
-      const ast = parseTs(content, {
-        loc: true,
-        range: true,
-        comment: false
-      });
-
+    if (ast) {
       this.extractFromAST(ast, analysis);
       this.determineRole(analysis, filePath);
-    } catch (error) {
+
+      // @Componentのメタデータはキャッシュ対象に含める
+      for (const cls of this.model.getFacts(filePath).classes) {
+        const decorator = cls.decorators.find(d => d.name === 'Component');
+        if (decorator) {
+          analysis.component = { name: cls.name, metadata: extractComponentMetadata(decorator.metadata) };
+          break;
+        }
+      }
+    } else {
       this.warnings.push({
         type: 'warning',
-        message: `Parse error in ${filePath}: ${error}`,
+        message: `Parse error in ${filePath}: ${parseError}`,
         file: filePath
       });
     }
@@ -369,7 +358,8 @@ class ProjectAnalyzer {
         if (source.startsWith('@angular/')) {
           category = 'angular';
         } else if (!source.startsWith('.') && !source.startsWith('/')) {
-          category = 'third-party';
+          // tsconfigのpaths/baseUrlで解決できるものはプロジェクト内エイリアス
+          category = this.model.getModuleResolver().isInternal(source, analysis.path) ? 'alias' : 'third-party';
         }
 
         if (node.specifiers && node.specifiers.length > 0) {
@@ -535,17 +525,77 @@ class ProjectAnalyzer {
   }
 
   private extractComponentInfo(filePath: string, analysis: FileAnalysis): void {
+    const metadata = analysis.component?.metadata;
+    const standaloneExplicit = metadata?.standalone !== undefined;
+
     const component: ComponentAnalysis = {
-      name: analysis.classes[0]?.name || 'Unknown',
+      name: analysis.component?.name || analysis.classes[0]?.name || 'Unknown',
       path: path.relative(this.baseDir, filePath),
-      standalone: false,
-      styleUrls: [],
-      imports: analysis.imports.filter(i => i.category === 'angular').map(i => i.source)
+      selector: metadata?.selector,
+      templateUrl: metadata?.templateUrl,
+      template: metadata?.template,
+      styleUrls: metadata?.styleUrls || [],
+      styles: metadata?.styles || [],
+      standalone: standaloneExplicit ? metadata!.standalone! : this.isStandaloneByDefault(metadata),
+      standaloneExplicit,
+      imports: metadata?.imports || [],
+      changeDetection: metadata?.changeDetection,
+      encapsulation: metadata?.encapsulation,
+      providers: metadata?.providers || [],
+      viewProviders: metadata?.viewProviders || [],
+      host: metadata?.host || {}
     };
 
     this.components.push(component);
   }
 
+  /**
+   * standalone未指定時のデフォルト値
+   * Angular 19以降はtrue、それ以前はfalse（バージョン不明時はimportsの有無で判断）
+   */
+  private isStandaloneByDefault(metadata?: ComponentMetadata): boolean {
+    const major = this.getAngularMajorVersion();
+    if (major !== null) {
+      return major >= 19;
+    }
+    return (metadata?.imports.length || 0) > 0;
+  }
+
+  /**
+   * 親方向のpackage.jsonから@angular/coreのメジャーバージョンを取得
+   */
+  private getAngularMajorVersion(): number | null {
+    if (this.angularMajorVersion !== undefined) {
+      return this.angularMajorVersion;
+    }
+
+    this.angularMajorVersion = null;
+    let dir = path.resolve(this.projectPath);
+    while (true) {
+      const packageJsonPath = path.join(dir, 'package.json');
+      if (fs.existsSync(packageJsonPath)) {
+        try {
+          const pkg = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+          const version = pkg.dependencies?.['@angular/core'] || pkg.devDependencies?.['@angular/core'];
+          const match = typeof version === 'string' ? version.match(/(\d+)/) : null;
+          if (match) {
+            this.angularMajorVersion = parseInt(match[1], 10);
+            break;
+          }
+        } catch (error) {
+          // 壊れたpackage.jsonは無視して親ディレクトリを探す
+        }
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        break;
+      }
+      dir = parent;
+    }
+
+    return this.angularMajorVersion;
+  }
+
   private extractServiceInfo(filePath: string, analysis: FileAnalysis): void {
     const service: ServiceAnalysis = {
       name: analysis.classes[0]?.name || 'Unknown',
@@ -574,24 +624,18 @@ class ProjectAnalyzer {
     // エッジ作成
     this.files.forEach(file => {
       file.imports.forEach(imp => {
-        if (imp.category === 'relative') {
-          const dir = path.dirname(file.path);
-          let resolvedPath = path.resolve(dir, imp.source);
-
-          if (!resolvedPath.endsWith('.ts')) {
-            if (fs.existsSync(resolvedPath + '.ts')) {
-              resolvedPath += '.ts';
-            }
-          }
+        if (imp.category === 'angular') {
+          return;
+        }
 
-          const targetNode = nodeMap.get(resolvedPath);
-          if (targetNode) {
-            edges.push({
-              from: file.relativePath,
-              to: targetNode.id,
-              type: 'import'
-            });
-          }
+        const resolvedPath = this.model.getModuleResolver().resolve(imp.source, file.path);
+        const targetNode = resolvedPath ? nodeMap.get(resolvedPath) : undefined;
+        if (targetNode) {
+          edges.push({
+            from: file.relativePath,
+            to: targetNode.id,
+            type: 'import'
+          });
         }
       });
     });
@@ -642,7 +686,7 @@ function formatJSON(analysis: ProjectAnalysis): string {
   return JSON.stringify(analysis, null, 2);
 }
 
-function formatMarkdown(analysis: ProjectAnalysis): string {
+export function formatMarkdown(analysis: ProjectAnalysis): string {
   let md = `# Project Analysis Report\n\n`;
   md += `**Analyzed At**: ${analysis.analyzedAt}\n\n`;
 
@@ -672,10 +716,26 @@ function formatMarkdown(analysis: ProjectAnalysis): string {
   md += `\n`;
 
   md += `## Components (${analysis.components.length})\n\n`;
-  analysis.components.forEach(c => {
-    md += `- **${c.name}** (${c.path})\n`;
-  });
-  md += `\n`;
+  if (analysis.components.length > 0) {
+    const standaloneCount = analysis.components.filter(c => c.standalone).length;
+    const onPushCount = analysis.components.filter(c => c.changeDetection === 'OnPush').length;
+    md += `- **Standalone**: ${standaloneCount} / ${analysis.components.length}\n`;
+    md += `- **NgModule-based**: ${analysis.components.length - standaloneCount}\n`;
+    md += `- **OnPush**: ${onPushCount} / ${analysis.components.length}\n\n`;
+
+    md += `| Component | Selector | Standalone | Change Detection | Encapsulation | Template | Styles | Imports | Providers | Host |\n`;
+    md += `|-----------|----------|------------|------------------|---------------|----------|--------|---------|-----------|------|\n`;
+    analysis.components.forEach(c => {
+      const standalone = `${c.standalone ? 'Yes' : 'No'}${c.standaloneExplicit ? '' : ' (default)'}`;
+      const template = c.templateUrl || (c.template !== undefined ? 'inline' : '-');
+      const styles = [...c.styleUrls, ...(c.styles.length > 0 ? [`${c.styles.length} inline`] : [])].join(', ') || '-';
+      const providers = [...c.providers, ...c.viewProviders].join(', ') || '-';
+      // host の式に含まれる | は表の区切りと衝突するためエスケープする
+      const host = Object.entries(c.host).map(([key, value]) => `\`${key}="${value}"\``.replace(/\|/g, '\\|')).join('<br>') || '-';
+      md += `| ${c.name} | ${c.selector || '-'} | ${standalone} | ${c.changeDetection || 'Default'} | ${c.encapsulation || 'Emulated'} | ${template} | ${styles} | ${c.imports.join(', ') || '-'} | ${providers} | ${host} |\n`;
+    });
+    md += `\n`;
+  }
 
   md += `## Services (${analysis.services.length})\n\n`;
   analysis.services.forEach(s => {
@@ -719,6 +779,8 @@ Usage: npx ts-node src/analyze-project.ts <project-dir> [options]
 Options:
   --output <format>  Output format: json, md (default: json)
   --save <path>      Save output to file
+  --project <names>  Analyze the given angular.json / project.json projects (comma separated)
+  --workspace        Analyze every project in the workspace
   --no-cache         Disable cache (default: cache enabled)
   --clear-cache      Clear cache and exit
   --help             Show this help message
@@ -729,6 +791,7 @@ Examples:
   npx ts-node src/analyze-project.ts ./my-project --output json --save analysis.json
   npx ts-node src/analyze-project.ts ./my-project --no-cache
   npx ts-node src/analyze-project.ts ./my-project --clear-cache
+  npx ts-node src/analyze-project.ts ./my-workspace --project shop,ui-lib --output md
 `);
     process.exit(0);
   }
@@ -752,10 +815,22 @@ Examples:
   const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
   const useCache = !args.includes('--no-cache');
 
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectPath, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
   const startTime = Date.now();
 
-  const analyzer = new ProjectAnalyzer(projectPath, useCache);
-  const analysis = await analyzer.analyze();
+  const results: { target: AnalysisTarget; analysis: ProjectAnalysis }[] = [];
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    const analyzer = new ProjectAnalyzer(target.path, useCache, model);
+    results.push({ target, analysis: await analyzer.analyze() });
+  }
 
   const endTime = Date.now();
   const duration = ((endTime - startTime) / 1000).toFixed(2);
@@ -765,9 +840,16 @@ Examples:
   // Format output
   let output: string;
   if (outputFormat === 'md') {
-    output = formatMarkdown(analysis);
+    output = results.map(({ target, analysis }) => formatProjectHeading(target) + formatMarkdown(analysis)).join('\n');
+  } else if (results.length === 1 && !results[0].target.project) {
+    output = formatJSON(results[0].analysis);
   } else {
-    output = formatJSON(analysis);
+    // ワークスペース解析時はプロジェクト名ごとにまとめる
+    output = JSON.stringify(results.map(({ target, analysis }) => ({
+      project: target.project?.name,
+      type: target.project?.type,
+      analysis
+    })), null, 2);
   }
 
   // Save or print
@@ -779,7 +861,9 @@ Examples:
   }
 }
 
-main().catch(error => {
-  console.error('Error:', error);
-  process.exit(1);
-});
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,762 @@
+#!/usr/bin/env ts-node
+
+/**
+ * analyze-route-reachability.ts
+ * ルートごとに、描画されるコンポーネント（テンプレートで使う子コンポーネントを含む）、
+ * 注入されるサービス、それらが行うHTTP呼び出しを辿る
+ *
+ * Usage: npx ts-node src/analyze-route-reachability.ts <project-dir>
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectModel, ClassFact } from './utils/project-model';
+import { DeclarationIndex } from './utils/angular-declarations';
+import { SelectorIndex } from './utils/selector-index';
+import { extractInjectionPoints } from './utils/di-providers';
+import { HttpCallSite, findHttpCalls } from './utils/http-calls';
+import { expressionToString } from './utils/angular-metadata';
+import { parseTemplate, getTemplateElements, getTemplateExpressions } from './utils/template-parser';
+import { TemplateUsageAnalyzer } from './analyze-template-usage';
+import { RoutingAnalyzer, RouteAnalysis, GuardStep } from './analyze-routing';
+import { DependencyInjectionAnalyzer } from './analyze-di';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
+
+// ==================== Interfaces ====================
+
+export interface ReachabilityAnalysis {
+  routes: RouteReachability[];
+  summary: {
+    totalRoutes: number;
+    totalComponents: number; // 重複を除いた数
+    totalServices: number;
+    totalHttpCalls: number;
+  };
+}
+
+export interface RouteReachability {
+  path: string;
+  outlet?: string;
+  title?: string;
+  file: string;
+  line: number;
+  guards: GuardStep[]; // 実行順
+  resolvers: string[];
+  components: ComponentNode[]; // 親ルートのレイアウトから順に
+  services: ReachableService[];
+  httpCalls: ReachableHttpCall[];
+}
+
+export interface ComponentNode {
+  name: string;
+  file: string | null;
+  role: 'layout' | 'routed' | 'child';
+  injects: string[];
+  children: ComponentNode[];
+  recursive?: boolean; // 祖先と同じコンポーネント（再帰的なテンプレート）
+}
+
+export interface ReachableService {
+  token: string;
+  implementation?: string; // useClass / useExisting で別クラスが提供される場合
+  file?: string;
+  injectedBy: string[];
+}
+
+export interface ReachableHttpCall extends HttpCallSite {
+  owner: string; // 呼び出しを行うサービス・コンポーネント
+  file: string;
+}
+
+interface ClassLocation {
+  cls: ClassFact;
+  file: string;
+}
+
+// ==================== Route Reachability Analyzer ====================
+
+export class RouteReachabilityAnalyzer {
+  private projectPath: string;
+  private model: ProjectModel;
+  private declarations: DeclarationIndex;
+  private selectors: SelectorIndex;
+  private injectables = new Map<string, ClassLocation>();
+  private implementations = new Map<string, string>(); // トークン → useClass / useExisting のクラス
+  private templateChildren = new Map<string, Array<{ name: string; file: string }>>();
+  private functions: Map<string, any> | null = null; // 関数ガード・リゾルバ名 → 宣言
+
+  constructor(projectPath: string, model?: ProjectModel) {
+    this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
+    this.declarations = new DeclarationIndex(this.model);
+    this.selectors = new SelectorIndex(this.model, this.declarations);
+  }
+
+  analyze(routeFilter?: string): ReachabilityAnalysis {
+    console.log(`Analyzing route reachability in: ${this.projectPath}\n`);
+
+    this.indexServices();
+
+    const routing = new RoutingAnalyzer(this.model).analyzeProject(this.projectPath);
+    const routes = flattenRoutes(routing.routes, [])
+      .filter(({ route }) => route.redirectTo === undefined && (route.children.length === 0 || route.component !== undefined))
+      .filter(({ route }) => !routeFilter || route.fullPath === normalizePath(routeFilter))
+      .map(({ route, ancestors }) => {
+        const effective = routing.urls.find(url => url.file === route.file && url.line === route.line);
+        return this.analyzeRoute(route, ancestors, effective?.chain || [], effective?.title);
+      });
+
+    const unique = (values: string[]) => new Set(values).size;
+    return {
+      routes,
+      summary: {
+        totalRoutes: routes.length,
+        totalComponents: unique(routes.flatMap(r => r.components.flatMap(flattenComponents)).map(c => c.name)),
+        totalServices: unique(routes.flatMap(r => r.services.map(s => s.implementation || s.token))),
+        totalHttpCalls: unique(routes.flatMap(r => r.httpCalls.map(c => `${c.file}:${c.line}`)))
+      }
+    };
+  }
+
+  /**
+   * @Injectable クラスと、useClass / useExisting で差し替えられるトークン
+   */
+  private indexServices(): void {
+    for (const file of this.model.getTypeScriptFiles()) {
+      for (const cls of this.model.getFacts(file).classes) {
+        if (cls.decorators.some(d => d.name === 'Injectable') && !this.injectables.has(cls.name)) {
+          this.injectables.set(cls.name, { cls, file });
+        }
+      }
+    }
+
+    for (const registration of new DependencyInjectionAnalyzer(this.projectPath, this.model).getRegistrations()) {
+      if ((registration.shape === 'useClass' || registration.shape === 'useExisting') && registration.target &&
+          registration.target !== registration.token && !this.implementations.has(registration.token)) {
+        this.implementations.set(registration.token, registration.target);
+      }
+    }
+  }
+
+  private analyzeRoute(route: RouteAnalysis, ancestors: RouteAnalysis[], chain: GuardStep[], title?: string): RouteReachability {
+    const services = new Map<string, ReachableService>();
+    const usages = new Map<string, Set<string>>(); // トークン → ルートのコードから参照されるメンバー
+    const httpCalls: ReachableHttpCall[] = [];
+    const lineage = [...ancestors, route];
+
+    // ガード・リゾルバが注入するサービス
+    const runningGuards = new Set(chain.map(step => step.guard));
+    lineage.forEach(level => {
+      level.guards.filter(guard => runningGuards.has(guard.name)).forEach(guard => {
+        this.collectServices(guard.name, guard.injects, services);
+        this.collectUsages(this.findRouteFunction(guard.name), guard.injects, usages);
+      });
+      level.resolvers.forEach(resolver => {
+        this.collectServices(resolver.name, resolver.injects, services);
+        this.collectUsages(this.findRouteFunction(resolver.name), resolver.injects, usages);
+      });
+    });
+
+    const components = lineage
+      .filter(level => level.component)
+      .map(level => this.buildComponentTree(level, level === route ? 'routed' : 'layout'))
+      .filter((node): node is ComponentNode => !!node);
+
+    components.flatMap(flattenComponents).forEach(node => {
+      this.collectServices(node.name, node.injects, services);
+
+      // コンポーネントが直接 HttpClient を使う場合（node.file はプロジェクトからの相対パス）
+      const location = node.file ? this.findClass(node.name, path.join(this.model.projectPath, node.file)) : null;
+      if (location) {
+        this.collectHttpCalls(node.name, location, httpCalls);
+        this.collectUsages(location.cls.node, node.injects, usages, location.file);
+      }
+    });
+
+    this.collectServiceHttpCalls(usages, httpCalls);
+
+    return {
+      path: route.fullPath,
+      outlet: lineage.map(level => level.outlet).filter(o => o).pop(),
+      title,
+      file: route.file,
+      line: route.line,
+      guards: chain,
+      resolvers: lineage.flatMap(level => level.resolvers.map(r => `${r.key}: ${r.name}`)),
+      components,
+      services: Array.from(services.values()),
+      httpCalls
+    };
+  }
+
+  // ==================== Components ====================
+
+  private buildComponentTree(route: RouteAnalysis, role: ComponentNode['role']): ComponentNode | null {
+    const fromFile = path.join(this.model.projectPath, route.lazyFile || route.file);
+    const declaration = this.declarations.findDeclaration(route.component!, fromFile);
+    const file = declaration?.kind === 'component' && declaration.file ? declaration.file : null;
+
+    return this.buildComponentNode(route.component!, file, role, []);
+  }
+
+  private buildComponentNode(name: string, file: string | null, role: ComponentNode['role'], ancestors: string[]): ComponentNode {
+    const location = file ? this.findClass(name, file) : null;
+    const node: ComponentNode = {
+      name,
+      file: file ? this.model.relative(file) : null,
+      role,
+      injects: location ? unique(extractInjectionPoints(location.cls.node).map(point => point.token)) : [],
+      children: []
+    };
+
+    const key = `${file}#${name}`;
+    if (ancestors.includes(key)) {
+      return { ...node, injects: [], recursive: true };
+    }
+
+    if (file) {
+      node.children = this.getTemplateChildren(file)
+        .filter(child => child.name !== name || child.file !== file)
+        .map(child => this.buildComponentNode(child.name, child.file, 'child', [...ancestors, key]));
+    }
+
+    return node;
+  }
+
+  /**
+   * テンプレートで使われているプロジェクト内のコンポーネント
+   */
+  private getTemplateChildren(file: string): Array<{ name: string; file: string }> {
+    if (this.templateChildren.has(file)) {
+      return this.templateChildren.get(file)!;
+    }
+
+    const children: Array<{ name: string; file: string }> = [];
+    this.templateChildren.set(file, children);
+
+    const template = new TemplateUsageAnalyzer(file, this.model).extractTemplate();
+    if (!template.content) return children;
+
+    for (const element of getTemplateElements(parseTemplate(template.content))) {
+      for (const entry of this.selectors.matchElement(element)) {
+        if (entry.kind !== 'component' || !entry.file) continue;
+
+        const childFile = path.join(this.model.projectPath, entry.file);
+        if (!children.some(child => child.name === entry.name && child.file === childFile)) {
+          children.push({ name: entry.name, file: childFile });
+        }
+      }
+    }
+
+    return children;
+  }
+
+  // ==================== Services ====================
+
+  /**
+   * 注入されるサービスを、サービス自身の注入先まで辿る
+   */
+  private collectServices(consumer: string, tokens: string[], services: Map<string, ReachableService>): void {
+    for (const token of tokens) {
+      const existing = services.get(token);
+      if (existing) {
+        if (!existing.injectedBy.includes(consumer)) {
+          existing.injectedBy.push(consumer);
+        }
+        continue;
+      }
+
+      const implementation = this.implementations.get(token);
+      const location = this.injectables.get(implementation || token);
+      services.set(token, {
+        token,
+        implementation,
+        file: location ? this.model.relative(location.file) : undefined,
+        injectedBy: [consumer]
+      });
+
+      if (location) {
+        this.collectServices(implementation || token, unique(extractInjectionPoints(location.cls.node).map(point => point.token)), services);
+      }
+    }
+  }
+
+  /**
+   * ガード・リゾルバ・コンポーネントのコード（とテンプレート）から参照される、注入したサービスのメンバー
+   * （ガード・リゾルバの宣言が見つからない場合は、注入したサービスのすべてのメンバー）
+   */
+  private collectUsages(root: any | null, tokens: string[], usages: Map<string, Set<string>>, templateFile?: string): void {
+    if (!root) {
+      tokens.forEach(token => {
+        const location = this.findService(token);
+        if (location) {
+          getClassMembers(location.cls.node).forEach((_, member) => addUsage(usages, token, member));
+        }
+      });
+      return;
+    }
+
+    const injections = getInjectedMembers(root);
+    findServiceUsages(root, injections).forEach((members, token) => {
+      members.forEach(member => addUsage(usages, token, member));
+    });
+
+    if (!templateFile) return;
+    const template = new TemplateUsageAnalyzer(templateFile, this.model).extractTemplate();
+    if (!template.content) return;
+
+    // orders.load() / orders.items$ | async
+    const expressions = getTemplateExpressions(parseTemplate(template.content));
+    injections.forEach((token, name) => {
+      const pattern = new RegExp(`(?:^|[^\\w$.])${name.replace(/\$/g, '\\$')}\\s*\\??\\.\\s*([\\w$]+)`, 'g');
+      expressions.forEach(expression => {
+        for (const match of expression.source.matchAll(pattern)) {
+          addUsage(usages, token, match[1]);
+        }
+      });
+    });
+  }
+
+  /**
+   * 参照されるメンバーから、this.xxx で呼ぶ同じクラスのメンバーと注入したサービスの参照を辿り、
+   * その中にあるHTTP呼び出しを集める（コンストラクタはインスタンス化の時点で動くため常に含める）
+   */
+  private collectServiceHttpCalls(usages: Map<string, Set<string>>, httpCalls: ReachableHttpCall[]): void {
+    const visited = new Map<string, Set<string>>(); // クラス名 → 辿ったメンバー
+    const queue = Array.from(usages.keys());
+
+    while (queue.length > 0) {
+      const token = queue.shift()!;
+      const location = this.findService(token);
+      if (!location) continue;
+
+      const owner = this.implementations.get(token) || token;
+      const members = getClassMembers(location.cls.node);
+      const done = visited.get(owner) || new Set<string>();
+      visited.set(owner, done);
+
+      const reached: string[] = [];
+      const stack = ['constructor', ...usages.get(token)!];
+      while (stack.length > 0) {
+        const name = stack.pop()!;
+        if (done.has(name) || !members.has(name)) continue;
+        done.add(name);
+        reached.push(name);
+        walk(members.get(name), node => {
+          if (node.type === 'MemberExpression' && node.object.type === 'ThisExpression' && !node.computed && node.property?.name) {
+            stack.push(node.property.name);
+          }
+        });
+      }
+      if (reached.length === 0) continue;
+
+      const file = this.model.relative(location.file);
+      for (const call of findHttpCalls(location.cls.node)) {
+        if ((!call.caller || reached.includes(call.caller)) && !httpCalls.some(existing => existing.file === file && existing.line === call.line)) {
+          httpCalls.push({ ...call, owner, file });
+        }
+      }
+
+      const injections = getInjectedMembers(location.cls.node);
+      reached.forEach(name => {
+        findServiceUsages(members.get(name), injections).forEach((names, next) => {
+          names.forEach(member => {
+            if (addUsage(usages, next, member)) {
+              queue.push(next);
+            }
+          });
+        });
+      });
+    }
+  }
+
+  private collectHttpCalls(owner: string, location: ClassLocation, httpCalls: ReachableHttpCall[]): void {
+    const file = this.model.relative(location.file);
+    for (const call of findHttpCalls(location.cls.node)) {
+      if (!httpCalls.some(existing => existing.file === file && existing.line === call.line)) {
+        httpCalls.push({ ...call, owner, file });
+      }
+    }
+  }
+
+  private findService(token: string): ClassLocation | null {
+    return this.injectables.get(this.implementations.get(token) || token) || null;
+  }
+
+  /**
+   * クラスのガード・リゾルバ（@Injectable）と、トップレベルの関数・アロー関数で書いた関数ガード・リゾルバ
+   */
+  private findRouteFunction(name: string): any | null {
+    const injectable = this.injectables.get(name);
+    if (injectable) {
+      return injectable.cls.node;
+    }
+
+    if (!this.functions) {
+      this.functions = new Map();
+      for (const file of this.model.getTypeScriptFiles()) {
+        for (const statement of this.model.getAst(file)?.body || []) {
+          const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+          if ((declaration?.type === 'FunctionDeclaration' || declaration?.type === 'ClassDeclaration') && declaration.id) {
+            if (!this.functions.has(declaration.id.name)) this.functions.set(declaration.id.name, declaration);
+          } else if (declaration?.type === 'VariableDeclaration') {
+            declaration.declarations
+              .filter((d: any) => d.id.type === 'Identifier' && d.init && !this.functions!.has(d.id.name))
+              .forEach((d: any) => this.functions!.set(d.id.name, d.init));
+          }
+        }
+      }
+    }
+    return this.functions.get(name) || null;
+  }
+
+  private findClass(name: string, file: string): ClassLocation | null {
+    const cls = this.model.getFacts(file).classes.find(c => c.name === name);
+    return cls ? { cls, file } : null;
+  }
+}
+
+// ==================== Helpers ====================
+
+function flattenRoutes(routes: RouteAnalysis[], ancestors: RouteAnalysis[]): Array<{ route: RouteAnalysis; ancestors: RouteAnalysis[] }> {
+  return routes.flatMap(route => [{ route, ancestors }, ...flattenRoutes(route.children, [...ancestors, route])]);
+}
+
+function flattenComponents(node: ComponentNode): ComponentNode[] {
+  return [node, ...node.children.flatMap(flattenComponents)];
+}
+
+function normalizePath(routePath: string): string {
+  return `/${routePath.split('/').filter(segment => segment).join('/')}`;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
+
+/**
+ * 注入を受け取るメンバー名・引数名・変数名 → トークン
+ */
+function getInjectedMembers(node: any): Map<string, string> {
+  return new Map(extractInjectionPoints(node)
+    .filter(point => point.member)
+    .map(point => [point.member!, point.token]));
+}
+
+/**
+ * this.orders.load() / orders.load()（コンストラクタ引数・inject() の変数） / inject(OrdersService).load() で参照されるメンバー
+ */
+function findServiceUsages(root: any, injections: Map<string, string>): Map<string, Set<string>> {
+  const usages = new Map<string, Set<string>>();
+
+  walk(root, node => {
+    if (node.type !== 'MemberExpression' || node.computed || !node.property?.name) return;
+
+    const object = node.object;
+    let token: string | undefined;
+    if (object.type === 'MemberExpression' && object.object.type === 'ThisExpression' && !object.computed) {
+      token = injections.get(object.property.name);
+    } else if (object.type === 'Identifier') {
+      token = injections.get(object.name);
+    } else if (object.type === 'CallExpression' && object.callee.type === 'Identifier' && object.callee.name === 'inject' && object.arguments[0]) {
+      token = expressionToString(object.arguments[0]);
+    }
+
+    if (token) {
+      addUsage(usages, token, node.property.name);
+    }
+  });
+
+  return usages;
+}
+
+function getClassMembers(classNode: any): Map<string, any> {
+  const members = new Map<string, any>();
+  for (const member of classNode.body.body) {
+    if ((member.type === 'MethodDefinition' || member.type === 'PropertyDefinition') && member.key?.name) {
+      members.set(member.key.name, member);
+    }
+  }
+  return members;
+}
+
+function addUsage(usages: Map<string, Set<string>>, token: string, member: string): boolean {
+  const members = usages.get(token) || new Set<string>();
+  usages.set(token, members);
+  if (members.has(member)) return false;
+  members.add(member);
+  return true;
+}
+
+function walk(node: any, visit: (node: any) => void): void {
+  if (!node || typeof node !== 'object') return;
+  visit(node);
+  for (const key in node) {
+    if (key === 'parent' || key === 'loc' || key === 'range') continue;
+    const child = node[key];
+    if (Array.isArray(child)) {
+      child.forEach(c => walk(c, visit));
+    } else if (child && typeof child.type === 'string') {
+      walk(child, visit);
+    }
+  }
+}
+
+// ==================== Output Formatters ====================
+
+function formatMarkdown(analysis: ReachabilityAnalysis): string {
+  let md = `# Route Reachability Report\n\n`;
+
+  md += `**Analyzed At**: ${new Date().toISOString()}\n\n`;
+
+  md += `## Summary\n\n`;
+  md += `- **Routes**: ${analysis.summary.totalRoutes}\n`;
+  md += `- **Components**: ${analysis.summary.totalComponents}\n`;
+  md += `- **Services**: ${analysis.summary.totalServices}\n`;
+  md += `- **HTTP Calls**: ${analysis.summary.totalHttpCalls}\n\n`;
+
+  md += `## Routes\n\n`;
+
+  analysis.routes.forEach(route => {
+    md += `### \`${route.path}\`${route.outlet ? ` (outlet: ${route.outlet})` : ''}\n\n`;
+    md += `**Defined At**: ${route.file}:${route.line}\n\n`;
+    if (route.title) {
+      md += `**Title**: ${route.title}\n\n`;
+    }
+    if (route.guards.length > 0) {
+      md += `**Guards**: ${route.guards.map(step => `${step.guard} (${step.phase})`).join(' → ')}\n\n`;
+    }
+    if (route.resolvers.length > 0) {
+      md += `**Resolvers**: ${route.resolvers.join(', ')}\n\n`;
+    }
+
+    md += `#### Components\n\n`;
+    if (route.components.length === 0) {
+      md += `_None_\n\n`;
+    } else {
+      const renderNode = (node: ComponentNode, depth: number): string => {
+        const role = node.role !== 'child' ? ` **(${node.role})**` : '';
+        const suffix = node.recursive ? ' ↻' : node.file ? ` — ${node.file}` : '';
+        return `${'  '.repeat(depth)}- ${node.name}${role}${suffix}\n` + node.children.map(child => renderNode(child, depth + 1)).join('');
+      };
+      md += route.components.map(node => renderNode(node, 0)).join('') + '\n';
+    }
+
+    md += `#### Services (${route.services.length})\n\n`;
+    if (route.services.length > 0) {
+      md += `| Service | Implementation | Injected By | File |\n`;
+      md += `|---------|----------------|-------------|------|\n`;
+      route.services.forEach(service => {
+        md += `| ${service.token} | ${service.implementation || '-'} | ${service.injectedBy.join(', ')} | ${service.file || '(external)'} |\n`;
+      });
+      md += `\n`;
+    }
+
+    md += `#### HTTP Calls (${route.httpCalls.length})\n\n`;
+    if (route.httpCalls.length > 0) {
+      md += `| Method | URL | Response | Called From | Location |\n`;
+      md += `|--------|-----|----------|-------------|----------|\n`;
+      route.httpCalls.forEach(call => {
+        const caller = call.caller ? `${call.owner}.${call.caller}()` : call.owner;
+        md += `| ${call.method} | \`${call.url}\` | ${call.responseType ? `\`${call.responseType}\`` : '-'} | ${caller} | ${call.file}:${call.line} |\n`;
+      });
+      md += `\n`;
+    }
+  });
+
+  return md;
+}
+
+function escapeHtml(text: string): string {
+  const map: { [key: string]: string } = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#039;'
+  };
+  return text.replace(/[&<>"']/g, m => map[m]);
+}
+
+function formatHtmlSection(analysis: ReachabilityAnalysis, heading: string): string {
+  const renderNode = (node: ComponentNode): string => {
+    const label = `<span class="component">${escapeHtml(node.name)}</span>` +
+      (node.role !== 'child' ? ` <span class="badge">${node.role}</span>` : '') +
+      (node.recursive ? ' ↻' : node.file ? ` <small>${escapeHtml(node.file)}</small>` : '') +
+      (node.injects.length > 0 ? ` <small class="injects">injects ${escapeHtml(node.injects.join(', '))}</small>` : '');
+
+    return node.children.length > 0
+      ? `<li><details open><summary>${label}</summary><ul>${node.children.map(renderNode).join('')}</ul></details></li>`
+      : `<li>${label}</li>`;
+  };
+
+  let html = `<section>\n`;
+  if (heading) {
+    html += `<h2>${escapeHtml(heading)}</h2>\n`;
+  }
+  html += `<p class="summary">${analysis.summary.totalRoutes} routes · ${analysis.summary.totalComponents} components · ` +
+    `${analysis.summary.totalServices} services · ${analysis.summary.totalHttpCalls} HTTP calls</p>\n`;
+
+  analysis.routes.forEach(route => {
+    html += `<details class="route">\n<summary><code>${escapeHtml(route.path)}</code>` +
+      `${route.outlet ? ` <span class="badge">outlet: ${escapeHtml(route.outlet)}</span>` : ''}` +
+      ` <small>${route.components.flatMap(flattenComponents).length} components · ${route.services.length} services · ${route.httpCalls.length} HTTP calls</small></summary>\n`;
+    html += `<p><small>${escapeHtml(route.file)}:${route.line}</small></p>\n`;
+
+    if (route.guards.length > 0) {
+      html += `<p><strong>Guards</strong>: ${route.guards.map(step => `${escapeHtml(step.guard)} <small>(${step.phase})</small>`).join(' → ')}</p>\n`;
+    }
+    if (route.resolvers.length > 0) {
+      html += `<p><strong>Resolvers</strong>: ${escapeHtml(route.resolvers.join(', '))}</p>\n`;
+    }
+
+    html += `<details open><summary><strong>Components</strong></summary><ul>${route.components.map(renderNode).join('')}</ul></details>\n`;
+
+    html += `<details open><summary><strong>Services (${route.services.length})</strong></summary><ul>`;
+    route.services.forEach(service => {
+      html += `<li><span class="service">${escapeHtml(service.token)}</span>` +
+        `${service.implementation ? ` → ${escapeHtml(service.implementation)}` : ''}` +
+        ` <small>${escapeHtml(service.file || '(external)')} · injected by ${escapeHtml(service.injectedBy.join(', '))}</small></li>`;
+    });
+    html += `</ul></details>\n`;
+
+    html += `<details open><summary><strong>HTTP Calls (${route.httpCalls.length})</strong></summary><ul>`;
+    route.httpCalls.forEach(call => {
+      const caller = call.caller ? `${call.owner}.${call.caller}()` : call.owner;
+      html += `<li><span class="method">${call.method}</span> <code>${escapeHtml(call.url)}</code>` +
+        `${call.responseType ? ` → <code>${escapeHtml(call.responseType)}</code>` : ''}` +
+        ` <small>${escapeHtml(caller)} · ${escapeHtml(call.file)}:${call.line}</small></li>`;
+    });
+    html += `</ul></details>\n</details>\n`;
+  });
+
+  html += `</section>\n`;
+  return html;
+}
+
+function formatHtml(sections: Array<{ heading: string; analysis: ReachabilityAnalysis }>): string {
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="UTF-8">
+<title>Route Reachability Report</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; margin: 2rem; color: #24292e; }
+  details { margin: 0.25rem 0 0.25rem 1rem; }
+  details.route { margin: 0.75rem 0; padding: 0.5rem 1rem; border: 1px solid #e1e4e8; border-radius: 6px; }
+  summary { cursor: pointer; }
+  ul { list-style: none; padding-left: 1rem; margin: 0.25rem 0; }
+  small { color: #6a737d; }
+  .badge { background: #f1f8ff; color: #0366d6; border-radius: 4px; padding: 0 0.4rem; font-size: 0.8rem; }
+  .component { color: #6f42c1; }
+  .service { color: #22863a; }
+  .method { font-weight: bold; color: #d73a49; }
+</style>
+</head>
+<body>
+<h1>Route Reachability Report</h1>
+<p><small>Analyzed At: ${new Date().toISOString()}</small></p>
+${sections.map(section => formatHtmlSection(section.analysis, section.heading)).join('\n')}
+</body>
+</html>
+`;
+}
+
+function formatConsole(analysis: ReachabilityAnalysis): void {
+  console.log(`\n📊 Route Reachability\n`);
+  console.log(`Summary:`);
+  console.log(`  - Routes: ${analysis.summary.totalRoutes}`);
+  console.log(`  - Components: ${analysis.summary.totalComponents}`);
+  console.log(`  - Services: ${analysis.summary.totalServices}`);
+  console.log(`  - HTTP Calls: ${analysis.summary.totalHttpCalls}\n`);
+
+  analysis.routes.forEach(route => {
+    const components = route.components.flatMap(flattenComponents).map(c => c.name);
+    console.log(`${route.path}${route.outlet ? ` (${route.outlet})` : ''}`);
+    console.log(`  components: ${components.length > 0 ? unique(components).join(', ') : '-'}`);
+    console.log(`  services:   ${route.services.length > 0 ? route.services.map(s => s.implementation || s.token).join(', ') : '-'}`);
+    route.httpCalls.forEach(call => {
+      console.log(`  http:       ${call.method} ${call.url} (${call.owner}${call.caller ? `.${call.caller}()` : ''})`);
+    });
+  });
+  console.log('');
+}
+
+// ==================== Main ====================
+
+function main(): void {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help')) {
+    console.log(`
+Usage: npx ts-node src/analyze-route-reachability.ts <project-dir> [options]
+
+Options:
+  --route <path>     Only report the given route (e.g. /orders/:id)
+  --output <format>  Output format: md, json, html (default: md)
+  --save <path>      Save output to file
+  --project <names>  Analyze the given angular.json / project.json projects (comma separated)
+  --workspace        Analyze every project in the workspace
+  --help             Show this help message
+
+Examples:
+  npx ts-node src/analyze-route-reachability.ts ./src
+  npx ts-node src/analyze-route-reachability.ts ./src --route /orders/:id
+  npx ts-node src/analyze-route-reachability.ts ./src --output html --save reachability.html
+`);
+    process.exit(0);
+  }
+
+  const projectPath = args[0];
+  const routeFilter = args.includes('--route') ? args[args.indexOf('--route') + 1] : undefined;
+  const outputFormat = args.includes('--output') ? args[args.indexOf('--output') + 1] : 'md';
+  const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
+
+  if (!fs.existsSync(projectPath)) {
+    console.error(`Error: Project directory "${projectPath}" does not exist`);
+    process.exit(1);
+  }
+
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectPath, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const results: Array<{ target: AnalysisTarget; analysis: ReachabilityAnalysis }> = [];
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    const analysis = new RouteReachabilityAnalyzer(target.path, model).analyze(routeFilter);
+
+    if (target.project) {
+      console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===`);
+    }
+    formatConsole(analysis);
+    results.push({ target, analysis });
+  }
+
+  if (savePath) {
+    let output: string;
+    if (outputFormat === 'json') {
+      output = JSON.stringify(
+        targets.some(t => t.project)
+          ? results.map(r => ({ project: r.target.project!.name, type: r.target.project!.type, analysis: r.analysis }))
+          : results[0].analysis,
+        null,
+        2
+      );
+    } else if (outputFormat === 'html') {
+      output = formatHtml(results.map(r => ({ heading: r.target.project ? r.target.project.name : '', analysis: r.analysis })));
+    } else {
+      output = results.map(r => formatProjectHeading(r.target) + formatMarkdown(r.analysis)).join('\n');
+    }
+    fs.writeFileSync(savePath, output);
+    console.log(`✓ Saved to ${savePath}\n`);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -2,129 +2,445 @@
 
 /**
  * analyze-routing.ts
- * ルーティング構造を解析・可視化
+ * ルーティング構造を解析・可視化（loadChildren / loadComponent の遅延ロード先ファイルも辿る）
  *
- * Usage: npx ts-node src/analyze-routing.ts <routes-file>
+ * Usage: npx ts-node src/analyze-routing.ts <routes-file | project-dir>
  */
 
 import * as fs from 'fs';
-import { parse } from '@typescript-eslint/typescript-estree';
+import * as path from 'path';
+import { ProjectModel } from './utils/project-model';
+import { DeclarationIndex } from './utils/angular-declarations';
+import { getMetadataProperty, readString, readExpressionList, expressionToString, parseLazyImport } from './utils/angular-metadata';
+import { extractInjectionPoints, findInjectCalls } from './utils/di-providers';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
 
 // ==================== Interfaces ====================
 
-interface RouteAnalysis {
+export interface RouteAnalysis {
   path: string;
   fullPath: string;
   component?: string;
   redirectTo?: string;
-  guards: string[];
-  resolvers: string[];
+  pathMatch?: string;
+  outlet?: string;
+  title?: string; // 文字列、またはタイトルリゾルバ名
+  guards: RouteGuard[];
+  resolvers: RouteResolver[];
+  providers: string[];
+  runGuardsAndResolvers?: string;
   data?: Record<string, any>;
   children: RouteAnalysis[];
   isLazy: boolean;
-  loadChildren?: string;
+  loadChildren?: string; // './users/users.module#UsersModule'
+  loadComponent?: string;
+  lazyFile?: string; // 遅延ロード先のファイル
+  file: string; // ルート定義のあるファイル（プロジェクトルートからの相対パス）
+  line: number;
   depth: number;
 }
 
-interface RoutingAnalysis {
+export type GuardKind = 'canMatch' | 'canLoad' | 'canActivate' | 'canActivateChild' | 'canDeactivate';
+
+/**
+ * ガード・リゾルバの参照（クラス名、関数名、またはインライン関数）
+ */
+export interface RouteFunctionRef {
+  name: string; // インライン関数の場合はソースの抜粋
+  type: 'class' | 'function' | 'inline';
+  injects: string[]; // inject() / コンストラクタで注入するトークン
+  line: number;
+}
+
+export interface RouteGuard extends RouteFunctionRef {
+  kind: GuardKind;
+}
+
+export interface RouteResolver extends RouteFunctionRef {
+  key: string;
+}
+
+/**
+ * URLごとに親ルートから継承されるガード・リゾルバ・プロバイダ
+ */
+export interface EffectiveRoute {
+  fullPath: string;
+  outlet?: string;
+  component?: string;
+  redirectTo?: string;
+  title?: string;
+  file: string;
+  line: number;
+  chain: GuardStep[]; // 実行順
+  resolvers: Array<{ key: string; name: string; definedAt: string }>;
+  providers: Array<{ token: string; definedAt: string }>;
+}
+
+export interface GuardStep {
+  phase: GuardKind;
+  guard: string;
+  definedAt: string; // ガードを定義しているルートのfullPath
+}
+
+export interface RoutingAnalysis {
   routes: RouteAnalysis[];
+  urls: EffectiveRoute[];
   totalRoutes: number;
   lazyRoutes: number;
   guards: Set<string>;
   resolvers: Set<string>;
+  entryPoints: string[]; // provideRouter(...) / RouterModule.forRoot(...) / Routes変数の位置
+  files: string[]; // ルート定義を読み込んだファイル
+}
+
+interface RouteNode {
+  node: any;
+  file: string;
+}
+
+interface RouteEntry {
+  expression: any;
+  file: string;
+  line: number;
+  label: string;
 }
 
 // ==================== Routing Analyzer ====================
 
-class RoutingAnalyzer {
+const ROUTER_CALLS = ['provideRouter', 'RouterModule.forRoot', 'RouterModule.forChild'];
+
+const GUARD_KINDS: GuardKind[] = ['canMatch', 'canLoad', 'canActivate', 'canActivateChild', 'canDeactivate'];
+
+export class RoutingAnalyzer {
+  private model: ProjectModel | null;
+  private declarations: DeclarationIndex | null = null;
   private routes: RouteAnalysis[] = [];
   private guards = new Set<string>();
   private resolvers = new Set<string>();
+  private files = new Set<string>();
+  private activeVariables = new Set<string>(); // 循環参照の検出用
+  private activeLazyTargets = new Set<string>();
+  private consumedVariables = new Set<string>(); // 展開したRoutes変数（起点の重複除外用）
+
+  constructor(model?: ProjectModel) {
+    this.model = model || null;
+  }
 
+  /**
+   * 1つのルート定義ファイルから解析を開始し、遅延ロード先のファイルも辿る
+   */
   analyzeFile(filePath: string): RoutingAnalysis {
     console.log(`Analyzing routes in: ${filePath}\n`);
 
-    const content = fs.readFileSync(filePath, 'utf-8');
+    const absPath = path.resolve(filePath);
+    const model = this.getModel(path.dirname(absPath));
+    if (!model.getAst(absPath)) {
+      const error = new Error(model.getSourceFile(absPath).parseError || 'Parse error');
+      console.error('Error parsing routes file:', error);
+      throw error;
+    }
 
-    try {
-      const ast = parse(content, {
-        loc: true,
-        range: true,
-        comment: false
-      });
+    const entries = [...this.findRouterCalls(absPath), ...this.findRoutesVariables(absPath)];
+    return this.buildAnalysis(entries);
+  }
 
-      this.extractRoutes(ast);
+  /**
+   * プロジェクト全体からルーティングの起点（provideRouter / RouterModule.forRoot / app.routes.ts）を探して解析
+   */
+  analyzeProject(projectPath: string): RoutingAnalysis {
+    console.log(`Analyzing routes in: ${projectPath}\n`);
 
-      const totalRoutes = this.countRoutes(this.routes);
-      const lazyRoutes = this.countLazyRoutes(this.routes);
+    const model = this.getModel(projectPath);
+    const files = model.getTypeScriptFiles();
 
-      return {
-        routes: this.routes,
-        totalRoutes,
-        lazyRoutes,
-        guards: this.guards,
-        resolvers: this.resolvers
-      };
-    } catch (error) {
-      console.error('Error parsing routes file:', error);
-      throw error;
+    let entries = files.flatMap(file =>
+      this.findRouterCalls(file).filter(entry => entry.label !== 'RouterModule.forChild')
+    );
+
+    if (entries.length === 0) {
+      const conventional = files.filter(file => /app[.-]rout(es|ing\.module)\.ts$/.test(file));
+      entries = conventional.flatMap(file => [...this.findRouterCalls(file), ...this.findRoutesVariables(file)]);
+    }
+
+    if (entries.length === 0) {
+      // 起点が見つからない場合はRoutes型の変数をすべて起点とし、他から遅延ロードされるものは後で除外する
+      entries = files.flatMap(file => this.findRoutesVariables(file));
     }
+
+    return this.buildAnalysis(entries);
   }
 
-  private extractRoutes(ast: any): void {
-    const traverse = (node: any): void => {
-      if (!node) return;
+  private getModel(defaultPath: string): ProjectModel {
+    if (!this.model) {
+      this.model = new ProjectModel(defaultPath);
+    }
+    return this.model;
+  }
 
-      // VariableDeclaration で routes を探す
-      if (node.type === 'VariableDeclaration') {
-        for (const declaration of node.declarations) {
-          if (declaration.id?.name === 'routes' && declaration.init?.type === 'ArrayExpression') {
-            this.routes = this.parseRoutesArray(declaration.init.elements, '', 0);
-            return;
-          }
+  private getDeclarations(): DeclarationIndex {
+    if (!this.declarations) {
+      this.declarations = new DeclarationIndex(this.model!);
+    }
+    return this.declarations;
+  }
+
+  private buildAnalysis(entries: RouteEntry[]): RoutingAnalysis {
+    const roots: Array<{ entry: RouteEntry; routes: RouteAnalysis[]; consumed: Set<string> }> = [];
+
+    for (const entry of entries) {
+      if (roots.some(root => this.getEntryKey(root.entry) === this.getEntryKey(entry))) continue;
+
+      this.consumedVariables = new Set();
+      const nodes = this.collectRouteNodes(entry.expression, entry.file);
+      if (nodes.length === 0) continue;
+
+      const routes = this.parseRoutesArray(nodes, '', 0);
+      roots.push({ entry, routes, consumed: this.consumedVariables });
+    }
+
+    // 他の起点から遅延ロードされた Routes 変数は起点から外す
+    const rootKeys = new Set(roots.map(root => this.getEntryKey(root.entry)));
+    const nested = new Set<string>();
+    roots.forEach(root => root.consumed.forEach(key => {
+      if (key !== this.getEntryKey(root.entry) && rootKeys.has(key)) nested.add(key);
+    }));
+
+    const effectiveRoots = roots.filter(root => !nested.has(this.getEntryKey(root.entry)));
+    this.routes = effectiveRoots.flatMap(root => root.routes);
+
+    return {
+      routes: this.routes,
+      urls: this.buildEffectiveRoutes(this.routes, []),
+      totalRoutes: this.countRoutes(this.routes),
+      lazyRoutes: this.countLazyRoutes(this.routes),
+      guards: this.guards,
+      resolvers: this.resolvers,
+      entryPoints: effectiveRoots.map(root => `${root.entry.label} (${this.model!.relative(root.entry.file)}:${root.entry.line})`),
+      files: Array.from(this.files).sort()
+    };
+  }
+
+  private getEntryKey(entry: RouteEntry): string {
+    return entry.expression?.type === 'Identifier' ? `${entry.file}#${entry.expression.name}` : `${entry.file}:${entry.line}`;
+  }
+
+  // ==================== Entry Points ====================
+
+  /**
+   * provideRouter(routes) / RouterModule.forRoot(routes) / RouterModule.forChild(routes)
+   */
+  private findRouterCalls(file: string): RouteEntry[] {
+    const entries: RouteEntry[] = [];
+
+    walk(this.model!.getAst(file), node => {
+      if (node.type === 'CallExpression' && node.arguments[0]) {
+        const callee = expressionToString(node.callee);
+        if (ROUTER_CALLS.includes(callee)) {
+          entries.push({ expression: node.arguments[0], file, line: node.loc.start.line, label: callee });
         }
       }
+    });
 
-      // ExportNamedDeclaration の中も探す
-      if (node.type === 'ExportNamedDeclaration' && node.declaration) {
-        traverse(node.declaration);
-      }
+    return entries;
+  }
 
-      for (const key in node) {
-        if (node[key] && typeof node[key] === 'object') {
-          if (Array.isArray(node[key])) {
-            node[key].forEach((child: any) => traverse(child));
-          } else {
-            traverse(node[key]);
-          }
+  /**
+   * Routes / Route[] 型の変数（名前は問わない）と、互換性のため routes という名前の配列
+   */
+  private findRoutesVariables(file: string): RouteEntry[] {
+    const entries: RouteEntry[] = [];
+
+    walk(this.model!.getAst(file), node => {
+      if (node.type === 'VariableDeclarator' && node.id?.type === 'Identifier' && node.init) {
+        const type = node.id.typeAnnotation?.typeAnnotation;
+        const isRoutesType = type?.typeName?.name === 'Routes' ||
+          (type?.type === 'TSArrayType' && type.elementType?.typeName?.name === 'Route');
+        const isLegacyName = node.id.name === 'routes' && node.init.type === 'ArrayExpression';
+
+        if (isRoutesType || isLegacyName) {
+          entries.push({ expression: node.id, file, line: node.loc.start.line, label: node.id.name });
         }
       }
-    };
+    });
+
+    return entries;
+  }
+
+  // ==================== Route Resolution ====================
+
+  /**
+   * ルート配列を表す式をルートオブジェクトの一覧に展開（変数・import・スプレッド・RouterModule.forChild を辿る）
+   */
+  private collectRouteNodes(expression: any, file: string): RouteNode[] {
+    if (!expression) return [];
+
+    switch (expression.type) {
+      case 'ArrayExpression':
+        return expression.elements.flatMap((el: any) => {
+          if (!el) return [];
+          if (el.type === 'SpreadElement') return this.collectRouteNodes(el.argument, file);
+          return this.collectRouteNodes(el, file);
+        });
+
+      case 'ObjectExpression':
+        return [{ node: expression, file }];
+
+      case 'TSAsExpression':
+      case 'TSSatisfiesExpression':
+      case 'TSNonNullExpression':
+        return this.collectRouteNodes(expression.expression, file);
+
+      case 'CallExpression':
+        return ROUTER_CALLS.includes(expressionToString(expression.callee))
+          ? this.collectRouteNodes(expression.arguments[0], file)
+          : [];
+
+      case 'Identifier': {
+        const resolved = this.resolveIdentifier(expression.name, file);
+        if (!resolved) return [];
+
+        const key = `${resolved.file}#${resolved.name}`;
+        if (this.activeVariables.has(key)) return [];
+        this.activeVariables.add(key);
+        this.consumedVariables.add(key);
+
+        const nodes = this.collectRouteNodes(resolved.init, resolved.file);
+        this.activeVariables.delete(key);
+        return nodes;
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * 識別子を変数宣言（同じファイル、またはimport先）に解決
+   */
+  private resolveIdentifier(name: string, file: string): { name: string; init: any; file: string } | null {
+    const declarator = findTopLevelVariable(this.model!.getAst(file), name);
+    if (declarator) {
+      return { name, init: declarator.init, file };
+    }
+
+    for (const imp of this.model!.getFacts(file).imports) {
+      const specifier = imp.specifiers.find(spec => spec.local === name);
+      if (!specifier) continue;
+
+      const target = this.model!.getModuleResolver().resolve(imp.source, file);
+      return target ? this.resolveExport(specifier.imported, target, new Set()) : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * ファイルのexport（default、再exportを含む）を変数宣言に解決
+   */
+  private resolveExport(name: string, file: string, visited: Set<string>): { name: string; init: any; file: string } | null {
+    if (visited.has(file)) return null;
+    visited.add(file);
+
+    const ast = this.model!.getAst(file);
+    if (!ast) return null;
+
+    if (name === 'default') {
+      const exported = ast.body.find((s: any) => s.type === 'ExportDefaultDeclaration')?.declaration;
+      if (!exported) return null;
+      return exported.type === 'Identifier'
+        ? this.resolveIdentifier(exported.name, file)
+        : { name: 'default', init: exported, file };
+    }
 
-    traverse(ast);
+    const declarator = findTopLevelVariable(ast, name);
+    if (declarator) {
+      return { name, init: declarator.init, file };
+    }
+
+    for (const statement of ast.body) {
+      if (!statement.source?.value) continue;
+
+      if (statement.type === 'ExportNamedDeclaration') {
+        const specifier = statement.specifiers?.find((spec: any) => spec.exported?.name === name);
+        const target = specifier && this.model!.getModuleResolver().resolve(statement.source.value, file);
+        if (target) return this.resolveExport(specifier.local.name, target, visited);
+      }
+
+      if (statement.type === 'ExportAllDeclaration') {
+        const target = this.model!.getModuleResolver().resolve(statement.source.value, file);
+        const resolved = target ? this.resolveExport(name, target, visited) : null;
+        if (resolved) return resolved;
+      }
+    }
+
+    return null;
   }
 
-  private parseRoutesArray(elements: any[], parentPath: string, depth: number): RouteAnalysis[] {
-    const routes: RouteAnalysis[] = [];
+  /**
+   * 遅延ロード先のルート（Routes変数、またはNgModuleの RouterModule.forChild）
+   */
+  private collectLazyRoutes(exportName: string, file: string): RouteNode[] {
+    const declaration = this.getDeclarations().findDeclaration(exportName, file);
+
+    if (declaration?.kind === 'module' && declaration.file) {
+      return this.collectModuleRoutes(declaration.name, declaration.file, new Set());
+    }
+
+    const resolved = this.resolveExport(exportName, file, new Set());
+    if (!resolved) return [];
+
+    this.consumedVariables.add(`${resolved.file}#${resolved.name}`);
+    return this.collectRouteNodes(resolved.init, resolved.file);
+  }
 
-    for (const element of elements) {
-      if (element && element.type === 'ObjectExpression') {
-        const route = this.parseRouteObject(element, parentPath, depth);
-        routes.push(route);
+  /**
+   * NgModule の imports にある RouterModule.forChild(...)（XxxRoutingModule 経由も含む）
+   */
+  private collectModuleRoutes(moduleName: string, file: string, visited: Set<string>): RouteNode[] {
+    const key = `${file}#${moduleName}`;
+    if (visited.has(key)) return [];
+    visited.add(key);
+
+    const cls = this.model!.getFacts(file).classes.find(c => c.name === moduleName);
+    const metadata = cls?.decorators.find(d => d.name === 'NgModule')?.metadata;
+    const imports = getMetadataProperty(metadata, 'imports');
+    if (imports?.type !== 'ArrayExpression') return [];
+
+    const nodes: RouteNode[] = [];
+    for (const element of imports.elements) {
+      if (element?.type === 'CallExpression' && expressionToString(element.callee) === 'RouterModule.forChild') {
+        nodes.push(...this.collectRouteNodes(element.arguments[0], file));
+      } else if (element?.type === 'Identifier') {
+        const imported = this.getDeclarations().findDeclaration(element.name, file);
+        if (imported?.kind === 'module' && imported.file) {
+          nodes.push(...this.collectModuleRoutes(imported.name, imported.file, visited));
+        }
       }
     }
 
-    return routes;
+    return nodes;
   }
 
-  private parseRouteObject(node: any, parentPath: string, depth: number): RouteAnalysis {
+  // ==================== Route Parsing ====================
+
+  private parseRoutesArray(nodes: RouteNode[], parentPath: string, depth: number): RouteAnalysis[] {
+    return nodes.map(({ node, file }) => {
+      this.files.add(this.model!.relative(file));
+      return this.parseRouteObject(node, file, parentPath, depth);
+    });
+  }
+
+  private parseRouteObject(node: any, file: string, parentPath: string, depth: number): RouteAnalysis {
     const route: RouteAnalysis = {
       path: '',
-      fullPath: '',
+      fullPath: parentPath || '/',
       guards: [],
       resolvers: [],
+      providers: [],
       children: [],
       isLazy: false,
+      file: this.model!.relative(file),
+      line: node.loc?.start.line || 0,
       depth
     };
 
@@ -136,7 +452,7 @@ class RoutingAnalyzer {
         switch (key) {
           case 'path':
             route.path = value.value || '';
-            route.fullPath = parentPath ? `${parentPath}/${route.path}` : `/${route.path}`;
+            route.fullPath = joinPath(parentPath, route.path);
             break;
 
           case 'component':
@@ -147,45 +463,207 @@ class RoutingAnalyzer {
             route.redirectTo = value.value;
             break;
 
+          case 'loadComponent': {
+            route.isLazy = true;
+            const lazy = parseLazyImport(value);
+            const target = lazy && this.model!.getModuleResolver().resolve(lazy.source, file);
+            route.loadComponent = lazy ? `${lazy.source}#${lazy.exportName || 'default'}` : 'dynamic';
+            if (target) {
+              route.lazyFile = this.model!.relative(target);
+              route.component = lazy!.exportName === 'default' || !lazy!.exportName
+                ? this.findDefaultExportName(target) || route.component
+                : lazy!.exportName;
+            }
+            break;
+          }
+
           case 'loadChildren':
             route.isLazy = true;
             route.loadChildren = value.value || 'dynamic';
             break;
 
+          case 'canMatch':
+          case 'canLoad':
           case 'canActivate':
-            if (value.type === 'ArrayExpression') {
-              route.guards = value.elements
-                .filter((el: any) => el && el.name)
-                .map((el: any) => {
-                  this.guards.add(el.name);
-                  return el.name;
-                });
+          case 'canActivateChild':
+          case 'canDeactivate':
+            for (const element of value.type === 'ArrayExpression' ? value.elements : [value]) {
+              if (!element) continue;
+              const guard: RouteGuard = { kind: key, ...this.describeFunction(element, file) };
+              route.guards.push(guard);
+              this.guards.add(guard.name);
             }
             break;
 
           case 'resolve':
             if (value.type === 'ObjectExpression') {
               value.properties.forEach((p: any) => {
-                if (p.value && p.value.name) {
-                  this.resolvers.add(p.value.name);
-                  route.resolvers.push(p.value.name);
-                }
+                if (p.type !== 'Property' || !p.value) return;
+                const resolver: RouteResolver = { key: p.key.name ?? p.key.value, ...this.describeFunction(p.value, file) };
+                route.resolvers.push(resolver);
+                this.resolvers.add(resolver.name);
               });
             }
             break;
 
-          case 'children':
-            if (value.type === 'ArrayExpression') {
-              route.children = this.parseRoutesArray(value.elements, route.fullPath, depth + 1);
-            }
+          case 'title':
+            route.title = readString(value) ?? expressionToString(value);
+            break;
+
+          case 'data':
+            route.data = readLiteral(value);
+            break;
+
+          case 'providers':
+            route.providers = readExpressionList(value);
+            break;
+
+          case 'pathMatch':
+          case 'outlet':
+            route[key as 'pathMatch' | 'outlet'] = readString(value);
+            break;
+
+          case 'runGuardsAndResolvers':
+            // 'always' / 'paramsChange' などの文字列、または関数
+            route.runGuardsAndResolvers = readString(value) ?? '(function)';
             break;
         }
       }
     }
 
+    // パスが確定してから子ルート（children / loadChildren）を解析する
+    const children = getMetadataProperty(node, 'children');
+    if (children) {
+      route.children = this.parseRoutesArray(this.collectRouteNodes(children, file), route.fullPath, depth + 1);
+    }
+
+    const lazy = parseLazyImport(getMetadataProperty(node, 'loadChildren'));
+    if (lazy) {
+      const target = this.model!.getModuleResolver().resolve(lazy.source, file);
+      route.loadChildren = `${lazy.source}#${lazy.exportName || 'default'}`;
+      const key = `${target}#${lazy.exportName || 'default'}`;
+      if (target && !this.activeLazyTargets.has(key)) {
+        route.lazyFile = this.model!.relative(target);
+        this.activeLazyTargets.add(key);
+        const lazyNodes = this.collectLazyRoutes(lazy.exportName || 'default', target);
+        route.children.push(...this.parseRoutesArray(lazyNodes, route.fullPath, depth + 1));
+        this.activeLazyTargets.delete(key);
+      }
+    }
+
     return route;
   }
 
+  /**
+   * ガード/リゾルバの式を読み取る（クラス、関数、インライン関数と、それらが注入するトークン）
+   */
+  private describeFunction(node: any, file: string): RouteFunctionRef {
+    const line = node.loc?.start.line || 0;
+
+    if (node.type === 'ArrowFunctionExpression' || node.type === 'FunctionExpression') {
+      const snippet = this.model!.getContent(file).slice(node.range[0], node.range[1]).replace(/\s+/g, ' ');
+      return {
+        name: snippet.length > 60 ? `${snippet.slice(0, 57)}...` : snippet,
+        type: 'inline',
+        injects: findInjectCalls(node).map(point => point.token),
+        line
+      };
+    }
+
+    // roleGuard('admin') のようなガードファクトリ
+    const identifier = node.type === 'CallExpression' ? node.callee : node;
+    const name = expressionToString(node);
+    if (identifier.type !== 'Identifier') {
+      return { name, type: 'function', injects: [], line };
+    }
+
+    const resolved = this.resolveFunctionDeclaration(identifier.name, file);
+    if (resolved?.node.type === 'ClassDeclaration') {
+      return { name, type: 'class', injects: extractInjectionPoints(resolved.node).map(point => point.token), line };
+    }
+    return { name, type: 'function', injects: resolved ? findInjectCalls(resolved.node).map(point => point.token) : [], line };
+  }
+
+  /**
+   * ガード名をクラス・関数・変数の宣言に解決（同じファイル、またはimport先）
+   */
+  private resolveFunctionDeclaration(name: string, file: string): { node: any; file: string } | null {
+    const findLocal = (localName: string, localFile: string): any | null => {
+      for (const statement of this.model!.getAst(localFile)?.body || []) {
+        const declaration = statement.type === 'ExportNamedDeclaration' || statement.type === 'ExportDefaultDeclaration'
+          ? statement.declaration
+          : statement;
+        if ((declaration?.type === 'ClassDeclaration' || declaration?.type === 'FunctionDeclaration') && declaration.id?.name === localName) {
+          return declaration;
+        }
+      }
+      return findTopLevelVariable(this.model!.getAst(localFile), localName)?.init ?? null;
+    };
+
+    const local = findLocal(name, file);
+    if (local) return { node: local, file };
+
+    for (const imp of this.model!.getFacts(file).imports) {
+      const specifier = imp.specifiers.find(spec => spec.local === name);
+      if (!specifier) continue;
+
+      const target = this.model!.getModuleResolver().resolve(imp.source, file);
+      const node = target ? findLocal(specifier.imported, target) : null;
+      return node ? { node, file: target! } : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * URLごとの実効ガードチェーン
+   * 実行順: canMatch（親から順）→ canLoad（遅延ロード時）→ 各階層で親の canActivateChild → canActivate → 離脱時の canDeactivate
+   */
+  private buildEffectiveRoutes(routes: RouteAnalysis[], ancestors: RouteAnalysis[]): EffectiveRoute[] {
+    const urls: EffectiveRoute[] = [];
+
+    for (const route of routes) {
+      const lineage = [...ancestors, route];
+      const isNavigable = route.children.length === 0 || route.component !== undefined || route.redirectTo !== undefined;
+
+      if (isNavigable) {
+        const steps = (phase: GuardKind, levels: RouteAnalysis[]): GuardStep[] => levels.flatMap(level =>
+          level.guards.filter(g => g.kind === phase).map(g => ({ phase, guard: g.name, definedAt: level.fullPath }))
+        );
+
+        const activation = lineage.flatMap((level, index) => [
+          // 近い親の canActivateChild から順に実行される
+          ...steps('canActivateChild', lineage.slice(0, index).reverse()),
+          ...steps('canActivate', [level])
+        ]);
+
+        urls.push({
+          fullPath: route.fullPath,
+          outlet: lineage.map(level => level.outlet).filter(o => o).pop(),
+          component: route.component,
+          redirectTo: route.redirectTo,
+          title: lineage.map(level => level.title).filter(t => t).pop(),
+          file: route.file,
+          line: route.line,
+          chain: route.redirectTo !== undefined
+            ? steps('canMatch', lineage)
+            : [...steps('canMatch', lineage), ...steps('canLoad', lineage), ...activation, ...steps('canDeactivate', [route])],
+          resolvers: lineage.flatMap(level => level.resolvers.map(r => ({ key: r.key, name: r.name, definedAt: level.fullPath }))),
+          providers: lineage.flatMap(level => level.providers.map(token => ({ token, definedAt: level.fullPath })))
+        });
+      }
+
+      urls.push(...this.buildEffectiveRoutes(route.children, lineage));
+    }
+
+    return urls;
+  }
+
+  private findDefaultExportName(file: string): string | undefined {
+    const exported = this.model!.getAst(file)?.body.find((s: any) => s.type === 'ExportDefaultDeclaration')?.declaration;
+    return exported?.id?.name ?? exported?.name;
+  }
+
   private countRoutes(routes: RouteAnalysis[]): number {
     let count = routes.length;
     for (const route of routes) {
@@ -204,6 +682,73 @@ class RoutingAnalyzer {
   }
 }
 
+/**
+ * data などのリテラルをJSの値として読み取る（読み取れない式は文字列表現）
+ */
+function readLiteral(node: any): any {
+  if (!node) return undefined;
+
+  switch (node.type) {
+    case 'Literal':
+      return node.value;
+    case 'TemplateLiteral':
+      return readString(node) ?? expressionToString(node);
+    case 'ArrayExpression':
+      return node.elements.map((el: any) => readLiteral(el));
+    case 'ObjectExpression': {
+      const result: Record<string, any> = {};
+      for (const prop of node.properties) {
+        if (prop.type === 'Property') {
+          result[prop.key.name ?? prop.key.value] = readLiteral(prop.value);
+        }
+      }
+      return result;
+    }
+    case 'UnaryExpression':
+      return node.operator === '-' && node.argument.type === 'Literal' ? -node.argument.value : expressionToString(node);
+    default:
+      return expressionToString(node);
+  }
+}
+
+function joinPath(parentPath: string, routePath: string): string {
+  const segments = [...parentPath.split('/'), ...routePath.split('/')].filter(segment => segment);
+  return `/${segments.join('/')}`;
+}
+
+function findTopLevelVariable(ast: any, name: string): any | null {
+  for (const statement of ast?.body || []) {
+    const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+    if (declaration?.type !== 'VariableDeclaration') continue;
+
+    const declarator = declaration.declarations.find((d: any) => d.id?.name === name);
+    if (declarator?.init) return declarator;
+  }
+  return null;
+}
+
+/**
+ * ASTを深さ優先で走査
+ */
+function walk(root: any, visitor: (node: any) => void): void {
+  const traverse = (node: any): void => {
+    if (!node || typeof node !== 'object') return;
+    visitor(node);
+
+    for (const key in node) {
+      if (key === 'parent' || key === 'loc' || key === 'range') continue;
+      const child = node[key];
+      if (Array.isArray(child)) {
+        child.forEach(traverse);
+      } else if (child && typeof child.type === 'string') {
+        traverse(child);
+      }
+    }
+  };
+
+  traverse(root);
+}
+
 // ==================== Output Formatters ====================
 
 function formatRouteTree(routes: RouteAnalysis[], prefix: string = ''): string {
@@ -220,24 +765,38 @@ function formatRouteTree(routes: RouteAnalysis[], prefix: string = ''): string {
       routeLabel += ` → ${route.component}`;
     }
 
-    if (route.redirectTo) {
-      routeLabel += ` ⇒ ${route.redirectTo}`;
+    if (route.redirectTo !== undefined) {
+      routeLabel += ` ⇒ ${route.redirectTo || "''"}`;
     }
 
     if (route.isLazy) {
       routeLabel += ' [LAZY]';
     }
 
+    if (route.outlet) {
+      routeLabel += ` (outlet: ${route.outlet})`;
+    }
+
+    routeLabel += `  (${route.file}:${route.line})`;
+
     output += `${prefix}${connector}${routeLabel}\n`;
 
     // Guards
-    if (route.guards.length > 0) {
-      output += `${childPrefix}  🛡️  Guards: ${route.guards.join(', ')}\n`;
-    }
+    GUARD_KINDS.forEach(kind => {
+      const guards = route.guards.filter(g => g.kind === kind);
+      if (guards.length > 0) {
+        output += `${childPrefix}  🛡️  ${kind}: ${guards.map(g => g.name).join(', ')}\n`;
+      }
+    });
 
     // Resolvers
     if (route.resolvers.length > 0) {
-      output += `${childPrefix}  📦 Resolvers: ${route.resolvers.join(', ')}\n`;
+      output += `${childPrefix}  📦 Resolvers: ${route.resolvers.map(r => `${r.key}: ${r.name}`).join(', ')}\n`;
+    }
+
+    // Providers
+    if (route.providers.length > 0) {
+      output += `${childPrefix}  💉 Providers: ${route.providers.join(', ')}\n`;
     }
 
     // Children
@@ -255,6 +814,8 @@ function formatMarkdown(analysis: RoutingAnalysis): string {
   md += `**Analyzed At**: ${new Date().toISOString()}\n\n`;
 
   md += `## Summary\n\n`;
+  md += `- **Entry Points**: ${analysis.entryPoints.join(', ') || 'none'}\n`;
+  md += `- **Route Files**: ${analysis.files.length}\n`;
   md += `- **Total Routes**: ${analysis.totalRoutes}\n`;
   md += `- **Lazy Routes**: ${analysis.lazyRoutes}\n`;
   md += `- **Guards**: ${analysis.guards.size}\n`;
@@ -287,19 +848,48 @@ function formatMarkdown(analysis: RoutingAnalysis): string {
     routes.forEach(route => {
       const indent = '  '.repeat(depth);
       md += `${indent}### ${route.fullPath || '/'}\n\n`;
+      md += `${indent}- **Defined In**: ${route.file}:${route.line}\n`;
       md += `${indent}- **Component**: ${route.component || 'N/A'}\n`;
-      md += `${indent}- **Lazy**: ${route.isLazy ? 'Yes' : 'No'}\n`;
+      md += `${indent}- **Lazy**: ${route.isLazy ? `Yes (${route.loadChildren || route.loadComponent}${route.lazyFile ? ` → ${route.lazyFile}` : ''})` : 'No'}\n`;
+
+      if (route.redirectTo !== undefined) {
+        md += `${indent}- **Redirect To**: ${route.redirectTo || "''"}\n`;
+      }
+
+      if (route.pathMatch) {
+        md += `${indent}- **Path Match**: ${route.pathMatch}\n`;
+      }
 
-      if (route.redirectTo) {
-        md += `${indent}- **Redirect To**: ${route.redirectTo}\n`;
+      if (route.outlet) {
+        md += `${indent}- **Outlet**: ${route.outlet}\n`;
       }
 
-      if (route.guards.length > 0) {
-        md += `${indent}- **Guards**: ${route.guards.join(', ')}\n`;
+      if (route.title) {
+        md += `${indent}- **Title**: ${route.title}\n`;
       }
 
-      if (route.resolvers.length > 0) {
-        md += `${indent}- **Resolvers**: ${route.resolvers.join(', ')}\n`;
+      GUARD_KINDS.forEach(kind => {
+        route.guards.filter(g => g.kind === kind).forEach(guard => {
+          const injects = guard.injects.length > 0 ? ` — injects ${guard.injects.join(', ')}` : '';
+          md += `${indent}- **${kind}**: \`${guard.name}\` (${guard.type})${injects}\n`;
+        });
+      });
+
+      route.resolvers.forEach(resolver => {
+        const injects = resolver.injects.length > 0 ? ` — injects ${resolver.injects.join(', ')}` : '';
+        md += `${indent}- **Resolve** \`${resolver.key}\`: \`${resolver.name}\` (${resolver.type})${injects}\n`;
+      });
+
+      if (route.runGuardsAndResolvers) {
+        md += `${indent}- **Run Guards And Resolvers**: ${route.runGuardsAndResolvers}\n`;
+      }
+
+      if (route.providers.length > 0) {
+        md += `${indent}- **Providers**: ${route.providers.join(', ')}\n`;
+      }
+
+      if (route.data) {
+        md += `${indent}- **Data**: \`${JSON.stringify(route.data)}\`\n`;
       }
 
       md += `\n`;
@@ -312,6 +902,23 @@ function formatMarkdown(analysis: RoutingAnalysis): string {
 
   listRoutes(analysis.routes);
 
+  const guarded = analysis.urls.filter(url => url.chain.length > 0 || url.resolvers.length > 0 || url.providers.length > 0);
+  if (guarded.length > 0) {
+    md += `## Effective Guard Chains\n\n`;
+    md += `Guards, resolvers and providers inherited from parent routes, in execution order.\n\n`;
+    md += `| URL | Component | Guard Chain | Resolvers | Route Providers |\n`;
+    md += `|-----|-----------|-------------|-----------|-----------------|\n`;
+    guarded.forEach(url => {
+      const escape = (value: string) => value.replace(/\|/g, '\\|');
+      const chain = url.chain.map(step => `${step.phase}: \`${escape(step.guard)}\``).join(' → ') || '-';
+      const resolvers = url.resolvers.map(r => `${r.key}: \`${escape(r.name)}\``).join(', ') || '-';
+      const providers = url.providers.map(p => p.token).join(', ') || '-';
+      const target = url.component || (url.redirectTo !== undefined ? `⇒ ${url.redirectTo || "''"}` : '-');
+      md += `| ${url.fullPath}${url.outlet ? ` (${url.outlet})` : ''} | ${target} | ${chain} | ${resolvers} | ${providers} |\n`;
+    });
+    md += `\n`;
+  }
+
   return md;
 }
 
@@ -322,33 +929,70 @@ function main(): void {
 
   if (args.length === 0 || args.includes('--help')) {
     console.log(`
-Usage: npx ts-node src/analyze-routing.ts <routes-file> [options]
+Usage: npx ts-node src/analyze-routing.ts <routes-file | project-dir> [options]
+
+Arguments:
+  routes-file        Routes file to start from (lazy routes are followed into other files)
+  project-dir        Project directory; starts from provideRouter / RouterModule.forRoot / app.routes.ts
 
 Options:
+  --output <format>  Output format: md, json (default: md)
   --save <path>      Save output to file
+  --project <names>  Analyze the given workspace projects (project-dir only)
+  --workspace        Analyze every project in the workspace (project-dir only)
   --help             Show this help message
 
 Examples:
   npx ts-node src/analyze-routing.ts ./src/app/app.routes.ts
-  npx ts-node src/analyze-routing.ts ./src/app/app.routes.ts --save routing.md
+  npx ts-node src/analyze-routing.ts ./src --save routing.md
+  npx ts-node src/analyze-routing.ts ./src --output json --save routing.json
 `);
     process.exit(0);
   }
 
-  const routesFile = args[0];
+  const routesPath = args[0];
+  const outputFormat = args.includes('--output') ? args[args.indexOf('--output') + 1] : 'md';
   const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
 
-  if (!fs.existsSync(routesFile)) {
-    console.error(`Error: Routes file "${routesFile}" does not exist`);
+  if (!fs.existsSync(routesPath)) {
+    console.error(`Error: Routes file "${routesPath}" does not exist`);
     process.exit(1);
   }
 
-  const analyzer = new RoutingAnalyzer();
-  const analysis = analyzer.analyzeFile(routesFile);
+  const results: Array<{ target: AnalysisTarget | null; analysis: RoutingAnalysis }> = [];
 
-  console.log(`✓ Found ${analysis.totalRoutes} routes\n`);
+  if (fs.statSync(routesPath).isDirectory()) {
+    let targets: AnalysisTarget[];
+    try {
+      targets = resolveAnalysisTargets(routesPath, args);
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
 
-  const output = formatMarkdown(analysis);
+    for (const target of targets) {
+      const model = new ProjectModel(target.path, target.tsconfigPath);
+      results.push({ target, analysis: new RoutingAnalyzer(model).analyzeProject(target.path) });
+    }
+  } else {
+    results.push({ target: null, analysis: new RoutingAnalyzer().analyzeFile(routesPath) });
+  }
+
+  results.forEach(({ target, analysis }) => {
+    const name = target?.project ? ` in ${target.project.name}` : '';
+    console.log(`✓ Found ${analysis.totalRoutes} routes${name} (${analysis.files.length} file${analysis.files.length !== 1 ? 's' : ''})\n`);
+  });
+
+  let output: string;
+  if (outputFormat === 'json') {
+    const json = results.map(({ target, analysis }) => {
+      const serializable = { ...analysis, guards: Array.from(analysis.guards), resolvers: Array.from(analysis.resolvers) };
+      return target?.project ? { project: target.project.name, type: target.project.type, ...serializable } : serializable;
+    });
+    output = JSON.stringify(results.some(r => r.target?.project) ? json : json[0], null, 2);
+  } else {
+    output = results.map(({ target, analysis }) => (target ? formatProjectHeading(target) : '') + formatMarkdown(analysis)).join('\n');
+  }
 
   // Save or print
   if (savePath) {
@@ -359,4 +1003,6 @@ Examples:
   }
 }
 
-main();
+if (require.main === module) {
+  main();
+}
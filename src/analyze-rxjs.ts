@@ -9,33 +9,45 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { parse } from '@typescript-eslint/typescript-estree';
+import { ProjectModel, ClassFact } from './utils/project-model';
+import { expressionToString, getMetadataProperty } from './utils/angular-metadata';
+import { findHttpCalls, getHttpClientMembers } from './utils/http-calls';
+import { extractInjectionPoints } from './utils/di-providers';
+import { parseTemplate, getTemplateExpressions } from './utils/template-parser';
+import { TemplateUsageAnalyzer } from './analyze-template-usage';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
 
 // ==================== Interfaces ====================
 
-interface RxJSAnalysis {
+export interface RxJSAnalysis {
   observables: ObservableInfo[];
   subjects: SubjectInfo[];
   operators: OperatorUsage[];
+  creationFunctions: OperatorUsage[];
+  operatorChains: OperatorChain[];
   subscriptions: SubscriptionInfo[];
   potentialLeaks: SubscriptionLeak[];
+  antiPatterns: RxJSAntiPattern[];
+  streamGraph: StreamGraph;
   summary: {
     totalObservables: number;
     totalSubjects: number;
     totalSubscriptions: number;
+    totalPipeChains: number;
     potentialLeaksCount: number;
     safeSubscriptions: number;
+    antiPatternsCount: number;
   };
 }
 
-interface ObservableInfo {
+export interface ObservableInfo {
   file: string;
   name: string;
   line: number;
   type: 'Observable' | 'BehaviorSubject' | 'ReplaySubject' | 'Subject' | 'AsyncSubject' | 'EventEmitter';
 }
 
-interface SubjectInfo {
+export interface SubjectInfo {
   file: string;
   name: string;
   line: number;
@@ -43,46 +55,177 @@ interface SubjectInfo {
   isPublic: boolean;
 }
 
-interface OperatorUsage {
-  operator: string;
-  count: number;
+export interface OperatorUsage {
+  operator: string; // rxjs でのエクスポート名（map as rxMap は map）
+  kind: 'operator' | 'creation';
+  count: number; // 呼び出し回数
   files: string[];
 }
 
-interface SubscriptionInfo {
+export interface OperatorChain {
+  chain: string[]; // pipe() に渡されたオペレーター（適用順）
+  count: number;
+  locations: string[]; // file:line
+}
+
+export interface SubscriptionInfo {
   file: string;
+  owner?: string; // subscribe() を含むクラス
   observable: string;
   line: number;
-  handlingType: 'manual' | 'async-pipe' | 'take' | 'takeUntil' | 'takeWhile' | 'first' | 'unknown';
+  operators: string[]; // subscribe() の前の pipe() チェーン
+  handlingType: 'takeUntil' | 'takeUntilDestroyed' | 'take' | 'takeWhile' | 'first' | 'manual' | 'destroyRef' | 'unknown';
+  storedIn?: string; // Subscription を保持する変数（this.sub など）
   isSafe: boolean;
 }
 
-interface SubscriptionLeak {
+export interface SubscriptionLeak {
   file: string;
+  owner?: string;
   line: number;
   observable: string;
-  reason: 'no-unsubscribe' | 'no-async-pipe' | 'no-auto-complete';
+  reason: 'no-unsubscribe' | 'not-unsubscribed' | 'notifier-not-emitted' | 'outside-injection-context';
   severity: 'error' | 'warning';
 }
 
+export type AntiPatternRule =
+  | 'nested-subscribe'
+  | 'switchmap-http-write'
+  | 'sharereplay-without-refcount'
+  | 'public-subject'
+  | 'takeuntil-not-last'
+  | 'constructor-subscribe';
+
+export interface RxJSAntiPattern {
+  rule: AntiPatternRule;
+  severity: 'error' | 'warning' | 'info';
+  file: string;
+  owner?: string;
+  line: number;
+  message: string;
+}
+
+export interface StreamGraph {
+  nodes: StreamNode[];
+  edges: StreamEdge[];
+}
+
+export interface StreamNode {
+  id: string; // Class.member（購読するクラスはクラス名）
+  kind: 'subject' | 'observable' | 'component' | 'consumer';
+  name: string;
+  owner: string;
+  type?: string; // BehaviorSubject / Observable など（型注釈・new から分かる場合）
+  file: string;
+  line: number;
+}
+
+export interface StreamEdge {
+  from: string;
+  to: string;
+  kind: 'asObservable' | 'derived' | 'subscribe' | 'async' | 'toSignal' | 'notifier'; // notifier: takeUntil() の通知元
+  operators?: string[]; // 派生時の pipe() チェーン
+  file: string;
+  line: number;
+}
+
 // ==================== RxJS Analyzer ====================
 
-class RxJSAnalyzer {
+const RXJS_MODULES = ['rxjs', 'rxjs/operators'];
+
+const STREAM_TYPES = ['Observable', 'BehaviorSubject', 'ReplaySubject', 'Subject', 'AsyncSubject'];
+
+// Observable を生成する関数（rxjs/operators 以外からimportされた場合）
+const CREATION_FUNCTIONS = [
+  'of', 'from', 'interval', 'timer', 'forkJoin', 'merge', 'concat', 'zip', 'race', 'combineLatest',
+  'defer', 'fromEvent', 'fromEventPattern', 'iif', 'range', 'throwError', 'generate', 'partition',
+  'onErrorResumeNext', 'using', 'bindCallback', 'bindNodeCallback'
+];
+
+// オペレーターでも生成関数でもない関数
+const RXJS_UTILITIES = ['firstValueFrom', 'lastValueFrom', 'isObservable', 'pipe', 'noop', 'identity', 'scheduled'];
+
+// 購読を完了させるオペレーター（takeUntil / takeUntilDestroyed は個別に判定）
+const COMPLETING_OPERATORS = ['take', 'first', 'takeWhile'];
+
+const ANGULAR_DECORATORS = ['Component', 'Directive', 'Injectable', 'Pipe'];
+
+const FUNCTION_TYPES = ['ArrowFunctionExpression', 'FunctionExpression', 'FunctionDeclaration'];
+
+// takeUntil より後ろに置いても購読が残らないオペレーター
+const ALLOWED_AFTER_TAKEUNTIL = [
+  'count', 'defaultIfEmpty', 'endWith', 'every', 'finalize', 'isEmpty', 'last', 'max', 'min',
+  'reduce', 'share', 'shareReplay', 'skipLast', 'takeLast', 'throwIfEmpty', 'toArray'
+];
+
+const HTTP_WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+export const ANTI_PATTERN_RULES: Record<AntiPatternRule, { severity: RxJSAntiPattern['severity']; description: string }> = {
+  'nested-subscribe': {
+    severity: 'warning',
+    description: 'subscribe() inside another subscribe() callback; compose with switchMap / concatMap / mergeMap instead'
+  },
+  'switchmap-http-write': {
+    severity: 'error',
+    description: 'switchMap cancels in-flight HTTP writes (POST / PUT / PATCH / DELETE); use concatMap, mergeMap or exhaustMap'
+  },
+  'sharereplay-without-refcount': {
+    severity: 'warning',
+    description: 'shareReplay() without { refCount: true } keeps the source subscribed after all subscribers leave'
+  },
+  'public-subject': {
+    severity: 'warning',
+    description: 'Subject exposed as a public member; expose asObservable() and keep the Subject private'
+  },
+  'takeuntil-not-last': {
+    severity: 'error',
+    description: 'Operators after takeUntil / takeUntilDestroyed can keep inner subscriptions alive; move it to the end of pipe()'
+  },
+  'constructor-subscribe': {
+    severity: 'warning',
+    description: 'subscribe() in a constructor runs before inputs are set; move it to ngOnInit or use takeUntilDestroyed()'
+  }
+};
+
+interface ClassScope {
+  name: string;
+  httpClients: string[]; // HttpClient を注入しているメンバー
+  httpWriteMethods: string[]; // HTTPの書き込みを行うメソッド
+  serviceWriteMethods: Map<string, string[]>; // 注入したサービスのメンバー（this.orders）→ サービス側でHTTPの書き込みを行うメソッド
+  teardownTargets: Map<string, 'ngOnDestroy' | 'DestroyRef'>; // 破棄時に unsubscribe() される対象
+  notifiedSubjects: Set<string>; // 破棄時に next() される対象
+  subjectFields: Set<string>; // this.destroy$ など Subject 型のフィールド
+  collections: Map<string, string>; // this.subs.add(sub) のローカル変数名 → this.subs
+}
+
+interface TraversalContext {
+  scope: ClassScope | null;
+  injectionContext: boolean;
+  inConstructor: boolean;
+}
+
+export class RxJSAnalyzer {
   private projectPath: string;
+  private model: ProjectModel;
   private observables: ObservableInfo[] = [];
   private subjects: SubjectInfo[] = [];
-  private operators = new Map<string, Set<string>>();
+  private operators = new Map<string, { kind: OperatorUsage['kind']; count: number; files: Set<string> }>();
+  private operatorChains = new Map<string, OperatorChain>();
+  private rxjsImports = new Map<string, { name: string; source: string }>(); // ファイルごとのローカル名 → エクスポート名
+  private rxjsNamespaces = new Map<string, string>(); // import * as rx from 'rxjs'
   private subscriptions: SubscriptionInfo[] = [];
   private potentialLeaks: SubscriptionLeak[] = [];
+  private antiPatterns: RxJSAntiPattern[] = [];
 
-  constructor(projectPath: string) {
+  constructor(projectPath: string, model?: ProjectModel) {
     this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
   }
 
   analyze(): RxJSAnalysis {
     console.log(`Analyzing RxJS usage in: ${this.projectPath}\n`);
 
-    const files = this.getAllTypeScriptFiles(this.projectPath);
+    const files = this.model.getTypeScriptFiles();
     console.log(`Analyzing ${files.length} files...\n`);
 
     let processed = 0;
@@ -95,92 +238,78 @@ class RxJSAnalyzer {
     }
 
     const operatorUsage = this.aggregateOperatorUsage();
+    const operatorChains = Array.from(this.operatorChains.values())
+      .sort((a, b) => b.count - a.count || b.chain.length - a.chain.length);
     const safeSubscriptions = this.subscriptions.filter(s => s.isSafe).length;
+    const streamGraph = new StreamGraphBuilder(this.projectPath, this.model).build();
 
     return {
       observables: this.observables,
       subjects: this.subjects,
-      operators: operatorUsage,
+      operators: operatorUsage.filter(op => op.kind === 'operator'),
+      creationFunctions: operatorUsage.filter(op => op.kind === 'creation'),
+      operatorChains,
       subscriptions: this.subscriptions,
       potentialLeaks: this.potentialLeaks,
+      antiPatterns: this.antiPatterns,
+      streamGraph,
       summary: {
         totalObservables: this.observables.length,
         totalSubjects: this.subjects.length,
         totalSubscriptions: this.subscriptions.length,
+        totalPipeChains: operatorChains.reduce((total, chain) => total + chain.count, 0),
         potentialLeaksCount: this.potentialLeaks.length,
-        safeSubscriptions
+        safeSubscriptions,
+        antiPatternsCount: this.antiPatterns.length
       }
     };
   }
 
-  private getAllTypeScriptFiles(dir: string): string[] {
-    const files: string[] = [];
-
-    const traverse = (currentPath: string): void => {
-      try {
-        const items = fs.readdirSync(currentPath);
-
-        for (const item of items) {
-          const fullPath = path.join(currentPath, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            if (!item.startsWith('.') && item !== 'node_modules' && item !== 'dist') {
-              traverse(fullPath);
-            }
-          } else if (stat.isFile() && item.endsWith('.ts') && !item.endsWith('.spec.ts')) {
-            files.push(fullPath);
-          }
-        }
-      } catch (error) {
-        // Ignore errors
-      }
-    };
-
-    traverse(dir);
-    return files;
-  }
-
   private analyzeFile(filePath: string): void {
-    const content = fs.readFileSync(filePath, 'utf-8');
+    const { ast } = this.model.getSourceFile(filePath);
     const relativePath = path.relative(this.projectPath, filePath);
 
-    try {
-      const ast = parse(content, {
-        loc: true,
-        range: true,
-        comment: false
-      });
-
-      let hasRxJSImport = false;
-      let classHasNgOnDestroy = false;
-      const subscriptionVariables = new Set<string>();
-
-      const traverse = (node: any): void => {
-        if (!node) return;
+    if (!ast) {
+      // Ignore parse errors
+      return;
+    }
 
-        // RxJSインポートを検出
-        if (node.type === 'ImportDeclaration' && node.source.value === 'rxjs') {
-          hasRxJSImport = true;
+    try {
+      this.collectRxJSImports(ast);
+      const ancestors: any[] = [];
+
+      const traverse = (node: any, ctx: TraversalContext): void => {
+        if (!node || typeof node !== 'object') return;
+
+        // クラスごとに破棄処理を集め、コンストラクタとフィールド初期化子をインジェクションコンテキストとして辿る
+        if (node.type === 'ClassDeclaration' || node.type === 'ClassExpression') {
+          const scope = this.buildClassScope(node, filePath);
+          const isAngularClass = (node.decorators || []).some((dec: any) => ANGULAR_DECORATORS.includes(dec.expression?.callee?.name));
+
+          ancestors.push(node);
+          for (const member of node.body.body) {
+            if (member.type === 'MethodDefinition') {
+              const isConstructor = member.kind === 'constructor';
+              const memberCtx = { scope, injectionContext: isAngularClass && isConstructor, inConstructor: isConstructor };
+              member.value?.params?.forEach((param: any) => traverse(param, memberCtx));
+              traverse(member.value?.body, memberCtx);
+            } else {
+              traverse(member, { scope, injectionContext: isAngularClass && member.type === 'PropertyDefinition', inConstructor: false });
+            }
+          }
+          ancestors.pop();
+          return;
         }
 
-        // クラス情報を追跡
-        if (node.type === 'ClassDeclaration' && node.id) {
-          // ngOnDestroyの実装を確認
-          if (node.implements) {
-            node.implements.forEach((impl: any) => {
-              if (impl.expression?.name === 'OnDestroy') {
-                classHasNgOnDestroy = true;
-              }
-            });
-          }
+        if (FUNCTION_TYPES.includes(node.type)) {
+          ctx = { ...ctx, injectionContext: false, inConstructor: false };
         }
 
-        // プロパティ宣言でObservable/Subjectを検出
-        if (node.type === 'PropertyDefinition' && node.typeAnnotation) {
-          const typeName = this.extractTypeName(node.typeAnnotation);
+        // プロパティ宣言でObservable/Subjectを検出（型注釈がなければ new Subject() などの初期化子から）
+        if (node.type === 'PropertyDefinition' && (node.typeAnnotation || node.value?.type === 'NewExpression')) {
+          const typeName = node.typeAnnotation ? this.extractTypeName(node.typeAnnotation) : node.value.callee?.name;
           if (this.isRxJSType(typeName)) {
-            const isPublic = !node.accessibility || node.accessibility === 'public';
+            const isPublic = (!node.accessibility || node.accessibility === 'public') && node.key.type !== 'PrivateIdentifier';
 
             if (this.isSubjectType(typeName)) {
               this.subjects.push({
@@ -190,6 +319,9 @@ class RxJSAnalyzer {
                 type: typeName as SubjectInfo['type'],
                 isPublic
               });
+              if (isPublic) {
+                this.report('public-subject', relativePath, node.loc.start.line, ctx.scope, `${typeName} '${node.key.name}' is public`);
+              }
             } else {
               this.observables.push({
                 file: relativePath,
@@ -199,71 +331,319 @@ class RxJSAnalyzer {
               });
             }
           }
-
-          if (typeName === 'Subscription') {
-            subscriptionVariables.add(node.key.name);
-          }
         }
 
-        // RxJSオペレーターの使用を検出
-        if (hasRxJSImport && node.type === 'CallExpression' && node.callee?.name) {
-          const operatorName = node.callee.name;
-          if (this.isRxJSOperator(operatorName)) {
-            if (!this.operators.has(operatorName)) {
-              this.operators.set(operatorName, new Set());
-            }
-            this.operators.get(operatorName)!.add(relativePath);
+        // RxJSオペレーター・生成関数の使用を検出
+        const rxjs = node.type === 'CallExpression' ? this.resolveRxJS(node.callee) : null;
+        if (rxjs) {
+          if (!this.operators.has(rxjs.name)) {
+            this.operators.set(rxjs.name, { kind: rxjs.kind, count: 0, files: new Set() });
           }
+          const usage = this.operators.get(rxjs.name)!;
+          usage.count++;
+          usage.files.add(relativePath);
         }
 
         // .subscribe()呼び出しを検出
         if (node.type === 'CallExpression' &&
             node.callee?.property?.name === 'subscribe') {
+          this.analyzeSubscription(node, ctx, ancestors, relativePath);
+        }
+
+        if (node.type === 'CallExpression') {
+          this.checkAntiPatterns(node, ctx, ancestors, relativePath);
+        }
 
-          const line = node.loc.start.line;
-          const observable = this.extractObservableName(node.callee.object);
-
-          // 安全性を判定
-          const handlingType = this.determineSubscriptionHandling(node, content, line);
-          const isSafe = this.isSubscriptionSafe(handlingType, classHasNgOnDestroy, subscriptionVariables);
-
-          this.subscriptions.push({
-            file: relativePath,
-            observable,
-            line,
-            handlingType,
-            isSafe
-          });
-
-          // 潜在的なリークを検出
-          if (!isSafe) {
-            this.potentialLeaks.push({
-              file: relativePath,
-              line,
-              observable,
-              reason: this.determineLeakReason(handlingType, classHasNgOnDestroy),
-              severity: 'warning'
-            });
+        // チェーンの最も外側の pipe() で判定（a.pipe(...).pipe(...) は1つのチェーン）
+        if (node.type === 'CallExpression' && node.callee.type === 'MemberExpression' && node.callee.property?.name === 'pipe') {
+          const parent = ancestors[ancestors.length - 1];
+          const isInnerPipe = parent?.type === 'MemberExpression' && parent.object === node && parent.property?.name === 'pipe';
+          if (!isInnerPipe) {
+            this.analyzePipeChain(node, ctx, relativePath);
           }
         }
 
+        ancestors.push(node);
         for (const key in node) {
-          if (node[key] && typeof node[key] === 'object') {
-            if (Array.isArray(node[key])) {
-              node[key].forEach((child: any) => traverse(child));
-            } else {
-              traverse(node[key]);
-            }
+          if (key === 'parent' || key === 'loc' || key === 'range') continue;
+          const child = node[key];
+          if (Array.isArray(child)) {
+            child.forEach((c: any) => traverse(c, ctx));
+          } else if (child && typeof child.type === 'string') {
+            traverse(child, ctx);
           }
         }
+        ancestors.pop();
       };
 
-      traverse(ast);
+      traverse(ast, { scope: null, injectionContext: false, inConstructor: false });
     } catch (error) {
       // Ignore parse errors
     }
   }
 
+  /**
+   * pipe() チェーンと Subscription の保持先から、subscribe() が破棄時に解除されるか判定
+   */
+  private analyzeSubscription(node: any, ctx: TraversalContext, ancestors: any[], relativePath: string): void {
+    const line = node.loc.start.line;
+    const operators = collectPipeOperators(node.callee.object, callee => this.operatorName(callee));
+    const observable = this.extractObservableName(stripPipes(node.callee.object));
+    const scope = ctx.scope;
+
+    let handlingType: SubscriptionInfo['handlingType'] = 'unknown';
+    let reason: SubscriptionLeak['reason'] | null = null;
+    let storedIn: string | undefined;
+
+    const untilDestroyed = operators.find(op => op.name === 'takeUntilDestroyed');
+    const takeUntil = operators.find(op => op.name === 'takeUntil');
+    const completing = operators.find(op => COMPLETING_OPERATORS.includes(op.name));
+
+    if (untilDestroyed) {
+      handlingType = 'takeUntilDestroyed';
+      // DestroyRef を渡さない場合はインジェクションコンテキスト内でしか使えない
+      if (untilDestroyed.node.arguments.length === 0 && !ctx.injectionContext) {
+        reason = 'outside-injection-context';
+      }
+    } else if (takeUntil) {
+      handlingType = 'takeUntil';
+      const notifier = memberPath(takeUntil.node.arguments[0]);
+      if (notifier && scope?.subjectFields.has(notifier) && !scope.notifiedSubjects.has(notifier)) {
+        reason = 'notifier-not-emitted';
+      }
+    } else if (completing) {
+      handlingType = completing.name as SubscriptionInfo['handlingType'];
+    } else {
+      storedIn = findSubscriptionStorage(node, ancestors, scope);
+      const teardown = storedIn ? scope?.teardownTargets.get(storedIn) : undefined;
+      if (teardown) {
+        handlingType = teardown === 'ngOnDestroy' ? 'manual' : 'destroyRef';
+      } else {
+        reason = storedIn ? 'not-unsubscribed' : 'no-unsubscribe';
+      }
+    }
+
+    this.subscriptions.push({
+      file: relativePath,
+      owner: scope?.name,
+      observable,
+      line,
+      operators: operators.map(op => op.name),
+      handlingType,
+      storedIn,
+      isSafe: !reason
+    });
+
+    if (ctx.inConstructor) {
+      this.report('constructor-subscribe', relativePath, line, scope, `${observable} subscribed in the constructor`,
+        handlingType === 'takeUntilDestroyed' ? 'info' : undefined);
+    }
+
+    // 潜在的なリークを検出
+    if (reason) {
+      this.potentialLeaks.push({
+        file: relativePath,
+        owner: scope?.name,
+        line,
+        observable,
+        reason,
+        severity: reason === 'outside-injection-context' ? 'error' : 'warning'
+      });
+    }
+  }
+
+  /**
+   * ngOnDestroy（とそこから呼ばれるメソッド）と DestroyRef.onDestroy() のコールバックで
+   * unsubscribe() / next() される対象を集める
+   */
+  private buildClassScope(classNode: any, filePath: string): ClassScope {
+    const scope: ClassScope = {
+      name: classNode.id?.name || '(anonymous class)',
+      httpClients: getHttpClientMembers(classNode),
+      httpWriteMethods: findHttpWriteMethods(classNode),
+      serviceWriteMethods: this.findServiceWriteMethods(classNode, filePath),
+      teardownTargets: new Map(),
+      notifiedSubjects: new Set(),
+      subjectFields: new Set(),
+      collections: new Map()
+    };
+
+    const methods = new Map<string, any>();
+    for (const member of classNode.body.body) {
+      if (member.type === 'MethodDefinition' && member.key?.name) {
+        methods.set(member.key.name, member.value);
+      }
+      if (member.type === 'PropertyDefinition' && member.key?.name) {
+        const typeName = member.typeAnnotation ? this.extractTypeName(member.typeAnnotation) : member.value?.callee?.name;
+        if (this.isSubjectType(typeName)) {
+          scope.subjectFields.add(`this.${member.key.name}`);
+        }
+      }
+    }
+
+    const scanTeardown = (body: any, source: 'ngOnDestroy' | 'DestroyRef', visited: Set<string>): void => {
+      walk(body, node => {
+        if (node.type !== 'CallExpression' || node.callee.type !== 'MemberExpression') return;
+        const method = node.callee.property?.name;
+        const target = memberPath(node.callee.object);
+
+        if (target && (method === 'unsubscribe' ||
+            (method === 'forEach' && containsCall(node.arguments[0], 'unsubscribe')))) {
+          if (!scope.teardownTargets.has(target)) {
+            scope.teardownTargets.set(target, source);
+          }
+        }
+        if (target && method === 'next') {
+          scope.notifiedSubjects.add(target);
+        }
+
+        // ngOnDestroy() { this.cleanup(); } のような呼び出し先も辿る
+        if (node.callee.object.type === 'ThisExpression' && methods.has(method) && !visited.has(method)) {
+          visited.add(method);
+          scanTeardown(methods.get(method).body, source, visited);
+        }
+      });
+    };
+
+    if (methods.has('ngOnDestroy')) {
+      scanTeardown(methods.get('ngOnDestroy').body, 'ngOnDestroy', new Set(['ngOnDestroy']));
+    }
+
+    walk(classNode.body, node => {
+      if (node.type !== 'CallExpression' || node.callee.type !== 'MemberExpression') return;
+      const method = node.callee.property?.name;
+
+      // this.destroyRef.onDestroy(() => ...) / inject(DestroyRef).onDestroy(() => ...)
+      if (method === 'onDestroy' && FUNCTION_TYPES.includes(node.arguments[0]?.type)) {
+        scanTeardown(node.arguments[0].body, 'DestroyRef', new Set());
+      }
+
+      // const sub = ...subscribe(); this.subscriptions.add(sub);
+      const collection = memberPath(node.callee.object);
+      if ((method === 'add' || method === 'push') && collection?.startsWith('this.')) {
+        node.arguments.filter((arg: any) => arg.type === 'Identifier').forEach((arg: any) => {
+          scope.collections.set(arg.name, collection);
+        });
+      }
+    });
+
+    return scope;
+  }
+
+  /**
+   * 注入したプロジェクト内のサービスのうち、HTTPの書き込みを行うメソッドを持つもの
+   */
+  private findServiceWriteMethods(classNode: any, filePath: string): Map<string, string[]> {
+    const result = new Map<string, string[]>();
+
+    for (const point of extractInjectionPoints(classNode)) {
+      if (!point.member) continue;
+
+      const service = this.findClass(point.token, filePath);
+      const methods = service ? findHttpWriteMethods(service.node) : [];
+      if (methods.length > 0) {
+        result.set(`this.${point.member}`, methods);
+      }
+    }
+
+    return result;
+  }
+
+  private findClass(name: string, fromFile: string): ClassFact | null {
+    const facts = this.model.getFacts(fromFile);
+
+    const local = facts.classes.find(c => c.name === name);
+    if (local) {
+      return local;
+    }
+
+    for (const imp of facts.imports) {
+      const spec = imp.specifiers.find(s => s.local === name);
+      if (!spec) continue;
+
+      const resolved = this.model.getModuleResolver().resolve(imp.source, fromFile);
+      return resolved ? this.model.getFacts(resolved).classes.find(c => c.name === spec.imported) || null : null;
+    }
+
+    return null;
+  }
+
+  // ==================== Anti-Patterns ====================
+
+  private report(
+    rule: AntiPatternRule,
+    file: string,
+    line: number,
+    scope: ClassScope | null,
+    message: string,
+    severity: RxJSAntiPattern['severity'] = ANTI_PATTERN_RULES[rule].severity
+  ): void {
+    this.antiPatterns.push({ rule, severity, file, owner: scope?.name, line, message });
+  }
+
+  private checkAntiPatterns(node: any, ctx: TraversalContext, ancestors: any[], relativePath: string): void {
+    const line = node.loc.start.line;
+    const callee = this.resolveRxJS(node.callee)?.name || node.callee.property?.name;
+
+    // subscribe() のコールバック（observerオブジェクトを含む）の中の subscribe()
+    if (callee === 'subscribe') {
+      const outer = ancestors.findIndex((ancestor, i) =>
+        ancestor.type === 'CallExpression' && ancestor.callee.property?.name === 'subscribe' &&
+        ancestor.arguments.includes(ancestors[i + 1]));
+      if (outer !== -1) {
+        this.report('nested-subscribe', relativePath, line, ctx.scope,
+          `subscribe() nested in the subscribe() at line ${ancestors[outer].loc.start.line}`);
+      }
+    }
+
+    // switchMap(() => this.http.post(...)) / switchMap(() => this.save())（HTTPの書き込みを行うメソッド）
+    if (callee === 'switchMap' && ctx.scope) {
+      const scope = ctx.scope;
+      const write = findCall(node.arguments[0], inner => {
+        if (inner.callee.type !== 'MemberExpression') return false;
+        const method = inner.callee.property?.name;
+        const target = memberPath(inner.callee.object);
+        const isClient = !!target && (scope.httpClients.includes(target) || scope.httpClients.some(m => target === `this.${m}`));
+        return (isClient && HTTP_WRITE_METHODS.includes(String(method).toUpperCase())) ||
+          (inner.callee.object.type === 'ThisExpression' && scope.httpWriteMethods.includes(method)) ||
+          (!!target && !!scope.serviceWriteMethods.get(target)?.includes(method));
+      });
+      if (write) {
+        this.report('switchmap-http-write', relativePath, line, scope,
+          `switchMap wraps the HTTP write ${memberPath(write.callee) || expressionToString(write.callee)}()`);
+      }
+    }
+
+    if (callee === 'shareReplay') {
+      const config = node.arguments[0];
+      const refCount = config?.type === 'ObjectExpression' ? getMetadataProperty(config, 'refCount') : null;
+      if (!(refCount?.type === 'Literal' && refCount.value === true)) {
+        this.report('sharereplay-without-refcount', relativePath, line, ctx.scope, 'shareReplay() without refCount: true');
+      }
+    }
+  }
+
+  private analyzePipeChain(node: any, ctx: TraversalContext, relativePath: string): void {
+    const line = node.loc.start.line;
+    const operators = collectPipeOperators(node, callee => this.operatorName(callee)).map(op => op.name);
+    if (operators.length === 0) return;
+
+    const key = operators.join(' → ');
+    if (!this.operatorChains.has(key)) {
+      this.operatorChains.set(key, { chain: operators, count: 0, locations: [] });
+    }
+    const chain = this.operatorChains.get(key)!;
+    chain.count++;
+    chain.locations.push(`${relativePath}:${line}`);
+
+    const index = operators.findIndex(name => name === 'takeUntil' || name === 'takeUntilDestroyed');
+    const after = index === -1 ? [] : operators.slice(index + 1).filter(name => !ALLOWED_AFTER_TAKEUNTIL.includes(name));
+    if (after.length > 0) {
+      this.report('takeuntil-not-last', relativePath, line, ctx.scope,
+        `${operators[index]} is followed by ${after.join(', ')}`);
+    }
+  }
+
   private extractTypeName(typeAnnotation: any): string {
     if (typeAnnotation.typeAnnotation?.typeName?.name) {
       return typeAnnotation.typeAnnotation.typeName.name;
@@ -279,17 +659,63 @@ class RxJSAnalyzer {
     return ['BehaviorSubject', 'ReplaySubject', 'Subject', 'AsyncSubject'].includes(typeName);
   }
 
-  private isRxJSOperator(name: string): boolean {
-    const commonOperators = [
-      'map', 'filter', 'tap', 'switchMap', 'mergeMap', 'concatMap', 'exhaustMap',
-      'take', 'takeUntil', 'takeWhile', 'first', 'last', 'skip', 'debounceTime',
-      'throttleTime', 'distinctUntilChanged', 'catchError', 'retry', 'shareReplay',
-      'combineLatest', 'withLatestFrom', 'startWith', 'scan', 'reduce'
-    ];
-    return commonOperators.includes(name);
+  /**
+   * rxjs / rxjs/operators からのimport（別名・名前空間importを含む）
+   */
+  private collectRxJSImports(ast: any): void {
+    this.rxjsImports.clear();
+    this.rxjsNamespaces.clear();
+
+    for (const node of ast.body) {
+      if (node.type !== 'ImportDeclaration' || !RXJS_MODULES.includes(node.source.value)) continue;
+      for (const spec of node.specifiers) {
+        if (spec.type === 'ImportSpecifier') {
+          this.rxjsImports.set(spec.local.name, { name: spec.imported.name, source: node.source.value });
+        } else if (spec.type === 'ImportNamespaceSpecifier') {
+          this.rxjsNamespaces.set(spec.local.name, node.source.value);
+        }
+      }
+    }
+  }
+
+  /**
+   * 呼び出し先が RxJS のオペレーター・生成関数ならエクスポート名と種類を返す
+   */
+  private resolveRxJS(callee: any): { name: string; kind: OperatorUsage['kind'] } | null {
+    let imported: { name: string; source: string } | undefined;
+    if (callee?.type === 'Identifier') {
+      imported = this.rxjsImports.get(callee.name);
+    } else if (callee?.type === 'MemberExpression' && callee.object.type === 'Identifier' && this.rxjsNamespaces.has(callee.object.name)) {
+      imported = { name: callee.property.name, source: this.rxjsNamespaces.get(callee.object.name)! };
+    }
+    if (!imported) return null;
+
+    const { name, source } = imported;
+    if (source === 'rxjs/operators') {
+      return { name, kind: 'operator' };
+    }
+    if (CREATION_FUNCTIONS.includes(name)) {
+      return { name, kind: 'creation' };
+    }
+    // クラス・定数（Observable、EMPTY など）とユーティリティ関数を除いた小文字の関数はオペレーター
+    if (/^[a-z]/.test(name) && !RXJS_UTILITIES.includes(name)) {
+      return { name, kind: 'operator' };
+    }
+    return null;
+  }
+
+  /**
+   * pipe() チェーンでの表示名（RxJS以外の自作オペレーターはローカル名）
+   */
+  private operatorName(callee: any): string {
+    return this.resolveRxJS(callee)?.name || callee.name || callee.property?.name || 'unknown';
   }
 
   private extractObservableName(node: any): string {
+    // this.http.get(...) / interval(1000)
+    if (node?.type === 'CallExpression') {
+      return `${this.extractObservableName(node.callee)}()`;
+    }
     if (node?.property?.name) {
       return node.property.name;
     }
@@ -299,85 +725,548 @@ class RxJSAnalyzer {
     return 'unknown';
   }
 
-  private determineSubscriptionHandling(
-    _node: any,
-    content: string,
-    line: number
-  ): SubscriptionInfo['handlingType'] {
-    // コード内容から判定（簡易版）
-    const lineContent = content.split('\n')[line - 1] || '';
-    const surroundingLines = content.split('\n').slice(Math.max(0, line - 3), line + 3).join('\n');
+  private aggregateOperatorUsage(): OperatorUsage[] {
+    const usage: OperatorUsage[] = [];
+
+    this.operators.forEach(({ kind, count, files }, operator) => {
+      usage.push({
+        operator,
+        kind,
+        count,
+        files: Array.from(files)
+      });
+    });
+
+    return usage.sort((a, b) => b.count - a.count);
+  }
+}
+
+// ==================== Stream Graph ====================
+
+interface StreamClass {
+  name: string;
+  file: string; // 絶対パス
+  node: any;
+  isComponent: boolean;
+  injected: Map<string, string>; // メンバー名・コンストラクタ引数名 → トークン
+  streams: Map<string, { node: StreamNode; expression: any }>;
+}
+
+/**
+ * Subject / Observable のフィールドから、派生する Observable、
+ * subscribe() / toSignal() / テンプレートの | async で購読するクラスまでをつなぐ
+ */
+class StreamGraphBuilder {
+  private classes = new Map<string, StreamClass>();
+  private nodes = new Map<string, StreamNode>();
+  private edges: StreamEdge[] = [];
+
+  constructor(private projectPath: string, private model: ProjectModel) {}
+
+  build(): StreamGraph {
+    for (const file of this.model.getTypeScriptFiles()) {
+      for (const fact of this.model.getFacts(file).classes) {
+        if (this.classes.has(fact.name)) continue;
+        this.classes.set(fact.name, {
+          name: fact.name,
+          file,
+          node: fact.node,
+          isComponent: fact.decorators.some(dec => dec.name === 'Component'),
+          injected: new Map(extractInjectionPoints(fact.node)
+            .filter(point => point.member)
+            .map(point => [point.member!, point.token])),
+          streams: new Map()
+        });
+      }
+    }
+
+    this.classes.forEach(cls => this.collectStreams(cls));
+    this.classes.forEach(cls => this.linkDerivedStreams(cls));
+    this.classes.forEach(cls => this.linkConsumers(cls));
+    this.classes.forEach(cls => this.linkTemplate(cls));
+
+    // 他とつながらない Observable は除く（Subject は状態の起点として残す）
+    const connected = new Set(this.edges.flatMap(edge => [edge.from, edge.to]));
+    const nodes = Array.from(this.nodes.values())
+      .filter(node => node.kind === 'subject' || connected.has(node.id));
+
+    return { nodes, edges: this.edges };
+  }
+
+  /**
+   * RxJS型の注釈・new Subject()・$ で終わる名前のメンバーと、それらから派生するメンバー
+   */
+  private collectStreams(cls: StreamClass): void {
+    const candidates: Array<{ name: string; type?: string; expression: any; line: number }> = [];
+
+    for (const member of cls.node.body.body) {
+      const name = member.key?.name;
+      if (!name) continue;
+
+      if (member.type === 'PropertyDefinition') {
+        const annotated = member.typeAnnotation?.typeAnnotation?.typeName?.name;
+        const created = member.value?.type === 'NewExpression' ? member.value.callee?.name : undefined;
+        candidates.push({ name, type: annotated || created, expression: member.value, line: member.loc.start.line });
+      } else if (member.type === 'MethodDefinition' && member.kind === 'get') {
+        const ret = member.value.body?.body?.find((stmt: any) => stmt.type === 'ReturnStatement');
+        candidates.push({ name, expression: ret?.argument, line: member.loc.start.line });
+      } else if (member.type === 'MethodDefinition' && member.kind === 'constructor') {
+        // constructor() { this.items$ = ...; }
+        walk(member.value.body, node => {
+          if (node.type === 'AssignmentExpression' && node.left.type === 'MemberExpression' &&
+              node.left.object.type === 'ThisExpression' && node.left.property?.name) {
+            candidates.push({ name: node.left.property.name, expression: node.right, line: node.loc.start.line });
+          }
+        });
+      }
+    }
 
-    if (lineContent.includes('| async')) {
-      return 'async-pipe';
+    for (const candidate of candidates) {
+      if (STREAM_TYPES.includes(candidate.type || '') || candidate.name.endsWith('$')) {
+        this.addStream(cls, candidate);
+      }
     }
-    if (surroundingLines.includes('takeUntil(')) {
-      return 'takeUntil';
+
+    // this.items = this.items$.pipe(...) のような $ なしの派生メンバー（前方参照を含む）
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const candidate of candidates) {
+        if (cls.streams.has(candidate.name) || !candidate.expression || isSignalCall(candidate.expression)) continue;
+        if (this.findStreamReferences(candidate.expression, cls).length > 0 && isObservableExpression(candidate.expression)) {
+          this.addStream(cls, candidate);
+          changed = true;
+        }
+      }
     }
-    if (surroundingLines.includes('.take(')) {
-      return 'take';
+  }
+
+  private addStream(cls: StreamClass, candidate: { name: string; type?: string; expression: any; line: number }): void {
+    const existing = cls.streams.get(candidate.name);
+    if (existing) {
+      existing.expression = existing.expression || candidate.expression;
+      return;
     }
-    if (surroundingLines.includes('takeWhile(')) {
-      return 'takeWhile';
+
+    const isSubject = ['BehaviorSubject', 'ReplaySubject', 'Subject', 'AsyncSubject'].includes(candidate.type || '');
+    const node: StreamNode = {
+      id: `${cls.name}.${candidate.name}`,
+      kind: isSubject ? 'subject' : 'observable',
+      name: candidate.name,
+      owner: cls.name,
+      type: candidate.type,
+      file: path.relative(this.projectPath, cls.file),
+      line: candidate.line
+    };
+    cls.streams.set(candidate.name, { node, expression: candidate.expression });
+    this.nodes.set(node.id, node);
+  }
+
+  private linkDerivedStreams(cls: StreamClass): void {
+    cls.streams.forEach(({ node, expression }) => {
+      if (!expression) return;
+
+      const asObservable = expression.type === 'CallExpression' && expression.callee.property?.name === 'asObservable';
+      const operators = collectPipeOperators(expression, callee => this.operatorName(callee, cls.file))
+        .map(op => op.name);
+      const notifiers = this.findNotifierArguments(expression, cls.file);
+
+      for (const source of this.findStreamReferences(expression, cls, notifiers)) {
+        if (source.id === node.id) continue;
+        this.addEdge({
+          from: source.id,
+          to: node.id,
+          kind: asObservable ? 'asObservable' : 'derived',
+          operators: operators.length > 0 ? operators : undefined,
+          file: node.file,
+          line: node.line
+        });
+      }
+      this.linkNotifiers(notifiers, cls, node.id, node.file, node.line);
+    });
+  }
+
+  /**
+   * this.items$.subscribe() / this.store.items$.pipe(...).subscribe() / toSignal(this.items$)
+   */
+  private linkConsumers(cls: StreamClass): void {
+    walk(cls.node.body, node => {
+      if (node.type !== 'CallExpression') return;
+
+      let source: any = null;
+      let kind: StreamEdge['kind'] | null = null;
+      if (node.callee.type === 'MemberExpression' && node.callee.property?.name === 'subscribe') {
+        source = node.callee.object;
+        kind = 'subscribe';
+      } else if (node.callee.type === 'Identifier' && node.callee.name === 'toSignal') {
+        source = node.arguments[0];
+        kind = 'toSignal';
+      }
+      if (!source || !kind) return;
+
+      const notifiers = this.findNotifierArguments(source, cls.file);
+      for (const stream of this.findStreamReferences(source, cls, notifiers)) {
+        this.addEdge({
+          from: stream.id,
+          to: this.consumerNode(cls).id,
+          kind,
+          file: path.relative(this.projectPath, cls.file),
+          line: node.loc.start.line
+        });
+      }
+      this.linkNotifiers(notifiers, cls, this.consumerNode(cls).id, path.relative(this.projectPath, cls.file), node.loc.start.line);
+    });
+  }
+
+  /**
+   * takeUntil(this.destroy$) の通知元は値の流れではないため、notifier エッジでつなぐ
+   */
+  private linkNotifiers(notifiers: Set<any>, cls: StreamClass, to: string, file: string, line: number): void {
+    notifiers.forEach(argument => {
+      for (const stream of this.findStreamReferences(argument, cls)) {
+        if (stream.id === to) continue;
+        this.addEdge({ from: stream.id, to, kind: 'notifier', file, line });
+      }
+    });
+  }
+
+  private findNotifierArguments(expression: any, file: string): Set<any> {
+    const notifiers = new Set<any>();
+    walk(expression, node => {
+      if (node.type === 'CallExpression' && node.arguments[0] && this.operatorName(node.callee, file) === 'takeUntil') {
+        notifiers.add(node.arguments[0]);
+      }
+    });
+    return notifiers;
+  }
+
+  /**
+   * rxjs / rxjs/operators からの別名・名前空間importを元のエクスポート名に戻す（それ以外はローカル名）
+   */
+  private operatorName(callee: any, file: string): string {
+    for (const imp of this.model.getFacts(file).imports) {
+      if (!RXJS_MODULES.includes(imp.source)) continue;
+      for (const spec of imp.specifiers) {
+        if (spec.kind === 'named' && callee.type === 'Identifier' && spec.local === callee.name) {
+          return spec.imported;
+        }
+        if (spec.kind === 'namespace' && callee.type === 'MemberExpression' && callee.object.name === spec.local) {
+          return callee.property.name;
+        }
+      }
     }
-    if (surroundingLines.includes('.first(')) {
-      return 'first';
+    return callee.name || callee.property?.name || 'unknown';
+  }
+
+  /**
+   * テンプレートの items$ | async / store.items$ | async
+   */
+  private linkTemplate(cls: StreamClass): void {
+    if (!cls.isComponent) return;
+
+    const template = new TemplateUsageAnalyzer(cls.file, this.model).extractTemplate();
+    if (!template.content) return;
+
+    for (const expression of getTemplateExpressions(parseTemplate(template.content))) {
+      for (const match of expression.source.matchAll(/([\w$]+(?:\??\.[\w$]+)*)\s*\|\s*async\b/g)) {
+        const [root, ...rest] = match[1].replace(/\?\./g, '.').split('.');
+        const stream = this.resolveStream(cls, root === 'this' ? rest : [root, ...rest]);
+        if (!stream) continue;
+
+        this.addEdge({
+          from: stream.id,
+          to: this.consumerNode(cls).id,
+          kind: 'async',
+          file: path.relative(this.projectPath, template.path),
+          line: expression.line + template.lineOffset
+        });
+      }
     }
-    if (lineContent.includes('.subscribe()') || lineContent.match(/\.subscribe\(\s*\)/)) {
-      return 'manual';
+  }
+
+  private consumerNode(cls: StreamClass): StreamNode {
+    if (!this.nodes.has(cls.name)) {
+      this.nodes.set(cls.name, {
+        id: cls.name,
+        kind: cls.isComponent ? 'component' : 'consumer',
+        name: cls.name,
+        owner: cls.name,
+        file: path.relative(this.projectPath, cls.file),
+        line: cls.node.loc.start.line
+      });
     }
+    return this.nodes.get(cls.name)!;
+  }
 
-    return 'unknown';
+  /**
+   * 式の中で参照しているストリーム（this.x$ / this.service.x$ / コンストラクタ引数の service.x$ / inject(Service).x$）
+   */
+  private findStreamReferences(expression: any, cls: StreamClass, skip = new Set<any>()): StreamNode[] {
+    const found: StreamNode[] = [];
+
+    const visit = (node: any): void => {
+      if (!node || typeof node !== 'object' || skip.has(node)) return;
+
+      if (node.type === 'MemberExpression') {
+        const parts = memberPath(node)?.split('.');
+        const injected = node.object.type === 'CallExpression' && node.object.callee.name === 'inject'
+          ? this.classes.get(expressionToString(node.object.arguments[0]))
+          : undefined;
+        const stream = injected
+          ? injected.streams.get(node.property.name)?.node || null
+          : parts ? this.resolveStream(cls, parts[0] === 'this' ? parts.slice(1) : parts) : null;
+        if (stream) {
+          if (!found.includes(stream)) found.push(stream);
+          return;
+        }
+      }
+
+      for (const key in node) {
+        if (key === 'parent' || key === 'loc' || key === 'range') continue;
+        const child = node[key];
+        if (Array.isArray(child)) {
+          child.forEach(visit);
+        } else if (child && typeof child.type === 'string') {
+          visit(child);
+        }
+      }
+    };
+
+    visit(expression);
+    return found;
   }
 
-  private isSubscriptionSafe(
-    handlingType: SubscriptionInfo['handlingType'],
-    hasNgOnDestroy: boolean,
-    subscriptionVariables: Set<string>
-  ): boolean {
-    // async pipe や自動完了オペレーターは安全
-    if (['async-pipe', 'take', 'takeUntil', 'takeWhile', 'first'].includes(handlingType)) {
-      return true;
+  /**
+   * ['items$'] / ['store', 'items$'] をストリームに解決
+   */
+  private resolveStream(cls: StreamClass, parts: string[]): StreamNode | null {
+    if (parts.length === 1) {
+      return cls.streams.get(parts[0])?.node || null;
     }
+    if (parts.length === 2) {
+      const token = cls.injected.get(parts[0]);
+      const service = token ? this.classes.get(token) : undefined;
+      return service?.streams.get(parts[1])?.node || null;
+    }
+    return null;
+  }
 
-    // ngOnDestroyとSubscription変数があれば手動管理されている可能性が高い
-    if (handlingType === 'manual' && hasNgOnDestroy && subscriptionVariables.size > 0) {
-      return true;
+  private addEdge(edge: StreamEdge): void {
+    const duplicate = this.edges.some(existing =>
+      existing.from === edge.from && existing.to === edge.to && existing.kind === edge.kind);
+    if (!duplicate) {
+      this.edges.push(edge);
     }
+  }
+}
+
+/**
+ * signal() / computed() / toSignal() などの初期化子はストリームとして扱わない
+ */
+function isSignalCall(expression: any): boolean {
+  return expression.type === 'CallExpression' && expression.callee.type === 'Identifier' &&
+    ['signal', 'computed', 'toSignal', 'linkedSignal', 'effect', 'input', 'model', 'output'].includes(expression.callee.name);
+}
 
-    return false;
+/**
+ * Observable を返す式（pipe() / asObservable() / combineLatest([...]) などの呼び出し）
+ */
+function isObservableExpression(expression: any): boolean {
+  if (expression.type !== 'CallExpression') return false;
+  const name = expression.callee.type === 'Identifier' ? expression.callee.name : expression.callee.property?.name;
+  return name === 'pipe' || name === 'asObservable' || CREATION_FUNCTIONS.includes(name);
+}
+
+// ==================== AST Helpers ====================
+
+/**
+ * obs.pipe(a(), b()).pipe(c()) のオペレーター呼び出し（適用順）
+ */
+function collectPipeOperators(node: any, nameOf: (callee: any) => string): Array<{ name: string; node: any }> {
+  const operators: Array<{ name: string; node: any }> = [];
+
+  let current = node;
+  while (current?.type === 'CallExpression' && current.callee.type === 'MemberExpression' && current.callee.property?.name === 'pipe') {
+    const args = current.arguments
+      .filter((arg: any) => arg.type === 'CallExpression')
+      .map((arg: any) => ({ name: nameOf(arg.callee), node: arg }));
+    operators.unshift(...args);
+    current = current.callee.object;
+  }
+
+  return operators;
+}
+
+function stripPipes(node: any): any {
+  let current = node;
+  while (current?.type === 'CallExpression' && current.callee.type === 'MemberExpression' && current.callee.property?.name === 'pipe') {
+    current = current.callee.object;
+  }
+  return current;
+}
+
+/**
+ * this.sub / this.subs.items / sub のような参照を文字列にする
+ */
+function memberPath(node: any): string | null {
+  if (!node) return null;
+
+  switch (node.type) {
+    case 'ThisExpression':
+      return 'this';
+    case 'Identifier':
+      return node.name;
+    case 'MemberExpression': {
+      const object = memberPath(node.object);
+      return object && !node.computed ? `${object}.${node.property.name}` : null;
+    }
+    case 'ChainExpression':
+    case 'TSNonNullExpression':
+      return memberPath(node.expression);
+    default:
+      return null;
   }
+}
 
-  private determineLeakReason(
-    handlingType: SubscriptionInfo['handlingType'],
-    hasNgOnDestroy: boolean
-  ): SubscriptionLeak['reason'] {
-    if (handlingType === 'async-pipe') {
-      return 'no-async-pipe';
+/**
+ * subscribe() の戻り値の保持先
+ * this.sub = ... / const sub = ...（this.subs.add(sub) されていればthis.subs） / this.subs.add(...) / this.subs = [...]
+ */
+function findSubscriptionStorage(node: any, ancestors: any[], scope: ClassScope | null): string | undefined {
+  let child = node;
+  for (let i = ancestors.length - 1; i >= 0; i--) {
+    const parent = ancestors[i];
+
+    if (['ArrayExpression', 'TSAsExpression', 'ChainExpression'].includes(parent.type)) {
+      child = parent;
+      continue;
     }
-    if (!hasNgOnDestroy) {
-      return 'no-unsubscribe';
+    if (parent.type === 'AssignmentExpression' && parent.right === child) {
+      return memberPath(parent.left) || undefined;
     }
-    return 'no-auto-complete';
+    if (parent.type === 'VariableDeclarator' && parent.init === child && parent.id.type === 'Identifier') {
+      return scope?.collections.get(parent.id.name) || parent.id.name;
+    }
+    if (parent.type === 'CallExpression' && parent.arguments.includes(child) &&
+        ['add', 'push'].includes(parent.callee.property?.name)) {
+      return memberPath(parent.callee.object) || undefined;
+    }
+    return undefined;
   }
+  return undefined;
+}
 
-  private aggregateOperatorUsage(): OperatorUsage[] {
-    const usage: OperatorUsage[] = [];
+/**
+ * HTTPの書き込み（POST / PUT / PATCH / DELETE）を行うメソッド名
+ */
+function findHttpWriteMethods(classNode: any): string[] {
+  return findHttpCalls(classNode)
+    .filter(call => HTTP_WRITE_METHODS.includes(call.method) && call.caller)
+    .map(call => call.caller!);
+}
 
-    this.operators.forEach((files, operator) => {
-      usage.push({
-        operator,
-        count: files.size,
-        files: Array.from(files)
-      });
-    });
+function findCall(node: any, predicate: (call: any) => boolean): any | null {
+  let found: any = null;
+  walk(node, inner => {
+    if (!found && inner.type === 'CallExpression' && predicate(inner)) {
+      found = inner;
+    }
+  });
+  return found;
+}
 
-    return usage.sort((a, b) => b.count - a.count);
+function containsCall(node: any, method: string): boolean {
+  let found = false;
+  walk(node, inner => {
+    if (inner.type === 'CallExpression' && inner.callee.property?.name === method) {
+      found = true;
+    }
+  });
+  return found;
+}
+
+function walk(node: any, visit: (node: any) => void): void {
+  if (!node || typeof node !== 'object') return;
+  visit(node);
+  for (const key in node) {
+    if (key === 'parent' || key === 'loc' || key === 'range') continue;
+    const child = node[key];
+    if (Array.isArray(child)) {
+      child.forEach(c => walk(c, visit));
+    } else if (child && typeof child.type === 'string') {
+      walk(child, visit);
+    }
   }
 }
 
 // ==================== Output Formatters ====================
 
+const LEAK_REASONS: Record<SubscriptionLeak['reason'], string> = {
+  'no-unsubscribe': 'No completing operator and the Subscription is not stored',
+  'not-unsubscribed': 'Stored Subscription is never unsubscribed in ngOnDestroy / DestroyRef.onDestroy',
+  'notifier-not-emitted': 'takeUntil notifier is never emitted (next()) in ngOnDestroy / DestroyRef.onDestroy',
+  'outside-injection-context': 'takeUntilDestroyed() without a DestroyRef outside an injection context'
+};
+
+const STREAM_EDGE_LABELS: Record<StreamEdge['kind'], string> = {
+  asObservable: 'asObservable',
+  derived: 'derived',
+  subscribe: 'subscribe',
+  async: 'async pipe',
+  toSignal: 'toSignal',
+  notifier: 'notifier'
+};
+
+/**
+ * ストリームグラフをMermaidのフローチャートにする
+ */
+export function generateMermaidGraph(graph: StreamGraph): string {
+  let mermaid = 'graph LR\n';
+  mermaid += '  classDef subject fill:#fbb,stroke:#333,stroke-width:2px\n';
+  mermaid += '  classDef observable fill:#bbf,stroke:#333\n';
+  mermaid += '  classDef component fill:#bfb,stroke:#333,stroke-width:2px\n';
+  mermaid += '  classDef consumer fill:#ffb,stroke:#333\n\n';
+
+  const ids = new Map(graph.nodes.map((node, i) => [node.id, `n${i}`]));
+  graph.nodes.forEach(node => {
+    const label = node.type ? `${node.id}<br/>${node.type}` : node.id;
+    mermaid += `  ${ids.get(node.id)}["${label.replace(/"/g, '#quot;')}"]:::${node.kind}\n`;
+  });
+  mermaid += '\n';
+
+  graph.edges.forEach(edge => {
+    const label = edge.operators ? edge.operators.join(' → ') : STREAM_EDGE_LABELS[edge.kind];
+    const arrow = edge.kind === 'notifier' ? '-.-x' : edge.kind === 'subscribe' || edge.kind === 'async' || edge.kind === 'toSignal' ? '-.->' : '-->';
+    mermaid += `  ${ids.get(edge.from)} ${arrow}|"${label.replace(/"/g, '#quot;')}"| ${ids.get(edge.to)}\n`;
+  });
+
+  return mermaid;
+}
+
+/**
+ * Subject / Observable から辿れる購読クラス（コンポーネントを含む）
+ */
+function findStreamConsumers(graph: StreamGraph, id: string): StreamNode[] {
+  const consumers: StreamNode[] = [];
+  const visited = new Set([id]);
+  const queue = [id];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const edge of graph.edges.filter(e => e.from === current && e.kind !== 'notifier' && !visited.has(e.to))) {
+      visited.add(edge.to);
+      const target = graph.nodes.find(node => node.id === edge.to);
+      if (target?.kind === 'component' || target?.kind === 'consumer') {
+        consumers.push(target);
+      } else {
+        queue.push(edge.to);
+      }
+    }
+  }
+
+  return consumers;
+}
+
 function formatMarkdown(analysis: RxJSAnalysis): string {
   let md = `# RxJS Usage Analysis\n\n`;
 
@@ -387,29 +1276,69 @@ function formatMarkdown(analysis: RxJSAnalysis): string {
   md += `- **Total Observables**: ${analysis.summary.totalObservables}\n`;
   md += `- **Total Subjects**: ${analysis.summary.totalSubjects}\n`;
   md += `- **Total Subscriptions**: ${analysis.summary.totalSubscriptions}\n`;
+  md += `- **pipe() Chains**: ${analysis.summary.totalPipeChains}\n`;
   md += `- **Safe Subscriptions**: ${analysis.summary.safeSubscriptions}\n`;
-  md += `- **Potential Leaks**: ${analysis.summary.potentialLeaksCount}\n\n`;
+  md += `- **Potential Leaks**: ${analysis.summary.potentialLeaksCount}\n`;
+  md += `- **Anti-Patterns**: ${analysis.summary.antiPatternsCount}\n\n`;
 
   if (analysis.potentialLeaks.length > 0) {
     md += `## ⚠️ Potential Memory Leaks (${analysis.potentialLeaks.length})\n\n`;
-    md += `| File | Line | Observable | Reason | Severity |\n`;
-    md += `|------|------|------------|--------|----------|\n`;
+    md += `| File | Line | Class | Observable | Reason | Severity |\n`;
+    md += `|------|------|-------|------------|--------|----------|\n`;
     analysis.potentialLeaks.forEach(leak => {
-      md += `| ${leak.file} | ${leak.line} | ${leak.observable} | ${leak.reason} | ${leak.severity} |\n`;
+      md += `| ${leak.file} | ${leak.line} | ${leak.owner || '-'} | ${leak.observable} | ${LEAK_REASONS[leak.reason]} | ${leak.severity} |\n`;
+    });
+    md += `\n`;
+  }
+
+  if (analysis.antiPatterns.length > 0) {
+    md += `## 🚫 RxJS Anti-Patterns (${analysis.antiPatterns.length})\n\n`;
+    md += `| Rule | Severity | Location | Class | Detail |\n`;
+    md += `|------|----------|----------|-------|--------|\n`;
+    analysis.antiPatterns.forEach(issue => {
+      md += `| ${issue.rule} | ${issue.severity} | ${issue.file}:${issue.line} | ${issue.owner || '-'} | ${issue.message} |\n`;
     });
     md += `\n`;
+
+    md += `### Rules\n\n`;
+    (Object.keys(ANTI_PATTERN_RULES) as AntiPatternRule[])
+      .filter(rule => analysis.antiPatterns.some(issue => issue.rule === rule))
+      .forEach(rule => {
+        md += `- **${rule}** (${ANTI_PATTERN_RULES[rule].severity}): ${ANTI_PATTERN_RULES[rule].description}\n`;
+      });
+    md += `\n`;
   }
 
   if (analysis.operators.length > 0) {
     md += `## Most Used Operators\n\n`;
     md += `| Operator | Usage Count | Files |\n`;
     md += `|----------|-------------|-------|\n`;
-    analysis.operators.slice(0, 10).forEach(op => {
+    analysis.operators.forEach(op => {
       md += `| ${op.operator} | ${op.count} | ${op.files.length} |\n`;
     });
     md += `\n`;
   }
 
+  if (analysis.creationFunctions.length > 0) {
+    md += `## Creation Functions\n\n`;
+    md += `| Function | Usage Count | Files |\n`;
+    md += `|----------|-------------|-------|\n`;
+    analysis.creationFunctions.forEach(fn => {
+      md += `| ${fn.operator} | ${fn.count} | ${fn.files.length} |\n`;
+    });
+    md += `\n`;
+  }
+
+  if (analysis.operatorChains.length > 0) {
+    md += `## Most Common pipe() Chains\n\n`;
+    md += `| Chain | Count | Example |\n`;
+    md += `|-------|-------|---------|\n`;
+    analysis.operatorChains.slice(0, 15).forEach(chain => {
+      md += `| ${chain.chain.join(' → ')} | ${chain.count} | ${chain.locations[0]} |\n`;
+    });
+    md += `\n`;
+  }
+
   if (analysis.subjects.length > 0) {
     md += `## Subjects (${analysis.subjects.length})\n\n`;
     md += `| Name | Type | File | Public | Line |\n`;
@@ -420,6 +1349,23 @@ function formatMarkdown(analysis: RxJSAnalysis): string {
     md += `\n`;
   }
 
+  const graph = analysis.streamGraph;
+  if (graph.edges.length > 0) {
+    md += `## Stream Graph\n\n`;
+    md += `| Stream | Type | File | Consumed By |\n`;
+    md += `|--------|------|------|-------------|\n`;
+    graph.nodes.filter(node => node.kind === 'subject' || node.kind === 'observable').forEach(node => {
+      const consumers = findStreamConsumers(graph, node.id)
+        .map(consumer => consumer.kind === 'component' ? `**${consumer.name}**` : consumer.name);
+      md += `| ${node.id} | ${node.type || '-'} | ${node.file}:${node.line} | ${consumers.join(', ') || '-'} |\n`;
+    });
+    md += `\n`;
+
+    md += '```mermaid\n';
+    md += generateMermaidGraph(graph);
+    md += '```\n\n';
+  }
+
   md += `## Subscription Safety\n\n`;
   const subscriptionsByType = new Map<string, number>();
   analysis.subscriptions.forEach(sub => {
@@ -444,12 +1390,13 @@ function formatConsole(analysis: RxJSAnalysis): void {
   console.log(`  - Subjects: ${analysis.summary.totalSubjects}`);
   console.log(`  - Subscriptions: ${analysis.summary.totalSubscriptions}`);
   console.log(`  - Safe Subscriptions: ${analysis.summary.safeSubscriptions}`);
-  console.log(`  - Potential Leaks: ${analysis.summary.potentialLeaksCount}\n`);
+  console.log(`  - Potential Leaks: ${analysis.summary.potentialLeaksCount}`);
+  console.log(`  - Anti-Patterns: ${analysis.summary.antiPatternsCount}\n`);
 
   if (analysis.potentialLeaks.length > 0) {
     console.log(`⚠️  Potential Memory Leaks (${analysis.potentialLeaks.length}):`);
     analysis.potentialLeaks.slice(0, 10).forEach(leak => {
-      console.log(`  - ${leak.file}:${leak.line} - ${leak.observable} (${leak.reason})`);
+      console.log(`  - ${leak.file}:${leak.line} - ${leak.owner ? `${leak.owner}: ` : ''}${leak.observable} (${leak.reason})`);
     });
     if (analysis.potentialLeaks.length > 10) {
       console.log(`  ... and ${analysis.potentialLeaks.length - 10} more\n`);
@@ -458,6 +1405,18 @@ function formatConsole(analysis: RxJSAnalysis): void {
     }
   }
 
+  if (analysis.antiPatterns.length > 0) {
+    console.log(`🚫 RxJS Anti-Patterns (${analysis.antiPatterns.length}):`);
+    analysis.antiPatterns.slice(0, 10).forEach(issue => {
+      console.log(`  - [${issue.rule}] ${issue.file}:${issue.line} - ${issue.message}`);
+    });
+    if (analysis.antiPatterns.length > 10) {
+      console.log(`  ... and ${analysis.antiPatterns.length - 10} more\n`);
+    } else {
+      console.log('');
+    }
+  }
+
   if (analysis.operators.length > 0) {
     console.log(`Most Used Operators:`);
     analysis.operators.slice(0, 5).forEach(op => {
@@ -465,6 +1424,22 @@ function formatConsole(analysis: RxJSAnalysis): void {
     });
     console.log('');
   }
+
+  if (analysis.streamGraph.edges.length > 0) {
+    console.log(`Stream Graph: ${analysis.streamGraph.nodes.length} nodes, ${analysis.streamGraph.edges.length} edges\n`);
+  }
+
+  if (analysis.creationFunctions.length > 0) {
+    console.log(`Creation Functions: ${analysis.creationFunctions.map(fn => `${fn.operator} (${fn.count})`).join(', ')}\n`);
+  }
+
+  if (analysis.operatorChains.length > 0) {
+    console.log(`Most Common pipe() Chains:`);
+    analysis.operatorChains.slice(0, 5).forEach(chain => {
+      console.log(`  - ${chain.chain.join(' → ')}: ${chain.count}`);
+    });
+    console.log('');
+  }
 }
 
 // ==================== Main ====================
@@ -477,17 +1452,23 @@ function main(): void {
 Usage: npx ts-node src/analyze-rxjs.ts <project-dir> [options]
 
 Options:
+  --output <format>  Output format for --save: md, json, mermaid (default: md)
   --save <path>      Save output to file
+  --project <names>  Analyze the given angular.json / project.json projects (comma separated)
+  --workspace        Analyze every project in the workspace
   --help             Show this help message
 
 Examples:
   npx ts-node src/analyze-rxjs.ts ./src
   npx ts-node src/analyze-rxjs.ts ./src --save rxjs-analysis.md
+  npx ts-node src/analyze-rxjs.ts ./src --output mermaid --save streams.mmd
+  npx ts-node src/analyze-rxjs.ts ./my-workspace --workspace
 `);
     process.exit(0);
   }
 
   const projectPath = args[0];
+  const outputFormat = args.includes('--output') ? args[args.indexOf('--output') + 1] : 'md';
   const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
 
   if (!fs.existsSync(projectPath)) {
@@ -495,16 +1476,47 @@ Examples:
     process.exit(1);
   }
 
-  const analyzer = new RxJSAnalyzer(projectPath);
-  const analysis = analyzer.analyze();
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectPath, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const results: Array<{ target: AnalysisTarget; analysis: RxJSAnalysis }> = [];
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    const analyzer = new RxJSAnalyzer(target.path, model);
+    const analysis = analyzer.analyze();
 
-  formatConsole(analysis);
+    if (target.project) {
+      console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===`);
+    }
+    formatConsole(analysis);
+    results.push({ target, analysis });
+  }
 
   if (savePath) {
-    const markdown = formatMarkdown(analysis);
-    fs.writeFileSync(savePath, markdown);
+    let output: string;
+    if (outputFormat === 'json') {
+      output = JSON.stringify(
+        targets.some(t => t.project)
+          ? results.map(r => ({ project: r.target.project!.name, type: r.target.project!.type, analysis: r.analysis }))
+          : results[0].analysis,
+        null,
+        2
+      );
+    } else if (outputFormat === 'mermaid') {
+      output = results.map(r => (r.target.project ? `%% Project: ${r.target.project.name}\n` : '') + generateMermaidGraph(r.analysis.streamGraph)).join('\n');
+    } else {
+      output = results.map(r => formatProjectHeading(r.target) + formatMarkdown(r.analysis)).join('\n');
+    }
+    fs.writeFileSync(savePath, output);
     console.log(`✓ Saved to ${savePath}\n`);
   }
 }
 
-main();
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,659 @@
+#!/usr/bin/env ts-node
+
+/**
+ * analyze-signals.ts
+ * Angular Signalsの使用状況とリアクティビティの問題を検出
+ *
+ * Usage: npx ts-node src/analyze-signals.ts <project-dir>
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectModel } from './utils/project-model';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
+
+// ==================== Interfaces ====================
+
+export interface SignalAnalysis {
+  signals: SignalInfo[];
+  effectWrites: EffectWrite[];
+  injectionContextIssues: InjectionContextIssue[];
+  adoption: FileAdoption[];
+  summary: {
+    totalSignals: number;
+    totalComputed: number;
+    totalEffects: number;
+    totalInputs: number;
+    totalOutputs: number;
+    totalModels: number;
+    totalQueries: number;
+    totalInterop: number;
+    effectWritesCount: number;
+    injectionContextIssuesCount: number;
+    signalRatio: number; // 0-1
+  };
+}
+
+export type SignalKind =
+  | 'signal' | 'computed' | 'linkedSignal' | 'effect'
+  | 'input' | 'output' | 'model'
+  | 'viewChild' | 'viewChildren' | 'contentChild' | 'contentChildren'
+  | 'toSignal' | 'toObservable';
+
+export interface SignalInfo {
+  file: string;
+  owner: string;
+  ownerKind: 'component' | 'directive' | 'service' | 'pipe' | 'class' | 'module';
+  name: string;
+  kind: SignalKind;
+  required: boolean;
+  line: number;
+}
+
+export interface EffectWrite {
+  file: string;
+  owner: string;
+  line: number;
+  effectLine: number;
+  signal: string;
+  method: 'set' | 'update';
+  allowSignalWrites: boolean;
+  severity: 'warning' | 'info';
+}
+
+export interface InjectionContextIssue {
+  file: string;
+  owner: string;
+  line: number;
+  call: 'toSignal' | 'toObservable' | 'effect';
+  context: string; // 呼び出し位置（ngOnInit など）
+}
+
+export interface FileAdoption {
+  file: string;
+  signals: number;
+  observables: number;
+  ratio: number; // signals / (signals + observables)
+}
+
+// ==================== Signal Analyzer ====================
+
+// 関数名 → 種類（@angular/core と @angular/core/rxjs-interop からのimportのみ対象）
+const SIGNAL_FUNCTIONS: Record<string, SignalKind> = {
+  signal: 'signal',
+  computed: 'computed',
+  linkedSignal: 'linkedSignal',
+  effect: 'effect',
+  input: 'input',
+  output: 'output',
+  model: 'model',
+  viewChild: 'viewChild',
+  viewChildren: 'viewChildren',
+  contentChild: 'contentChild',
+  contentChildren: 'contentChildren',
+  toSignal: 'toSignal',
+  toObservable: 'toObservable'
+};
+
+const SIGNAL_MODULES = ['@angular/core', '@angular/core/rxjs-interop'];
+
+// set / update で書き込める種類
+const WRITABLE_KINDS: SignalKind[] = ['signal', 'linkedSignal', 'model'];
+
+// インジェクションコンテキストが必要な関数
+const INJECTION_CONTEXT_CALLS = ['toSignal', 'toObservable', 'effect'];
+
+// CanActivateFn などの関数型で宣言された関数はインジェクションコンテキストで実行される
+const INJECTABLE_FUNCTION_TYPE = /^(CanActivate|CanActivateChild|CanDeactivate|CanMatch|Resolve|HttpInterceptor)Fn$/;
+
+const OBSERVABLE_TYPES = ['Observable', 'Subject', 'BehaviorSubject', 'ReplaySubject', 'AsyncSubject', 'EventEmitter'];
+
+const OWNER_KINDS: Record<string, SignalInfo['ownerKind']> = {
+  Component: 'component',
+  Directive: 'directive',
+  Injectable: 'service',
+  Pipe: 'pipe'
+};
+
+interface TraversalContext {
+  owner: string;
+  ownerKind: SignalInfo['ownerKind'];
+  location: string;
+  injectionContext: boolean;
+  writableSignals: Set<string>;
+}
+
+export class SignalAnalyzer {
+  private projectPath: string;
+  private model: ProjectModel;
+  private signals: SignalInfo[] = [];
+  private effectWrites: EffectWrite[] = [];
+  private injectionContextIssues: InjectionContextIssue[] = [];
+  private adoption: FileAdoption[] = [];
+
+  constructor(projectPath: string, model?: ProjectModel) {
+    this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
+  }
+
+  analyze(): SignalAnalysis {
+    console.log(`Analyzing signal usage in: ${this.projectPath}\n`);
+
+    const files = this.model.getTypeScriptFiles();
+    console.log(`Analyzing ${files.length} files...\n`);
+
+    let processed = 0;
+    for (const file of files) {
+      this.analyzeFile(file);
+      processed++;
+      if (processed % 20 === 0) {
+        console.log(`Processed ${processed}/${files.length} files...`);
+      }
+    }
+
+    const count = (...kinds: SignalKind[]) => this.signals.filter(s => kinds.includes(s.kind)).length;
+    const totalSignalState = this.adoption.reduce((sum, a) => sum + a.signals, 0);
+    const totalObservables = this.adoption.reduce((sum, a) => sum + a.observables, 0);
+
+    return {
+      signals: this.signals,
+      effectWrites: this.effectWrites,
+      injectionContextIssues: this.injectionContextIssues,
+      adoption: this.adoption.sort((a, b) => a.ratio - b.ratio || a.file.localeCompare(b.file)),
+      summary: {
+        totalSignals: count('signal', 'linkedSignal'),
+        totalComputed: count('computed'),
+        totalEffects: count('effect'),
+        totalInputs: count('input'),
+        totalOutputs: count('output'),
+        totalModels: count('model'),
+        totalQueries: count('viewChild', 'viewChildren', 'contentChild', 'contentChildren'),
+        totalInterop: count('toSignal', 'toObservable'),
+        effectWritesCount: this.effectWrites.length,
+        injectionContextIssuesCount: this.injectionContextIssues.length,
+        signalRatio: totalSignalState + totalObservables > 0
+          ? totalSignalState / (totalSignalState + totalObservables)
+          : 0
+      }
+    };
+  }
+
+  private analyzeFile(filePath: string): void {
+    const ast = this.model.getAst(filePath);
+    const relativePath = path.relative(this.projectPath, filePath);
+
+    if (!ast) {
+      // Ignore parse errors
+      return;
+    }
+
+    const signalFunctions = this.collectSignalImports(ast);
+    const recorded = new Set<any>();
+    let observables = 0;
+    const signalsBefore = this.signals.length;
+
+    /**
+     * signal() などの呼び出しなら種類を返す（input.required() は required 扱い）
+     */
+    const getSignalCall = (node: any): { kind: SignalKind; required: boolean } | null => {
+      if (node?.type !== 'CallExpression') return null;
+      const callee = node.callee;
+      if (callee.type === 'Identifier' && signalFunctions.has(callee.name)) {
+        return { kind: signalFunctions.get(callee.name)!, required: false };
+      }
+      if (callee.type === 'MemberExpression' && callee.object.type === 'Identifier' &&
+          signalFunctions.has(callee.object.name) && callee.property.name === 'required') {
+        return { kind: signalFunctions.get(callee.object.name)!, required: true };
+      }
+      return null;
+    };
+
+    const record = (call: any, name: string, ctx: TraversalContext): void => {
+      const signalCall = getSignalCall(call);
+      if (!signalCall || recorded.has(call)) return;
+      recorded.add(call);
+
+      this.signals.push({
+        file: relativePath,
+        owner: ctx.owner,
+        ownerKind: ctx.ownerKind,
+        name,
+        kind: signalCall.kind,
+        required: signalCall.required,
+        line: call.loc.start.line
+      });
+
+      if (INJECTION_CONTEXT_CALLS.includes(signalCall.kind) && !ctx.injectionContext && !hasInjectorOption(call)) {
+        this.injectionContextIssues.push({
+          file: relativePath,
+          owner: ctx.owner,
+          line: call.loc.start.line,
+          call: signalCall.kind as InjectionContextIssue['call'],
+          context: ctx.location
+        });
+      }
+
+      if (signalCall.kind === 'effect') {
+        this.collectEffectWrites(call, ctx, relativePath);
+      }
+    };
+
+    const isObservableMember = (node: any): boolean => {
+      const typeName = node.typeAnnotation?.typeAnnotation?.typeName?.name;
+      if (OBSERVABLE_TYPES.includes(typeName)) return true;
+      const value = node.value;
+      if (value?.type === 'NewExpression' && OBSERVABLE_TYPES.includes(value.callee?.name)) return true;
+      return getSignalCall(value)?.kind === 'toObservable';
+    };
+
+    const visitFunction = (fn: any, ctx: TraversalContext, injectionContext: boolean, location?: string): void => {
+      const inner = { ...ctx, injectionContext, location: location || ctx.location };
+      fn.params?.forEach((param: any) => visit(param, inner));
+      visit(fn.body, inner);
+    };
+
+    const visit = (node: any, ctx: TraversalContext): void => {
+      if (!node || typeof node !== 'object') return;
+
+      switch (node.type) {
+        case 'ClassDeclaration':
+        case 'ClassExpression': {
+          const decorator = (node.decorators || [])
+            .map((dec: any) => dec.expression?.callee?.name)
+            .find((name: string) => OWNER_KINDS[name]);
+          const classCtx: TraversalContext = {
+            owner: node.id?.name || '(anonymous class)',
+            ownerKind: decorator ? OWNER_KINDS[decorator] : 'class',
+            location: 'class body',
+            injectionContext: !!decorator,
+            writableSignals: new Set(ctx.writableSignals)
+          };
+
+          // クラスフィールドの書き込み可能なシグナルを先に集める
+          for (const member of node.body.body) {
+            const signalCall = member.type === 'PropertyDefinition' ? getSignalCall(member.value) : null;
+            if (signalCall && WRITABLE_KINDS.includes(signalCall.kind)) {
+              classCtx.writableSignals.add(member.key?.name);
+            }
+          }
+
+          for (const member of node.body.body) {
+            if (member.type === 'PropertyDefinition') {
+              // Observable/Subject型のプロパティ
+              if (isObservableMember(member)) {
+                observables++;
+              }
+              const fieldCtx = { ...classCtx, location: `${member.key?.name ?? 'field'} initializer` };
+              record(member.value, member.key?.name ?? '-', fieldCtx);
+              visit(member.value, fieldCtx);
+            } else if (member.type === 'MethodDefinition') {
+              const methodName = member.key?.name ?? 'method';
+              // コンストラクタのみインジェクションコンテキスト
+              visitFunction(
+                member.value,
+                classCtx,
+                member.kind === 'constructor' && classCtx.injectionContext,
+                member.kind === 'constructor' ? 'constructor' : methodName
+              );
+            } else {
+              visit(member, classCtx);
+            }
+          }
+          return;
+        }
+
+        case 'VariableDeclarator': {
+          const name = node.id?.name ?? '-';
+          const signalCall = getSignalCall(node.init);
+          if (signalCall && WRITABLE_KINDS.includes(signalCall.kind)) {
+            ctx.writableSignals.add(name);
+          }
+          record(node.init, name, ctx);
+
+          const typeName = node.id?.typeAnnotation?.typeAnnotation?.typeName?.name;
+          if (typeName && INJECTABLE_FUNCTION_TYPE.test(typeName) && isFunction(node.init)) {
+            visitFunction(node.init, ctx, true, name);
+            return;
+          }
+          if (isFunction(node.init)) {
+            visitFunction(node.init, ctx, false, name);
+            return;
+          }
+          visit(node.init, ctx);
+          return;
+        }
+
+        case 'CallExpression': {
+          record(node, '-', ctx);
+
+          // runInInjectionContext(injector, () => ...)
+          if (node.callee.type === 'Identifier' && node.callee.name === 'runInInjectionContext') {
+            visit(node.arguments[0], ctx);
+            node.arguments.slice(1).forEach((arg: any) =>
+              isFunction(arg) ? visitFunction(arg, ctx, true, 'runInInjectionContext') : visit(arg, ctx)
+            );
+            return;
+          }
+          break;
+        }
+
+        case 'Property': {
+          // { provide: X, useFactory: () => ... } / new InjectionToken(..., { factory: () => ... })
+          const key = node.key?.name ?? node.key?.value;
+          if ((key === 'useFactory' || key === 'factory') && isFunction(node.value)) {
+            visitFunction(node.value, ctx, true, key);
+            return;
+          }
+          break;
+        }
+
+        case 'FunctionDeclaration':
+          visitFunction(node, ctx, false, node.id?.name);
+          return;
+
+        case 'ArrowFunctionExpression':
+        case 'FunctionExpression':
+          visitFunction(node, ctx, false);
+          return;
+      }
+
+      for (const key in node) {
+        if (key === 'parent' || key === 'loc' || key === 'range') continue;
+        const child = node[key];
+        if (Array.isArray(child)) {
+          child.forEach(c => visit(c, ctx));
+        } else if (child && typeof child.type === 'string') {
+          visit(child, ctx);
+        }
+      }
+    };
+
+    visit(ast, {
+      owner: '(module)',
+      ownerKind: 'module',
+      location: 'module scope',
+      injectionContext: false,
+      writableSignals: new Set()
+    });
+
+    // effect と toObservable は状態ではないため採用率の計算から除く
+    const signalState = this.signals.slice(signalsBefore)
+      .filter(s => s.kind !== 'effect' && s.kind !== 'toObservable').length;
+    if (signalState + observables > 0) {
+      this.adoption.push({
+        file: relativePath,
+        signals: signalState,
+        observables,
+        ratio: signalState / (signalState + observables)
+      });
+    }
+  }
+
+  /**
+   * @angular/core からimportされたシグナル関数のローカル名
+   */
+  private collectSignalImports(ast: any): Map<string, SignalKind> {
+    const functions = new Map<string, SignalKind>();
+
+    for (const node of ast.body) {
+      if (node.type !== 'ImportDeclaration' || !SIGNAL_MODULES.includes(node.source.value)) continue;
+      for (const spec of node.specifiers) {
+        const imported = spec.imported?.name;
+        if (spec.type === 'ImportSpecifier' && SIGNAL_FUNCTIONS[imported]) {
+          functions.set(spec.local.name, SIGNAL_FUNCTIONS[imported]);
+        }
+      }
+    }
+
+    return functions;
+  }
+
+  /**
+   * effect() のコールバック内で他のシグナルに set / update している箇所
+   */
+  private collectEffectWrites(call: any, ctx: TraversalContext, relativePath: string): void {
+    const callback = call.arguments[0];
+    if (!isFunction(callback)) return;
+
+    const options = call.arguments[1];
+    const allowSignalWrites = options?.type === 'ObjectExpression' && options.properties.some((prop: any) =>
+      (prop.key?.name ?? prop.key?.value) === 'allowSignalWrites' && prop.value?.value === true
+    );
+
+    const traverse = (node: any): void => {
+      if (!node || typeof node !== 'object') return;
+
+      if (node.type === 'CallExpression' && node.callee.type === 'MemberExpression') {
+        const method = node.callee.property?.name;
+        const target = node.callee.object;
+        // this.count.set(...) / count.update(...)
+        const signalName = target.type === 'MemberExpression' && target.object.type === 'ThisExpression'
+          ? target.property?.name
+          : target.type === 'Identifier' ? target.name : null;
+
+        if ((method === 'set' || method === 'update') && signalName && ctx.writableSignals.has(signalName)) {
+          this.effectWrites.push({
+            file: relativePath,
+            owner: ctx.owner,
+            line: node.loc.start.line,
+            effectLine: call.loc.start.line,
+            signal: signalName,
+            method,
+            allowSignalWrites,
+            severity: allowSignalWrites ? 'info' : 'warning'
+          });
+        }
+      }
+
+      for (const key in node) {
+        if (key === 'parent' || key === 'loc' || key === 'range') continue;
+        const child = node[key];
+        if (Array.isArray(child)) {
+          child.forEach(traverse);
+        } else if (child && typeof child.type === 'string') {
+          traverse(child);
+        }
+      }
+    };
+
+    traverse(callback.body);
+  }
+}
+
+function isFunction(node: any): boolean {
+  return node?.type === 'ArrowFunctionExpression' || node?.type === 'FunctionExpression';
+}
+
+/**
+ * toSignal(obs$, { injector }) のように injector を明示しているか
+ */
+function hasInjectorOption(call: any): boolean {
+  return call.arguments.some((arg: any) =>
+    arg?.type === 'ObjectExpression' &&
+    arg.properties.some((prop: any) => (prop.key?.name ?? prop.key?.value) === 'injector')
+  );
+}
+
+// ==================== Output Formatters ====================
+
+function formatMarkdown(analysis: SignalAnalysis): string {
+  let md = `# Signal Usage Analysis\n\n`;
+
+  md += `**Analyzed At**: ${new Date().toISOString()}\n\n`;
+
+  md += `## Summary\n\n`;
+  md += `- **Signals**: ${analysis.summary.totalSignals}\n`;
+  md += `- **Computed**: ${analysis.summary.totalComputed}\n`;
+  md += `- **Effects**: ${analysis.summary.totalEffects}\n`;
+  md += `- **Inputs / Outputs / Models**: ${analysis.summary.totalInputs} / ${analysis.summary.totalOutputs} / ${analysis.summary.totalModels}\n`;
+  md += `- **Signal Queries**: ${analysis.summary.totalQueries}\n`;
+  md += `- **RxJS Interop (toSignal / toObservable)**: ${analysis.summary.totalInterop}\n`;
+  md += `- **Effects Writing Signals**: ${analysis.summary.effectWritesCount}\n`;
+  md += `- **Missing Injection Context**: ${analysis.summary.injectionContextIssuesCount}\n`;
+  md += `- **Signal Adoption**: ${(analysis.summary.signalRatio * 100).toFixed(1)}%\n\n`;
+
+  if (analysis.injectionContextIssues.length > 0) {
+    md += `## 🔴 Missing Injection Context (${analysis.injectionContextIssues.length})\n\n`;
+    md += `Called outside a constructor / field initializer without an \`injector\` option.\n\n`;
+    md += `| File | Line | Owner | Call | Called From |\n`;
+    md += `|------|------|-------|------|-------------|\n`;
+    analysis.injectionContextIssues.forEach(issue => {
+      md += `| ${issue.file} | ${issue.line} | ${issue.owner} | ${issue.call}() | ${issue.context} |\n`;
+    });
+    md += `\n`;
+  }
+
+  if (analysis.effectWrites.length > 0) {
+    md += `## ⚠️ Effects Writing Signals (${analysis.effectWrites.length})\n\n`;
+    md += `Consider \`computed()\` or \`linkedSignal()\` instead of propagating state from an effect.\n\n`;
+    md += `| File | Line | Owner | Signal | Method | allowSignalWrites |\n`;
+    md += `|------|------|-------|--------|--------|-------------------|\n`;
+    analysis.effectWrites.forEach(write => {
+      md += `| ${write.file} | ${write.line} | ${write.owner} | ${write.signal} | ${write.method} | ${write.allowSignalWrites ? 'Yes' : 'No'} |\n`;
+    });
+    md += `\n`;
+  }
+
+  if (analysis.signals.length > 0) {
+    md += `## Signal Inventory\n\n`;
+    const owners = new Map<string, SignalInfo[]>();
+    analysis.signals.forEach(signal => {
+      const key = `${signal.owner}|${signal.file}`;
+      if (!owners.has(key)) {
+        owners.set(key, []);
+      }
+      owners.get(key)!.push(signal);
+    });
+
+    owners.forEach(signals => {
+      md += `### ${signals[0].owner} (${signals[0].ownerKind})\n\n`;
+      md += `**File**: ${signals[0].file}\n\n`;
+      md += `| Name | Kind | Line |\n`;
+      md += `|------|------|------|\n`;
+      signals.forEach(signal => {
+        md += `| ${signal.name} | ${signal.kind}${signal.required ? '.required' : ''} | ${signal.line} |\n`;
+      });
+      md += `\n`;
+    });
+  }
+
+  if (analysis.adoption.length > 0) {
+    md += `## Adoption by File\n\n`;
+    md += `| File | Signals | Observables | Signal Ratio |\n`;
+    md += `|------|---------|-------------|--------------|\n`;
+    analysis.adoption.forEach(file => {
+      md += `| ${file.file} | ${file.signals} | ${file.observables} | ${(file.ratio * 100).toFixed(0)}% |\n`;
+    });
+    md += `\n`;
+  }
+
+  return md;
+}
+
+function formatConsole(analysis: SignalAnalysis): void {
+  console.log(`\n📊 Signal Usage Analysis\n`);
+
+  console.log(`Summary:`);
+  console.log(`  - Signals: ${analysis.summary.totalSignals}`);
+  console.log(`  - Computed: ${analysis.summary.totalComputed}`);
+  console.log(`  - Effects: ${analysis.summary.totalEffects}`);
+  console.log(`  - Inputs / Outputs / Models: ${analysis.summary.totalInputs} / ${analysis.summary.totalOutputs} / ${analysis.summary.totalModels}`);
+  console.log(`  - Signal Queries: ${analysis.summary.totalQueries}`);
+  console.log(`  - RxJS Interop: ${analysis.summary.totalInterop}`);
+  console.log(`  - Signal Adoption: ${(analysis.summary.signalRatio * 100).toFixed(1)}%\n`);
+
+  if (analysis.injectionContextIssues.length > 0) {
+    console.log(`🔴 Missing Injection Context (${analysis.injectionContextIssues.length}):`);
+    analysis.injectionContextIssues.slice(0, 10).forEach(issue => {
+      console.log(`  - ${issue.file}:${issue.line} - ${issue.call}() in ${issue.owner}.${issue.context}`);
+    });
+    if (analysis.injectionContextIssues.length > 10) {
+      console.log(`  ... and ${analysis.injectionContextIssues.length - 10} more\n`);
+    } else {
+      console.log('');
+    }
+  }
+
+  if (analysis.effectWrites.length > 0) {
+    console.log(`⚠️  Effects Writing Signals (${analysis.effectWrites.length}):`);
+    analysis.effectWrites.slice(0, 10).forEach(write => {
+      console.log(`  - ${write.file}:${write.line} - ${write.owner}: ${write.signal}.${write.method}()`);
+    });
+    if (analysis.effectWrites.length > 10) {
+      console.log(`  ... and ${analysis.effectWrites.length - 10} more\n`);
+    } else {
+      console.log('');
+    }
+  }
+
+  const lowAdoption = analysis.adoption.filter(file => file.observables > 0);
+  if (lowAdoption.length > 0) {
+    console.log(`Lowest Signal Adoption:`);
+    lowAdoption.slice(0, 5).forEach(file => {
+      console.log(`  - ${file.file}: ${(file.ratio * 100).toFixed(0)}% (${file.signals} signals / ${file.observables} observables)`);
+    });
+    console.log('');
+  }
+}
+
+// ==================== Main ====================
+
+function main(): void {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help')) {
+    console.log(`
+Usage: npx ts-node src/analyze-signals.ts <project-dir> [options]
+
+Options:
+  --save <path>      Save output to file
+  --project <names>  Analyze the given angular.json / project.json projects (comma separated)
+  --workspace        Analyze every project in the workspace
+  --help             Show this help message
+
+Examples:
+  npx ts-node src/analyze-signals.ts ./src
+  npx ts-node src/analyze-signals.ts ./src --save signals-analysis.md
+  npx ts-node src/analyze-signals.ts ./my-workspace --workspace
+`);
+    process.exit(0);
+  }
+
+  const projectPath = args[0];
+  const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
+
+  if (!fs.existsSync(projectPath)) {
+    console.error(`Error: Project directory "${projectPath}" does not exist`);
+    process.exit(1);
+  }
+
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectPath, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const markdowns: string[] = [];
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    const analyzer = new SignalAnalyzer(target.path, model);
+    const analysis = analyzer.analyze();
+
+    if (target.project) {
+      console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===`);
+    }
+    formatConsole(analysis);
+    markdowns.push(formatProjectHeading(target) + formatMarkdown(analysis));
+  }
+
+  if (savePath) {
+    fs.writeFileSync(savePath, markdowns.join('\n'));
+    console.log(`✓ Saved to ${savePath}\n`);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
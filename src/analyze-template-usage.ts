@@ -9,12 +9,24 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { parse as parseHtml } from 'node-html-parser';
-import { parse as parseTs } from '@typescript-eslint/typescript-estree';
+import {
+  ParsedTemplate,
+  TemplateElement,
+  parseTemplate,
+  getTemplateElements,
+  getTemplateBlocks,
+  getTemplateExpressions,
+  walkTemplate,
+  matchesSelector
+} from './utils/template-parser';
+import { getMetadataProperty, readString } from './utils/angular-metadata';
+import { ProjectModel } from './utils/project-model';
+import { AngularDeclaration, CompilationScope, DeclarationIndex } from './utils/angular-declarations';
+import { SelectorIndex } from './utils/selector-index';
 
 // ==================== Interfaces ====================
 
-interface TemplateUsageAnalysis {
+export interface TemplateUsageAnalysis {
   component: string;
   componentPath: string;
   template: string;
@@ -22,70 +34,116 @@ interface TemplateUsageAnalysis {
   usedComponents: ComponentUsage[];
   usedDirectives: DirectiveUsage[];
   usedPipes: PipeUsage[];
+  usedBlocks: BlockUsage[];
   unusedImports: string[];
   missingDeclarations: string[];
   warnings: Warning[];
 }
 
-interface ComponentUsage {
+export interface ComponentTemplate {
+  content: string;
+  type: 'inline' | 'external';
+  path: string;
+  lineOffset: number; // インラインテンプレートの場合、コンポーネントファイル内での開始行 - 1
+}
+
+export interface ComponentUsage {
   selector: string;
   count: number;
   component?: string;
   module?: string;
 }
 
-interface DirectiveUsage {
+export interface DirectiveUsage {
   directive: string;
   count: number;
   type: 'structural' | 'attribute';
 }
 
-interface PipeUsage {
+export interface PipeUsage {
   pipe: string;
   count: number;
 }
 
-interface Warning {
+export interface BlockUsage {
+  block: string;
+  count: number;
+}
+
+export interface Warning {
   type: 'warning' | 'error' | 'info';
   message: string;
 }
 
 // ==================== Template Usage Analyzer ====================
 
-class TemplateUsageAnalyzer {
+// 宣言なしで使える要素
+const BUILTIN_ELEMENTS = ['ng-container', 'ng-content', 'ng-template'];
+
+// カスタム要素のチェックを無効にするスキーマ
+const RELAXED_SCHEMAS = ['CUSTOM_ELEMENTS_SCHEMA', 'NO_ERRORS_SCHEMA'];
+
+interface TemplateUsageSet {
+  elements: TemplateElement[];
+  pipes: Set<string>;
+}
+
+export class TemplateUsageAnalyzer {
   private componentPath: string;
   private projectRoot: string;
+  private model: ProjectModel | null;
 
-  constructor(componentPath: string) {
+  constructor(componentPath: string, model?: ProjectModel) {
     this.componentPath = componentPath;
     this.projectRoot = this.findProjectRoot(componentPath);
+    this.model = model || null;
   }
 
   analyze(): TemplateUsageAnalysis {
     console.log(`Analyzing template usage for: ${this.componentPath}\n`);
 
-    const componentContent = fs.readFileSync(this.componentPath, 'utf-8');
+    const componentContent = this.getModel().getContent(this.componentPath);
     const componentName = this.extractComponentName(componentContent);
-    const template = this.extractTemplate(componentContent);
+    const template = this.extractTemplate();
     const templateType = template.type;
 
     console.log(`Component: ${componentName}`);
     console.log(`Template Type: ${templateType}\n`);
 
     // テンプレート解析
-    const usedComponents = this.extractUsedComponents(template.content);
-    const usedDirectives = this.extractUsedDirectives(template.content);
-    const usedPipes = this.extractUsedPipes(template.content);
-
-    // コンポーネントのインポート解析
-    const imports = this.extractComponentImports(componentContent);
-
-    // 未使用インポートと不足宣言の検出
-    const unusedImports = this.findUnusedImports(imports, usedComponents, usedDirectives, usedPipes);
-    const missingDeclarations: string[] = []; // 簡易版では未実装
+    const index = new DeclarationIndex(this.getModel());
+    const parsed = parseTemplate(template.content);
+    const usedComponents = this.extractUsedComponents(parsed, new SelectorIndex(this.getModel(), index));
+    const usedDirectives = this.extractUsedDirectives(parsed);
+    const usedPipes = this.extractUsedPipes(parsed);
+    const usedBlocks = this.extractUsedBlocks(parsed);
+
+    // imports / NgModuleのスコープと照合して未使用インポートと不足宣言を検出
+    const declaration = index.findDeclaration(componentName, this.componentPath);
+    let unusedImports: string[] = [];
+    let missingDeclarations: string[] = [];
+    let unresolvedImports: string[] = [];
+    let scopeModule: string | undefined;
+
+    if (declaration) {
+      const scope = index.getCompilationScope(declaration);
+      const usage = { elements: getTemplateElements(parsed), pipes: new Set(usedPipes.map(p => p.pipe)) };
+
+      this.annotateComponents(usedComponents, usage, scope);
+      unusedImports = this.findUnusedImports(scope, this.collectScopeUsage(scope, usage));
+      missingDeclarations = this.findMissingDeclarations(scope, usage);
+      unresolvedImports = scope.entries.filter(e => e.source === 'imports' && !e.declaration).map(e => e.name);
+      scopeModule = scope.module?.name;
+    }
 
     // 警告の生成
-    const warnings = this.generateWarnings(unusedImports, missingDeclarations);
+    const warnings = this.generateWarnings(unusedImports, missingDeclarations, unresolvedImports, scopeModule);
+    parsed.errors.forEach(error => {
+      warnings.push({
+        type: 'warning',
+        message: `Template parse error (line ${error.line}): ${error.message}`
+      });
+    });
 
     return {
       component: componentName,
@@ -95,6 +153,7 @@ class TemplateUsageAnalyzer {
       usedComponents,
       usedDirectives,
       usedPipes,
+      usedBlocks,
       unusedImports,
       missingDeclarations,
       warnings
@@ -112,79 +171,83 @@ class TemplateUsageAnalyzer {
     return path.dirname(filePath);
   }
 
+  private getModel(): ProjectModel {
+    if (!this.model) {
+      this.model = new ProjectModel(this.projectRoot);
+    }
+    return this.model;
+  }
+
   private extractComponentName(content: string): string {
+    const component = this.getModel().getFacts(this.componentPath).classes
+      .find(cls => cls.decorators.some(d => d.name === 'Component'));
+    if (component) {
+      return component.name;
+    }
+
     const classMatch = content.match(/export\s+class\s+(\w+)/);
     return classMatch ? classMatch[1] : 'Unknown';
   }
 
-  private extractTemplate(content: string): { content: string; type: 'inline' | 'external' } {
+  /**
+   * @Componentのメタデータからテンプレートを取得（templateUrlを優先し、なければインラインtemplate）
+   * メタデータは ProjectModel のキャッシュ済みの情報から読む
+   */
+  extractTemplate(): ComponentTemplate {
+    const empty: ComponentTemplate = { content: '', type: 'inline', path: this.componentPath, lineOffset: 0 };
+
+    if (this.getModel().getSourceFile(this.componentPath).parseError) {
+      console.warn('Warning: Failed to parse component file');
+      return empty;
+    }
+
+    const metadata = this.getModel().getFacts(this.componentPath).classes
+      .flatMap(cls => cls.decorators)
+      .find(dec => dec.name === 'Component')?.metadata;
+    if (!metadata) {
+      return empty;
+    }
+
     // templateUrlを探す
-    const templateUrlMatch = content.match(/templateUrl:\s*['"`]([^'"`]+)['"`]/);
-    if (templateUrlMatch) {
-      const templatePath = path.resolve(path.dirname(this.componentPath), templateUrlMatch[1]);
+    const templateUrl = readString(getMetadataProperty(metadata, 'templateUrl'));
+    if (templateUrl) {
+      const templatePath = path.resolve(path.dirname(this.componentPath), templateUrl);
       if (fs.existsSync(templatePath)) {
         return {
           content: fs.readFileSync(templatePath, 'utf-8'),
-          type: 'external'
+          type: 'external',
+          path: templatePath,
+          lineOffset: 0
         };
       }
     }
 
-    // インラインテンプレートを探す
-    const templateMatch = content.match(/template:\s*['"`]([\s\S]*?)['"`]/);
-    if (templateMatch) {
-      return {
-        content: templateMatch[1],
-        type: 'inline'
-      };
-    }
-
-    // バッククォートのインラインテンプレート
-    const templateBacktickMatch = content.match(/template:\s*`([\s\S]*?)`/);
-    if (templateBacktickMatch) {
+    // インラインテンプレート（文字列またはバッククォート）
+    const templateNode = getMetadataProperty(metadata, 'template');
+    const template = readString(templateNode);
+    if (template !== undefined) {
       return {
-        content: templateBacktickMatch[1],
-        type: 'inline'
+        content: template,
+        type: 'inline',
+        path: this.componentPath,
+        lineOffset: templateNode.loc.start.line - 1
       };
     }
 
-    return { content: '', type: 'inline' };
+    return empty;
   }
 
-  private extractUsedComponents(template: string): ComponentUsage[] {
+  private extractUsedComponents(template: ParsedTemplate, selectors: SelectorIndex): ComponentUsage[] {
     const components = new Map<string, number>();
 
-    try {
-      const root = parseHtml(template);
-
-      // すべての要素を走査
-      const traverse = (node: any): void => {
-        if (node.nodeType === 1) { // ELEMENT_NODE
-          const tagName = node.rawTagName?.toLowerCase();
-
-          // カスタムコンポーネント（ハイフン含む）またはapp-始まりのタグ
-          if (tagName && (tagName.includes('-') || tagName.startsWith('app'))) {
-            components.set(tagName, (components.get(tagName) || 0) + 1);
-          }
-        }
-
-        if (node.childNodes) {
-          node.childNodes.forEach((child: any) => traverse(child));
-        }
-      };
-
-      traverse(root);
-    } catch (error) {
-      console.warn('Warning: Failed to parse HTML template');
-    }
+    for (const element of getTemplateElements(template)) {
+      const tagName = element.name.toLowerCase();
 
-    // Angularの標準セレクタを追加（router-outlet等）
-    const angularSelectors = ['router-outlet', 'ng-container', 'ng-content', 'ng-template'];
-    for (const selector of angularSelectors) {
-      const regex = new RegExp(`<${selector}[\\s>]`, 'g');
-      const matches = template.match(regex);
-      if (matches) {
-        components.set(selector, matches.length);
+      // セレクタが一致するコンポーネント、または未登録のカスタム要素（ハイフン含む）
+      // router-outlet / ng-container / ng-content / ng-template もここに含まれる
+      const isComponent = selectors.matchElement(element).some(entry => entry.kind === 'component');
+      if (isComponent || tagName.includes('-')) {
+        components.set(tagName, (components.get(tagName) || 0) + 1);
       }
     }
 
@@ -194,41 +257,38 @@ class TemplateUsageAnalyzer {
     }));
   }
 
-  private extractUsedDirectives(template: string): DirectiveUsage[] {
+  private extractUsedDirectives(template: ParsedTemplate): DirectiveUsage[] {
     const directives = new Map<string, { count: number; type: 'structural' | 'attribute' }>();
 
-    // 構造ディレクティブ (*ngIf, *ngFor 等)
-    const structuralRegex = /\*(\w+)/g;
-    let match;
-    while ((match = structuralRegex.exec(template)) !== null) {
-      const directive = `*${match[1]}`;
-      const existing = directives.get(directive);
-      directives.set(directive, {
-        count: existing ? existing.count + 1 : 1,
-        type: 'structural'
-      });
-    }
-
-    // 属性ディレクティブ ([routerLink], [class], [ngClass] 等)
-    const attributeRegex = /\[(\w+)\]/g;
-    while ((match = attributeRegex.exec(template)) !== null) {
-      const directive = `[${match[1]}]`;
+    const add = (directive: string, type: 'structural' | 'attribute'): void => {
       const existing = directives.get(directive);
       directives.set(directive, {
         count: existing ? existing.count + 1 : 1,
-        type: 'attribute'
+        type
       });
-    }
+    };
 
-    // イベントバインディング ((click), (submit) 等)
-    const eventRegex = /\((\w+)\)/g;
-    while ((match = eventRegex.exec(template)) !== null) {
-      const directive = `(${match[1]})`;
-      const existing = directives.get(directive);
-      directives.set(directive, {
-        count: existing ? existing.count + 1 : 1,
-        type: 'attribute'
-      });
+    for (const element of getTemplateElements(template)) {
+      for (const attr of element.attributes) {
+        switch (attr.kind) {
+          // 構造ディレクティブ (*ngIf, *ngFor 等)
+          case 'structural':
+            add(`*${attr.name}`, 'structural');
+            break;
+          // プロパティバインディング ([routerLink], [class.active], bind-title 等)
+          case 'property':
+            add(`[${attr.name}]`, 'attribute');
+            break;
+          // 双方向バインディング ([(ngModel)], bindon-value)
+          case 'two-way':
+            add(`[(${attr.name})]`, 'attribute');
+            break;
+          // イベントバインディング ((click), on-submit 等)
+          case 'event':
+            add(`(${attr.name})`, 'attribute');
+            break;
+        }
+      }
     }
 
     return Array.from(directives.entries()).map(([directive, info]) => ({
@@ -238,15 +298,34 @@ class TemplateUsageAnalyzer {
     }));
   }
 
-  private extractUsedPipes(template: string): PipeUsage[] {
+  private extractUsedBlocks(template: ParsedTemplate): BlockUsage[] {
+    const blocks = new Map<string, number>();
+
+    for (const block of getTemplateBlocks(template)) {
+      const name = `@${block.name}`;
+      blocks.set(name, (blocks.get(name) || 0) + 1);
+    }
+
+    walkTemplate(template.nodes, node => {
+      if (node.kind === 'let') {
+        blocks.set('@let', (blocks.get('@let') || 0) + 1);
+      }
+    });
+
+    return Array.from(blocks.entries()).map(([block, count]) => ({
+      block,
+      count
+    }));
+  }
+
+  private extractUsedPipes(template: ParsedTemplate): PipeUsage[] {
     const pipes = new Map<string, number>();
 
-    // パイプの使用を検出 ({{ value | pipeName }})
-    const pipeRegex = /\|\s*(\w+)/g;
-    let match;
-    while ((match = pipeRegex.exec(template)) !== null) {
-      const pipe = match[1];
-      pipes.set(pipe, (pipes.get(pipe) || 0) + 1);
+    // 補間・バインディング・ブロック引数のすべての式からパイプを検出
+    for (const expression of getTemplateExpressions(template)) {
+      for (const pipe of expression.pipes) {
+        pipes.set(pipe.name, (pipes.get(pipe.name) || 0) + 1);
+      }
     }
 
     return Array.from(pipes.entries()).map(([pipe, count]) => ({
@@ -255,89 +334,147 @@ class TemplateUsageAnalyzer {
     }));
   }
 
-  private extractComponentImports(content: string): string[] {
-    const imports: string[] = [];
+  /**
+   * 使用コンポーネントのセレクタに宣言クラス名と提供元モジュールを付与
+   */
+  private annotateComponents(components: ComponentUsage[], usage: TemplateUsageSet, scope: CompilationScope): void {
+    for (const usedComponent of components) {
+      const elements = usage.elements.filter(el => el.name.toLowerCase() === usedComponent.selector);
+
+      for (const entry of scope.entries) {
+        const match = entry.provides.find(decl =>
+          decl.kind === 'component' && decl.selector && elements.some(el => matchesSelector(el, decl.selector!))
+        );
+        if (match) {
+          usedComponent.component = match.name;
+          if (entry.declaration?.kind === 'module') {
+            usedComponent.module = entry.declaration.name;
+          }
+          break;
+        }
+      }
+    }
+  }
 
-    try {
-      const ast = parseTs(content, {
-        loc: true,
-        range: true,
-        comment: false
-      });
+  /**
+   * インポートの使用判定に使うテンプレート使用状況
+   * NgModuleのスコープでは、モジュールが宣言する全コンポーネントのテンプレートを合算する
+   */
+  private collectScopeUsage(scope: CompilationScope, usage: TemplateUsageSet): TemplateUsageSet {
+    if (scope.kind !== 'module') {
+      return usage;
+    }
 
-      const traverse = (node: any): void => {
-        if (!node) return;
+    const combined: TemplateUsageSet = { elements: [...usage.elements], pipes: new Set(usage.pipes) };
+    const declaredFiles = new Set(
+      scope.entries
+        .filter(e => e.source === 'declarations' && e.declaration?.kind === 'component' && e.declaration.file)
+        .map(e => e.declaration!.file!)
+    );
+    declaredFiles.delete(path.resolve(this.componentPath));
+
+    for (const file of declaredFiles) {
+      const template = new TemplateUsageAnalyzer(file, this.getModel()).extractTemplate();
+      const parsed = parseTemplate(template.content);
+      combined.elements.push(...getTemplateElements(parsed));
+      getTemplateExpressions(parsed).forEach(e => e.pipes.forEach(p => combined.pipes.add(p.name)));
+    }
 
-        if (node.type === 'ImportDeclaration') {
-          if (node.specifiers && node.specifiers.length > 0) {
-            node.specifiers.forEach((spec: any) => {
-              if (spec.type === 'ImportSpecifier' || spec.type === 'ImportDefaultSpecifier') {
-                imports.push(spec.local.name);
-              }
-            });
-          }
+    return combined;
+  }
+
+  /**
+   * imports のうち、提供する宣言がテンプレートで1つも使われていないもの
+   * RouterModule.forChild(...) のようなプロバイダ登録を兼ねるものは対象外
+   */
+  private findUnusedImports(scope: CompilationScope, usage: TemplateUsageSet): string[] {
+    return scope.entries
+      .filter(entry => entry.source === 'imports' && entry.declaration)
+      .filter(entry => !/\.(forRoot|forChild)\(/.test(entry.name))
+      .filter(entry => !entry.provides.some(decl => this.isUsed(decl, usage)))
+      .map(entry => entry.name);
+  }
+
+  /**
+   * スコープ内のどの宣言にも一致しない要素・構造ディレクティブ・パイプ
+   */
+  private findMissingDeclarations(scope: CompilationScope, usage: TemplateUsageSet): string[] {
+    const provided = scope.entries.flatMap(entry => entry.provides);
+    const selectors = provided.filter(decl => decl.selector).map(decl => decl.selector!);
+    const pipeNames = new Set(provided.filter(decl => decl.pipeName).map(decl => decl.pipeName!));
+    const missing = new Set<string>();
+    const checkElements = !scope.schemas.some(schema => RELAXED_SCHEMAS.includes(schema));
+
+    for (const element of usage.elements) {
+      const tagName = element.name.toLowerCase();
+      const matched = selectors.filter(selector => matchesSelector(element, selector));
+
+      if (checkElements && tagName.includes('-') && !BUILTIN_ELEMENTS.includes(tagName)) {
+        const hasComponent = provided.some(decl =>
+          decl.kind === 'component' && decl.selector && matched.includes(decl.selector)
+        );
+        if (!hasComponent) {
+          missing.add(`<${tagName}>`);
         }
+      }
 
-        for (const key in node) {
-          if (node[key] && typeof node[key] === 'object') {
-            if (Array.isArray(node[key])) {
-              node[key].forEach((child: any) => traverse(child));
-            } else {
-              traverse(node[key]);
-            }
-          }
+      // *ngIf などはセレクタにその属性を含むディレクティブが必要
+      for (const attr of element.attributes.filter(a => a.kind === 'structural')) {
+        const attrName = attr.name.toLowerCase();
+        if (!matched.some(selector => selector.toLowerCase().includes(`[${attrName}`))) {
+          missing.add(`*${attr.name}`);
         }
-      };
+      }
+    }
 
-      traverse(ast);
-    } catch (error) {
-      console.warn('Warning: Failed to parse component imports');
+    for (const pipe of usage.pipes) {
+      if (!pipeNames.has(pipe)) {
+        missing.add(`| ${pipe}`);
+      }
     }
 
-    return imports;
+    return Array.from(missing);
   }
 
-  private findUnusedImports(
-    imports: string[],
-    components: ComponentUsage[],
-    _directives: DirectiveUsage[],
-    _pipes: PipeUsage[]
-  ): string[] {
-    // 簡易版: インポート名がテンプレート内で使われているか確認
-    // 実際にはもっと詳細な解析が必要
-    const unused: string[] = [];
-
-    for (const imp of imports) {
-      // コンポーネント名とセレクタのマッチングは複雑なので簡易判定
-      // 実際の実装ではモジュールのdeclarationsを見る必要がある
-      if (
-        imp.endsWith('Component') &&
-        !components.some(c => c.selector.includes(imp.toLowerCase().replace('component', '')))
-      ) {
-        // この判定は簡易版
-      }
+  private isUsed(declaration: AngularDeclaration, usage: TemplateUsageSet): boolean {
+    if (declaration.kind === 'pipe') {
+      return !!declaration.pipeName && usage.pipes.has(declaration.pipeName);
     }
-
-    return unused;
+    return !!declaration.selector && usage.elements.some(el => matchesSelector(el, declaration.selector!));
   }
 
-  private generateWarnings(unusedImports: string[], missingDeclarations: string[]): Warning[] {
+  private generateWarnings(
+    unusedImports: string[],
+    missingDeclarations: string[],
+    unresolvedImports: string[],
+    scopeModule?: string
+  ): Warning[] {
     const warnings: Warning[] = [];
 
     unusedImports.forEach(imp => {
       warnings.push({
         type: 'warning',
-        message: `Potentially unused import: ${imp}`
+        message: scopeModule
+          ? `Unused import: ${imp} is not used by any template declared in ${scopeModule}`
+          : `Unused import: ${imp} is not used by the template`
       });
     });
 
+    // 解決できないインポートがある場合、そこから提供されている可能性があるため警告に留める
     missingDeclarations.forEach(decl => {
       warnings.push({
-        type: 'error',
-        message: `Missing declaration: ${decl}`
+        type: unresolvedImports.length > 0 ? 'warning' : 'error',
+        message: `Missing declaration: ${decl} has no matching declaration in scope`
       });
     });
 
+    if (unresolvedImports.length > 0) {
+      warnings.push({
+        type: 'info',
+        message: `Could not resolve imports: ${unresolvedImports.join(', ')}`
+      });
+    }
+
     return warnings;
   }
 }
@@ -354,14 +491,18 @@ function formatMarkdown(analysis: TemplateUsageAnalysis): string {
   md += `- **Components Used**: ${analysis.usedComponents.length}\n`;
   md += `- **Directives Used**: ${analysis.usedDirectives.length}\n`;
   md += `- **Pipes Used**: ${analysis.usedPipes.length}\n`;
+  md += `- **Control Flow Blocks**: ${analysis.usedBlocks.reduce((sum, b) => sum + b.count, 0)}\n`;
+  md += `- **Unused Imports**: ${analysis.unusedImports.length}\n`;
+  md += `- **Missing Declarations**: ${analysis.missingDeclarations.length}\n`;
   md += `- **Warnings**: ${analysis.warnings.length}\n\n`;
 
   if (analysis.usedComponents.length > 0) {
     md += `## Used Components\n\n`;
-    md += `| Selector | Occurrences |\n`;
-    md += `|----------|-------------|\n`;
+    md += `| Selector | Component | Occurrences |\n`;
+    md += `|----------|-----------|-------------|\n`;
     analysis.usedComponents.forEach(c => {
-      md += `| ${c.selector} | ${c.count} |\n`;
+      const declaredBy = c.component ? `${c.component}${c.module ? ` (${c.module})` : ''}` : '-';
+      md += `| ${c.selector} | ${declaredBy} | ${c.count} |\n`;
     });
     md += `\n`;
   }
@@ -386,6 +527,16 @@ function formatMarkdown(analysis: TemplateUsageAnalysis): string {
     md += `\n`;
   }
 
+  if (analysis.usedBlocks.length > 0) {
+    md += `## Control Flow Blocks\n\n`;
+    md += `| Block | Occurrences |\n`;
+    md += `|-------|-------------|\n`;
+    analysis.usedBlocks.forEach(b => {
+      md += `| ${b.block} | ${b.count} |\n`;
+    });
+    md += `\n`;
+  }
+
   if (analysis.warnings.length > 0) {
     md += `## ⚠️ Warnings\n\n`;
     analysis.warnings.forEach(w => {
@@ -407,12 +558,16 @@ function formatConsole(analysis: TemplateUsageAnalysis): void {
   console.log(`  - Components: ${analysis.usedComponents.length}`);
   console.log(`  - Directives: ${analysis.usedDirectives.length}`);
   console.log(`  - Pipes: ${analysis.usedPipes.length}`);
+  console.log(`  - Control Flow Blocks: ${analysis.usedBlocks.reduce((sum, b) => sum + b.count, 0)}`);
+  console.log(`  - Unused Imports: ${analysis.unusedImports.length}`);
+  console.log(`  - Missing Declarations: ${analysis.missingDeclarations.length}`);
   console.log(`  - Warnings: ${analysis.warnings.length}\n`);
 
   if (analysis.usedComponents.length > 0) {
     console.log(`Used Components:`);
     analysis.usedComponents.forEach(c => {
-      console.log(`  - ${c.selector} (${c.count} occurrence${c.count > 1 ? 's' : ''})`);
+      const declaredBy = c.component ? ` → ${c.component}${c.module ? ` via ${c.module}` : ''}` : '';
+      console.log(`  - ${c.selector}${declaredBy} (${c.count} occurrence${c.count > 1 ? 's' : ''})`);
     });
     console.log('');
   }
@@ -433,6 +588,14 @@ function formatConsole(analysis: TemplateUsageAnalysis): void {
     console.log('');
   }
 
+  if (analysis.usedBlocks.length > 0) {
+    console.log(`Control Flow Blocks:`);
+    analysis.usedBlocks.forEach(b => {
+      console.log(`  - ${b.block} (${b.count} occurrence${b.count > 1 ? 's' : ''})`);
+    });
+    console.log('');
+  }
+
   if (analysis.warnings.length > 0) {
     console.log(`⚠️  Warnings:`);
     analysis.warnings.forEach(w => {
@@ -483,4 +646,6 @@ Examples:
   }
 }
 
-main();
+if (require.main === module) {
+  main();
+}
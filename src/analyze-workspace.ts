@@ -0,0 +1,112 @@
+#!/usr/bin/env ts-node
+
+/**
+ * analyze-workspace.ts
+ * angular.json / Nx project.json からアプリケーションとライブラリの一覧を出力
+ *
+ * Usage: npx ts-node src/analyze-workspace.ts <workspace-dir>
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { AngularWorkspace, WorkspaceProject } from './utils/workspace';
+
+// ==================== Output Formatters ====================
+
+function formatMarkdown(workspace: AngularWorkspace): string {
+  const applications = workspace.getApplications();
+  const libraries = workspace.getLibraries();
+  const rel = (filePath?: string) => (filePath ? path.relative(workspace.rootPath, filePath) || '.' : '-');
+
+  let md = `# Workspace Analysis Report\n\n`;
+
+  md += `**Workspace**: ${workspace.rootPath} (${workspace.kind})\n`;
+  md += `**Analyzed At**: ${new Date().toISOString()}\n\n`;
+
+  md += `## Summary\n\n`;
+  md += `- **Applications**: ${applications.length}\n`;
+  md += `- **Libraries**: ${libraries.length}\n\n`;
+
+  const renderTable = (title: string, projects: WorkspaceProject[]): void => {
+    md += `## ${title}\n\n`;
+    if (projects.length === 0) {
+      md += `None\n\n`;
+      return;
+    }
+
+    md += `| Project | Source Root | tsConfig | Main | Styles |\n`;
+    md += `|---------|-------------|----------|------|--------|\n`;
+    for (const project of projects) {
+      const styles = project.styles.map(style => rel(style)).join(', ') || '-';
+      md += `| ${project.name} | ${rel(project.sourceRoot)} | ${rel(project.tsConfig)} | ${rel(project.main)} | ${styles} |\n`;
+    }
+    md += `\n`;
+  };
+
+  renderTable('Applications', applications);
+  renderTable('Libraries', libraries);
+
+  return md;
+}
+
+function formatJSON(workspace: AngularWorkspace): string {
+  return JSON.stringify({
+    rootPath: workspace.rootPath,
+    kind: workspace.kind,
+    applications: workspace.getApplications(),
+    libraries: workspace.getLibraries()
+  }, null, 2);
+}
+
+// ==================== Main ====================
+
+function main(): void {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help')) {
+    console.log(`
+Usage: npx ts-node src/analyze-workspace.ts <workspace-dir> [options]
+
+Options:
+  --output <format>  Output format: md, json (default: md)
+  --save <path>      Save output to file
+  --help             Show this help message
+
+Examples:
+  npx ts-node src/analyze-workspace.ts ./my-workspace
+  npx ts-node src/analyze-workspace.ts ./my-workspace --output json --save workspace.json
+`);
+    process.exit(0);
+  }
+
+  const workspaceDir = args[0];
+  const outputFormat = args.includes('--output') ? args[args.indexOf('--output') + 1] : 'md';
+  const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
+
+  if (!fs.existsSync(workspaceDir)) {
+    console.error(`Error: Workspace directory "${workspaceDir}" does not exist`);
+    process.exit(1);
+  }
+
+  const workspace = AngularWorkspace.find(workspaceDir);
+  if (!workspace) {
+    console.error(`Error: No angular.json, workspace.json or nx.json found for "${workspaceDir}"`);
+    process.exit(1);
+  }
+
+  console.log(`\n✓ Found ${workspace.getApplications().length} applications and ${workspace.getLibraries().length} libraries\n`);
+
+  const output = outputFormat === 'json' ? formatJSON(workspace) : formatMarkdown(workspace);
+
+  // Save or print
+  if (savePath) {
+    fs.writeFileSync(savePath, output);
+    console.log(`✓ Saved to ${savePath}`);
+  } else {
+    console.log(output);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,629 @@
+#!/usr/bin/env ts-node
+
+/**
+ * check-openapi.ts
+ * サービスの HttpClient 呼び出しを OpenAPI 定義（JSON / YAML）と照合し、
+ * 定義にないエンドポイント・メソッド、フロントエンドから使われていない操作、
+ * レスポンスの型とスキーマのプロパティ名の食い違いを検出
+ *
+ * Usage: npx ts-node src/check-openapi.ts <openapi-file> <project-dir>
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import { ProjectModel } from './utils/project-model';
+import { EndpointCatalogBuilder, HttpEndpoint } from './trace-service-usage';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
+
+// ==================== Interfaces ====================
+
+export type ContractIssueKind =
+  | 'undeclared-path'
+  | 'undeclared-method'
+  | 'unused-operation'
+  | 'response-type-mismatch';
+
+export interface ContractIssue {
+  kind: ContractIssueKind;
+  severity: 'error' | 'warning';
+  method: string;
+  path: string; // 呼び出し側のパス、または定義上のパス
+  message: string;
+  file: string;
+  line: number;
+}
+
+export interface ContractCheckReport {
+  issues: ContractIssue[];
+  summary: {
+    specOperations: number;
+    httpCalls: number;
+    matchedCalls: number;
+    dynamicCallsSkipped: number; // URL全体が式で、パスを判定できない呼び出し
+    typesCompared: number;
+    errorCount: number;
+    warningCount: number;
+  };
+}
+
+interface SpecPath {
+  path: string;
+  segments: string[];
+  operations: Map<string, SpecOperation>; // GET → 操作
+}
+
+interface SpecOperation {
+  method: string;
+  path: string;
+  operationId?: string;
+  definition: any;
+  used: boolean;
+}
+
+// ==================== OpenAPI Contract Checker ====================
+
+const OPERATION_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+const PRIMITIVE_TYPES = new Set([
+  'any', 'unknown', 'object', 'Object', 'string', 'number', 'boolean', 'void', 'null', 'undefined', 'never',
+  'Blob', 'ArrayBuffer', 'HttpResponse', 'HttpEvent', 'Record', 'Map', 'Set', 'Partial', 'Pick', 'Omit'
+]);
+
+export class OpenApiContractChecker {
+  private projectPath: string;
+  private specPath: string;
+  private model: ProjectModel;
+  private spec: any;
+  private specLines: string[];
+  private paths: SpecPath[] = [];
+  private basePaths: string[][] = [];
+  private types = new Map<string, any>(); // 型名 → interface / type / class 宣言
+  private issues: ContractIssue[] = [];
+
+  constructor(specPath: string, projectPath: string, model?: ProjectModel) {
+    this.specPath = specPath;
+    this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
+
+    const text = fs.readFileSync(specPath, 'utf-8');
+    this.spec = loadOpenApiSpec(specPath, text);
+    this.specLines = text.split('\n');
+  }
+
+  check(): ContractCheckReport {
+    console.log(`Checking HttpClient calls in ${this.projectPath} against ${this.specPath}\n`);
+
+    this.collectSpecPaths();
+    this.collectTypeDeclarations();
+
+    const endpoints = new EndpointCatalogBuilder(this.projectPath, this.model).build().endpoints;
+    let matchedCalls = 0;
+    let dynamicCallsSkipped = 0;
+    let typesCompared = 0;
+
+    endpoints.forEach(endpoint => {
+      const segments = toSegments(endpoint.path);
+      if (segments.every(isParameter)) {
+        dynamicCallsSkipped++;
+        return;
+      }
+
+      const matches = this.findSpecPaths(segments);
+      if (matches.length === 0) {
+        this.addCallIssue('undeclared-path', 'error', endpoint, 'no path in the spec matches this URL');
+        return;
+      }
+
+      const operations = this.findOperations(matches, endpoint.method);
+      if (operations.length === 0) {
+        const declared = matches.flatMap(m => [...m.operations.keys()]);
+        this.addCallIssue(
+          'undeclared-method',
+          'error',
+          endpoint,
+          `${endpoint.method} is not declared for ${matches.map(m => m.path).join(', ')} (declared: ${declared.join(', ') || 'none'})`
+        );
+        return;
+      }
+
+      matchedCalls++;
+      operations.forEach(operation => operation.used = true);
+
+      if (endpoint.responseType && operations.length === 1) {
+        if (this.compareResponseType(endpoint, operations[0])) {
+          typesCompared++;
+        }
+      }
+    });
+
+    this.paths.forEach(specPath => {
+      specPath.operations.forEach(operation => {
+        if (operation.used) return;
+        this.issues.push({
+          kind: 'unused-operation',
+          severity: 'warning',
+          method: operation.method,
+          path: operation.path,
+          message: `${operation.operationId ? `${operation.operationId}: ` : ''}no HttpClient call uses this operation`,
+          file: this.specPath,
+          line: this.findSpecLine(operation.path)
+        });
+      });
+    });
+
+    return {
+      issues: this.issues,
+      summary: {
+        specOperations: this.paths.reduce((sum, p) => sum + p.operations.size, 0),
+        httpCalls: endpoints.length,
+        matchedCalls,
+        dynamicCallsSkipped,
+        typesCompared,
+        errorCount: this.issues.filter(i => i.severity === 'error').length,
+        warningCount: this.issues.filter(i => i.severity === 'warning').length
+      }
+    };
+  }
+
+  // ==================== Spec ====================
+
+  private collectSpecPaths(): void {
+    Object.entries<any>(this.spec.paths || {}).forEach(([specPath, item]) => {
+      const operations = new Map<string, SpecOperation>();
+      Object.entries<any>(this.resolve(item) || {}).forEach(([key, definition]) => {
+        if (!OPERATION_METHODS.includes(key)) return;
+        const method = key.toUpperCase();
+        operations.set(method, { method, path: specPath, operationId: definition?.operationId, definition, used: false });
+      });
+      this.paths.push({ path: specPath, segments: toSegments(specPath), operations });
+    });
+
+    // servers[].url（OpenAPI 3）/ basePath（Swagger 2）のパス部分は呼び出し側のURLに含まれていてもよい
+    const servers: string[] = (this.spec.servers || []).map((server: any) => server?.url).filter((url: any) => typeof url === 'string');
+    if (typeof this.spec.basePath === 'string') servers.push(this.spec.basePath);
+    servers.forEach(url => {
+      const segments = toSegments(url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, ''));
+      if (segments.length > 0 && !this.basePaths.some(base => base.join('/') === segments.join('/'))) {
+        this.basePaths.push(segments);
+      }
+    });
+  }
+
+  /**
+   * 呼び出しのパスに一致する定義上のパス（リテラルのセグメントが多く一致するものを優先）
+   */
+  private findSpecPaths(segments: string[]): SpecPath[] {
+    const candidates = [segments];
+    // ${this.baseUrl}/orders のように先頭を解決できなかった場合は、ベースURLとみなして除く
+    if (isParameter(segments[0])) candidates.push(segments.slice(1));
+    [...candidates].forEach(candidate => {
+      this.basePaths.forEach(base => {
+        if (base.length <= candidate.length && base.every((s, i) => isParameter(s) || s === candidate[i])) {
+          candidates.push(candidate.slice(base.length));
+        }
+      });
+    });
+
+    let best: SpecPath[] = [];
+    let bestScore = -1;
+    this.paths.forEach(specPath => {
+      candidates.forEach(candidate => {
+        const score = matchScore(candidate, specPath.segments);
+        if (score < 0 || score < bestScore) return;
+        if (score > bestScore) {
+          best = [];
+          bestScore = score;
+        }
+        if (!best.includes(specPath)) best.push(specPath);
+      });
+    });
+    return best;
+  }
+
+  private findOperations(matches: SpecPath[], method: string): SpecOperation[] {
+    // request() でメソッドを特定できない呼び出しは、そのパスの全操作に一致するとみなす
+    if (method === 'REQUEST') {
+      return matches.flatMap(m => [...m.operations.values()]);
+    }
+    const expected = method === 'JSONP' ? 'GET' : method;
+    return matches.map(m => m.operations.get(expected)).filter((op): op is SpecOperation => !!op);
+  }
+
+  /**
+   * 内部参照（#/components/schemas/Order）を解決
+   */
+  private resolve(value: any, depth = 0): any {
+    if (!value || typeof value !== 'object' || typeof value.$ref !== 'string' || depth > 20) {
+      return value;
+    }
+    if (!value.$ref.startsWith('#/')) return null;
+
+    const target = value.$ref.slice(2).split('/').reduce((node: any, key: string) => {
+      return node?.[key.replace(/~1/g, '/').replace(/~0/g, '~')];
+    }, this.spec);
+    return this.resolve(target, depth + 1);
+  }
+
+  private findSpecLine(specPath: string): number {
+    const escaped = specPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const pattern = new RegExp(`^\\s*["']?${escaped}["']?\\s*:`);
+    const index = this.specLines.findIndex(line => pattern.test(line));
+    return index + 1;
+  }
+
+  // ==================== Response Types ====================
+
+  /**
+   * get<Order[]>() の型と 2xx レスポンスのスキーマのプロパティ名を比較（比較できた場合はtrue）
+   */
+  private compareResponseType(endpoint: HttpEndpoint, operation: SpecOperation): boolean {
+    const typeName = responseTypeName(endpoint.responseType!);
+    if (!typeName) return false;
+
+    const typeProperties = this.getTypeProperties(typeName, new Set());
+    const schema = this.getResponseSchema(operation.definition);
+    const schemaProperties = schema ? this.getSchemaProperties(schema, 0) : null;
+    if (!typeProperties || !schemaProperties) return false;
+
+    const onlyInType = [...typeProperties].filter(name => !schemaProperties.has(name));
+    const onlyInSchema = [...schemaProperties].filter(name => !typeProperties.has(name));
+    if (onlyInType.length > 0 || onlyInSchema.length > 0) {
+      const details = [
+        onlyInType.length > 0 ? `only in type: ${onlyInType.join(', ')}` : '',
+        onlyInSchema.length > 0 ? `only in schema: ${onlyInSchema.join(', ')}` : ''
+      ].filter(Boolean).join('; ');
+      this.addCallIssue(
+        'response-type-mismatch',
+        'warning',
+        endpoint,
+        `${endpoint.responseType} does not match ${schemaName(schema)} (${details})`
+      );
+    }
+    return true;
+  }
+
+  private getResponseSchema(operation: any): any {
+    const responses = operation?.responses || {};
+    const code = Object.keys(responses).filter(c => c.startsWith('2')).sort()[0]
+      ?? (responses.default ? 'default' : undefined);
+    const response = code ? this.resolve(responses[code]) : null;
+    if (!response) return null;
+
+    // Swagger 2 はレスポンスに直接 schema を持つ
+    if (!response.content) return response.schema ?? null;
+
+    const mediaType = Object.keys(response.content).find(type => type === 'application/json')
+      ?? Object.keys(response.content).find(type => type.includes('json'));
+    return mediaType ? response.content[mediaType]?.schema ?? null : null;
+  }
+
+  /**
+   * スキーマのプロパティ名（配列は要素、allOf / oneOf / anyOf は合成）。自由形式のオブジェクトはnull
+   */
+  private getSchemaProperties(value: any, depth: number): Set<string> | null {
+    const schema = this.resolve(value);
+    if (!schema || typeof schema !== 'object' || depth > 20) return null;
+    if (schema.type === 'array' || schema.items) return this.getSchemaProperties(schema.items, depth + 1);
+
+    const parts: any[] = [...(schema.allOf || []), ...(schema.oneOf || []), ...(schema.anyOf || [])];
+    if (!schema.properties && parts.length === 0) return null;
+
+    const properties = new Set(Object.keys(schema.properties || {}));
+    for (const part of parts) {
+      const partProperties = this.getSchemaProperties(part, depth + 1);
+      if (!partProperties) return null;
+      partProperties.forEach(name => properties.add(name));
+    }
+    return properties;
+  }
+
+  private collectTypeDeclarations(): void {
+    this.model.getTypeScriptFiles().forEach(file => {
+      const ast = this.model.getAst(file);
+      (ast?.body || []).forEach((statement: any) => {
+        const declaration = statement.type === 'ExportNamedDeclaration' || statement.type === 'ExportDefaultDeclaration'
+          ? statement.declaration
+          : statement;
+        if (!declaration?.id?.name) return;
+        if (['TSInterfaceDeclaration', 'TSTypeAliasDeclaration', 'ClassDeclaration'].includes(declaration.type)
+          && !this.types.has(declaration.id.name)) {
+          this.types.set(declaration.id.name, declaration);
+        }
+      });
+    });
+  }
+
+  /**
+   * interface（extends を含む）/ type / class のプロパティ名。プロジェクト外の型を含む場合はnull
+   */
+  private getTypeProperties(typeName: string, seen: Set<string>): Set<string> | null {
+    const declaration = this.types.get(typeName);
+    if (!declaration || seen.has(typeName)) return null;
+    seen.add(typeName);
+
+    switch (declaration.type) {
+      case 'TSInterfaceDeclaration': {
+        const properties = memberNames(declaration.body?.body || []);
+        for (const heritage of declaration.extends || []) {
+          const base = heritage.expression?.name;
+          const baseProperties = base ? this.getTypeProperties(base, seen) : null;
+          if (!baseProperties) return null;
+          baseProperties.forEach(name => properties.add(name));
+        }
+        return properties;
+      }
+      case 'TSTypeAliasDeclaration':
+        return this.getTypeNodeProperties(declaration.typeAnnotation, seen);
+      case 'ClassDeclaration':
+        return new Set(
+          (declaration.body?.body || [])
+            .filter((member: any) => member.type === 'PropertyDefinition' && !member.static && member.key?.type === 'Identifier')
+            .map((member: any) => member.key.name)
+        );
+      default:
+        return null;
+    }
+  }
+
+  private getTypeNodeProperties(node: any, seen: Set<string>): Set<string> | null {
+    switch (node?.type) {
+      case 'TSTypeLiteral':
+        return memberNames(node.members || []);
+      case 'TSIntersectionType': {
+        const properties = new Set<string>();
+        for (const part of node.types) {
+          const partProperties = this.getTypeNodeProperties(part, seen);
+          if (!partProperties) return null;
+          partProperties.forEach(name => properties.add(name));
+        }
+        return properties;
+      }
+      case 'TSTypeReference':
+        return node.typeName?.type === 'Identifier' ? this.getTypeProperties(node.typeName.name, seen) : null;
+      default:
+        return null;
+    }
+  }
+
+  private addCallIssue(kind: ContractIssueKind, severity: 'error' | 'warning', endpoint: HttpEndpoint, message: string): void {
+    this.issues.push({
+      kind,
+      severity,
+      method: endpoint.method,
+      path: endpoint.path,
+      message,
+      file: endpoint.file,
+      line: endpoint.line
+    });
+  }
+}
+
+// ==================== Spec Helpers ====================
+
+/**
+ * .json または "{" で始まるファイルはJSON、それ以外はYAMLとして読む
+ */
+export function loadOpenApiSpec(specPath: string, text = fs.readFileSync(specPath, 'utf-8')): any {
+  const isJson = specPath.endsWith('.json') || text.trimStart().startsWith('{');
+  const spec = isJson ? JSON.parse(text) : yaml.load(text, { filename: specPath });
+
+  if (!spec || typeof spec !== 'object' || (!spec.openapi && !spec.swagger) || typeof spec.paths !== 'object') {
+    throw new Error(`"${specPath}" is not an OpenAPI document (missing "openapi" or "paths")`);
+  }
+  return spec;
+}
+
+function toSegments(url: string): string[] {
+  return url.split('/').filter(Boolean);
+}
+
+function isParameter(segment: string): boolean {
+  return /^\{.*\}$/.test(segment) || segment.startsWith(':');
+}
+
+/**
+ * 一致したリテラルのセグメント数（一致しない場合は -1）。定義上の {param} は任意のセグメントに一致
+ */
+function matchScore(actual: string[], expected: string[]): number {
+  if (actual.length !== expected.length) return -1;
+
+  let score = 0;
+  for (let i = 0; i < expected.length; i++) {
+    if (isParameter(expected[i])) continue;
+    if (expected[i] !== actual[i]) return -1;
+    score++;
+  }
+  return score;
+}
+
+/**
+ * Order[] / Array<Order> / Order | null → Order（プリミティブや複数の型の union はnull）
+ */
+function responseTypeName(responseType: string): string | null {
+  const parts = responseType.replace(/\s/g, '').split('|').filter(part => part !== 'null' && part !== 'undefined');
+  if (parts.length !== 1) return null;
+
+  let type = parts[0];
+  for (;;) {
+    const array = type.match(/^(?:Readonly)?Array<(.+)>$/);
+    if (type.endsWith('[]')) type = type.slice(0, -2);
+    else if (array) type = array[1];
+    else break;
+  }
+
+  const match = type.match(/^([A-Za-z_$][\w$]*)(<.*>)?$/);
+  return match && !PRIMITIVE_TYPES.has(match[1]) ? match[1] : null;
+}
+
+function memberNames(members: any[]): Set<string> {
+  return new Set(
+    members
+      .filter(member => member.type === 'TSPropertySignature')
+      .map(member => member.key?.type === 'Identifier' ? member.key.name : member.key?.value)
+      .filter((name: any): name is string => typeof name === 'string')
+  );
+}
+
+function schemaName(schema: any): string {
+  const ref = schema?.$ref ?? schema?.items?.$ref;
+  return typeof ref === 'string' ? ref.split('/').pop()! : 'inline schema';
+}
+
+// ==================== Output Formatters ====================
+
+const ISSUE_TITLES: Record<ContractIssueKind, string> = {
+  'undeclared-path': 'Undeclared Endpoints',
+  'undeclared-method': 'Undeclared Methods',
+  'unused-operation': 'Unused Operations',
+  'response-type-mismatch': 'Response Type Mismatches'
+};
+
+function formatMarkdown(report: ContractCheckReport, specPath: string): string {
+  let md = `# OpenAPI Contract Check Report\n\n`;
+
+  md += `**Analyzed At**: ${new Date().toISOString()}\n`;
+  md += `**Spec**: ${specPath}\n\n`;
+
+  md += `## Summary\n\n`;
+  md += `- **Spec Operations**: ${report.summary.specOperations}\n`;
+  md += `- **HttpClient Calls**: ${report.summary.httpCalls}\n`;
+  md += `- **Matched Calls**: ${report.summary.matchedCalls}\n`;
+  md += `- **Dynamic URLs Skipped**: ${report.summary.dynamicCallsSkipped}\n`;
+  md += `- **Response Types Compared**: ${report.summary.typesCompared}\n`;
+  md += `- **Errors**: ${report.summary.errorCount}\n`;
+  md += `- **Warnings**: ${report.summary.warningCount}\n\n`;
+
+  if (report.issues.length === 0) {
+    md += `✅ **No contract problems found!**\n`;
+    return md;
+  }
+
+  (Object.keys(ISSUE_TITLES) as ContractIssueKind[]).forEach(kind => {
+    const issues = report.issues.filter(issue => issue.kind === kind);
+    if (issues.length === 0) return;
+
+    md += `## ${issues.some(i => i.severity === 'error') ? '🔴' : '⚠️'} ${ISSUE_TITLES[kind]} (${issues.length})\n\n`;
+    md += `| Location | Endpoint | Problem |\n`;
+    md += `|----------|----------|---------|\n`;
+    issues.forEach(issue => {
+      md += `| ${issue.file}:${issue.line} | \`${issue.method} ${issue.path.replace(/\|/g, '\\|')}\` | ${issue.message.replace(/\|/g, '\\|')} |\n`;
+    });
+    md += `\n`;
+  });
+
+  return md;
+}
+
+function formatConsole(report: ContractCheckReport): void {
+  console.log(`\n📊 OpenAPI Contract Check\n`);
+  console.log(`Summary:`);
+  console.log(`  - Spec Operations: ${report.summary.specOperations}`);
+  console.log(`  - HttpClient Calls: ${report.summary.httpCalls}`);
+  console.log(`  - Matched Calls: ${report.summary.matchedCalls}`);
+  console.log(`  - Dynamic URLs Skipped: ${report.summary.dynamicCallsSkipped}`);
+  console.log(`  - Response Types Compared: ${report.summary.typesCompared}`);
+  console.log(`  - Errors: ${report.summary.errorCount}`);
+  console.log(`  - Warnings: ${report.summary.warningCount}\n`);
+
+  if (report.issues.length === 0) {
+    console.log('✅ No contract problems found!\n');
+    return;
+  }
+
+  report.issues.forEach(issue => {
+    console.log(`${issue.severity === 'error' ? '🔴' : '⚠️ '} ${issue.file}:${issue.line} [${issue.kind}] ${issue.method} ${issue.path}: ${issue.message}`);
+  });
+  console.log('');
+}
+
+// ==================== Main ====================
+
+function main(): void {
+  const args = process.argv.slice(2);
+
+  if (args.length < 2 || args.includes('--help')) {
+    console.log(`
+Usage: npx ts-node src/check-openapi.ts <openapi-file> <project-dir> [options]
+
+Options:
+  --output <format>  Output format for --save: md, json (default: md)
+  --save <path>      Save output to file
+  --project <names>  Check the given angular.json / project.json projects (comma separated)
+  --workspace        Check every project in the workspace
+  --help             Show this help message
+
+Examples:
+  npx ts-node src/check-openapi.ts ./openapi.yaml ./src
+  npx ts-node src/check-openapi.ts ./openapi.json ./src --save api-contract.md
+  npx ts-node src/check-openapi.ts ./openapi.yaml ./src --output json --save api-contract.json
+`);
+    process.exit(args.includes('--help') ? 0 : 1);
+  }
+
+  const specPath = args[0];
+  const projectPath = args[1];
+  const outputFormat = args.includes('--output') ? args[args.indexOf('--output') + 1] : 'md';
+  const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
+
+  if (!fs.existsSync(specPath)) {
+    console.error(`Error: OpenAPI file "${specPath}" does not exist`);
+    process.exit(1);
+  }
+
+  if (!fs.existsSync(projectPath)) {
+    console.error(`Error: Project directory "${projectPath}" does not exist`);
+    process.exit(1);
+  }
+
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectPath, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const results: Array<{ target: AnalysisTarget; report: ContractCheckReport }> = [];
+  let hasErrors = false;
+
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    let report: ContractCheckReport;
+    try {
+      report = new OpenApiContractChecker(specPath, target.path, model).check();
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+
+    if (target.project) {
+      console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===`);
+    }
+    formatConsole(report);
+    results.push({ target, report });
+    hasErrors = hasErrors || report.summary.errorCount > 0;
+  }
+
+  if (savePath) {
+    const output = outputFormat === 'json'
+      ? JSON.stringify(
+        targets.some(t => t.project)
+          ? results.map(r => ({ project: r.target.project!.name, type: r.target.project!.type, report: r.report }))
+          : results[0].report,
+        null,
+        2
+      )
+      : results.map(r => formatProjectHeading(r.target) + formatMarkdown(r.report, specPath)).join('\n');
+    fs.writeFileSync(savePath, output);
+    console.log(`✓ Saved to ${savePath}\n`);
+  }
+
+  // エラーがある場合は終了コード1を返す
+  if (hasErrors) {
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,609 @@
+#!/usr/bin/env ts-node
+
+/**
+ * check-routes.ts
+ * ルート定義の不整合（存在しないリダイレクト先、リダイレクトループ、到達不能なルート、重複、
+ * 解決できないコンポーネント、どのルートにも一致しない routerLink）を検出
+ *
+ * Usage: npx ts-node src/check-routes.ts <project-dir>
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectModel } from './utils/project-model';
+import { DeclarationIndex } from './utils/angular-declarations';
+import { TemplateElement, parseTemplate, getTemplateElements, splitTopLevel } from './utils/template-parser';
+import { TemplateUsageAnalyzer } from './analyze-template-usage';
+import { RoutingAnalyzer, RoutingAnalysis, RouteAnalysis } from './analyze-routing';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
+
+// ==================== Interfaces ====================
+
+export type RouteIssueKind =
+  | 'broken-redirect'
+  | 'redirect-loop'
+  | 'shadowed'
+  | 'duplicate'
+  | 'unresolved-component'
+  | 'unresolved-lazy'
+  | 'unknown-link';
+
+export interface RouteIssue {
+  kind: RouteIssueKind;
+  severity: 'error' | 'warning';
+  path: string; // ルートのfullPath、またはリンク先
+  message: string;
+  file: string;
+  line: number;
+}
+
+export interface RouteCheckReport {
+  issues: RouteIssue[];
+  summary: {
+    routesChecked: number;
+    linksChecked: number;
+    dynamicLinksSkipped: number;
+    errorCount: number;
+    warningCount: number;
+  };
+}
+
+interface FlatRoute {
+  route: RouteAnalysis;
+  ancestors: RouteAnalysis[];
+}
+
+// ==================== Route Sanity Checker ====================
+
+// 動的なセグメント（[routerLink]="['/orders', id]" の id など）
+const DYNAMIC_SEGMENT = '\u0000';
+
+export class RouteSanityChecker {
+  private projectPath: string;
+  private model: ProjectModel;
+  private declarations: DeclarationIndex;
+  private issues: RouteIssue[] = [];
+  private linksChecked = 0;
+  private dynamicLinksSkipped = 0;
+
+  constructor(projectPath: string, model?: ProjectModel) {
+    this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
+    this.declarations = new DeclarationIndex(this.model);
+  }
+
+  check(): RouteCheckReport {
+    console.log(`Checking routes in: ${this.projectPath}\n`);
+
+    const analysis = new RoutingAnalyzer(this.model).analyzeProject(this.projectPath);
+    const flat = flattenRoutes(analysis.routes, []);
+    const patterns = this.collectPatterns(flat);
+
+    this.checkRedirects(flat, patterns);
+    this.checkShadowing(analysis.routes);
+    this.checkDuplicates(flat);
+    this.checkComponents(flat);
+    this.checkRouterLinks(analysis, patterns);
+
+    return {
+      issues: this.issues,
+      summary: {
+        routesChecked: flat.length,
+        linksChecked: this.linksChecked,
+        dynamicLinksSkipped: this.dynamicLinksSkipped,
+        errorCount: this.issues.filter(i => i.severity === 'error').length,
+        warningCount: this.issues.filter(i => i.severity === 'warning').length
+      }
+    };
+  }
+
+  private report(issue: RouteIssue): void {
+    this.issues.push(issue);
+  }
+
+  /**
+   * プライマリアウトレットで遷移できるURLパターン
+   * 遅延ロード先を解決できなかったルートは配下すべてを既知とみなす
+   */
+  private collectPatterns(flat: FlatRoute[]): string[][] {
+    const patterns: string[][] = [];
+
+    for (const { route, ancestors } of flat) {
+      if ([...ancestors, route].some(r => r.outlet && r.outlet !== 'primary')) continue;
+
+      const segments = toSegments(route.fullPath);
+      const isEndpoint = route.component !== undefined || route.redirectTo !== undefined;
+      const isCatchAll = segments[segments.length - 1] === '**';
+
+      if (isEndpoint && !isCatchAll) {
+        patterns.push(segments);
+      }
+      if (route.loadChildren && route.children.length === 0) {
+        patterns.push([...segments, '**']);
+      }
+    }
+
+    return patterns;
+  }
+
+  // ==================== Redirects ====================
+
+  private checkRedirects(flat: FlatRoute[], patterns: string[][]): void {
+    const redirects = flat.filter(({ route }) => route.redirectTo !== undefined);
+
+    for (const { route, ancestors } of redirects) {
+      const target = resolveRedirect(route, ancestors);
+      if (!target || patterns.some(pattern => matchesPattern(target, pattern))) continue;
+
+      this.report({
+        kind: 'broken-redirect',
+        severity: 'error',
+        path: route.fullPath,
+        message: `redirectTo '${route.redirectTo}' (${formatSegments(target)}) matches no route`,
+        file: route.file,
+        line: route.line
+      });
+    }
+
+    // リダイレクト先がさらにリダイレクトされ、元に戻ってくるもの
+    const reported = new Set<string>();
+    for (const start of redirects) {
+      const visited: FlatRoute[] = [start];
+      let current = start;
+
+      for (let step = 0; step < redirects.length; step++) {
+        const target = resolveRedirect(current.route, current.ancestors);
+        if (!target) break;
+
+        const next = redirects.find(r => !isCatchAllRoute(r.route) && matchesPattern(target, toSegments(r.route.fullPath)));
+        if (!next) break;
+
+        if (visited.includes(next)) {
+          const cycle = visited.slice(visited.indexOf(next));
+          const key = cycle.map(r => r.route.fullPath).sort().join('|');
+          if (!reported.has(key)) {
+            reported.add(key);
+            this.report({
+              kind: 'redirect-loop',
+              severity: 'error',
+              path: next.route.fullPath,
+              message: `Redirect loop: ${[...cycle, next].map(r => r.route.fullPath).join(' ⇒ ')}`,
+              file: next.route.file,
+              line: next.route.line
+            });
+          }
+          break;
+        }
+
+        visited.push(next);
+        current = next;
+      }
+    }
+  }
+
+  // ==================== Shadowing ====================
+
+  /**
+   * 同じ階層で、先にある '**' や pathMatch: 'full' なしの空パスのリダイレクトにより到達できないルート
+   */
+  private checkShadowing(routes: RouteAnalysis[]): void {
+    const byOutlet = new Map<string, RouteAnalysis[]>();
+    routes.forEach(route => {
+      const outlet = route.outlet || 'primary';
+      if (!byOutlet.has(outlet)) byOutlet.set(outlet, []);
+      byOutlet.get(outlet)!.push(route);
+    });
+
+    byOutlet.forEach(siblings => {
+      let shadowedBy: RouteAnalysis | null = null;
+
+      for (const route of siblings) {
+        if (shadowedBy) {
+          this.report({
+            kind: 'shadowed',
+            severity: 'error',
+            path: route.fullPath,
+            message: `Unreachable: shadowed by '${shadowedBy.path}' (${shadowedBy.file}:${shadowedBy.line}) which matches every URL at this level`,
+            file: route.file,
+            line: route.line
+          });
+          continue;
+        }
+
+        if (matchesEverything(route)) {
+          shadowedBy = route;
+        }
+      }
+    });
+
+    routes.forEach(route => this.checkShadowing(route.children));
+  }
+
+  // ==================== Duplicates ====================
+
+  private checkDuplicates(flat: FlatRoute[]): void {
+    const seen = new Map<string, FlatRoute>();
+
+    for (const entry of flat) {
+      const { route, ancestors } = entry;
+      if (route.component === undefined && route.redirectTo === undefined) continue;
+
+      const outlet = [...ancestors, route].map(r => r.outlet).filter(o => o).pop() || 'primary';
+      const key = `${outlet}:${route.fullPath}`;
+      const previous = seen.get(key);
+
+      // 親子（コンポーネントを持つ親と空パスの子）は同じURLでも重複ではない
+      if (previous && !ancestors.includes(previous.route)) {
+        this.report({
+          kind: 'duplicate',
+          severity: 'warning',
+          path: route.fullPath,
+          message: `Duplicate path: also defined at ${previous.route.file}:${previous.route.line}`,
+          file: route.file,
+          line: route.line
+        });
+        continue;
+      }
+
+      seen.set(key, entry);
+    }
+  }
+
+  // ==================== Components ====================
+
+  private checkComponents(flat: FlatRoute[]): void {
+    for (const { route } of flat) {
+      const file = path.join(this.model.projectPath, route.file);
+
+      if (route.loadComponent) {
+        if (!route.lazyFile) {
+          if (!this.isPackageImport(route.loadComponent)) {
+            this.reportUnresolved(route, 'unresolved-lazy', `loadComponent target '${route.loadComponent}' could not be resolved`);
+          }
+          continue;
+        }
+        const lazyFile = path.join(this.model.projectPath, route.lazyFile);
+        const cls = this.model.getFacts(lazyFile).classes.find(c => c.name === route.component);
+        if (!cls || !cls.decorators.some(d => d.name === 'Component')) {
+          this.reportUnresolved(route, 'unresolved-component', `loadComponent '${route.loadComponent}' does not export a @Component class`);
+        }
+        continue;
+      }
+
+      if (route.loadChildren && route.loadChildren !== 'dynamic') {
+        if (!route.lazyFile && !this.isPackageImport(route.loadChildren)) {
+          this.reportUnresolved(route, 'unresolved-lazy', `loadChildren target '${route.loadChildren}' could not be resolved`);
+        } else if (route.lazyFile && route.children.length === 0) {
+          this.report({
+            kind: 'unresolved-lazy',
+            severity: 'warning',
+            path: route.fullPath,
+            message: `loadChildren target '${route.loadChildren}' defines no routes`,
+            file: route.file,
+            line: route.line
+          });
+        }
+      }
+
+      if (route.component) {
+        const declaration = this.declarations.findDeclaration(route.component, file);
+        if (declaration?.kind === 'component') continue;
+
+        if (declaration) {
+          this.reportUnresolved(route, 'unresolved-component', `component '${route.component}' is a ${declaration.kind}, not a component`);
+        } else if (!this.isImportedFromPackage(route.component, file)) {
+          this.reportUnresolved(route, 'unresolved-component', `component '${route.component}' does not resolve to a @Component class`);
+        }
+      }
+    }
+  }
+
+  private reportUnresolved(route: RouteAnalysis, kind: RouteIssueKind, message: string): void {
+    this.report({ kind, severity: 'error', path: route.fullPath, message, file: route.file, line: route.line });
+  }
+
+  private isPackageImport(lazy: string): boolean {
+    return !lazy.startsWith('.') && !lazy.startsWith('/');
+  }
+
+  private isImportedFromPackage(name: string, file: string): boolean {
+    const imported = this.model.getFacts(file).imports.find(imp => imp.specifiers.some(spec => spec.local === name));
+    return !!imported && !this.model.getModuleResolver().resolve(imported.source, file);
+  }
+
+  // ==================== Router Links ====================
+
+  /**
+   * テンプレートの routerLink を照合（相対リンクは、そのコンポーネントを表示するルートを基準に解決）
+   */
+  private checkRouterLinks(analysis: RoutingAnalysis, patterns: string[][]): void {
+    const components = this.declarations.getDeclarations().filter(decl => decl.kind === 'component' && decl.file);
+
+    for (const component of components) {
+      const template = new TemplateUsageAnalyzer(component.file!, this.model).extractTemplate();
+      if (!template.content) continue;
+
+      const bases = analysis.urls.filter(url => url.component === component.name).map(url => toSegments(url.fullPath));
+
+      for (const element of getTemplateElements(parseTemplate(template.content))) {
+        const link = readRouterLink(element);
+        if (!link) continue;
+
+        const line = link.line + template.lineOffset;
+        if (!link.segments) {
+          this.dynamicLinksSkipped++;
+          continue;
+        }
+
+        // 相対リンクはルートとして表示されるコンポーネントでのみ検証できる
+        const candidates = link.absolute ? [link.segments] : bases.map(base => resolveRelative(base, link.segments!));
+        if (candidates.length === 0) {
+          this.dynamicLinksSkipped++;
+          continue;
+        }
+
+        this.linksChecked++;
+        if (candidates.some(url => patterns.some(pattern => matchesPattern(url, pattern)))) continue;
+
+        this.report({
+          kind: 'unknown-link',
+          severity: 'warning',
+          path: link.source,
+          message: `routerLink "${link.source}" in ${component.name} matches no route`,
+          file: this.model.relative(template.path),
+          line
+        });
+      }
+    }
+  }
+}
+
+// ==================== Route Helpers ====================
+
+function flattenRoutes(routes: RouteAnalysis[], ancestors: RouteAnalysis[]): FlatRoute[] {
+  return routes.flatMap(route => [{ route, ancestors }, ...flattenRoutes(route.children, [...ancestors, route])]);
+}
+
+function toSegments(url: string): string[] {
+  return url.split(/[?#]/)[0].split('/').filter(segment => segment);
+}
+
+function formatSegments(segments: string[]): string {
+  return `/${segments.map(s => (s === DYNAMIC_SEGMENT ? ':param' : s)).join('/')}`;
+}
+
+/**
+ * URLがルートパターンに一致するか（:param は任意の1セグメント、** は残りすべて）
+ */
+function matchesPattern(url: string[], pattern: string[]): boolean {
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '**') return true;
+    if (i >= url.length) return false;
+    if (pattern[i].startsWith(':') || url[i] === DYNAMIC_SEGMENT || pattern[i] === url[i]) continue;
+    return false;
+  }
+  return url.length === pattern.length;
+}
+
+function isCatchAllRoute(route: RouteAnalysis): boolean {
+  return route.path === '**';
+}
+
+/**
+ * 同じ階層のすべてのURLに一致し、後続の兄弟ルートを到達不能にするか
+ */
+function matchesEverything(route: RouteAnalysis): boolean {
+  if (isCatchAllRoute(route)) return true;
+  if (route.path !== '') return false;
+
+  // pathMatch が 'prefix'（既定値）の空パスのリダイレクトはすべてのURLを書き換える
+  if (route.redirectTo !== undefined) return route.pathMatch !== 'full';
+
+  // 空パスのグループ配下に '**' がある場合
+  return route.children.some(child => matchesEverything(child));
+}
+
+/**
+ * redirectTo を絶対URLのセグメントに解決（先頭が / でなければ親ルートからの相対）
+ */
+function resolveRedirect(route: RouteAnalysis, ancestors: RouteAnalysis[]): string[] | null {
+  if (route.redirectTo === undefined) return null;
+
+  const toUrl = (segments: string[]) => segments.map(s => (s.startsWith(':') ? DYNAMIC_SEGMENT : s));
+  if (route.redirectTo.startsWith('/')) {
+    return toUrl(toSegments(route.redirectTo));
+  }
+
+  const parent = ancestors[ancestors.length - 1];
+  return toUrl([...toSegments(parent ? parent.fullPath : '/'), ...toSegments(route.redirectTo)]);
+}
+
+function resolveRelative(base: string[], link: string[]): string[] {
+  const result = [...base];
+  for (const segment of link) {
+    if (segment === '..') {
+      result.pop();
+    } else if (segment !== '.') {
+      result.push(segment);
+    }
+  }
+  return result;
+}
+
+/**
+ * routerLink="/a/b" / routerLink="/users/{{id}}" / [routerLink]="'/a'" / [routerLink]="['/orders', id]"
+ */
+function readRouterLink(element: TemplateElement): { source: string; segments: string[] | null; absolute: boolean; line: number } | null {
+  const attribute = element.attributes.find(attr => attr.name === 'routerLink' && (attr.kind === 'static' || attr.kind === 'property'));
+  if (!attribute) return null;
+
+  const source = attribute.value.trim();
+  const fromString = (value: string) => ({
+    source,
+    segments: toSegments(value.replace(/\{\{[\s\S]*?\}\}/g, DYNAMIC_SEGMENT)),
+    absolute: value.startsWith('/'),
+    line: attribute.line
+  });
+
+  if (attribute.kind === 'static') {
+    return fromString(source);
+  }
+
+  const literal = readStringLiteral(source);
+  if (literal !== null) {
+    return fromString(literal);
+  }
+
+  if (source.startsWith('[') && source.endsWith(']')) {
+    const parts = splitTopLevel(source.slice(1, -1), [',']).map(part => part.trim()).filter(part => part);
+    if (parts.length === 0) return null;
+
+    const first = readStringLiteral(parts[0]);
+    const segments = parts.flatMap(part => {
+      const value = readStringLiteral(part);
+      return value !== null ? toSegments(value) : [DYNAMIC_SEGMENT];
+    });
+    return { source, segments, absolute: first !== null && first.startsWith('/'), line: attribute.line };
+  }
+
+  // 式全体が動的な場合は検証できない
+  return { source, segments: null, absolute: false, line: attribute.line };
+}
+
+function readStringLiteral(expression: string): string | null {
+  const match = /^(['"])(.*)\1$/.exec(expression.trim());
+  return match ? match[2] : null;
+}
+
+// ==================== Output Formatters ====================
+
+const ISSUE_TITLES: Record<RouteIssueKind, string> = {
+  'broken-redirect': 'Broken Redirects',
+  'redirect-loop': 'Redirect Loops',
+  'shadowed': 'Shadowed Routes',
+  'duplicate': 'Duplicate Paths',
+  'unresolved-component': 'Unresolved Components',
+  'unresolved-lazy': 'Unresolved Lazy Routes',
+  'unknown-link': 'Unknown routerLinks'
+};
+
+function formatMarkdown(report: RouteCheckReport): string {
+  let md = `# Route Check Report\n\n`;
+
+  md += `**Analyzed At**: ${new Date().toISOString()}\n\n`;
+
+  md += `## Summary\n\n`;
+  md += `- **Routes Checked**: ${report.summary.routesChecked}\n`;
+  md += `- **routerLinks Checked**: ${report.summary.linksChecked}\n`;
+  md += `- **Dynamic routerLinks Skipped**: ${report.summary.dynamicLinksSkipped}\n`;
+  md += `- **Errors**: ${report.summary.errorCount}\n`;
+  md += `- **Warnings**: ${report.summary.warningCount}\n\n`;
+
+  if (report.issues.length === 0) {
+    md += `✅ **No route problems found!**\n`;
+    return md;
+  }
+
+  (Object.keys(ISSUE_TITLES) as RouteIssueKind[]).forEach(kind => {
+    const issues = report.issues.filter(issue => issue.kind === kind);
+    if (issues.length === 0) return;
+
+    md += `## ${issues.some(i => i.severity === 'error') ? '🔴' : '⚠️'} ${ISSUE_TITLES[kind]} (${issues.length})\n\n`;
+    md += `| Location | Path | Problem |\n`;
+    md += `|----------|------|---------|\n`;
+    issues.forEach(issue => {
+      md += `| ${issue.file}:${issue.line} | \`${issue.path.replace(/\|/g, '\\|')}\` | ${issue.message.replace(/\|/g, '\\|')} |\n`;
+    });
+    md += `\n`;
+  });
+
+  return md;
+}
+
+function formatConsole(report: RouteCheckReport): void {
+  console.log(`\n📊 Route Check\n`);
+  console.log(`Summary:`);
+  console.log(`  - Routes Checked: ${report.summary.routesChecked}`);
+  console.log(`  - routerLinks Checked: ${report.summary.linksChecked}`);
+  console.log(`  - Dynamic routerLinks Skipped: ${report.summary.dynamicLinksSkipped}`);
+  console.log(`  - Errors: ${report.summary.errorCount}`);
+  console.log(`  - Warnings: ${report.summary.warningCount}\n`);
+
+  if (report.issues.length === 0) {
+    console.log('✅ No route problems found!\n');
+    return;
+  }
+
+  report.issues.forEach(issue => {
+    console.log(`${issue.severity === 'error' ? '🔴' : '⚠️ '} ${issue.file}:${issue.line} [${issue.kind}] ${issue.message}`);
+  });
+  console.log('');
+}
+
+// ==================== Main ====================
+
+function main(): void {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help')) {
+    console.log(`
+Usage: npx ts-node src/check-routes.ts <project-dir> [options]
+
+Options:
+  --save <path>      Save output to file
+  --project <names>  Check the given angular.json / project.json projects (comma separated)
+  --workspace        Check every project in the workspace
+  --help             Show this help message
+
+Examples:
+  npx ts-node src/check-routes.ts ./src
+  npx ts-node src/check-routes.ts ./src --save route-check.md
+`);
+    process.exit(0);
+  }
+
+  const projectPath = args[0];
+  const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
+
+  if (!fs.existsSync(projectPath)) {
+    console.error(`Error: Project directory "${projectPath}" does not exist`);
+    process.exit(1);
+  }
+
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectPath, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const markdowns: string[] = [];
+  let hasErrors = false;
+
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    const report = new RouteSanityChecker(target.path, model).check();
+
+    if (target.project) {
+      console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===`);
+    }
+    formatConsole(report);
+    markdowns.push(formatProjectHeading(target) + formatMarkdown(report));
+    hasErrors = hasErrors || report.summary.errorCount > 0;
+  }
+
+  if (savePath) {
+    fs.writeFileSync(savePath, markdowns.join('\n'));
+    console.log(`✓ Saved to ${savePath}\n`);
+  }
+
+  // エラーがある場合は終了コード1を返す
+  if (hasErrors) {
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
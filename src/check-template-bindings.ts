@@ -0,0 +1,441 @@
+#!/usr/bin/env ts-node
+
+/**
+ * check-template-bindings.ts
+ * テンプレートで参照している識別子がコンポーネントクラスに存在し、参照可能かを検証
+ *
+ * Usage: npx ts-node src/check-template-bindings.ts <component-file | project-dir>
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ProjectModel, ClassFact } from './utils/project-model';
+import { ClassMember, extractClassMembers } from './utils/class-members';
+import {
+  TemplateExpression,
+  TemplateExpressionContext,
+  TemplateNode,
+  parseTemplate,
+  walkTemplate,
+  getReferencedIdentifiers
+} from './utils/template-parser';
+import { TemplateUsageAnalyzer } from './analyze-template-usage';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
+
+// ==================== Interfaces ====================
+
+export interface BindingIssue {
+  kind: 'missing' | 'private' | 'static';
+  member: string;
+  expression: string;
+  context: TemplateExpressionContext;
+  file: string;
+  line: number;
+}
+
+export interface ComponentBindingResult {
+  component: string;
+  componentPath: string;
+  templatePath: string;
+  templateType: 'inline' | 'external';
+  checkedExpressions: number;
+  issues: BindingIssue[];
+  unresolvedBaseClass?: string;
+}
+
+export interface TemplateBindingReport {
+  components: ComponentBindingResult[];
+  summary: {
+    componentsChecked: number;
+    expressionsChecked: number;
+    missingCount: number;
+    privateCount: number;
+    staticCount: number;
+  };
+}
+
+// ==================== Template Binding Checker ====================
+
+// @for ブロック内で暗黙的に使える変数
+const FOR_BLOCK_IMPLICIT_VARIABLES = ['$index', '$first', '$last', '$even', '$odd', '$count'];
+
+// テンプレートで常に使える組み込み関数
+const TEMPLATE_BUILTINS = ['$any'];
+
+export class TemplateBindingChecker {
+  private projectPath: string;
+  private model: ProjectModel;
+
+  constructor(projectPath: string, model?: ProjectModel) {
+    this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
+  }
+
+  /**
+   * プロジェクト内の全コンポーネントを検証
+   */
+  check(): TemplateBindingReport {
+    console.log(`Checking template bindings in: ${this.projectPath}\n`);
+
+    const components: ComponentBindingResult[] = [];
+    for (const file of this.model.getTypeScriptFiles()) {
+      components.push(...this.checkComponentFile(file));
+    }
+
+    return createReport(components);
+  }
+
+  /**
+   * 1ファイル内の@Componentクラスを検証
+   */
+  checkComponentFile(filePath: string): ComponentBindingResult[] {
+    const results: ComponentBindingResult[] = [];
+    const componentClasses = this.model.getFacts(filePath).classes
+      .filter(cls => cls.decorators.some(d => d.name === 'Component'));
+
+    if (componentClasses.length === 0) {
+      return results;
+    }
+
+    const template = new TemplateUsageAnalyzer(filePath, this.model).extractTemplate();
+    if (!template.content) {
+      return results;
+    }
+
+    const parsed = parseTemplate(template.content);
+
+    for (const cls of componentClasses) {
+      const { members, unresolvedBaseClass } = this.collectMembers(cls, filePath, new Set());
+      const result: ComponentBindingResult = {
+        component: cls.name,
+        componentPath: this.model.relative(filePath),
+        templatePath: this.model.relative(template.path),
+        templateType: template.type,
+        checkedExpressions: 0,
+        issues: [],
+        unresolvedBaseClass
+      };
+
+      this.checkTemplate(parsed.nodes, (expression, identifiers) => {
+        result.checkedExpressions++;
+
+        for (const name of identifiers) {
+          const member = members.get(name);
+          let kind: BindingIssue['kind'] | null = null;
+
+          if (!member) {
+            // 基底クラスが解決できない場合は継承メンバーの可能性があるため報告しない
+            kind = unresolvedBaseClass ? null : 'missing';
+          } else if (member.accessibility === 'private') {
+            kind = 'private';
+          } else if (member.isStatic) {
+            kind = 'static';
+          }
+
+          if (kind) {
+            result.issues.push({
+              kind,
+              member: name,
+              expression: expression.source,
+              context: expression.context,
+              file: result.templatePath,
+              line: expression.line + template.lineOffset
+            });
+          }
+        }
+      });
+
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * テンプレートを走査し、ローカル変数を除いた識別子をコールバックに渡す
+   */
+  private checkTemplate(
+    nodes: TemplateNode[],
+    onExpression: (expression: TemplateExpression, identifiers: string[]) => void
+  ): void {
+    // #ref と @let はテンプレート全体から参照できるものとして扱う
+    const templateVariables = new Set<string>(TEMPLATE_BUILTINS);
+    walkTemplate(nodes, node => {
+      if (node.kind === 'element') {
+        node.attributes.filter(a => a.kind === 'reference').forEach(a => templateVariables.add(a.name));
+      } else if (node.kind === 'let') {
+        templateVariables.add(node.name);
+      }
+    });
+
+    walkTemplate(nodes, (node, ancestors) => {
+      const locals = new Set(templateVariables);
+      for (const scope of [...ancestors, node]) {
+        this.scopeVariables(scope).forEach(v => locals.add(v));
+      }
+
+      const expressions: TemplateExpression[] = node.kind === 'element'
+        ? node.attributes.flatMap(attr => attr.expressions)
+        : node.expressions;
+
+      for (const expression of expressions) {
+        if (!expression.source) continue;
+
+        const identifiers = getReferencedIdentifiers(expression.source).filter(name =>
+          !locals.has(name) && !(name === '$event' && expression.context === 'event')
+        );
+        onExpression(expression, identifiers);
+      }
+    });
+  }
+
+  /**
+   * ノードが子孫（および自身の式）に導入するテンプレート変数
+   */
+  private scopeVariables(node: TemplateNode): string[] {
+    if (node.kind === 'block') {
+      return node.name === 'for'
+        ? [...node.variables, ...FOR_BLOCK_IMPLICIT_VARIABLES]
+        : node.variables;
+    }
+    if (node.kind === 'element') {
+      return node.attributes
+        .filter(attr => attr.kind === 'structural' || attr.kind === 'let')
+        .flatMap(attr => attr.variables);
+    }
+    return [];
+  }
+
+  /**
+   * クラスと基底クラス（プロジェクト内で解決できるもの）のメンバーを収集
+   */
+  private collectMembers(
+    cls: ClassFact,
+    filePath: string,
+    visited: Set<string>
+  ): { members: Map<string, ClassMember>; unresolvedBaseClass?: string } {
+    const members = new Map<string, ClassMember>();
+    let unresolvedBaseClass: string | undefined;
+
+    visited.add(`${filePath}#${cls.name}`);
+
+    if (cls.extends) {
+      const base = this.findClass(cls.extends, filePath);
+      if (base && !visited.has(`${base.file}#${base.cls.name}`)) {
+        const inherited = this.collectMembers(base.cls, base.file, visited);
+        inherited.members.forEach((member, name) => members.set(name, member));
+        unresolvedBaseClass = inherited.unresolvedBaseClass;
+      } else if (!base) {
+        unresolvedBaseClass = cls.extends;
+      }
+    }
+
+    // 派生クラスのメンバーで上書き
+    for (const member of extractClassMembers(cls.node)) {
+      members.set(member.name, member);
+    }
+
+    return { members, unresolvedBaseClass };
+  }
+
+  private findClass(name: string, fromFile: string): { cls: ClassFact; file: string } | null {
+    const facts = this.model.getFacts(fromFile);
+
+    const local = facts.classes.find(c => c.name === name);
+    if (local) {
+      return { cls: local, file: fromFile };
+    }
+
+    for (const imp of facts.imports) {
+      const spec = imp.specifiers.find(s => s.local === name);
+      if (!spec) continue;
+
+      const resolved = this.model.getModuleResolver().resolve(imp.source, fromFile);
+      if (!resolved) return null;
+
+      const target = this.model.getFacts(resolved).classes.find(c => c.name === spec.imported);
+      return target ? { cls: target, file: resolved } : null;
+    }
+
+    return null;
+  }
+}
+
+function createReport(components: ComponentBindingResult[]): TemplateBindingReport {
+  const issues = components.flatMap(c => c.issues);
+  return {
+    components,
+    summary: {
+      componentsChecked: components.length,
+      expressionsChecked: components.reduce((sum, c) => sum + c.checkedExpressions, 0),
+      missingCount: issues.filter(i => i.kind === 'missing').length,
+      privateCount: issues.filter(i => i.kind === 'private').length,
+      staticCount: issues.filter(i => i.kind === 'static').length
+    }
+  };
+}
+
+function describeIssue(issue: BindingIssue): string {
+  switch (issue.kind) {
+    case 'missing':
+      return `"${issue.member}" does not exist on the component`;
+    case 'private':
+      return `"${issue.member}" is private and cannot be accessed from the template`;
+    case 'static':
+      return `"${issue.member}" is static and cannot be accessed from the template`;
+  }
+}
+
+// ==================== Output Formatters ====================
+
+function formatMarkdown(report: TemplateBindingReport): string {
+  let md = `# Template Binding Report\n\n`;
+
+  md += `**Analyzed At**: ${new Date().toISOString()}\n\n`;
+
+  md += `## Summary\n\n`;
+  md += `- **Components Checked**: ${report.summary.componentsChecked}\n`;
+  md += `- **Expressions Checked**: ${report.summary.expressionsChecked}\n`;
+  md += `- **Missing Members**: ${report.summary.missingCount}\n`;
+  md += `- **Private Members**: ${report.summary.privateCount}\n`;
+  md += `- **Static Members**: ${report.summary.staticCount}\n\n`;
+
+  const withIssues = report.components.filter(c => c.issues.length > 0);
+  if (withIssues.length === 0) {
+    md += `✅ **All template bindings resolve to accessible component members!**\n`;
+  }
+
+  for (const component of withIssues) {
+    md += `## ${component.component}\n\n`;
+    md += `- **Component**: ${component.componentPath}\n`;
+    md += `- **Template**: ${component.templatePath} (${component.templateType})\n\n`;
+
+    md += `| Location | Kind | Member | Context | Expression |\n`;
+    md += `|----------|------|--------|---------|------------|\n`;
+    component.issues.forEach(issue => {
+      const expression = issue.expression.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+      md += `| ${issue.file}:${issue.line} | ${issue.kind} | ${issue.member} | ${issue.context} | \`${expression}\` |\n`;
+    });
+    md += `\n`;
+  }
+
+  const unresolved = report.components.filter(c => c.unresolvedBaseClass);
+  if (unresolved.length > 0) {
+    md += `## ℹ️ Partially Checked\n\n`;
+    md += `Missing-member checks were skipped for these components because their base class could not be resolved:\n\n`;
+    unresolved.forEach(c => {
+      md += `- **${c.component}** extends \`${c.unresolvedBaseClass}\`\n`;
+    });
+    md += `\n`;
+  }
+
+  return md;
+}
+
+function formatConsole(report: TemplateBindingReport): void {
+  const issues = report.components.flatMap(c => c.issues);
+
+  console.log(`\n📊 Template Binding Check\n`);
+  console.log(`Summary:`);
+  console.log(`  - Components Checked: ${report.summary.componentsChecked}`);
+  console.log(`  - Expressions Checked: ${report.summary.expressionsChecked}`);
+  console.log(`  - Missing Members: ${report.summary.missingCount}`);
+  console.log(`  - Private Members: ${report.summary.privateCount}`);
+  console.log(`  - Static Members: ${report.summary.staticCount}\n`);
+
+  if (issues.length === 0) {
+    console.log('✅ All template bindings resolve to accessible component members!\n');
+  } else {
+    for (const component of report.components.filter(c => c.issues.length > 0)) {
+      console.log(`🔴 ${component.component} (${component.templatePath}):`);
+      component.issues.forEach(issue => {
+        console.log(`  - ${issue.file}:${issue.line} ${describeIssue(issue)}`);
+        console.log(`    ${issue.context}: ${issue.expression.replace(/\s+/g, ' ')}`);
+      });
+      console.log('');
+    }
+  }
+
+  report.components.filter(c => c.unresolvedBaseClass).forEach(c => {
+    console.log(`ℹ️  ${c.component}: base class ${c.unresolvedBaseClass} could not be resolved, missing members not reported`);
+  });
+}
+
+// ==================== Main ====================
+
+function main(): void {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help')) {
+    console.log(`
+Usage: npx ts-node src/check-template-bindings.ts <component-file | project-dir> [options]
+
+Options:
+  --save <path>      Save output to file
+  --project <names>  Check the given angular.json / project.json projects (comma separated)
+  --workspace        Check every project in the workspace
+  --help             Show this help message
+
+Examples:
+  npx ts-node src/check-template-bindings.ts ./src/app/app.component.ts
+  npx ts-node src/check-template-bindings.ts ./src --save template-bindings.md
+  npx ts-node src/check-template-bindings.ts ./my-workspace --workspace
+`);
+    process.exit(0);
+  }
+
+  const inputPath = args[0];
+  const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
+
+  if (!fs.existsSync(inputPath)) {
+    console.error(`Error: "${inputPath}" does not exist`);
+    process.exit(1);
+  }
+
+  const markdowns: string[] = [];
+  let hasIssues = false;
+
+  if (fs.statSync(inputPath).isFile()) {
+    // 単一コンポーネント
+    const checker = new TemplateBindingChecker(path.dirname(inputPath));
+    const report = createReport(checker.checkComponentFile(inputPath));
+
+    formatConsole(report);
+    markdowns.push(formatMarkdown(report));
+    hasIssues = report.components.some(c => c.issues.length > 0);
+  } else {
+    let targets: AnalysisTarget[];
+    try {
+      targets = resolveAnalysisTargets(inputPath, args);
+    } catch (error) {
+      console.error(`Error: ${(error as Error).message}`);
+      process.exit(1);
+    }
+
+    for (const target of targets) {
+      const model = new ProjectModel(target.path, target.tsconfigPath);
+      const report = new TemplateBindingChecker(target.path, model).check();
+
+      if (target.project) {
+        console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===`);
+      }
+      formatConsole(report);
+      markdowns.push(formatProjectHeading(target) + formatMarkdown(report));
+      hasIssues = hasIssues || report.components.some(c => c.issues.length > 0);
+    }
+  }
+
+  if (savePath) {
+    fs.writeFileSync(savePath, markdowns.join('\n'));
+    console.log(`✓ Saved to ${savePath}\n`);
+  }
+
+  // 問題がある場合は終了コード1を返す
+  if (hasIssues) {
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -9,30 +9,33 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { parse } from '@typescript-eslint/typescript-estree';
+import { ProjectModel } from './utils/project-model';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
 
 // ==================== Interfaces ====================
 
-interface CircularDependency {
+export interface CircularDependency {
   cycle: string[];
   severity: 'error' | 'warning';
   type: 'module' | 'service' | 'component' | 'general';
 }
 
-interface DependencyNode {
+export interface DependencyNode {
   file: string;
   imports: string[];
 }
 
 // ==================== Circular Dependency Detector ====================
 
-class CircularDependencyDetector {
+export class CircularDependencyDetector {
   private projectPath: string;
+  private model: ProjectModel;
   private graph = new Map<string, DependencyNode>();
   private circularDeps: CircularDependency[] = [];
 
-  constructor(projectPath: string) {
+  constructor(projectPath: string, model?: ProjectModel) {
     this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
   }
 
   detect(): CircularDependency[] {
@@ -48,7 +51,7 @@ class CircularDependencyDetector {
   }
 
   private buildGraph(): void {
-    const files = this.getAllTypeScriptFiles(this.projectPath);
+    const files = this.model.getTypeScriptFiles();
     console.log(`Analyzing ${files.length} files...\n`);
 
     for (const file of files) {
@@ -60,87 +63,16 @@ class CircularDependencyDetector {
     }
   }
 
-  private getAllTypeScriptFiles(dir: string): string[] {
-    const files: string[] = [];
-    // Resolve to absolute path
-    const absDir = path.resolve(dir);
-
-    const traverse = (currentPath: string): void => {
-      try {
-        const items = fs.readdirSync(currentPath);
-
-        for (const item of items) {
-          const fullPath = path.join(currentPath, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            if (!item.startsWith('.') && item !== 'node_modules' && item !== 'dist') {
-              traverse(fullPath);
-            }
-          } else if (stat.isFile() && item.endsWith('.ts') && !item.endsWith('.spec.ts')) {
-            // Store absolute paths
-            files.push(path.resolve(fullPath));
-          }
-        }
-      } catch (error) {
-        console.error(`Error reading directory ${currentPath}:`, error);
-      }
-    };
-
-    traverse(absDir);
-    return files;
-  }
-
   private extractImports(filePath: string): string[] {
     const imports: string[] = [];
+    const resolver = this.model.getModuleResolver();
 
-    try {
-      const content = fs.readFileSync(filePath, 'utf-8');
-      const ast = parse(content, {
-        loc: true,
-        range: true,
-        comment: false
-      });
-
-      const traverse = (node: any): void => {
-        if (!node) return;
-
-        if (node.type === 'ImportDeclaration') {
-          const source = node.source.value;
-
-          // 相対パスのみ解析
-          if (source.startsWith('.')) {
-            const dir = path.dirname(filePath);
-            let resolvedPath = path.resolve(dir, source);
-
-            if (!resolvedPath.endsWith('.ts')) {
-              if (fs.existsSync(resolvedPath + '.ts')) {
-                resolvedPath += '.ts';
-              } else if (fs.existsSync(path.join(resolvedPath, 'index.ts'))) {
-                resolvedPath = path.join(resolvedPath, 'index.ts');
-              }
-            }
-
-            if (fs.existsSync(resolvedPath)) {
-              imports.push(resolvedPath);
-            }
-          }
-        }
-
-        for (const key in node) {
-          if (node[key] && typeof node[key] === 'object') {
-            if (Array.isArray(node[key])) {
-              node[key].forEach((child: any) => traverse(child));
-            } else {
-              traverse(node[key]);
-            }
-          }
-        }
-      };
-
-      traverse(ast);
-    } catch (error) {
-      // Parse error は無視
+    for (const imp of this.model.getFacts(filePath).imports) {
+      // 相対パスとtsconfigのエイリアス（paths/baseUrl）を解析
+      const resolvedPath = resolver.resolve(imp.source, filePath);
+      if (resolvedPath) {
+        imports.push(resolvedPath);
+      }
     }
 
     return imports;
@@ -316,11 +248,14 @@ Usage: npx ts-node src/detect-circular-deps.ts <project-dir> [options]
 
 Options:
   --save <path>      Save output to file
+  --project <names>  Analyze the given angular.json / project.json projects (comma separated)
+  --workspace        Analyze every project in the workspace
   --help             Show this help message
 
 Examples:
   npx ts-node src/detect-circular-deps.ts ./my-project
   npx ts-node src/detect-circular-deps.ts ./my-project --save circular-deps.md
+  npx ts-node src/detect-circular-deps.ts ./my-workspace --project shop
 `);
     process.exit(0);
   }
@@ -333,22 +268,40 @@ Examples:
     process.exit(1);
   }
 
-  const detector = new CircularDependencyDetector(projectPath);
-  const cycles = detector.detect();
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectPath, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const markdowns: string[] = [];
+  let hasErrors = false;
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    const detector = new CircularDependencyDetector(target.path, model);
+    const cycles = detector.detect();
 
-  formatConsole(cycles);
+    if (target.project) {
+      console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===`);
+    }
+    formatConsole(cycles);
+    markdowns.push(formatProjectHeading(target) + formatMarkdown(cycles));
+    hasErrors = hasErrors || cycles.some(c => c.severity === 'error');
+  }
 
   if (savePath) {
-    const markdown = formatMarkdown(cycles);
-    fs.writeFileSync(savePath, markdown);
+    fs.writeFileSync(savePath, markdowns.join('\n'));
     console.log(`✓ Saved to ${savePath}\n`);
   }
 
   // エラーがある場合は終了コード1を返す
-  const hasErrors = cycles.some(c => c.severity === 'error');
   if (hasErrors) {
     process.exit(1);
   }
 }
 
-main();
+if (require.main === module) {
+  main();
+}
@@ -9,12 +9,14 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { parse } from '@typescript-eslint/typescript-estree';
-import { parse as parseHtml } from 'node-html-parser';
+import { ProjectModel } from './utils/project-model';
+import { extractComponentMetadata } from './utils/angular-metadata';
+import { parseTemplate, getTemplateElements, getTemplateExpressions, matchesSelector } from './utils/template-parser';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
 
 // ==================== Interfaces ====================
 
-interface UnusedCode {
+export interface UnusedCode {
   components: UnusedItem[];
   services: UnusedItem[];
   pipes: UnusedItem[];
@@ -30,14 +32,14 @@ interface UnusedCode {
   };
 }
 
-interface UnusedItem {
+export interface UnusedItem {
   name: string;
   path: string;
   type: 'component' | 'service' | 'pipe' | 'directive' | 'module';
   reason: string;
 }
 
-interface CodeItem {
+export interface CodeItem {
   name: string;
   path: string;
   type: 'component' | 'service' | 'pipe' | 'directive' | 'module';
@@ -46,8 +48,9 @@ interface CodeItem {
 
 // ==================== Unused Code Detector ====================
 
-class UnusedCodeDetector {
+export class UnusedCodeDetector {
   private projectPath: string;
+  private model: ProjectModel;
   private allComponents: CodeItem[] = [];
   private allServices: CodeItem[] = [];
   private allPipes: CodeItem[] = [];
@@ -60,8 +63,9 @@ class UnusedCodeDetector {
   private usedDirectives = new Set<string>();
   private usedModules = new Set<string>();
 
-  constructor(projectPath: string) {
+  constructor(projectPath: string, model?: ProjectModel) {
     this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
   }
 
   detect(): UnusedCode {
@@ -88,7 +92,7 @@ class UnusedCodeDetector {
   }
 
   private collectAllCodeItems(): void {
-    const files = this.getAllTypeScriptFiles(this.projectPath);
+    const files = this.model.getTypeScriptFiles();
 
     for (const file of files) {
       const item = this.analyzeFile(file);
@@ -114,105 +118,45 @@ class UnusedCodeDetector {
     }
   }
 
-  private getAllTypeScriptFiles(dir: string): string[] {
-    const files: string[] = [];
-
-    const traverse = (currentPath: string): void => {
-      try {
-        const items = fs.readdirSync(currentPath);
-
-        for (const item of items) {
-          const fullPath = path.join(currentPath, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            if (!item.startsWith('.') && item !== 'node_modules' && item !== 'dist') {
-              traverse(fullPath);
-            }
-          } else if (stat.isFile() && item.endsWith('.ts') && !item.endsWith('.spec.ts')) {
-            files.push(fullPath);
-          }
-        }
-      } catch (error) {
-        // Ignore errors
-      }
-    };
-
-    traverse(dir);
-    return files;
-  }
-
   private analyzeFile(filePath: string): CodeItem | null {
-    const content = fs.readFileSync(filePath, 'utf-8');
-
-    try {
-      const ast = parse(content, {
-        loc: true,
-        range: true,
-        comment: false
-      });
-
-      let className: string | null = null;
-      let itemType: CodeItem['type'] | null = null;
-      let selector: string | undefined;
-
-      const traverse = (node: any): void => {
-        if (!node) return;
-
-        if (node.type === 'ClassDeclaration' && node.id) {
-          className = node.id.name;
-
-          if (node.decorators && Array.isArray(node.decorators)) {
-            for (const decorator of node.decorators) {
-              const decoratorName = decorator.expression?.callee?.name || decorator.expression?.name;
-
-              switch (decoratorName) {
-                case 'Component':
-                  itemType = 'component';
-                  selector = this.extractSelector(decorator);
-                  break;
-                case 'Injectable':
-                  itemType = 'service';
-                  break;
-                case 'Pipe':
-                  itemType = 'pipe';
-                  selector = this.extractPipeName(decorator);
-                  break;
-                case 'Directive':
-                  itemType = 'directive';
-                  selector = this.extractSelector(decorator);
-                  break;
-                case 'NgModule':
-                  itemType = 'module';
-                  break;
-              }
-            }
-          }
+    let className: string | null = null;
+    let itemType: CodeItem['type'] | null = null;
+    let selector: string | undefined;
+
+    for (const cls of this.model.getFacts(filePath).classes) {
+      className = cls.name;
+
+      for (const decorator of cls.decorators) {
+        switch (decorator.name) {
+          case 'Component':
+            itemType = 'component';
+            selector = this.extractSelector(decorator.node);
+            break;
+          case 'Injectable':
+            itemType = 'service';
+            break;
+          case 'Pipe':
+            itemType = 'pipe';
+            selector = this.extractPipeName(decorator.node);
+            break;
+          case 'Directive':
+            itemType = 'directive';
+            selector = this.extractSelector(decorator.node);
+            break;
+          case 'NgModule':
+            itemType = 'module';
+            break;
         }
+      }
+    }
 
-        for (const key in node) {
-          if (node[key] && typeof node[key] === 'object') {
-            if (Array.isArray(node[key])) {
-              node[key].forEach((child: any) => traverse(child));
-            } else {
-              traverse(node[key]);
-            }
-          }
-        }
+    if (className && itemType) {
+      return {
+        name: className,
+        path: path.relative(this.projectPath, filePath),
+        type: itemType,
+        selector
       };
-
-      traverse(ast);
-
-      if (className && itemType) {
-        return {
-          name: className,
-          path: path.relative(this.projectPath, filePath),
-          type: itemType,
-          selector
-        };
-      }
-    } catch (error) {
-      // Ignore parse errors
     }
 
     return null;
@@ -241,17 +185,18 @@ class UnusedCodeDetector {
   }
 
   private analyzeUsage(): void {
-    const files = this.getAllTypeScriptFiles(this.projectPath);
+    const files = this.model.getTypeScriptFiles();
 
     // TypeScriptファイルからの使用を検出
     for (const file of files) {
       this.analyzeTypeScriptUsage(file);
+      this.analyzeInlineTemplates(file);
     }
 
     // HTMLテンプレートからの使用を検出
-    const htmlFiles = this.getAllHtmlFiles(this.projectPath);
+    const htmlFiles = this.model.getHtmlFiles();
     for (const file of htmlFiles) {
-      this.analyzeTemplateUsage(file);
+      this.analyzeTemplateUsage(this.model.getContent(file));
     }
 
     // モジュールは常にAppModuleを使用済みとマーク
@@ -261,149 +206,73 @@ class UnusedCodeDetector {
     }
   }
 
-  private getAllHtmlFiles(dir: string): string[] {
-    const files: string[] = [];
-
-    const traverse = (currentPath: string): void => {
-      try {
-        const items = fs.readdirSync(currentPath);
-
-        for (const item of items) {
-          const fullPath = path.join(currentPath, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            if (!item.startsWith('.') && item !== 'node_modules' && item !== 'dist') {
-              traverse(fullPath);
-            }
-          } else if (stat.isFile() && item.endsWith('.html')) {
-            files.push(fullPath);
-          }
-        }
-      } catch (error) {
-        // Ignore errors
-      }
-    };
-
-    traverse(dir);
-    return files;
-  }
-
   private analyzeTypeScriptUsage(filePath: string): void {
-    const content = fs.readFileSync(filePath, 'utf-8');
-
-    try {
-      const ast = parse(content, {
-        loc: true,
-        range: true,
-        comment: false
-      });
-
-      const traverse = (node: any): void => {
-        if (!node) return;
-
-        // インポートから使用を検出
-        if (node.type === 'ImportDeclaration') {
-          if (node.specifiers) {
-            node.specifiers.forEach((spec: any) => {
-              if (spec.local) {
-                const importedName = spec.local.name;
-
-                // コンポーネント/サービス/パイプ/ディレクティブ/モジュールの使用を検出
-                if (this.allComponents.some(c => c.name === importedName)) {
-                  this.usedComponents.add(importedName);
-                }
-                if (this.allServices.some(s => s.name === importedName)) {
-                  this.usedServices.add(importedName);
-                }
-                if (this.allPipes.some(p => p.name === importedName)) {
-                  this.usedPipes.add(importedName);
-                }
-                if (this.allDirectives.some(d => d.name === importedName)) {
-                  this.usedDirectives.add(importedName);
-                }
-                if (this.allModules.some(m => m.name === importedName)) {
-                  this.usedModules.add(importedName);
-                }
-              }
-            });
-          }
+    // インポートから使用を検出
+    for (const imp of this.model.getFacts(filePath).imports) {
+      imp.specifiers.forEach(spec => {
+        const importedName = spec.local;
+
+        // コンポーネント/サービス/パイプ/ディレクティブ/モジュールの使用を検出
+        if (this.allComponents.some(c => c.name === importedName)) {
+          this.usedComponents.add(importedName);
         }
-
-        for (const key in node) {
-          if (node[key] && typeof node[key] === 'object') {
-            if (Array.isArray(node[key])) {
-              node[key].forEach((child: any) => traverse(child));
-            } else {
-              traverse(node[key]);
-            }
-          }
+        if (this.allServices.some(s => s.name === importedName)) {
+          this.usedServices.add(importedName);
         }
-      };
-
-      traverse(ast);
-    } catch (error) {
-      // Ignore parse errors
+        if (this.allPipes.some(p => p.name === importedName)) {
+          this.usedPipes.add(importedName);
+        }
+        if (this.allDirectives.some(d => d.name === importedName)) {
+          this.usedDirectives.add(importedName);
+        }
+        if (this.allModules.some(m => m.name === importedName)) {
+          this.usedModules.add(importedName);
+        }
+      });
     }
   }
 
-  private analyzeTemplateUsage(filePath: string): void {
-    const content = fs.readFileSync(filePath, 'utf-8');
-
-    try {
-      const root = parseHtml(content);
-
-      // セレクタからコンポーネント/ディレクティブの使用を検出
-      const traverse = (node: any): void => {
-        if (node.nodeType === 1) {
-          const tagName = node.rawTagName?.toLowerCase();
-
-          // コンポーネントセレクタとマッチング
-          this.allComponents.forEach(comp => {
-            if (comp.selector && tagName === comp.selector.toLowerCase()) {
-              this.usedComponents.add(comp.name);
-            }
-          });
-
-          // ディレクティブセレクタとマッチング
-          this.allDirectives.forEach(dir => {
-            if (dir.selector && content.includes(dir.selector)) {
-              this.usedDirectives.add(dir.name);
-            }
-          });
-
-          // 属性をチェック
-          if (node.attributes) {
-            const attrText = JSON.stringify(node.attributes);
-            this.allDirectives.forEach(dir => {
-              if (dir.selector && attrText.includes(dir.selector)) {
-                this.usedDirectives.add(dir.name);
-              }
-            });
-          }
+  private analyzeInlineTemplates(filePath: string): void {
+    for (const cls of this.model.getFacts(filePath).classes) {
+      for (const decorator of cls.decorators) {
+        if (decorator.name !== 'Component') continue;
+        const template = extractComponentMetadata(decorator.metadata).template;
+        if (template) {
+          this.analyzeTemplateUsage(template);
         }
+      }
+    }
+  }
 
-        if (node.childNodes) {
-          node.childNodes.forEach((child: any) => traverse(child));
-        }
-      };
+  private analyzeTemplateUsage(template: string): void {
+    const parsed = parseTemplate(template);
 
-      traverse(root);
+    // セレクタからコンポーネント/ディレクティブの使用を検出
+    for (const element of getTemplateElements(parsed)) {
+      this.allComponents.forEach(comp => {
+        if (comp.selector && matchesSelector(element, comp.selector)) {
+          this.usedComponents.add(comp.name);
+        }
+      });
 
-      // パイプの使用を検出
-      this.allPipes.forEach(pipe => {
-        if (pipe.selector) {
-          const pipeRegex = new RegExp(`\\|\\s*${pipe.selector}\\b`);
-          if (pipeRegex.test(content)) {
-            this.usedPipes.add(pipe.name);
-          }
+      this.allDirectives.forEach(dir => {
+        if (dir.selector && matchesSelector(element, dir.selector)) {
+          this.usedDirectives.add(dir.name);
         }
       });
-    } catch (error) {
-      // Ignore parse errors
+    }
+
+    // パイプの使用を検出（補間・バインディング・ブロックの式すべて）
+    for (const expression of getTemplateExpressions(parsed)) {
+      for (const pipeCall of expression.pipes) {
+        this.allPipes
+          .filter(pipe => pipe.selector === pipeCall.name)
+          .forEach(pipe => this.usedPipes.add(pipe.name));
+      }
     }
   }
 
+
   private identifyUnused(): UnusedCode {
     const unusedComponents = this.allComponents
       .filter(c => !this.usedComponents.has(c.name))
@@ -599,11 +468,14 @@ Usage: npx ts-node src/detect-unused-code.ts <project-dir> [options]
 
 Options:
   --save <path>      Save output to file
+  --project <names>  Analyze the given angular.json / project.json projects (comma separated)
+  --workspace        Analyze every project in the workspace
   --help             Show this help message
 
 Examples:
   npx ts-node src/detect-unused-code.ts ./src
   npx ts-node src/detect-unused-code.ts ./src --save unused-code.md
+  npx ts-node src/detect-unused-code.ts ./my-workspace --workspace
 `);
     process.exit(0);
   }
@@ -616,16 +488,33 @@ Examples:
     process.exit(1);
   }
 
-  const detector = new UnusedCodeDetector(projectPath);
-  const unused = detector.detect();
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectPath, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
 
-  formatConsole(unused);
+  const markdowns: string[] = [];
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    const detector = new UnusedCodeDetector(target.path, model);
+    const unused = detector.detect();
+
+    if (target.project) {
+      console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===`);
+    }
+    formatConsole(unused);
+    markdowns.push(formatProjectHeading(target) + formatMarkdown(unused));
+  }
 
   if (savePath) {
-    const markdown = formatMarkdown(unused);
-    fs.writeFileSync(savePath, markdown);
+    fs.writeFileSync(savePath, markdowns.join('\n'));
     console.log(`✓ Saved to ${savePath}\n`);
   }
 }
 
-main();
+if (require.main === module) {
+  main();
+}
@@ -8,13 +8,20 @@
  */
 
 import * as fs from 'fs';
-import * as path from 'path';
-import { execSync } from 'child_process';
+import { ProjectModel } from './utils/project-model';
+import { ProjectAnalyzer, ProjectAnalysis } from './analyze-project';
+import { ModuleAnalyzer, ModuleGraph, generateMermaidGraph } from './analyze-modules';
+import { RoutingAnalysis } from './analyze-routing';
+import { CircularDependencyDetector, CircularDependency } from './detect-circular-deps';
+import { UnusedCodeDetector, UnusedCode, UnusedItem } from './detect-unused-code';
+import { RxJSAnalyzer, RxJSAnalysis } from './analyze-rxjs';
+import { AnalysisTarget, WorkspaceProject, resolveAnalysisTargets } from './utils/workspace';
 
 // ==================== Interfaces ====================
 
 interface ReportConfig {
   projectPath: string;
+  targets: AnalysisTarget[];
   outputPath: string;
   includeGraphs: boolean;
   includeMetrics: boolean;
@@ -22,12 +29,13 @@ interface ReportConfig {
 }
 
 interface ReportData {
-  projectAnalysis: any;
-  moduleAnalysis: any;
-  routingAnalysis: any;
-  circularDeps: any;
-  unusedCode: any;
-  rxjsAnalysis: any;
+  project: WorkspaceProject | null;
+  projectAnalysis: ProjectAnalysis | null;
+  moduleAnalysis: ModuleGraph | null;
+  routingAnalysis: RoutingAnalysis | null;
+  circularDeps: CircularDependency[] | null;
+  unusedCode: UnusedCode | null;
+  rxjsAnalysis: RxJSAnalysis | null;
   generatedAt: string;
 }
 
@@ -43,11 +51,17 @@ class ReportGenerator {
   async generate(): Promise<void> {
     console.log(`Generating comprehensive report for: ${this.config.projectPath}\n`);
 
-    // すべての解析を実行
-    const data = await this.runAllAnalyses();
+    // すべての解析を実行（ワークスペース指定時はプロジェクトごと）
+    const reports: ReportData[] = [];
+    for (const target of this.config.targets) {
+      if (target.project) {
+        console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===\n`);
+      }
+      reports.push(await this.runAllAnalyses(target));
+    }
 
     // HTMLレポートを生成
-    const html = this.generateHTML(data);
+    const html = this.generateHTML(reports);
 
     // ファイルに保存
     fs.writeFileSync(this.config.outputPath, html);
@@ -55,8 +69,9 @@ class ReportGenerator {
     console.log(`\n✓ Report generated: ${this.config.outputPath}`);
   }
 
-  private async runAllAnalyses(): Promise<ReportData> {
+  private async runAllAnalyses(target: AnalysisTarget): Promise<ReportData> {
     const data: ReportData = {
+      project: target.project,
       projectAnalysis: null,
       moduleAnalysis: null,
       routingAnalysis: null,
@@ -68,79 +83,78 @@ class ReportGenerator {
 
     console.log('Running analyses...\n');
 
+    // 全アナライザで同じASTを共有する
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+
     // 1. Project Analysis
     try {
       console.log('1/6 Running project analysis...');
-      const output = execSync(
-        `npx ts-node ${path.join(__dirname, 'analyze-project.ts')} ${this.config.projectPath} --output json`,
-        { encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024 }
-      );
-      data.projectAnalysis = JSON.parse(output);
+      data.projectAnalysis = await new ProjectAnalyzer(target.path, true, model).analyze();
     } catch (error) {
-      console.error('Failed to run project analysis');
+      console.error('Failed to run project analysis:', error);
     }
 
     // 2. Module Analysis
     try {
       console.log('2/6 Running module analysis...');
-      const output = execSync(
-        `npx ts-node ${path.join(__dirname, 'analyze-modules.ts')} ${this.config.projectPath}`,
-        { encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024 }
-      );
-      // Markdownなのでパース不要、そのまま保存
-      data.moduleAnalysis = { output };
+      data.moduleAnalysis = new ModuleAnalyzer(target.path, model).analyze();
     } catch (error) {
-      console.error('Failed to run module analysis');
+      console.error('Failed to run module analysis:', error);
     }
 
     // 3. Circular Dependencies
     try {
       console.log('3/6 Detecting circular dependencies...');
-      execSync(
-        `npx ts-node ${path.join(__dirname, 'detect-circular-deps.ts')} ${this.config.projectPath}`,
-        { encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024 }
-      );
-      data.circularDeps = { cycles: [], message: 'No circular dependencies found' };
-    } catch (error: any) {
-      // Exit code 1 means circular deps found
-      data.circularDeps = { cycles: [], message: 'Circular dependencies detected' };
+      data.circularDeps = new CircularDependencyDetector(target.path, model).detect();
+    } catch (error) {
+      console.error('Failed to detect circular dependencies:', error);
     }
 
     // 4. Unused Code
     try {
       console.log('4/6 Detecting unused code...');
-      execSync(
-        `npx ts-node ${path.join(__dirname, 'detect-unused-code.ts')} ${this.config.projectPath}`,
-        { encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024 }
-      );
-      data.unusedCode = { summary: { totalUnused: 0 } };
+      data.unusedCode = new UnusedCodeDetector(target.path, model).detect();
     } catch (error) {
-      console.error('Failed to detect unused code');
+      console.error('Failed to detect unused code:', error);
     }
 
     // 5. RxJS Analysis
     try {
       console.log('5/6 Analyzing RxJS usage...');
-      execSync(
-        `npx ts-node ${path.join(__dirname, 'analyze-rxjs.ts')} ${this.config.projectPath}`,
-        { encoding: 'utf-8', maxBuffer: 10 * 1024 * 1024 }
-      );
-      data.rxjsAnalysis = { summary: { potentialLeaksCount: 0 } };
+      data.rxjsAnalysis = new RxJSAnalyzer(target.path, model).analyze();
     } catch (error) {
-      console.error('Failed to analyze RxJS');
+      console.error('Failed to analyze RxJS:', error);
     }
 
+    console.log(`Parsed ${model.getParseCount()} files\n`);
+
     console.log('6/6 Compiling report...\n');
 
     return data;
   }
 
-  private generateHTML(data: ReportData): string {
+  private generateHTML(reports: ReportData[]): string {
     const styles = this.getStyles();
-    const projectAnalysisHtml = this.renderProjectAnalysis(data.projectAnalysis);
-    const moduleAnalysisHtml = this.renderModuleAnalysis(data.moduleAnalysis);
-    const issuesHtml = this.renderIssues(data);
-    const metricsHtml = this.renderMetrics(data);
+    const generatedAt = reports[0]?.generatedAt || new Date().toISOString();
+    const isWorkspace = reports.some(report => report.project);
+
+    const toc = isWorkspace
+      ? reports.map(report => {
+        const id = this.sectionId(report, 'summary');
+        return `<li><a href="#${id}">${this.escapeHtml(report.project!.name)}</a> (${report.project!.type})</li>`;
+      }).join('\n        ')
+      : `<li><a href="#summary">Summary</a></li>
+        <li><a href="#issues">Issues & Warnings</a></li>
+        <li><a href="#metrics">Code Metrics</a></li>
+        <li><a href="#project">Project Structure</a></li>
+        <li><a href="#modules">Module Analysis</a></li>`;
+
+    const body = reports.map(report => {
+      const heading = report.project
+        ? `<h2 class="project-heading">📦 ${this.escapeHtml(report.project.name)} <small>${report.project.type} · ${this.escapeHtml(report.project.sourceRoot)}</small></h2>`
+        : '';
+      return heading + this.renderReportSections(report);
+    }).join('\n');
 
     return `<!DOCTYPE html>
 <html lang="en">
@@ -158,51 +172,58 @@ class ReportGenerator {
   <div class="container">
     <header>
       <h1>📊 Angular Project Analysis Report</h1>
-      <p class="subtitle">Generated at ${new Date(data.generatedAt).toLocaleString()}</p>
+      <p class="subtitle">Generated at ${new Date(generatedAt).toLocaleString()}</p>
     </header>
 
     <nav class="toc">
       <h2>Table of Contents</h2>
       <ul>
-        <li><a href="#summary">Summary</a></li>
-        <li><a href="#issues">Issues & Warnings</a></li>
-        <li><a href="#metrics">Code Metrics</a></li>
-        <li><a href="#project">Project Structure</a></li>
-        <li><a href="#modules">Module Analysis</a></li>
+        ${toc}
       </ul>
     </nav>
 
-    <section id="summary" class="section">
+    ${body}
+
+    <footer>
+      <p>Generated by Angular Analyzer</p>
+    </footer>
+  </div>
+</body>
+</html>`;
+  }
+
+  /**
+   * 1プロジェクト分のセクション（Summary〜Module Analysis）
+   */
+  private renderReportSections(data: ReportData): string {
+    return `<section id="${this.sectionId(data, 'summary')}" class="section">
       <h2>📋 Summary</h2>
       ${this.renderSummary(data)}
     </section>
 
-    <section id="issues" class="section">
+    <section id="${this.sectionId(data, 'issues')}" class="section">
       <h2>⚠️ Issues & Warnings</h2>
-      ${issuesHtml}
+      ${this.renderIssues(data)}
     </section>
 
-    <section id="metrics" class="section">
+    <section id="${this.sectionId(data, 'metrics')}" class="section">
       <h2>📈 Code Metrics</h2>
-      ${metricsHtml}
+      ${this.renderMetrics(data)}
     </section>
 
-    <section id="project" class="section">
+    <section id="${this.sectionId(data, 'project')}" class="section">
       <h2>🏗️ Project Structure</h2>
-      ${projectAnalysisHtml}
+      ${this.renderProjectAnalysis(data.projectAnalysis)}
     </section>
 
-    <section id="modules" class="section">
+    <section id="${this.sectionId(data, 'modules')}" class="section">
       <h2>🔧 Module Analysis</h2>
-      ${moduleAnalysisHtml}
-    </section>
+      ${this.renderModuleAnalysis(data.moduleAnalysis)}
+    </section>`;
+  }
 
-    <footer>
-      <p>Generated by Angular Analyzer</p>
-    </footer>
-  </div>
-</body>
-</html>`;
+  private sectionId(data: ReportData, section: string): string {
+    return data.project ? `${data.project.name.replace(/[^\w-]/g, '_')}-${section}` : section;
   }
 
   private getStyles(): string {
@@ -246,6 +267,16 @@ class ReportGenerator {
         opacity: 0.9;
       }
 
+      .project-heading {
+        margin: 40px 0 20px;
+      }
+
+      .project-heading small {
+        font-size: 0.6em;
+        font-weight: normal;
+        opacity: 0.7;
+      }
+
       .toc {
         background: white;
         padding: 20px;
@@ -432,11 +463,14 @@ class ReportGenerator {
     let html = '';
 
     // Circular Dependencies
-    if (data.circularDeps?.message?.includes('detected')) {
-      html += `<div class="alert error">
-        <strong>🔴 Circular Dependencies Detected</strong>
-        <p>Your project has circular dependencies that should be resolved.</p>
+    const cycles = data.circularDeps || [];
+    if (cycles.length > 0) {
+      const errorCount = cycles.filter(c => c.severity === 'error').length;
+      html += `<div class="alert ${errorCount > 0 ? 'error' : 'warning'}">
+        <strong>${errorCount > 0 ? '🔴' : '🟡'} Circular Dependencies Detected</strong>
+        <p>Found ${cycles.length} circular dependencies (${errorCount} errors).</p>
       </div>`;
+      html += this.renderCycles(cycles);
     } else {
       html += `<div class="alert success">
         <strong>✅ No Circular Dependencies</strong>
@@ -445,21 +479,23 @@ class ReportGenerator {
     }
 
     // Unused Code
-    const unusedCount = data.unusedCode?.summary?.totalUnused || 0;
-    if (unusedCount > 0) {
+    const unusedCount = data.unusedCode?.summary.totalUnused || 0;
+    if (data.unusedCode && unusedCount > 0) {
       html += `<div class="alert warning">
         <strong>🟡 Unused Code Detected</strong>
         <p>Found ${unusedCount} unused items that could be removed.</p>
       </div>`;
+      html += this.renderUnusedItems(data.unusedCode);
     }
 
     // RxJS Leaks
-    const leaksCount = data.rxjsAnalysis?.summary?.potentialLeaksCount || 0;
-    if (leaksCount > 0) {
+    const leaksCount = data.rxjsAnalysis?.summary.potentialLeaksCount || 0;
+    if (data.rxjsAnalysis && leaksCount > 0) {
       html += `<div class="alert warning">
         <strong>🟡 Potential Memory Leaks</strong>
         <p>Found ${leaksCount} potential RxJS subscription leaks.</p>
       </div>`;
+      html += this.renderLeaks(data.rxjsAnalysis);
     }
 
     if (!html) {
@@ -472,6 +508,45 @@ class ReportGenerator {
     return html;
   }
 
+  private renderCycles(cycles: CircularDependency[]): string {
+    let html = '<table>';
+    html += '<tr><th>#</th><th>Type</th><th>Severity</th><th>Cycle</th></tr>';
+    cycles.forEach((cycle, index) => {
+      const files = cycle.cycle.map(f => this.escapeHtml(f)).join(' → ');
+      html += `<tr><td>${index + 1}</td><td>${cycle.type}</td><td>${cycle.severity}</td><td>${files} ↺</td></tr>`;
+    });
+    html += '</table>';
+    return html;
+  }
+
+  private renderUnusedItems(unused: UnusedCode): string {
+    const items: UnusedItem[] = [
+      ...unused.components,
+      ...unused.services,
+      ...unused.pipes,
+      ...unused.directives,
+      ...unused.modules
+    ];
+
+    let html = '<table>';
+    html += '<tr><th>Name</th><th>Type</th><th>Path</th><th>Reason</th></tr>';
+    items.forEach(item => {
+      html += `<tr><td>${this.escapeHtml(item.name)}</td><td>${item.type}</td><td>${this.escapeHtml(item.path)}</td><td>${this.escapeHtml(item.reason)}</td></tr>`;
+    });
+    html += '</table>';
+    return html;
+  }
+
+  private renderLeaks(rxjs: RxJSAnalysis): string {
+    let html = '<table>';
+    html += '<tr><th>File</th><th>Line</th><th>Observable</th><th>Reason</th></tr>';
+    rxjs.potentialLeaks.forEach(leak => {
+      html += `<tr><td>${this.escapeHtml(leak.file)}</td><td>${leak.line}</td><td>${this.escapeHtml(leak.observable)}</td><td>${leak.reason}</td></tr>`;
+    });
+    html += '</table>';
+    return html;
+  }
+
   private renderMetrics(data: ReportData): string {
     const proj = data.projectAnalysis;
     if (!proj?.metrics) {
@@ -503,7 +578,7 @@ class ReportGenerator {
     `;
   }
 
-  private renderProjectAnalysis(analysis: any): string {
+  private renderProjectAnalysis(analysis: ProjectAnalysis | null): string {
     if (!analysis) {
       return '<p>No project analysis data available</p>';
     }
@@ -512,8 +587,9 @@ class ReportGenerator {
     html += '<h3>Components</h3>';
     if (analysis.components && analysis.components.length > 0) {
       html += '<ul>';
-      analysis.components.slice(0, 20).forEach((comp: any) => {
-        html += `<li><strong>${comp.name}</strong> - ${comp.path}</li>`;
+      analysis.components.slice(0, 20).forEach(comp => {
+        const badges = [comp.standalone ? 'standalone' : 'NgModule', comp.changeDetection === 'OnPush' ? 'OnPush' : ''].filter(b => b).join(', ');
+        html += `<li><strong>${comp.name}</strong> - ${comp.path} <em>(${badges})</em></li>`;
       });
       if (analysis.components.length > 20) {
         html += `<li><em>... and ${analysis.components.length - 20} more</em></li>`;
@@ -527,14 +603,30 @@ class ReportGenerator {
     return html;
   }
 
-  private renderModuleAnalysis(moduleData: any): string {
-    if (!moduleData?.output) {
+  private renderModuleAnalysis(moduleData: ModuleGraph | null): string {
+    if (!moduleData) {
       return '<p>No module analysis data available</p>';
     }
 
-    return `<div class="card">
-      <pre style="white-space: pre-wrap; font-size: 0.9em;">${this.escapeHtml(moduleData.output)}</pre>
-    </div>`;
+    if (moduleData.modules.length === 0) {
+      return '<p>No NgModules found</p>';
+    }
+
+    let html = '<div class="card">';
+    html += '<table>';
+    html += '<tr><th>Module</th><th>Type</th><th>Path</th><th>Declarations</th><th>Imports</th></tr>';
+    moduleData.modules.forEach(module => {
+      html += `<tr><td>${this.escapeHtml(module.name)}</td><td>${module.type}</td><td>${this.escapeHtml(module.path)}</td>`;
+      html += `<td>${module.declarations.length}</td><td>${module.imports.map(i => this.escapeHtml(i.name)).join(', ')}</td></tr>`;
+    });
+    html += '</table>';
+
+    if (this.config.includeGraphs) {
+      html += `<pre class="mermaid">${this.escapeHtml(generateMermaidGraph(moduleData))}</pre>`;
+    }
+    html += '</div>';
+
+    return html;
   }
 
   private escapeHtml(text: string): string {
@@ -563,11 +655,14 @@ Options:
   --theme <theme>    Theme: light, dark (default: light)
   --no-graphs        Exclude graphs from report
   --no-metrics       Exclude metrics from report
+  --project <names>  Report on the given angular.json / project.json projects (comma separated)
+  --workspace        Report on every project in the workspace
   --help             Show this help message
 
 Examples:
   npx ts-node src/generate-report.ts ./src
   npx ts-node src/generate-report.ts ./src --output analysis.html --theme dark
+  npx ts-node src/generate-report.ts . --workspace --output workspace.html
 `);
     process.exit(0);
   }
@@ -583,8 +678,17 @@ Examples:
     process.exit(1);
   }
 
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectPath, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
   const config: ReportConfig = {
     projectPath,
+    targets,
     outputPath,
     includeGraphs,
     includeMetrics,
@@ -9,81 +9,60 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { parse } from '@typescript-eslint/typescript-estree';
+import { ProjectModel } from './utils/project-model';
+import { AnalysisTarget, resolveAnalysisTargets } from './utils/workspace';
 
-interface DependencyNode {
+export interface DependencyNode {
   file: string;
-  imports: string[];
+  imports: string[]; // import / export ... from のimport先（解決できたものは絶対パス）
+  typeImports: string[]; // import type のみのimport先（コンパイル時に消える）
   exports: string[];
 }
 
-interface DependencyGraph {
+export interface DependencyGraph {
   nodes: Map<string, DependencyNode>;
   edges: Array<{ from: string; to: string; type: string }>;
 }
 
-function getAllTsFiles(dir: string): string[] {
-  const files: string[] = [];
-
-  function traverse(currentPath: string): void {
-    try {
-      const items = fs.readdirSync(currentPath);
-
-      for (const item of items) {
-        const fullPath = path.join(currentPath, item);
-        const stat = fs.statSync(fullPath);
-
-        if (stat.isDirectory()) {
-          if (!item.startsWith('.') && item !== 'node_modules' && item !== 'dist' && item !== 'coverage') {
-            traverse(fullPath);
-          }
-        } else if (stat.isFile() && item.endsWith('.ts') && !item.endsWith('.spec.ts')) {
-          files.push(fullPath);
-        }
-      }
-    } catch (error) {
-      console.error(`Error reading directory ${currentPath}:`, error);
-    }
-  }
-
-  traverse(dir);
-  return files;
-}
-
-function analyzeFile(filePath: string, baseDir: string): DependencyNode {
-  const content = fs.readFileSync(filePath, 'utf-8');
+function analyzeFile(model: ProjectModel, filePath: string): DependencyNode {
   const imports: string[] = [];
+  const typeImports: string[] = [];
   const exports: string[] = [];
+  const resolver = model.getModuleResolver();
+
+  const resolveSource = (source: string): string => {
+    // 相対パスとtsconfigのエイリアスは絶対パスに変換
+    const resolvedPath = resolver.resolve(source, filePath);
+    if (resolvedPath) {
+      return resolvedPath;
+    } else if (source.startsWith('.')) {
+      return path.resolve(path.dirname(filePath), source);
+    }
+    // 外部パッケージの場合はそのまま記録
+    return source;
+  };
 
-  try {
-    const ast = parse(content, {
-      loc: true,
-      range: true,
-      comment: false
-    });
-
+  const ast = model.getAst(filePath);
+  if (!ast) {
+    console.error(`Error parsing ${filePath}:`, model.getSourceFile(filePath).parseError);
+  } else {
     ast.body.forEach((node: any) => {
       if (node.type === 'ImportDeclaration') {
-        const source = node.source.value;
-
-        // 相対パスの場合は絶対パスに変換
-        if (source.startsWith('.')) {
-          const dir = path.dirname(filePath);
-          let resolvedPath = path.resolve(dir, source);
-
-          // .ts拡張子を追加（存在しない場合）
-          if (!resolvedPath.endsWith('.ts')) {
-            if (fs.existsSync(resolvedPath + '.ts')) {
-              resolvedPath += '.ts';
-            } else if (fs.existsSync(path.join(resolvedPath, 'index.ts'))) {
-              resolvedPath = path.join(resolvedPath, 'index.ts');
-            }
-          }
+        const importPath = resolveSource(node.source.value);
+        imports.push(importPath);
+
+        const specifiers: any[] = node.specifiers || [];
+        if (node.importKind === 'type' || (specifiers.length > 0 && specifiers.every(spec => spec.importKind === 'type'))) {
+          typeImports.push(importPath);
+        }
+      }
 
-          imports.push(resolvedPath);
-        } else {
-          // 外部パッケージの場合はそのまま記録
-          imports.push(source);
+      // export * from './x' / export { X } from './x'（バレルファイル）
+      if ((node.type === 'ExportAllDeclaration' || node.type === 'ExportNamedDeclaration') && node.source) {
+        const importPath = resolveSource(node.source.value);
+        imports.push(importPath);
+        if (node.exportKind === 'type') {
+          typeImports.push(importPath);
         }
       }
 
@@ -103,26 +82,26 @@ function analyzeFile(filePath: string, baseDir: string): DependencyNode {
         }
       }
     });
-  } catch (error) {
-    console.error(`Error parsing ${filePath}:`, error);
   }
 
   return {
-    file: path.relative(baseDir, filePath),
+    file: model.relative(filePath),
     imports,
+    typeImports,
     exports
   };
 }
 
-function buildGraph(projectDir: string): DependencyGraph {
-  const files = getAllTsFiles(projectDir);
+export function buildGraph(projectDir: string, tsconfigPath?: string, model?: ProjectModel): DependencyGraph {
+  model = model || new ProjectModel(projectDir, tsconfigPath);
+  const files = model.getTypeScriptFiles();
   const nodes = new Map<string, DependencyNode>();
   const edges: Array<{ from: string; to: string; type: string }> = [];
 
   console.log(`Found ${files.length} TypeScript files...`);
 
   files.forEach(file => {
-    const node = analyzeFile(file, projectDir);
+    const node = analyzeFile(model, file);
     nodes.set(file, node);
   });
 
@@ -134,7 +113,7 @@ function buildGraph(projectDir: string): DependencyGraph {
       if (!isExternal) {
         edges.push({
           from: node.file,
-          to: path.relative(projectDir, importPath),
+          to: model.relative(importPath),
           type: 'import'
         });
       } else {
@@ -219,7 +198,7 @@ function main(): void {
 
   if (!projectDir) {
     console.error('Error: Project directory not specified');
-    console.error('Usage: npx ts-node src/graph-ts-dependencies.ts <project-dir>');
+    console.error('Usage: npx ts-node src/graph-ts-dependencies.ts <project-dir> [--project <names> | --workspace]');
     process.exit(1);
   }
 
@@ -233,57 +212,72 @@ function main(): void {
     process.exit(1);
   }
 
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectDir, process.argv.slice(3));
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
   try {
-    console.log(`\n=== Analyzing dependencies in: ${projectDir} ===\n`);
+    for (const target of targets) {
+      const label = target.project ? `${target.project.name} (${target.project.type})` : projectDir;
+      console.log(`\n=== Analyzing dependencies in: ${label} ===\n`);
 
-    const graph = buildGraph(projectDir);
+      const graph = buildGraph(target.path, target.tsconfigPath);
 
-    console.log('\n=== Dependency Statistics ===');
-    console.log(`Total files: ${graph.nodes.size}`);
-    console.log(`Total dependencies: ${graph.edges.length}`);
+      console.log('\n=== Dependency Statistics ===');
+      console.log(`Total files: ${graph.nodes.size}`);
+      console.log(`Total dependencies: ${graph.edges.length}`);
 
-    const externalDeps = graph.edges.filter(e => e.type === 'external');
-    const internalDeps = graph.edges.filter(e => e.type === 'import');
+      const externalDeps = graph.edges.filter(e => e.type === 'external');
+      const internalDeps = graph.edges.filter(e => e.type === 'import');
 
-    console.log(`Internal dependencies: ${internalDeps.length}`);
-    console.log(`External dependencies: ${externalDeps.length}`);
+      console.log(`Internal dependencies: ${internalDeps.length}`);
+      console.log(`External dependencies: ${externalDeps.length}`);
 
-    // 外部依存関係の一覧
-    if (externalDeps.length > 0) {
-      const uniqueExternal = new Set(externalDeps.map(e => e.to));
-      console.log('\n=== External Packages ===');
-      uniqueExternal.forEach(pkg => console.log(`  - ${pkg}`));
-    }
+      // 外部依存関係の一覧
+      if (externalDeps.length > 0) {
+        const uniqueExternal = new Set(externalDeps.map(e => e.to));
+        console.log('\n=== External Packages ===');
+        uniqueExternal.forEach(pkg => console.log(`  - ${pkg}`));
+      }
 
-    // Mermaid形式で出力
-    console.log('\n=== Mermaid Graph ===\n');
-    const mermaid = generateMermaidGraph(graph);
-    console.log(mermaid);
+      // Mermaid形式で出力
+      console.log('\n=== Mermaid Graph ===\n');
+      const mermaid = generateMermaidGraph(graph);
+      console.log(mermaid);
 
-    // DOT形式で出力
-    console.log('\n=== DOT Graph (Graphviz) ===\n');
-    const dot = generateDOTGraph(graph);
-    console.log(dot);
+      // DOT形式で出力
+      console.log('\n=== DOT Graph (Graphviz) ===\n');
+      const dot = generateDOTGraph(graph);
+      console.log(dot);
 
-    // outputディレクトリに保存
-    const outputDir = path.join(process.cwd(), 'output');
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
-    }
+      // outputディレクトリに保存
+      const outputDir = path.join(process.cwd(), 'output');
+      if (!fs.existsSync(outputDir)) {
+        fs.mkdirSync(outputDir, { recursive: true });
+      }
 
-    const mermaidPath = path.join(outputDir, 'dependencies.mmd');
-    const dotPath = path.join(outputDir, 'dependencies.dot');
+      // ワークスペース解析時はプロジェクトごとにファイルを分ける
+      const baseName = target.project ? `dependencies-${target.project.name.replace(/[^\w.-]/g, '_')}` : 'dependencies';
+      const mermaidPath = path.join(outputDir, `${baseName}.mmd`);
+      const dotPath = path.join(outputDir, `${baseName}.dot`);
 
-    fs.writeFileSync(mermaidPath, mermaid);
-    fs.writeFileSync(dotPath, dot);
+      fs.writeFileSync(mermaidPath, mermaid);
+      fs.writeFileSync(dotPath, dot);
 
-    console.log(`\n=== Files saved ===`);
-    console.log(`Mermaid: ${mermaidPath}`);
-    console.log(`DOT: ${dotPath}`);
+      console.log(`\n=== Files saved ===`);
+      console.log(`Mermaid: ${mermaidPath}`);
+      console.log(`DOT: ${dotPath}`);
+    }
   } catch (error) {
     console.error('Error analyzing dependencies:', error);
     process.exit(1);
   }
 }
 
-main();
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,294 @@
+#!/usr/bin/env ts-node
+
+/**
+ * query-selectors.ts
+ * セレクタ/パイプ名のレジストリを出力し、who-uses / what-is の問い合わせに答える
+ *
+ * Usage: npx ts-node src/query-selectors.ts <project-dir> [who-uses <selector> | what-is <tag>]
+ */
+
+import * as fs from 'fs';
+import { ProjectModel } from './utils/project-model';
+import { DeclarationIndex } from './utils/angular-declarations';
+import { SelectorIndex, SelectorEntry, SelectorConflict } from './utils/selector-index';
+import { parseTemplate, getTemplateElements, getTemplateExpressions, matchesSelector } from './utils/template-parser';
+import { TemplateUsageAnalyzer } from './analyze-template-usage';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
+
+// ==================== Interfaces ====================
+
+export interface SelectorUsage {
+  entry: string; // 使われている宣言のクラス名
+  component: string; // テンプレートを持つコンポーネント
+  template: string;
+  line: number;
+  usage: string; // <app-foo> / | currency
+}
+
+export interface SelectorRegistry {
+  entries: SelectorEntry[];
+  conflicts: SelectorConflict[];
+}
+
+export interface WhoUsesResult {
+  query: string;
+  matches: SelectorEntry[];
+  usages: SelectorUsage[];
+}
+
+export interface WhatIsResult {
+  query: string;
+  matches: SelectorEntry[];
+}
+
+// ==================== Selector Query ====================
+
+export class SelectorQuery {
+  private model: ProjectModel;
+  private declarations: DeclarationIndex;
+  private index: SelectorIndex;
+
+  constructor(projectPath: string, model?: ProjectModel) {
+    this.model = model || new ProjectModel(projectPath);
+    this.declarations = new DeclarationIndex(this.model);
+    this.index = new SelectorIndex(this.model, this.declarations);
+  }
+
+  getRegistry(): SelectorRegistry {
+    return {
+      entries: this.index.getEntries(),
+      conflicts: this.index.getConflicts()
+    };
+  }
+
+  whatIs(query: string): WhatIsResult {
+    return { query, matches: this.index.whatIs(query) };
+  }
+
+  /**
+   * 宣言（クラス名・セレクタ・パイプ名で指定）を使っている全テンプレートの箇所
+   */
+  whoUses(query: string): WhoUsesResult {
+    let matches = this.index.find(query);
+    if (matches.length === 0) {
+      matches = this.index.whatIs(query);
+    }
+
+    const usages: SelectorUsage[] = [];
+    const components = this.declarations.getDeclarations().filter(decl => decl.kind === 'component' && decl.file);
+
+    for (const component of components) {
+      const template = new TemplateUsageAnalyzer(component.file!, this.model).extractTemplate();
+      if (!template.content) continue;
+
+      const parsed = parseTemplate(template.content);
+      const templatePath = this.model.relative(template.path);
+
+      for (const entry of matches) {
+        if (entry.selector) {
+          getTemplateElements(parsed)
+            .filter(element => matchesSelector(element, entry.selector!))
+            .forEach(element => usages.push({
+              entry: entry.name,
+              component: component.name,
+              template: templatePath,
+              line: element.line + template.lineOffset,
+              usage: `<${element.name}>`
+            }));
+        }
+        if (entry.pipeName) {
+          getTemplateExpressions(parsed)
+            .filter(expression => expression.pipes.some(pipe => pipe.name === entry.pipeName))
+            .forEach(expression => usages.push({
+              entry: entry.name,
+              component: component.name,
+              template: templatePath,
+              line: expression.line + template.lineOffset,
+              usage: `| ${entry.pipeName}`
+            }));
+        }
+      }
+    }
+
+    usages.sort((a, b) => a.template.localeCompare(b.template) || a.line - b.line);
+    return { query, matches, usages };
+  }
+}
+
+function describeEntry(entry: SelectorEntry): string {
+  const key = entry.kind === 'pipe' ? `| ${entry.pipeName}` : entry.selector || '(no selector)';
+  const location = entry.file || entry.library || '';
+  return `${entry.name} [${entry.kind}] ${key} — ${location}`;
+}
+
+// ==================== Output Formatters ====================
+
+function formatRegistryMarkdown(registry: SelectorRegistry): string {
+  let md = `# Selector Index\n\n`;
+
+  md += `**Analyzed At**: ${new Date().toISOString()}\n\n`;
+
+  md += `## Summary\n\n`;
+  md += `- **Components**: ${registry.entries.filter(e => e.kind === 'component').length}\n`;
+  md += `- **Directives**: ${registry.entries.filter(e => e.kind === 'directive').length}\n`;
+  md += `- **Pipes**: ${registry.entries.filter(e => e.kind === 'pipe').length}\n`;
+  md += `- **Conflicts**: ${registry.conflicts.length}\n\n`;
+
+  md += `## Registry\n\n`;
+  md += `| Selector / Pipe | Kind | Class | File | exportAs |\n`;
+  md += `|-----------------|------|-------|------|----------|\n`;
+  registry.entries.forEach(entry => {
+    const key = entry.kind === 'pipe' ? entry.pipeName || '-' : entry.selector || '-';
+    md += `| \`${key}\` | ${entry.kind} | ${entry.name} | ${entry.file} | ${entry.exportAs || '-'} |\n`;
+  });
+  md += `\n`;
+
+  if (registry.conflicts.length > 0) {
+    md += `## 🔴 Conflicts\n\n`;
+    registry.conflicts.forEach(conflict => {
+      md += `- \`${conflict.key}\` (${conflict.kind}): ${conflict.entries.map(e => `${e.name} (${e.file})`).join(', ')}\n`;
+    });
+    md += `\n`;
+  }
+
+  return md;
+}
+
+function formatWhoUsesMarkdown(result: WhoUsesResult): string {
+  let md = `# Who Uses: \`${result.query}\`\n\n`;
+
+  if (result.matches.length === 0) {
+    md += `No component, directive or pipe matches \`${result.query}\`.\n`;
+    return md;
+  }
+
+  md += `## Matches\n\n`;
+  result.matches.forEach(entry => {
+    md += `- ${describeEntry(entry)}\n`;
+  });
+  md += `\n`;
+
+  md += `## Usages (${result.usages.length})\n\n`;
+  if (result.usages.length === 0) {
+    md += `Not used in any template.\n`;
+  } else {
+    md += `| Location | Component | Usage | Declaration |\n`;
+    md += `|----------|-----------|-------|-------------|\n`;
+    result.usages.forEach(usage => {
+      md += `| ${usage.template}:${usage.line} | ${usage.component} | \`${usage.usage.replace(/\|/g, '\\|')}\` | ${usage.entry} |\n`;
+    });
+  }
+  md += `\n`;
+
+  return md;
+}
+
+function formatWhatIsMarkdown(result: WhatIsResult): string {
+  let md = `# What Is: \`${result.query}\`\n\n`;
+
+  if (result.matches.length === 0) {
+    md += `No component, directive or pipe matches \`${result.query}\`.\n`;
+    return md;
+  }
+
+  result.matches.forEach(entry => {
+    md += `- ${describeEntry(entry)}\n`;
+  });
+  md += `\n`;
+
+  return md;
+}
+
+// ==================== Main ====================
+
+function main(): void {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0 || args.includes('--help')) {
+    console.log(`
+Usage: npx ts-node src/query-selectors.ts <project-dir> [command] [options]
+
+Commands:
+  (none)                 List every component/directive selector and pipe name
+  who-uses <selector>    Find templates using a selector, class name or pipe name
+  what-is <tag>          Resolve a tag, HTML snippet, selector or pipe name to its declaration
+
+Options:
+  --output <format>  Output format: md, json (default: md)
+  --save <path>      Save output to file
+  --project <names>  Query the given workspace projects (comma separated)
+  --workspace        Query every project in the workspace
+  --help             Show this help message
+
+Examples:
+  npx ts-node src/query-selectors.ts ./src --output json --save selectors.json
+  npx ts-node src/query-selectors.ts ./src who-uses app-user-card
+  npx ts-node src/query-selectors.ts ./src who-uses currencyFmt
+  npx ts-node src/query-selectors.ts ./src what-is '<button appTooltip>'
+`);
+    process.exit(0);
+  }
+
+  const projectDir = args[0];
+  const outputFormat = args.includes('--output') ? args[args.indexOf('--output') + 1] : 'md';
+  const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
+  const command = args[1] === 'who-uses' || args[1] === 'what-is' ? args[1] : null;
+  const query = command ? args[2] : undefined;
+
+  if (!fs.existsSync(projectDir)) {
+    console.error(`Error: Project directory "${projectDir}" does not exist`);
+    process.exit(1);
+  }
+
+  if (command && !query) {
+    console.error(`Error: ${command} requires an argument`);
+    process.exit(1);
+  }
+
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectDir, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const results = targets.map(target => {
+    const selectorQuery = new SelectorQuery(target.path, new ProjectModel(target.path, target.tsconfigPath));
+    const result = command === 'who-uses'
+      ? selectorQuery.whoUses(query!)
+      : command === 'what-is'
+        ? selectorQuery.whatIs(query!)
+        : selectorQuery.getRegistry();
+    return { target, result };
+  });
+
+  let output: string;
+  if (outputFormat === 'json') {
+    const json = results.map(({ target, result }) =>
+      target.project ? { project: target.project.name, type: target.project.type, ...result } : result
+    );
+    output = JSON.stringify(targets.some(t => t.project) ? json : json[0], null, 2);
+  } else {
+    output = results.map(({ target, result }) => {
+      const md = command === 'who-uses'
+        ? formatWhoUsesMarkdown(result as WhoUsesResult)
+        : command === 'what-is'
+          ? formatWhatIsMarkdown(result as WhatIsResult)
+          : formatRegistryMarkdown(result as SelectorRegistry);
+      return formatProjectHeading(target) + md;
+    }).join('\n');
+  }
+
+  // Save or print
+  if (savePath) {
+    fs.writeFileSync(savePath, output);
+    console.log(`✓ Saved to ${savePath}`);
+  } else {
+    console.log(output);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -9,7 +9,7 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { parse, HTMLElement } from 'node-html-parser';
+import { TemplateNode, parseTemplate, getTemplateElements, walkTemplate } from './utils/template-parser';
 
 interface HtmlSummary {
   fileName: string;
@@ -22,6 +22,13 @@ interface HtmlSummary {
     ngModel: number;
     others: string[];
   };
+  controlFlow: {
+    if: number;
+    for: number;
+    switch: number;
+    defer: number;
+    let: number;
+  };
   structure: string;
   forms: {
     count: number;
@@ -36,9 +43,9 @@ interface HtmlSummary {
 
 function analyzeHtml(filePath: string): HtmlSummary {
   const content = fs.readFileSync(filePath, 'utf-8');
-  const root = parse(content);
+  const template = parseTemplate(content);
 
-  const allElements = root.querySelectorAll('*');
+  const allElements = getTemplateElements(template);
   const components = new Set<string>();
   const otherDirectives = new Set<string>();
 
@@ -49,53 +56,63 @@ function analyzeHtml(filePath: string): HtmlSummary {
 
   allElements.forEach(el => {
     // コンポーネント検出
-    if (el.tagName.includes('-')) {
-      components.add(el.tagName.toLowerCase());
+    if (el.name.includes('-')) {
+      components.add(el.name.toLowerCase());
     }
 
     // ディレクティブ検出
-    if (el.hasAttribute('*ngIf')) ngIfCount++;
-    if (el.hasAttribute('*ngFor')) ngForCount++;
-    if (el.hasAttribute('[ngSwitch]') || el.hasAttribute('*ngSwitchCase')) ngSwitchCount++;
-    if (el.hasAttribute('[(ngModel)]') || el.hasAttribute('[ngModel]')) ngModelCount++;
-
-    // その他のAngularディレクティブ
-    const attrs = el.rawAttrs;
-    if (attrs) {
-      const angularDirectives = attrs.match(/\[(.*?)\]|\((.*?)\)|\*\w+/g);
-      if (angularDirectives) {
-        angularDirectives.forEach(dir => {
-          if (!dir.includes('ngIf') && !dir.includes('ngFor') && !dir.includes('ngSwitch') && !dir.includes('ngModel')) {
-            otherDirectives.add(dir);
-          }
-        });
+    el.attributes.forEach(attr => {
+      if (attr.kind === 'structural' && attr.name === 'ngIf') {
+        ngIfCount++;
+      } else if (attr.kind === 'structural' && attr.name === 'ngFor') {
+        ngForCount++;
+      } else if (attr.name === 'ngSwitch' || attr.name === 'ngSwitchCase') {
+        ngSwitchCount++;
+      } else if (attr.name === 'ngModel' && (attr.kind === 'two-way' || attr.kind === 'property')) {
+        ngModelCount++;
+      } else if (['property', 'event', 'two-way', 'structural'].includes(attr.kind)) {
+        // その他のAngularディレクティブ・バインディング
+        otherDirectives.add(attr.rawName);
       }
+    });
+  });
+
+  // 制御フローブロック
+  const controlFlow = { if: 0, for: 0, switch: 0, defer: 0, let: 0 };
+  walkTemplate(template.nodes, node => {
+    if (node.kind === 'let') {
+      controlFlow.let++;
+    } else if (node.kind === 'block' && node.name in controlFlow) {
+      controlFlow[node.name as keyof typeof controlFlow]++;
     }
   });
 
   // フォーム関連
-  const forms = root.querySelectorAll('form');
-  const inputs = root.querySelectorAll('input, textarea, select');
-  const buttons = root.querySelectorAll('button');
+  const forms = allElements.filter(el => el.name.toLowerCase() === 'form');
+  const inputs = allElements.filter(el => ['input', 'textarea', 'select'].includes(el.name.toLowerCase()));
+  const buttons = allElements.filter(el => el.name.toLowerCase() === 'button');
 
   // リンク解析
-  const links = root.querySelectorAll('a');
+  const links = allElements.filter(el => el.name.toLowerCase() === 'a');
   let internalLinks = 0;
   let externalLinks = 0;
 
   links.forEach(link => {
-    const href = link.getAttribute('href');
+    const href = link.attributes.find(attr => attr.kind === 'static' && attr.name === 'href')?.value;
+    const routerLink = link.attributes.find(attr => attr.name === 'routerLink');
     if (href) {
       if (href.startsWith('http://') || href.startsWith('https://')) {
         externalLinks++;
       } else {
         internalLinks++;
       }
+    } else if (routerLink) {
+      internalLinks++;
     }
   });
 
   // 構造ツリーを生成
-  const structure = generateStructureTree(root);
+  const structure = generateStructureTree(template.nodes);
 
   return {
     fileName: path.basename(filePath),
@@ -108,6 +125,7 @@ function analyzeHtml(filePath: string): HtmlSummary {
       ngModel: ngModelCount,
       others: Array.from(otherDirectives)
     },
+    controlFlow,
     structure,
     forms: {
       count: forms.length,
@@ -121,36 +139,42 @@ function analyzeHtml(filePath: string): HtmlSummary {
   };
 }
 
-function generateStructureTree(root: any, maxDepth: number = 3): string {
+function generateStructureTree(nodes: TemplateNode[], maxDepth: number = 3): string {
   let result = '';
 
-  function traverse(node: any, depth: number, prefix: string): void {
-    if (depth > maxDepth || !node) return;
+  function traverse(node: TemplateNode, depth: number, prefix: string): void {
+    if (depth > maxDepth) return;
 
-    if (node.nodeType === 1) {
-      const element = node as HTMLElement;
-      const tagName = element.tagName?.toLowerCase();
+    let label: string;
+    let children: TemplateNode[];
 
-      if (!tagName) return; // Skip if tagName is null
-      const id = element.getAttribute('id');
-      const classes = element.getAttribute('class');
+    if (node.kind === 'element') {
+      const id = node.attributes.find(attr => attr.kind === 'static' && attr.name === 'id')?.value;
+      const classes = node.attributes.find(attr => attr.kind === 'static' && attr.name === 'class')?.value;
 
-      let label = `<${tagName}>`;
+      label = `<${node.name.toLowerCase()}>`;
       if (id) label += ` #${id}`;
       if (classes) label += ` .${classes.split(' ')[0]}`;
+      children = node.children;
+    } else if (node.kind === 'block') {
+      // 制御フローブロックも構造の一部として表示
+      label = node.parameters ? `@${node.name} (${node.parameters})` : `@${node.name}`;
+      children = node.children;
+    } else {
+      return;
+    }
 
-      result += `${prefix}${label}\n`;
+    result += `${prefix}${label}\n`;
 
-      const children = element.childNodes.filter((child: any) => child.nodeType === 1);
-      children.forEach((child: any, index: number) => {
-        const isLast = index === children.length - 1;
-        const newPrefix = prefix + (isLast ? '  └─ ' : '  ├─ ');
-        traverse(child, depth + 1, newPrefix);
-      });
-    }
+    const structural = children.filter(child => child.kind === 'element' || child.kind === 'block');
+    structural.forEach((child, index) => {
+      const isLast = index === structural.length - 1;
+      const newPrefix = prefix + (isLast ? '  └─ ' : '  ├─ ');
+      traverse(child, depth + 1, newPrefix);
+    });
   }
 
-  traverse(root, 0, '');
+  nodes.forEach(node => traverse(node, 0, ''));
   return result;
 }
 
@@ -180,6 +204,18 @@ function generateMarkdown(summary: HtmlSummary): string {
   md += `| *ngSwitch | ${summary.directives.ngSwitch} |\n`;
   md += `| [(ngModel)] | ${summary.directives.ngModel} |\n\n`;
 
+  const controlFlowTotal = Object.values(summary.controlFlow).reduce((sum, count) => sum + count, 0);
+  if (controlFlowTotal > 0) {
+    md += `## Control Flow Blocks\n\n`;
+    md += `| Block | Count |\n`;
+    md += `|-------|-------|\n`;
+    md += `| @if | ${summary.controlFlow.if} |\n`;
+    md += `| @for | ${summary.controlFlow.for} |\n`;
+    md += `| @switch | ${summary.controlFlow.switch} |\n`;
+    md += `| @defer | ${summary.controlFlow.defer} |\n`;
+    md += `| @let | ${summary.controlFlow.let} |\n\n`;
+  }
+
   if (summary.directives.others.length > 0) {
     md += `### Other Directives\n\n`;
     summary.directives.others.forEach(dir => {
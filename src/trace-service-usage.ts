@@ -2,40 +2,73 @@
 
 /**
  * trace-service-usage.ts
- * サービスがどこで注入・使用されているか追跡
+ * サービス / InjectionToken がどこで定義・提供・注入・使用されているか追跡
  *
- * Usage: npx ts-node src/trace-service-usage.ts <service-file> <project-dir>
+ * Usage: npx ts-node src/trace-service-usage.ts <service-file|token> <project-dir>
+ *        npx ts-node src/trace-service-usage.ts <project-dir> --all
+ *        npx ts-node src/trace-service-usage.ts <project-dir> --endpoints [--path /api/orders]
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { parse } from '@typescript-eslint/typescript-estree';
+import { ProjectModel } from './utils/project-model';
+import { getMetadataProperty, readString } from './utils/angular-metadata';
+import {
+  InjectionModifier,
+  InjectionPoint,
+  InjectionTokenDefinition,
+  extractInjectionPoints,
+  findInjectCalls,
+  findInjectionTokens
+} from './utils/di-providers';
+import { extractClassMembers } from './utils/class-members';
+import { HttpMethod, createUrlResolver, findHttpCalls } from './utils/http-calls';
+import { DependencyInjectionAnalyzer, ProviderRegistration } from './analyze-di';
+import { RoutingAnalyzer, RouteAnalysis } from './analyze-routing';
+import { AnalysisTarget, resolveAnalysisTargets, formatProjectHeading } from './utils/workspace';
 
 // ==================== Interfaces ====================
 
-interface ServiceUsage {
+export interface ServiceUsage {
   serviceName: string;
-  servicePath: string;
-  providedIn: string;
+  servicePath: string; // 定義ファイル（外部ライブラリのトークンはパッケージ名）
+  kind: 'service' | 'token';
+  providedIn: string | null;
+  token?: InjectionTokenDefinition;
+  providers: ProviderSite[];
   injectedIn: InjectionSite[];
   methods: MethodUsage[];
   totalInjections: number;
 }
 
-interface InjectionSite {
+export interface ProviderSite {
+  file: string;
+  injector: string;
+  source: ProviderRegistration['source'];
+  via?: string;
+  token: string;
+  shape: ProviderRegistration['shape'];
+  target?: string;
+  multi: boolean;
+  line: number;
+}
+
+export interface InjectionSite {
   file: string;
   className: string;
-  injectionType: 'constructor' | 'inject-function' | 'property';
+  injectionType: 'constructor' | 'inject-decorator' | 'inject-function' | 'property';
+  member?: string;
+  modifiers: InjectionModifier[];
   line: number;
 }
 
-interface MethodUsage {
+export interface MethodUsage {
   method: string;
   usedIn: UsageSite[];
   totalCalls: number;
 }
 
-interface UsageSite {
+export interface UsageSite {
   file: string;
   className: string;
   methodName: string;
@@ -44,35 +77,59 @@ interface UsageSite {
 
 // ==================== Service Usage Tracer ====================
 
-class ServiceUsageTracer {
-  private servicePath: string;
+const diAnalyzers = new WeakMap<ProjectModel, DependencyInjectionAnalyzer>();
+
+export class ServiceUsageTracer {
+  private servicePath: string | null;
   private projectPath: string;
+  private model: ProjectModel;
   private serviceName: string = '';
   private serviceClassName: string = '';
+  private providedIn: string | null = null;
+  private token: InjectionTokenDefinition | undefined;
+  private library: string | null = null;
   private injectionSites: InjectionSite[] = [];
   private methodUsages = new Map<string, UsageSite[]>();
 
-  constructor(servicePath: string, projectPath: string) {
-    this.servicePath = servicePath;
+  /**
+   * @param servicePath サービス/トークンを定義したファイル（外部ライブラリのトークンの場合はnull）
+   * @param name 追跡するサービスクラス名またはInjectionToken名（省略時はファイル内の最初の@Injectableクラス）
+   */
+  constructor(servicePath: string | null, projectPath: string, model?: ProjectModel, name?: string) {
+    this.servicePath = servicePath ? path.resolve(servicePath) : null;
     this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
+    this.serviceName = name || '';
   }
 
-  trace(): ServiceUsage {
-    console.log(`Tracing service usage: ${this.servicePath}\n`);
+  /**
+   * @param verbose 進捗を出力する（全サービスをまとめて追跡する場合はfalse）
+   */
+  trace(verbose = true): ServiceUsage {
+    if (verbose) {
+      console.log(`Tracing service usage: ${this.servicePath || this.serviceName}\n`);
+    }
 
     // サービス自体を解析
-    this.analyzeService();
+    if (this.servicePath) {
+      this.analyzeService();
+    }
+    if (!this.serviceClassName) {
+      this.resolveToken();
+    }
 
     // プロジェクト内のすべてのTypeScriptファイルを解析
-    const files = this.getAllTypeScriptFiles(this.projectPath);
-    console.log(`Scanning ${files.length} files for service usage...\n`);
+    const files = this.model.getTypeScriptFiles();
+    if (verbose) {
+      console.log(`Scanning ${files.length} files for service usage...\n`);
+    }
 
     let processed = 0;
     for (const file of files) {
-      if (file !== this.servicePath) {
+      if (file !== this.servicePath || !this.serviceClassName) {
         this.analyzeFileForUsage(file);
         processed++;
-        if (processed % 20 === 0) {
+        if (verbose && processed % 20 === 0) {
           console.log(`Processed ${processed}/${files.length} files...`);
         }
       }
@@ -83,8 +140,11 @@ class ServiceUsageTracer {
 
     return {
       serviceName: this.serviceName,
-      servicePath: path.relative(this.projectPath, this.servicePath),
-      providedIn: 'root', // 簡易版
+      servicePath: this.servicePath ? path.relative(this.projectPath, this.servicePath) : this.library || '(unknown)',
+      kind: this.serviceClassName ? 'service' : 'token',
+      providedIn: this.providedIn,
+      token: this.token,
+      providers: this.findProviders(),
       injectedIn: this.injectionSites,
       methods,
       totalInjections: this.injectionSites.length
@@ -92,24 +152,27 @@ class ServiceUsageTracer {
   }
 
   private analyzeService(): void {
-    const content = fs.readFileSync(this.servicePath, 'utf-8');
+    const { ast, parseError } = this.model.getSourceFile(this.servicePath!);
+    if (!ast) {
+      console.error('Error parsing service file:', parseError);
+      return;
+    }
 
     try {
-      const ast = parse(content, {
-        loc: true,
-        range: true,
-        comment: false
-      });
-
       const traverse = (node: any): void => {
         if (!node) return;
 
-        // クラス名を取得
-        if (node.type === 'ClassDeclaration' && node.id) {
-          if (node.decorators?.some((d: any) => d.expression?.callee?.name === 'Injectable')) {
+        // クラス名を取得（名前が指定された場合はそのクラスのみ）
+        if (node.type === 'ClassDeclaration' && node.id && !this.serviceClassName &&
+            (!this.serviceName || node.id.name === this.serviceName)) {
+          const injectable = node.decorators?.find((d: any) => d.expression?.callee?.name === 'Injectable');
+          if (injectable) {
             this.serviceClassName = node.id.name;
             this.serviceName = node.id.name;
 
+            const providedIn = getMetadataProperty(injectable.expression.arguments?.[0], 'providedIn');
+            this.providedIn = readString(providedIn) ?? (providedIn?.type === 'Identifier' ? providedIn.name : null);
+
             // メソッド一覧を取得
             if (node.body && node.body.body) {
               node.body.body.forEach((member: any) => {
@@ -139,90 +202,107 @@ class ServiceUsageTracer {
     }
   }
 
-  private getAllTypeScriptFiles(dir: string): string[] {
-    const files: string[] = [];
-
-    const traverse = (currentPath: string): void => {
-      try {
-        const items = fs.readdirSync(currentPath);
+  /**
+   * InjectionTokenの定義箇所を探す（プロジェクト内で見つからなければimport元のパッケージ）
+   */
+  private resolveToken(): void {
+    const files = this.servicePath ? [this.servicePath] : this.model.getTypeScriptFiles();
 
-        for (const item of items) {
-          const fullPath = path.join(currentPath, item);
-          const stat = fs.statSync(fullPath);
+    for (const file of files) {
+      const tokens = findInjectionTokens(this.model.getAst(file));
+      const token = this.serviceName ? tokens.find(t => t.name === this.serviceName) : tokens[0];
+      if (token) {
+        this.servicePath = file;
+        this.serviceName = token.name;
+        this.token = token;
+        this.providedIn = token.providedIn || null;
+        return;
+      }
+    }
 
-          if (stat.isDirectory()) {
-            if (!item.startsWith('.') && item !== 'node_modules' && item !== 'dist') {
-              traverse(fullPath);
-            }
-          } else if (stat.isFile() && item.endsWith('.ts') && !item.endsWith('.spec.ts')) {
-            files.push(fullPath);
-          }
-        }
-      } catch (error) {
-        // Ignore errors
+    for (const file of this.model.getTypeScriptFiles()) {
+      const imported = this.model.getFacts(file).imports.find(imp =>
+        imp.specifiers.some(spec => spec.imported === this.serviceName) &&
+        !this.model.getModuleResolver().resolve(imp.source, file)
+      );
+      if (imported) {
+        this.library = imported.source;
+        return;
       }
-    };
+    }
+  }
+
+  /**
+   * このファイルでサービス/トークンを参照するローカル名
+   */
+  private getLocalNames(filePath: string): Set<string> {
+    const names = new Set<string>();
+    const facts = this.model.getFacts(filePath);
+
+    facts.imports.forEach(imp => {
+      imp.specifiers
+        .filter(spec => spec.imported === this.serviceName)
+        .forEach(spec => names.add(spec.local));
+    });
 
-    traverse(dir);
-    return files;
+    if (filePath === this.servicePath) {
+      names.add(this.serviceName);
+    }
+
+    return names;
   }
 
   private analyzeFileForUsage(filePath: string): void {
-    const content = fs.readFileSync(filePath, 'utf-8');
+    const ast = this.model.getAst(filePath);
+    if (!ast) {
+      // Ignore parse errors
+      return;
+    }
 
-    try {
-      const ast = parse(content, {
-        loc: true,
-        range: true,
-        comment: false
-      });
+    const localNames = this.getLocalNames(filePath);
+    if (localNames.size === 0) {
+      return;
+    }
 
+    try {
       let currentClassName = '';
       let currentMethodName = '';
-      let hasServiceImport = false;
-
-      // このファイルがサービスをインポートしているかチェック
-      const checkImports = (node: any): void => {
-        if (node.type === 'ImportDeclaration') {
-          if (node.specifiers) {
-            node.specifiers.forEach((spec: any) => {
-              if (spec.local && spec.local.name === this.serviceClassName) {
-                hasServiceImport = true;
-              }
+      const hasServiceImport = !!this.serviceClassName;
+      const relativePath = path.relative(this.projectPath, filePath);
+
+      const addInjections = (points: InjectionPoint[], className: string): void => {
+        points
+          .filter(point => localNames.has(point.token))
+          .forEach(point => {
+            this.injectionSites.push({
+              file: relativePath,
+              className,
+              injectionType: point.kind,
+              member: point.member,
+              modifiers: point.modifiers,
+              line: point.line
             });
-          }
-        }
+          });
       };
 
+      // クラス外の inject()（関数型ガード、インターセプタ、ファクトリなど）
+      for (const statement of ast.body || []) {
+        const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+        if (!declaration || declaration.type === 'ClassDeclaration') continue;
+
+        const name = declaration.id?.name ?? declaration.declarations?.[0]?.id?.name ?? '(module)';
+        addInjections(findInjectCalls(declaration), name);
+      }
+
       const traverse = (node: any): void => {
         if (!node) return;
 
-        // インポートチェック
-        checkImports(node);
-
         // クラス名を追跡
         if (node.type === 'ClassDeclaration' && node.id) {
           currentClassName = node.id.name;
 
-          // コンストラクタでの注入をチェック
-          if (node.body && node.body.body) {
-            node.body.body.forEach((member: any) => {
-              if (member.type === 'MethodDefinition' && member.kind === 'constructor') {
-                if (member.value && member.value.params) {
-                  member.value.params.forEach((param: any) => {
-                    if (param.parameter?.typeAnnotation?.typeAnnotation?.typeName?.name === this.serviceClassName) {
-                      this.injectionSites.push({
-                        file: path.relative(this.projectPath, filePath),
-                        className: currentClassName,
-                        injectionType: 'constructor',
-                        line: member.loc.start.line
-                      });
-                    }
-                  });
-                }
-              }
-            });
-          }
+          // コンストラクタ引数（型注釈 / @Inject(TOKEN)）と inject() による注入をチェック
+          addInjections(extractInjectionPoints(node), currentClassName);
         }
 
         // メソッド名を追跡
@@ -237,7 +317,7 @@ class ServiceUsageTracer {
             if (this.methodUsages.has(methodName)) {
               const usages = this.methodUsages.get(methodName)!;
               usages.push({
-                file: path.relative(this.projectPath, filePath),
+                file: relativePath,
                 className: currentClassName,
                 methodName: currentMethodName,
                 line: node.loc.start.line
@@ -257,12 +337,43 @@ class ServiceUsageTracer {
         }
       };
 
-      traverse(ast);
+      // トップレベルの宣言ごとに走査し、クラス外（関数型ガードなど）の呼び出しは宣言名を呼び出し元とする
+      for (const statement of ast.body || []) {
+        const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+        currentClassName = declaration?.id?.name ?? declaration?.declarations?.[0]?.id?.name ?? '';
+        currentMethodName = '';
+        traverse(statement);
+      }
     } catch (error) {
       // Ignore parse errors
     }
   }
 
+  /**
+   * サービス/トークンを提供している箇所（トークンとしての登録と、useClass/useExisting等の実装としての登録）
+   */
+  private findProviders(): ProviderSite[] {
+    // 全サービスを追跡する場合に毎回インジェクタツリーを構築しないよう、モデルごとに共有する
+    if (!diAnalyzers.has(this.model)) {
+      diAnalyzers.set(this.model, new DependencyInjectionAnalyzer(this.projectPath, this.model));
+    }
+    const analyzer = diAnalyzers.get(this.model)!;
+
+    return analyzer.getRegistrations()
+      .filter(r => r.token === this.serviceName || r.target === this.serviceName)
+      .map(r => ({
+        file: r.file,
+        injector: analyzer.getInjector(r.injector)?.name || r.injector,
+        source: r.source,
+        via: r.via,
+        token: r.token,
+        shape: r.shape,
+        target: r.target,
+        multi: r.multi,
+        line: r.line
+      }));
+  }
+
   private aggregateMethodUsage(): MethodUsage[] {
     const methods: MethodUsage[] = [];
 
@@ -278,25 +389,402 @@ class ServiceUsageTracer {
   }
 }
 
+// ==================== Service Usage Matrix ====================
+
+export interface ServiceUsageMatrix {
+  services: ServiceUsage[];
+  consumers: string[];
+  cells: MatrixCell[];
+  unusedMethods: UnusedMethod[];
+  summary: {
+    totalServices: number;
+    totalConsumers: number;
+    totalInjections: number;
+    totalMethodCalls: number;
+    unusedMethodsCount: number;
+  };
+}
+
+export interface MatrixCell {
+  service: string;
+  consumer: string;
+  injected: boolean;
+  calls: number;
+  methods: Record<string, number>; // メソッド名 → 呼び出し回数
+}
+
+export interface UnusedMethod {
+  service: string;
+  file: string;
+  method: string;
+  line: number;
+}
+
+// Angularから呼ばれるメソッド（インターフェース実装）は未使用扱いしない
+const FRAMEWORK_METHODS = new Set([
+  'intercept', 'canActivate', 'canActivateChild', 'canDeactivate', 'canMatch', 'canLoad', 'resolve',
+  'transform', 'validate', 'writeValue', 'registerOnChange', 'registerOnTouched', 'setDisabledState', 'handleError'
+]);
+
+/**
+ * プロジェクト内の全 @Injectable を追跡し、サービス×利用クラスのマトリクスを作成
+ */
+export class ServiceUsageMatrixBuilder {
+  private projectPath: string;
+  private model: ProjectModel;
+
+  constructor(projectPath: string, model?: ProjectModel) {
+    this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
+  }
+
+  build(): ServiceUsageMatrix {
+    console.log(`Tracing all services in: ${this.projectPath}\n`);
+
+    const services: ServiceUsage[] = [];
+    const unusedMethods: UnusedMethod[] = [];
+    const cells = new Map<string, MatrixCell>();
+
+    const getCell = (service: string, consumer: string): MatrixCell => {
+      const key = `${service}\u0000${consumer}`;
+      if (!cells.has(key)) {
+        cells.set(key, { service, consumer, injected: false, calls: 0, methods: {} });
+      }
+      return cells.get(key)!;
+    };
+
+    const injectables = this.model.getTypeScriptFiles().flatMap(file =>
+      this.model.getFacts(file).classes
+        .filter(cls => cls.decorators.some(d => d.name === 'Injectable'))
+        .map(cls => ({ file, cls }))
+    );
+    console.log(`Found ${injectables.length} services...\n`);
+
+    for (const { file, cls } of injectables) {
+      const usage = new ServiceUsageTracer(file, this.projectPath, this.model, cls.name).trace(false);
+      services.push(usage);
+
+      usage.injectedIn.forEach(site => {
+        getCell(usage.serviceName, site.className).injected = true;
+      });
+      usage.methods.forEach(method => {
+        method.usedIn.forEach(site => {
+          const cell = getCell(usage.serviceName, site.className);
+          cell.calls++;
+          cell.methods[method.method] = (cell.methods[method.method] || 0) + 1;
+        });
+      });
+
+      unusedMethods.push(...this.findUnusedMethods(usage, cls.node, file));
+    }
+
+    const cellList = Array.from(cells.values());
+    const consumers = Array.from(new Set(cellList.map(cell => cell.consumer))).sort();
+
+    return {
+      services,
+      consumers,
+      cells: cellList,
+      unusedMethods,
+      summary: {
+        totalServices: services.length,
+        totalConsumers: consumers.length,
+        totalInjections: services.reduce((sum, s) => sum + s.totalInjections, 0),
+        totalMethodCalls: cellList.reduce((sum, cell) => sum + cell.calls, 0),
+        unusedMethodsCount: unusedMethods.length
+      }
+    };
+  }
+
+  /**
+   * どこからも呼ばれていないpublicメソッド（サービス内部の this.xxx とHTMLテンプレートからの参照も考慮）
+   */
+  private findUnusedMethods(usage: ServiceUsage, classNode: any, file: string): UnusedMethod[] {
+    const internal = new Set<string>();
+    const traverse = (node: any): void => {
+      if (!node || typeof node !== 'object') return;
+      if (node.type === 'MemberExpression' && node.object?.type === 'ThisExpression' && node.property?.name) {
+        internal.add(node.property.name);
+      }
+      for (const key in node) {
+        if (key === 'parent' || key === 'loc' || key === 'range') continue;
+        const child = node[key];
+        if (Array.isArray(child)) {
+          child.forEach(traverse);
+        } else if (child && typeof child.type === 'string') {
+          traverse(child);
+        }
+      }
+    };
+    traverse(classNode.body);
+
+    const templates = this.model.getHtmlFiles().map(html => this.model.getContent(html)).join('\n');
+
+    return extractClassMembers(classNode)
+      .filter(member =>
+        member.kind === 'method' &&
+        member.accessibility === 'public' &&
+        !member.isEcmaPrivate &&
+        !member.isStatic &&
+        !FRAMEWORK_METHODS.has(member.name) &&
+        !/^ng[A-Z]/.test(member.name)
+      )
+      .filter(member => {
+        const method = usage.methods.find(m => m.method === member.name);
+        return (!method || method.totalCalls === 0) &&
+          !internal.has(member.name) &&
+          !new RegExp(`\\.${member.name}\\b`).test(templates);
+      })
+      .map(member => ({
+        service: usage.serviceName,
+        file: path.relative(this.projectPath, file),
+        method: member.name,
+        line: member.line
+      }));
+  }
+}
+
+// ==================== HTTP Endpoint Catalogue ====================
+
+export interface EndpointCatalog {
+  endpoints: HttpEndpoint[];
+  summary: {
+    totalCalls: number;
+    uniqueEndpoints: number; // メソッド + パス
+    totalServices: number;
+    totalScreens: number;
+    unresolvedUrls: number; // 先頭（ベースURL）の式を解決できなかった呼び出し
+  };
+}
+
+export interface HttpEndpoint {
+  method: HttpMethod;
+  path: string; // /api/orders/{id}（オリジンとクエリを除き、解決できない式は {名前}）
+  url: string; // 定数を置き換えたURL
+  expression: string; // ソース上のURL式
+  responseType?: string;
+  service: string; // HttpClient を呼び出すクラス
+  serviceMethod?: string; // 呼び出しを含むメソッド・プロパティ
+  callers: string[]; // serviceMethod を呼び出すクラス（サービスを経由する呼び出しも辿る）
+  screens: EndpointScreen[];
+  file: string;
+  line: number;
+}
+
+export interface EndpointScreen {
+  component: string;
+  routes: string[]; // コンポーネントを表示するルート
+}
+
+/**
+ * HttpClient の呼び出しを、ラップしているサービスメソッドと、それを使う画面（コンポーネント）まで辿る
+ */
+export class EndpointCatalogBuilder {
+  private projectPath: string;
+  private model: ProjectModel;
+  private injectables = new Map<string, string>(); // クラス名 → ファイル
+  private components = new Set<string>();
+  private usages = new Map<string, ServiceUsage>();
+
+  constructor(projectPath: string, model?: ProjectModel) {
+    this.projectPath = projectPath;
+    this.model = model || new ProjectModel(projectPath);
+  }
+
+  /**
+   * @param pathFilter 指定したパス（/api/orders）に一致するエンドポイントのみ
+   */
+  build(pathFilter?: string): EndpointCatalog {
+    console.log(`Collecting HttpClient endpoints in: ${this.projectPath}\n`);
+
+    const endpoints: HttpEndpoint[] = [];
+    const classes = this.model.getTypeScriptFiles().flatMap(file =>
+      this.model.getFacts(file).classes.map(cls => ({ file, cls }))
+    );
+    classes.forEach(({ file, cls }) => {
+      if (cls.decorators.some(d => d.name === 'Injectable')) this.injectables.set(cls.name, file);
+      if (cls.decorators.some(d => d.name === 'Component')) this.components.add(cls.name);
+    });
+    const routes = this.collectComponentRoutes();
+
+    for (const { file, cls } of classes) {
+      const calls = findHttpCalls(cls.node, createUrlResolver(this.model, file, cls.node));
+      for (const call of calls) {
+        const url = call.resolvedUrl ?? call.url;
+        const endpointPath = normalizeEndpointPath(url);
+        if (pathFilter && !matchesEndpointPath(endpointPath, pathFilter)) continue;
+
+        const callers = this.findCallers(cls.name, call.caller, new Set([`${cls.name}.${call.caller}`]));
+        // コンポーネント自身が HttpClient を呼び出す場合はその画面も含める
+        const screens = this.components.has(cls.name) ? [cls.name, ...callers] : callers;
+
+        endpoints.push({
+          method: call.method,
+          path: endpointPath,
+          url,
+          expression: call.url,
+          responseType: call.responseType,
+          service: cls.name,
+          serviceMethod: call.caller,
+          callers,
+          screens: screens
+            .filter(caller => this.components.has(caller))
+            .map(component => ({ component, routes: routes.get(component) || [] })),
+          file: path.relative(this.projectPath, file),
+          line: call.line
+        });
+      }
+    }
+    console.log(`Found ${endpoints.length} HttpClient calls...\n`);
+
+    return {
+      endpoints,
+      summary: {
+        totalCalls: endpoints.length,
+        uniqueEndpoints: new Set(endpoints.map(e => `${e.method} ${e.path}`)).size,
+        totalServices: new Set(endpoints.map(e => e.service)).size,
+        totalScreens: new Set(endpoints.flatMap(e => e.screens.map(s => s.component))).size,
+        unresolvedUrls: endpoints.filter(e => e.url.startsWith('${')).length
+      }
+    };
+  }
+
+  /**
+   * サービスのメソッドを呼び出すクラス（呼び出し元もサービスなら、そのメソッドの呼び出し元まで辿る）
+   * プロパティの初期化子（orders$ = this.http.get(...)）の場合は注入しているクラスを呼び出し元とみなす
+   */
+  private findCallers(service: string, member: string | undefined, visited: Set<string>): string[] {
+    const usage = this.getUsage(service);
+    if (!usage) return [];
+
+    const method = member ? usage.methods.find(m => m.method === member) : undefined;
+    const sites = method
+      ? method.usedIn.map(site => ({ className: site.className, member: site.methodName || undefined }))
+      : usage.injectedIn.map(site => ({ className: site.className, member: undefined }));
+
+    const callers: string[] = [];
+    for (const site of sites) {
+      if (!site.className || site.className === service) continue;
+      if (!callers.includes(site.className)) callers.push(site.className);
+
+      const key = `${site.className}.${site.member}`;
+      if (this.injectables.has(site.className) && !visited.has(key)) {
+        visited.add(key);
+        this.findCallers(site.className, site.member, visited)
+          .filter(caller => !callers.includes(caller))
+          .forEach(caller => callers.push(caller));
+      }
+    }
+    return callers;
+  }
+
+  private getUsage(service: string): ServiceUsage | null {
+    const file = this.injectables.get(service);
+    if (!file) return null;
+    if (!this.usages.has(service)) {
+      this.usages.set(service, new ServiceUsageTracer(file, this.projectPath, this.model, service).trace(false));
+    }
+    return this.usages.get(service)!;
+  }
+
+  /**
+   * コンポーネント名 → そのコンポーネントを表示するルートのフルパス
+   */
+  private collectComponentRoutes(): Map<string, string[]> {
+    const routes = new Map<string, string[]>();
+    const visit = (route: RouteAnalysis): void => {
+      const component = route.component || route.loadComponent?.split('#')[1];
+      if (component) {
+        if (!routes.has(component)) routes.set(component, []);
+        routes.get(component)!.push(`/${route.fullPath}`.replace(/\/+/g, '/'));
+      }
+      route.children.forEach(visit);
+    };
+    new RoutingAnalyzer(this.model).analyzeProject(this.projectPath).routes.forEach(visit);
+    return routes;
+  }
+}
+
+/**
+ * URLからパスを取り出す（https://api.example.com/api/orders/${id}?q=1 → /api/orders/{id}）
+ */
+export function normalizeEndpointPath(url: string): string {
+  const withoutOrigin = url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '');
+  const withoutQuery = splitOutsideExpressions(withoutOrigin, '?')[0];
+  const normalized = withoutQuery.replace(/\$\{([^}]*)\}/g, (_, expr: string) => `{${expr.split('.').pop() || 'param'}}`);
+  return normalized.startsWith('/') || normalized.startsWith('{') ? normalized : `/${normalized}`;
+}
+
+/**
+ * /api/orders は /api/orders、/api/orders/{id} などに一致する（{...} と :param は任意のセグメント）
+ */
+export function matchesEndpointPath(endpointPath: string, query: string): boolean {
+  const segments = (p: string) => p.split('/').filter(Boolean);
+  const actual = segments(endpointPath);
+  const expected = segments(query);
+  if (actual.length < expected.length) return false;
+
+  return expected.every((segment, i) => {
+    const isParam = (s: string) => /^\{.*\}$/.test(s) || s.startsWith(':');
+    return segment === actual[i] || isParam(segment) || isParam(actual[i]);
+  });
+}
+
+function splitOutsideExpressions(text: string, separator: string): string[] {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.startsWith('${', i)) depth++;
+    else if (text[i] === '}' && depth > 0) depth--;
+    else if (text[i] === separator && depth === 0) return [text.slice(0, i), text.slice(i + 1)];
+  }
+  return [text];
+}
+
 // ==================== Output Formatters ====================
 
+function describeProvider(site: ProviderSite, name: string): string {
+  if (site.token !== name) {
+    // 別トークンの実装として登録されている
+    return `as ${site.token} (${site.shape}${site.multi ? ', multi' : ''})`;
+  }
+  return `${site.shape}${site.target ? `: ${site.target}` : ''}${site.multi ? ' (multi)' : ''}`;
+}
+
 function formatMarkdown(usage: ServiceUsage): string {
-  let md = `# Service Usage Analysis: ${usage.serviceName}\n\n`;
+  let md = `# ${usage.kind === 'token' ? 'Injection Token' : 'Service'} Usage Analysis: ${usage.serviceName}\n\n`;
 
-  md += `**Service Path**: ${usage.servicePath}\n`;
-  md += `**Provided In**: ${usage.providedIn}\n\n`;
+  md += `**${usage.kind === 'token' ? 'Defined In' : 'Service Path'}**: ${usage.servicePath}${usage.token ? `:${usage.token.line}` : ''}\n`;
+  if (usage.token?.type) {
+    md += `**Type**: ${usage.token.type}\n`;
+  }
+  md += `**Provided In**: ${usage.providedIn || '-'}\n\n`;
 
   md += `## Summary\n\n`;
+  md += `- **Providers**: ${usage.providers.length}\n`;
   md += `- **Total Injections**: ${usage.totalInjections}\n`;
-  md += `- **Methods Tracked**: ${usage.methods.length}\n`;
-  md += `- **Total Method Calls**: ${usage.methods.reduce((sum, m) => sum + m.totalCalls, 0)}\n\n`;
+  if (usage.kind === 'service') {
+    md += `- **Methods Tracked**: ${usage.methods.length}\n`;
+    md += `- **Total Method Calls**: ${usage.methods.reduce((sum, m) => sum + m.totalCalls, 0)}\n`;
+  }
+  md += `\n`;
+
+  if (usage.providers.length > 0) {
+    md += `## Providers (${usage.providers.length})\n\n`;
+    md += `| File | Injector | Source | Provider | Line |\n`;
+    md += `|------|----------|--------|----------|------|\n`;
+    usage.providers.forEach(site => {
+      md += `| ${site.file} | ${site.injector} | ${site.source}${site.via ? ` (${site.via})` : ''} | ${describeProvider(site, usage.serviceName)} | ${site.line} |\n`;
+    });
+    md += `\n`;
+  }
 
   if (usage.injectedIn.length > 0) {
     md += `## Injection Sites (${usage.injectedIn.length})\n\n`;
-    md += `| File | Class | Type | Line |\n`;
-    md += `|------|-------|------|------|\n`;
+    md += `| File | Class | Type | Member | Line |\n`;
+    md += `|------|-------|------|--------|------|\n`;
     usage.injectedIn.forEach(site => {
-      md += `| ${site.file} | ${site.className} | ${site.injectionType} | ${site.line} |\n`;
+      const modifiers = site.modifiers.length > 0 ? ` (${site.modifiers.join(', ')})` : '';
+      md += `| ${site.file} | ${site.className} | ${site.injectionType}${modifiers} | ${site.member || '-'} | ${site.line} |\n`;
     });
     md += `\n`;
   }
@@ -324,14 +812,26 @@ function formatMarkdown(usage: ServiceUsage): string {
 }
 
 function formatConsole(usage: ServiceUsage): void {
-  console.log(`\n📊 Service Usage Analysis: ${usage.serviceName}\n`);
-  console.log(`Service Path: ${usage.servicePath}`);
-  console.log(`Provided In: ${usage.providedIn}\n`);
+  console.log(`\n📊 ${usage.kind === 'token' ? 'Injection Token' : 'Service'} Usage Analysis: ${usage.serviceName}\n`);
+  console.log(`${usage.kind === 'token' ? 'Defined In' : 'Service Path'}: ${usage.servicePath}`);
+  console.log(`Provided In: ${usage.providedIn || '-'}\n`);
 
   console.log(`Summary:`);
+  console.log(`  - Providers: ${usage.providers.length}`);
   console.log(`  - Total Injections: ${usage.totalInjections}`);
-  console.log(`  - Methods Tracked: ${usage.methods.length}`);
-  console.log(`  - Total Method Calls: ${usage.methods.reduce((sum, m) => sum + m.totalCalls, 0)}\n`);
+  if (usage.kind === 'service') {
+    console.log(`  - Methods Tracked: ${usage.methods.length}`);
+    console.log(`  - Total Method Calls: ${usage.methods.reduce((sum, m) => sum + m.totalCalls, 0)}`);
+  }
+  console.log('');
+
+  if (usage.providers.length > 0) {
+    console.log(`Provided in ${usage.providers.length} location${usage.providers.length !== 1 ? 's' : ''}:`);
+    usage.providers.forEach(site => {
+      console.log(`  - ${site.injector}: ${describeProvider(site, usage.serviceName)} (${site.file}:${site.line})`);
+    });
+    console.log('');
+  }
 
   if (usage.injectedIn.length > 0) {
     console.log(`Injected in ${usage.injectedIn.length} location${usage.injectedIn.length !== 1 ? 's' : ''}:`);
@@ -354,35 +854,387 @@ function formatConsole(usage: ServiceUsage): void {
   }
 }
 
+// ==================== Matrix Formatters ====================
+
+const HEAT_LEVELS = ['🟨', '🟧', '🟥'];
+
+function heatCell(cell: MatrixCell | undefined, max: number): string {
+  if (!cell) return '';
+  if (cell.calls === 0) return cell.injected ? '○' : '';
+  const level = Math.min(HEAT_LEVELS.length - 1, Math.floor((cell.calls / Math.max(max, 1)) * HEAT_LEVELS.length));
+  return `${HEAT_LEVELS[level]} ${cell.calls}`;
+}
+
+function formatMatrixMarkdown(matrix: ServiceUsageMatrix): string {
+  let md = `# Service Usage Matrix\n\n`;
+
+  md += `**Analyzed At**: ${new Date().toISOString()}\n\n`;
+
+  md += `## Summary\n\n`;
+  md += `- **Services**: ${matrix.summary.totalServices}\n`;
+  md += `- **Consumers**: ${matrix.summary.totalConsumers}\n`;
+  md += `- **Total Injections**: ${matrix.summary.totalInjections}\n`;
+  md += `- **Total Method Calls**: ${matrix.summary.totalMethodCalls}\n`;
+  md += `- **Uncalled Public Methods**: ${matrix.summary.unusedMethodsCount}\n\n`;
+
+  const max = Math.max(0, ...matrix.cells.map(cell => cell.calls));
+  const findCell = (service: string, consumer: string) =>
+    matrix.cells.find(cell => cell.service === service && cell.consumer === consumer);
+
+  md += `## Heatmap\n\n`;
+  md += `Method calls per consumer (○ = injected, no calls).\n\n`;
+  md += `| Service | ${matrix.consumers.join(' | ')} |\n`;
+  md += `|---------|${matrix.consumers.map(() => '---').join('|')}|\n`;
+  matrix.services.forEach(service => {
+    md += `| **${service.serviceName}** | ${matrix.consumers.map(c => heatCell(findCell(service.serviceName, c), max)).join(' | ')} |\n`;
+  });
+  md += `\n`;
+
+  md += `## Method Calls\n\n`;
+  matrix.services.forEach(service => {
+    const total = service.methods.reduce((sum, m) => sum + m.totalCalls, 0);
+    md += `### ${service.serviceName} (${service.servicePath}) - ${total} call${total !== 1 ? 's' : ''}\n\n`;
+    if (service.methods.length === 0) {
+      md += `*No methods*\n\n`;
+      return;
+    }
+    md += `| Method | Calls | Callers |\n`;
+    md += `|--------|-------|---------|\n`;
+    service.methods.forEach(method => {
+      const callers = Array.from(new Set(method.usedIn.map(site => site.className)));
+      md += `| ${method.method}() | ${method.totalCalls} | ${callers.join(', ') || '-'} |\n`;
+    });
+    md += `\n`;
+  });
+
+  if (matrix.unusedMethods.length > 0) {
+    md += `## ⚠️ Uncalled Public Methods (${matrix.unusedMethods.length})\n\n`;
+    md += `| Service | Method | File |\n`;
+    md += `|---------|--------|------|\n`;
+    matrix.unusedMethods.forEach(unused => {
+      md += `| ${unused.service} | ${unused.method}() | ${unused.file}:${unused.line} |\n`;
+    });
+    md += `\n`;
+  }
+
+  return md;
+}
+
+function formatMatrixCsv(matrix: ServiceUsageMatrix): string {
+  const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const rows = [['service', ...matrix.consumers].map(escape).join(',')];
+
+  matrix.services.forEach(service => {
+    const values = matrix.consumers.map(consumer => {
+      const cell = matrix.cells.find(c => c.service === service.serviceName && c.consumer === consumer);
+      return cell ? String(cell.calls) : '';
+    });
+    rows.push([escape(service.serviceName), ...values].join(','));
+  });
+
+  return rows.join('\n') + '\n';
+}
+
+function formatMatrixConsole(matrix: ServiceUsageMatrix): void {
+  console.log(`\n📊 Service Usage Matrix\n`);
+
+  console.log(`Summary:`);
+  console.log(`  - Services: ${matrix.summary.totalServices}`);
+  console.log(`  - Consumers: ${matrix.summary.totalConsumers}`);
+  console.log(`  - Total Injections: ${matrix.summary.totalInjections}`);
+  console.log(`  - Total Method Calls: ${matrix.summary.totalMethodCalls}`);
+  console.log(`  - Uncalled Public Methods: ${matrix.summary.unusedMethodsCount}\n`);
+
+  if (matrix.unusedMethods.length > 0) {
+    console.log(`⚠️  Uncalled Public Methods:`);
+    matrix.unusedMethods.slice(0, 20).forEach(unused => {
+      console.log(`  - ${unused.service}.${unused.method}() (${unused.file}:${unused.line})`);
+    });
+    if (matrix.unusedMethods.length > 20) {
+      console.log(`  ... and ${matrix.unusedMethods.length - 20} more`);
+    }
+    console.log('');
+  }
+}
+
+// ==================== Endpoint Formatters ====================
+
+function describeScreens(endpoint: HttpEndpoint): string {
+  return endpoint.screens
+    .map(screen => screen.routes.length > 0 ? `${screen.component} (${screen.routes.join(', ')})` : screen.component)
+    .join(', ');
+}
+
+function formatEndpointsMarkdown(catalog: EndpointCatalog, pathFilter?: string): string {
+  let md = `# HTTP Endpoint Catalogue${pathFilter ? `: ${pathFilter}` : ''}\n\n`;
+
+  md += `**Analyzed At**: ${new Date().toISOString()}\n\n`;
+
+  md += `## Summary\n\n`;
+  md += `- **HttpClient Calls**: ${catalog.summary.totalCalls}\n`;
+  md += `- **Unique Endpoints**: ${catalog.summary.uniqueEndpoints}\n`;
+  md += `- **Services**: ${catalog.summary.totalServices}\n`;
+  md += `- **Screens**: ${catalog.summary.totalScreens}\n`;
+  md += `- **Unresolved URLs**: ${catalog.summary.unresolvedUrls}\n\n`;
+
+  if (catalog.endpoints.length === 0) {
+    md += `*No HttpClient calls found*\n\n`;
+    return md;
+  }
+
+  md += `## Endpoints\n\n`;
+  md += `| Method | Path | Response Type | Service Method | Screens | Location |\n`;
+  md += `|--------|------|---------------|----------------|---------|----------|\n`;
+  catalog.endpoints.forEach(endpoint => {
+    const member = endpoint.serviceMethod ? `${endpoint.service}.${endpoint.serviceMethod}` : endpoint.service;
+    md += `| ${endpoint.method} | \`${endpoint.path}\` | ${endpoint.responseType ? `\`${endpoint.responseType}\`` : '-'} | ${member} | ${describeScreens(endpoint) || '-'} | ${endpoint.file}:${endpoint.line} |\n`;
+  });
+  md += `\n`;
+
+  md += `## Screens by Endpoint\n\n`;
+  const byEndpoint = new Map<string, HttpEndpoint[]>();
+  catalog.endpoints.forEach(endpoint => {
+    const key = `${endpoint.method} ${endpoint.path}`;
+    if (!byEndpoint.has(key)) byEndpoint.set(key, []);
+    byEndpoint.get(key)!.push(endpoint);
+  });
+  byEndpoint.forEach((endpoints, key) => {
+    md += `### ${key}\n\n`;
+    endpoints.forEach(endpoint => {
+      md += `- **${endpoint.service}.${endpoint.serviceMethod || '(field)'}** (${endpoint.file}:${endpoint.line})\n`;
+      md += `  - Callers: ${endpoint.callers.join(', ') || '-'}\n`;
+      md += `  - Screens: ${describeScreens(endpoint) || '-'}\n`;
+    });
+    md += `\n`;
+  });
+
+  const unresolved = catalog.endpoints.filter(endpoint => endpoint.url.startsWith('${'));
+  if (unresolved.length > 0) {
+    md += `## Unresolved Base URLs (${unresolved.length})\n\n`;
+    md += `| Expression | Resolved As | Location |\n`;
+    md += `|------------|-------------|----------|\n`;
+    unresolved.forEach(endpoint => {
+      md += `| \`${endpoint.expression}\` | \`${endpoint.url}\` | ${endpoint.file}:${endpoint.line} |\n`;
+    });
+    md += `\n`;
+  }
+
+  return md;
+}
+
+function formatEndpointsCsv(catalog: EndpointCatalog): string {
+  const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const rows = [['method', 'path', 'url', 'responseType', 'service', 'serviceMethod', 'callers', 'screens', 'routes', 'file', 'line'].join(',')];
+
+  catalog.endpoints.forEach(endpoint => {
+    rows.push([
+      endpoint.method,
+      endpoint.path,
+      endpoint.url,
+      endpoint.responseType || '',
+      endpoint.service,
+      endpoint.serviceMethod || '',
+      endpoint.callers.join(';'),
+      endpoint.screens.map(screen => screen.component).join(';'),
+      Array.from(new Set(endpoint.screens.flatMap(screen => screen.routes))).join(';'),
+      endpoint.file,
+      String(endpoint.line)
+    ].map(escape).join(','));
+  });
+
+  return rows.join('\n') + '\n';
+}
+
+function formatEndpointsConsole(catalog: EndpointCatalog): void {
+  console.log(`\n📊 HTTP Endpoint Catalogue\n`);
+
+  console.log(`Summary:`);
+  console.log(`  - HttpClient Calls: ${catalog.summary.totalCalls}`);
+  console.log(`  - Unique Endpoints: ${catalog.summary.uniqueEndpoints}`);
+  console.log(`  - Services: ${catalog.summary.totalServices}`);
+  console.log(`  - Screens: ${catalog.summary.totalScreens}`);
+  console.log(`  - Unresolved URLs: ${catalog.summary.unresolvedUrls}\n`);
+
+  if (catalog.endpoints.length > 0) {
+    console.log(`Endpoints:`);
+    catalog.endpoints.slice(0, 20).forEach(endpoint => {
+      const screens = endpoint.screens.map(screen => screen.component).join(', ');
+      console.log(`  - ${endpoint.method} ${endpoint.path} ← ${endpoint.service}.${endpoint.serviceMethod || '(field)'}${screens ? ` ← ${screens}` : ''}`);
+    });
+    if (catalog.endpoints.length > 20) {
+      console.log(`  ... and ${catalog.endpoints.length - 20} more`);
+    }
+    console.log('');
+  }
+}
+
 // ==================== Main ====================
 
+/**
+ * --all: 全サービスを追跡してマトリクスを出力
+ */
+function mainAll(args: string[]): void {
+  const projectDir = args[0];
+  const outputFormat = args.includes('--output') ? args[args.indexOf('--output') + 1] : 'md';
+  const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
+
+  if (!fs.existsSync(projectDir)) {
+    console.error(`Error: Project directory "${projectDir}" does not exist`);
+    process.exit(1);
+  }
+
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectDir, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const results: Array<{ target: AnalysisTarget; matrix: ServiceUsageMatrix }> = [];
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    const matrix = new ServiceUsageMatrixBuilder(target.path, model).build();
+
+    if (target.project) {
+      console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===`);
+    }
+    formatMatrixConsole(matrix);
+    results.push({ target, matrix });
+  }
+
+  if (savePath) {
+    let output: string;
+    if (outputFormat === 'json') {
+      output = JSON.stringify(
+        targets.some(t => t.project)
+          ? results.map(r => ({ project: r.target.project!.name, type: r.target.project!.type, matrix: r.matrix }))
+          : results[0].matrix,
+        null,
+        2
+      );
+    } else if (outputFormat === 'csv') {
+      output = results.map(r => (r.target.project ? `# ${r.target.project.name}\n` : '') + formatMatrixCsv(r.matrix)).join('\n');
+    } else {
+      output = results.map(r => formatProjectHeading(r.target) + formatMatrixMarkdown(r.matrix)).join('\n');
+    }
+    fs.writeFileSync(savePath, output);
+    console.log(`✓ Saved to ${savePath}`);
+  }
+}
+
+/**
+ * --endpoints: HttpClient の呼び出しをエンドポイント単位で一覧化
+ */
+function mainEndpoints(args: string[]): void {
+  const projectDir = args[0];
+  const pathFilter = args.includes('--path') ? args[args.indexOf('--path') + 1] : undefined;
+  const outputFormat = args.includes('--output') ? args[args.indexOf('--output') + 1] : 'md';
+  const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
+
+  if (!fs.existsSync(projectDir)) {
+    console.error(`Error: Project directory "${projectDir}" does not exist`);
+    process.exit(1);
+  }
+
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectDir, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const results: Array<{ target: AnalysisTarget; catalog: EndpointCatalog }> = [];
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    const catalog = new EndpointCatalogBuilder(target.path, model).build(pathFilter);
+
+    if (target.project) {
+      console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===`);
+    }
+    formatEndpointsConsole(catalog);
+    results.push({ target, catalog });
+  }
+
+  if (savePath) {
+    let output: string;
+    if (outputFormat === 'json') {
+      output = JSON.stringify(
+        targets.some(t => t.project)
+          ? results.map(r => ({ project: r.target.project!.name, type: r.target.project!.type, catalog: r.catalog }))
+          : results[0].catalog,
+        null,
+        2
+      );
+    } else if (outputFormat === 'csv') {
+      output = results.map(r => (r.target.project ? `# ${r.target.project.name}\n` : '') + formatEndpointsCsv(r.catalog)).join('\n');
+    } else {
+      output = results.map(r => formatProjectHeading(r.target) + formatEndpointsMarkdown(r.catalog, pathFilter)).join('\n');
+    }
+    fs.writeFileSync(savePath, output);
+    console.log(`✓ Saved to ${savePath}`);
+  }
+}
+
 function main(): void {
   const args = process.argv.slice(2);
 
   if (args.length < 2 || args.includes('--help')) {
     console.log(`
-Usage: npx ts-node src/trace-service-usage.ts <service-file> <project-dir> [options]
+Usage: npx ts-node src/trace-service-usage.ts <service-file|token> <project-dir> [options]
+       npx ts-node src/trace-service-usage.ts <project-dir> --all [options]
+       npx ts-node src/trace-service-usage.ts <project-dir> --endpoints [options]
 
 Arguments:
-  service-file       Path to the service file to trace
+  service-file       Path to the service (or InjectionToken) file to trace
+  token              Name of an InjectionToken, e.g. HTTP_INTERCEPTORS
   project-dir        Root directory of the Angular project
 
 Options:
+  --token <name>     Trace the given InjectionToken defined in service-file
+  --all              Trace every @Injectable and output a service x consumer matrix
+  --endpoints        List every HttpClient call with its service method and the screens that reach it
+  --path <url-path>  With --endpoints, only endpoints matching the path (e.g. /api/orders)
+  --output <format>  Output format for --all / --endpoints: md, csv, json (default: md)
   --save <path>      Save output to file
+  --project <names>  Trace within the given angular.json / project.json projects (comma separated)
+  --workspace        Trace within every project in the workspace
   --help             Show this help message
 
 Examples:
   npx ts-node src/trace-service-usage.ts ./src/app/services/user.service.ts ./src
   npx ts-node src/trace-service-usage.ts ./src/app/services/user.service.ts ./src --save usage.md
+  npx ts-node src/trace-service-usage.ts ./libs/auth/src/lib/auth.service.ts . --workspace
+  npx ts-node src/trace-service-usage.ts ./src/app/app.config.ts ./src --token API_CONFIG
+  npx ts-node src/trace-service-usage.ts HTTP_INTERCEPTORS ./src
+  npx ts-node src/trace-service-usage.ts ./src --all --output csv --save services.csv
+  npx ts-node src/trace-service-usage.ts ./src --endpoints --path /api/orders --save orders-endpoints.md
 `);
     process.exit(0);
   }
 
-  const serviceFile = args[0];
+  if (args.includes('--all')) {
+    mainAll(args);
+    return;
+  }
+  if (args.includes('--endpoints')) {
+    mainEndpoints(args);
+    return;
+  }
+
   const projectDir = args[1];
   const savePath = args.includes('--save') ? args[args.indexOf('--save') + 1] : null;
+  let serviceFile: string | null = args[0];
+  let tokenName = args.includes('--token') ? args[args.indexOf('--token') + 1] : undefined;
 
-  if (!fs.existsSync(serviceFile)) {
+  // ファイルが存在せず識別子の形をしていればトークン名として扱う
+  if (!fs.existsSync(serviceFile) && /^[A-Za-z_$][\w$]*$/.test(serviceFile)) {
+    tokenName = serviceFile;
+    serviceFile = null;
+  }
+
+  if (serviceFile && !fs.existsSync(serviceFile)) {
     console.error(`Error: Service file "${serviceFile}" does not exist`);
     process.exit(1);
   }
@@ -392,16 +1244,33 @@ Examples:
     process.exit(1);
   }
 
-  const tracer = new ServiceUsageTracer(serviceFile, projectDir);
-  const usage = tracer.trace();
+  let targets: AnalysisTarget[];
+  try {
+    targets = resolveAnalysisTargets(projectDir, args);
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const markdowns: string[] = [];
+  for (const target of targets) {
+    const model = new ProjectModel(target.path, target.tsconfigPath);
+    const tracer = new ServiceUsageTracer(serviceFile, target.path, model, tokenName);
+    const usage = tracer.trace();
 
-  formatConsole(usage);
+    if (target.project) {
+      console.log(`\n=== Project: ${target.project.name} (${target.project.type}) ===`);
+    }
+    formatConsole(usage);
+    markdowns.push(formatProjectHeading(target) + formatMarkdown(usage));
+  }
 
   if (savePath) {
-    const markdown = formatMarkdown(usage);
-    fs.writeFileSync(savePath, markdown);
+    fs.writeFileSync(savePath, markdowns.join('\n'));
     console.log(`✓ Saved to ${savePath}`);
   }
 }
 
-main();
+if (require.main === module) {
+  main();
+}
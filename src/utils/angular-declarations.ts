@@ -0,0 +1,343 @@
+/**
+ * angular-declarations.ts
+ * コンポーネント/ディレクティブ/パイプ/NgModuleの宣言をクラス名から解決し、
+ * セレクタ・パイプ名・コンパイルスコープ（テンプレートで使える宣言の集合）を求める
+ */
+
+import * as path from 'path';
+import { ProjectModel, ClassFact } from './project-model';
+import { getMetadataProperty, readString, readExpressionList } from './angular-metadata';
+
+// ==================== Interfaces ====================
+
+export type DeclarationKind = 'component' | 'directive' | 'pipe' | 'module';
+
+export interface AngularDeclaration {
+  name: string;
+  kind: DeclarationKind;
+  file: string | null; // ライブラリ（@angular/common など）の場合はnull
+  library?: string;
+  selector?: string;
+  pipeName?: string;
+  exportAs?: string;
+  standalone?: boolean; // 明示されている場合のみ
+  imports: string[];
+  declarations: string[];
+  exports: string[];
+  schemas: string[];
+}
+
+export interface ScopeEntry {
+  name: string; // imports / declarations に書かれた名前
+  declaration: AngularDeclaration | null; // 解決できなかった場合はnull
+  provides: AngularDeclaration[]; // テンプレートで使えるようになるコンポーネント/ディレクティブ/パイプ
+  source: 'imports' | 'declarations';
+}
+
+export interface CompilationScope {
+  kind: 'standalone' | 'module';
+  module?: AngularDeclaration;
+  entries: ScopeEntry[];
+  schemas: string[];
+}
+
+// ==================== Angular Library Declarations ====================
+
+// node_modules は解析しないため、よく使われる @angular/* の宣言を内蔵する
+const LIBRARY_DIRECTIVES: Record<string, { library: string; selector: string; exportAs?: string }> = {
+  NgIf: { library: '@angular/common', selector: '[ngIf]' },
+  NgForOf: { library: '@angular/common', selector: '[ngFor][ngForOf]' },
+  NgFor: { library: '@angular/common', selector: '[ngFor][ngForOf]' },
+  NgClass: { library: '@angular/common', selector: '[ngClass]' },
+  NgStyle: { library: '@angular/common', selector: '[ngStyle]' },
+  NgSwitch: { library: '@angular/common', selector: '[ngSwitch]' },
+  NgSwitchCase: { library: '@angular/common', selector: '[ngSwitchCase]' },
+  NgSwitchDefault: { library: '@angular/common', selector: '[ngSwitchDefault]' },
+  NgPlural: { library: '@angular/common', selector: '[ngPlural]' },
+  NgPluralCase: { library: '@angular/common', selector: '[ngPluralCase]' },
+  NgTemplateOutlet: { library: '@angular/common', selector: '[ngTemplateOutlet]' },
+  NgComponentOutlet: { library: '@angular/common', selector: '[ngComponentOutlet]' },
+  NgOptimizedImage: { library: '@angular/common', selector: 'img[ngSrc]' },
+  RouterOutlet: { library: '@angular/router', selector: 'router-outlet', exportAs: 'outlet' },
+  RouterLink: { library: '@angular/router', selector: '[routerLink]' },
+  RouterLinkActive: { library: '@angular/router', selector: '[routerLinkActive]', exportAs: 'routerLinkActive' },
+  NgModel: { library: '@angular/forms', selector: '[ngModel]:not([formControlName]):not([formControl])', exportAs: 'ngModel' },
+  NgModelGroup: { library: '@angular/forms', selector: '[ngModelGroup]', exportAs: 'ngModelGroup' },
+  NgForm: { library: '@angular/forms', selector: 'form:not([ngNoForm]):not([formGroup]),ng-form,[ngForm]', exportAs: 'ngForm' },
+  FormGroupDirective: { library: '@angular/forms', selector: '[formGroup]', exportAs: 'ngForm' },
+  FormControlName: { library: '@angular/forms', selector: '[formControlName]' },
+  FormControlDirective: { library: '@angular/forms', selector: '[formControl]', exportAs: 'ngForm' },
+  FormGroupName: { library: '@angular/forms', selector: '[formGroupName]' },
+  FormArrayName: { library: '@angular/forms', selector: '[formArrayName]' }
+};
+
+const LIBRARY_PIPES: Record<string, { library: string; name: string }> = {
+  AsyncPipe: { library: '@angular/common', name: 'async' },
+  DatePipe: { library: '@angular/common', name: 'date' },
+  UpperCasePipe: { library: '@angular/common', name: 'uppercase' },
+  LowerCasePipe: { library: '@angular/common', name: 'lowercase' },
+  TitleCasePipe: { library: '@angular/common', name: 'titlecase' },
+  CurrencyPipe: { library: '@angular/common', name: 'currency' },
+  DecimalPipe: { library: '@angular/common', name: 'number' },
+  PercentPipe: { library: '@angular/common', name: 'percent' },
+  JsonPipe: { library: '@angular/common', name: 'json' },
+  SlicePipe: { library: '@angular/common', name: 'slice' },
+  KeyValuePipe: { library: '@angular/common', name: 'keyvalue' },
+  I18nPluralPipe: { library: '@angular/common', name: 'i18nPlural' },
+  I18nSelectPipe: { library: '@angular/common', name: 'i18nSelect' }
+};
+
+const COMMON_MODULE_EXPORTS = [
+  'NgIf', 'NgForOf', 'NgClass', 'NgStyle', 'NgSwitch', 'NgSwitchCase', 'NgSwitchDefault',
+  'NgPlural', 'NgPluralCase', 'NgTemplateOutlet', 'NgComponentOutlet',
+  'AsyncPipe', 'DatePipe', 'UpperCasePipe', 'LowerCasePipe', 'TitleCasePipe', 'CurrencyPipe',
+  'DecimalPipe', 'PercentPipe', 'JsonPipe', 'SlicePipe', 'KeyValuePipe', 'I18nPluralPipe', 'I18nSelectPipe'
+];
+
+const LIBRARY_MODULES: Record<string, { library: string; exports: string[] }> = {
+  CommonModule: { library: '@angular/common', exports: COMMON_MODULE_EXPORTS },
+  BrowserModule: { library: '@angular/platform-browser', exports: ['CommonModule'] },
+  RouterModule: { library: '@angular/router', exports: ['RouterOutlet', 'RouterLink', 'RouterLinkActive'] },
+  FormsModule: { library: '@angular/forms', exports: ['NgModel', 'NgModelGroup', 'NgForm'] },
+  ReactiveFormsModule: {
+    library: '@angular/forms',
+    exports: ['FormGroupDirective', 'FormControlName', 'FormControlDirective', 'FormGroupName', 'FormArrayName']
+  }
+};
+
+const DECORATOR_KINDS: Record<string, DeclarationKind> = {
+  Component: 'component',
+  Directive: 'directive',
+  Pipe: 'pipe',
+  NgModule: 'module'
+};
+
+// ==================== Declaration Index ====================
+
+export class DeclarationIndex {
+  private model: ProjectModel;
+  private projectDeclarations: AngularDeclaration[] | null = null;
+  private byClass = new Map<string, AngularDeclaration | null>();
+
+  constructor(model: ProjectModel) {
+    this.model = model;
+  }
+
+  /**
+   * プロジェクト内のデコレータ付きクラスをすべて取得
+   */
+  getDeclarations(): AngularDeclaration[] {
+    if (!this.projectDeclarations) {
+      this.projectDeclarations = [];
+      for (const file of this.model.getTypeScriptFiles()) {
+        for (const cls of this.model.getFacts(file).classes) {
+          const declaration = this.getClassDeclaration(cls, file);
+          if (declaration) {
+            this.projectDeclarations.push(declaration);
+          }
+        }
+      }
+    }
+    return this.projectDeclarations;
+  }
+
+  /**
+   * ファイル内で参照されている名前（ローカルクラスまたはimport）を宣言に解決
+   */
+  findDeclaration(name: string, fromFile: string): AngularDeclaration | null {
+    // RouterModule.forChild(...) → RouterModule
+    const className = name.replace(/\.(forRoot|forChild)\(.*\)$/, '');
+    if (!/^[A-Za-z_$][\w$]*$/.test(className)) {
+      return null;
+    }
+
+    const facts = this.model.getFacts(fromFile);
+    const local = facts.classes.find(c => c.name === className);
+    if (local) {
+      return this.getClassDeclaration(local, fromFile);
+    }
+
+    for (const imp of facts.imports) {
+      const spec = imp.specifiers.find(s => s.local === className && s.kind === 'named');
+      if (!spec) continue;
+
+      const resolved = this.model.getModuleResolver().resolve(imp.source, fromFile);
+      if (resolved) {
+        return this.findExportedDeclaration(spec.imported, resolved, new Set());
+      }
+      return getLibraryDeclaration(spec.imported);
+    }
+
+    return null;
+  }
+
+  /**
+   * 宣言を declarations に含むNgModuleを探す
+   */
+  findOwningModule(declaration: AngularDeclaration): AngularDeclaration | null {
+    for (const module of this.getDeclarations().filter(d => d.kind === 'module' && d.file)) {
+      for (const name of module.declarations) {
+        const declared = this.findDeclaration(name, module.file!);
+        if (declared && declared.name === declaration.name && declared.file === declaration.file) {
+          return module;
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * NgModuleがエクスポートするコンポーネント/ディレクティブ/パイプ（再エクスポートしたモジュール分も含む）
+   */
+  getExportedDeclarations(module: AngularDeclaration, visited = new Set<AngularDeclaration>()): AngularDeclaration[] {
+    if (visited.has(module)) {
+      return [];
+    }
+    visited.add(module);
+
+    return module.exports.flatMap(name => {
+      const exported = module.file ? this.findDeclaration(name, module.file) : getLibraryDeclaration(name);
+      if (!exported) return [];
+      return exported.kind === 'module' ? this.getExportedDeclarations(exported, visited) : [exported];
+    });
+  }
+
+  /**
+   * コンポーネントのテンプレートで使える宣言の集合
+   * NgModuleの declarations に含まれる場合はそのモジュールのスコープ、それ以外はスタンドアロンの imports
+   */
+  getCompilationScope(declaration: AngularDeclaration): CompilationScope {
+    const module = this.findOwningModule(declaration);
+    const owner = module || declaration;
+    const entries: ScopeEntry[] = [];
+
+    if (module) {
+      for (const name of module.declarations) {
+        const declared = this.findDeclaration(name, module.file!);
+        entries.push({
+          name,
+          declaration: declared,
+          provides: declared && declared.kind !== 'module' ? [declared] : [],
+          source: 'declarations'
+        });
+      }
+    }
+
+    for (const name of owner.imports) {
+      const imported = owner.file ? this.findDeclaration(name, owner.file) : null;
+      entries.push({
+        name,
+        declaration: imported,
+        provides: !imported ? [] : imported.kind === 'module' ? this.getExportedDeclarations(imported) : [imported],
+        source: 'imports'
+      });
+    }
+
+    return {
+      kind: module ? 'module' : 'standalone',
+      module: module || undefined,
+      entries,
+      schemas: owner.schemas
+    };
+  }
+
+  private getClassDeclaration(cls: ClassFact, file: string): AngularDeclaration | null {
+    const key = `${path.resolve(file)}#${cls.name}`;
+    if (this.byClass.has(key)) {
+      return this.byClass.get(key)!;
+    }
+
+    const decorator = cls.decorators.find(d => DECORATOR_KINDS[d.name]);
+    let declaration: AngularDeclaration | null = null;
+
+    if (decorator) {
+      const metadata = decorator.metadata;
+      const standalone = getMetadataProperty(metadata, 'standalone');
+
+      declaration = {
+        name: cls.name,
+        kind: DECORATOR_KINDS[decorator.name],
+        file: path.resolve(file),
+        selector: readString(getMetadataProperty(metadata, 'selector')),
+        pipeName: decorator.name === 'Pipe' ? readString(getMetadataProperty(metadata, 'name')) : undefined,
+        exportAs: readString(getMetadataProperty(metadata, 'exportAs')),
+        standalone: standalone?.type === 'Literal' && typeof standalone.value === 'boolean' ? standalone.value : undefined,
+        imports: readExpressionList(getMetadataProperty(metadata, 'imports')),
+        declarations: readExpressionList(getMetadataProperty(metadata, 'declarations')),
+        exports: readExpressionList(getMetadataProperty(metadata, 'exports')),
+        schemas: readExpressionList(getMetadataProperty(metadata, 'schemas'))
+      };
+    }
+
+    this.byClass.set(key, declaration);
+    return declaration;
+  }
+
+  /**
+   * モジュールファイルからエクスポートされたクラスを探す（export * from / export { X } from を辿る）
+   */
+  private findExportedDeclaration(name: string, file: string, visited: Set<string>): AngularDeclaration | null {
+    if (visited.has(file)) {
+      return null;
+    }
+    visited.add(file);
+
+    const cls = this.model.getFacts(file).classes.find(c => c.name === name);
+    if (cls) {
+      return this.getClassDeclaration(cls, file);
+    }
+
+    const ast = this.model.getAst(file);
+    for (const node of ast?.body || []) {
+      if (!node.source) continue;
+
+      let target: string | null = null;
+      if (node.type === 'ExportAllDeclaration' && !node.exported) {
+        target = name;
+      } else if (node.type === 'ExportNamedDeclaration') {
+        const spec = node.specifiers.find((s: any) => (s.exported.name ?? s.exported.value) === name);
+        target = spec ? (spec.local.name ?? spec.local.value) : null;
+      }
+      if (!target) continue;
+
+      const resolved = this.model.getModuleResolver().resolve(node.source.value, file);
+      const found = resolved
+        ? this.findExportedDeclaration(target, resolved, visited)
+        : getLibraryDeclaration(target);
+      if (found) {
+        return found;
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * 内蔵している @angular/* の宣言を取得
+ */
+export function getLibraryDeclaration(name: string): AngularDeclaration | null {
+  const base = { name, file: null, imports: [], declarations: [], exports: [], schemas: [] };
+
+  if (LIBRARY_DIRECTIVES[name]) {
+    const { library, selector, exportAs } = LIBRARY_DIRECTIVES[name];
+    return { ...base, kind: 'directive', library, selector, exportAs, standalone: true };
+  }
+  if (LIBRARY_PIPES[name]) {
+    return { ...base, kind: 'pipe', library: LIBRARY_PIPES[name].library, pipeName: LIBRARY_PIPES[name].name, standalone: true };
+  }
+  if (LIBRARY_MODULES[name]) {
+    return { ...base, kind: 'module', library: LIBRARY_MODULES[name].library, exports: LIBRARY_MODULES[name].exports };
+  }
+
+  return null;
+}
+
+/**
+ * 内蔵している @angular/* のコンポーネント/ディレクティブ/パイプをすべて取得
+ */
+export function getLibraryDeclarations(): AngularDeclaration[] {
+  return [...Object.keys(LIBRARY_DIRECTIVES), ...Object.keys(LIBRARY_PIPES)]
+    .filter(name => name !== 'NgFor') // NgForOf の別名
+    .map(name => getLibraryDeclaration(name)!);
+}
@@ -0,0 +1,209 @@
+/**
+ * angular-metadata.ts
+ * @Component / @Directive などのデコレータ引数（ObjectExpression）から値を読み取る
+ */
+
+// ==================== Interfaces ====================
+
+export interface ComponentMetadata {
+  selector?: string;
+  standalone?: boolean;
+  imports: string[];
+  templateUrl?: string;
+  template?: string;
+  styleUrls: string[];
+  styles: string[];
+  changeDetection?: string;
+  encapsulation?: string;
+  providers: string[];
+  viewProviders: string[];
+  host: Record<string, string>;
+}
+
+// ==================== Metadata Readers ====================
+
+/**
+ * オブジェクトリテラルから指定キーのプロパティ値ノードを取得
+ */
+export function getMetadataProperty(metadata: any, name: string): any | null {
+  if (!metadata || metadata.type !== 'ObjectExpression') {
+    return null;
+  }
+
+  for (const prop of metadata.properties) {
+    if (prop.type !== 'Property') continue;
+    const key = prop.key?.name ?? prop.key?.value;
+    if (key === name) {
+      return prop.value;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 文字列リテラル・テンプレートリテラル（式なし）の値を取得
+ */
+export function readString(node: any): string | undefined {
+  if (!node) return undefined;
+
+  if (node.type === 'Literal' && typeof node.value === 'string') {
+    return node.value;
+  }
+  if (node.type === 'TemplateLiteral' && node.expressions.length === 0) {
+    return node.quasis.map((q: any) => q.value.cooked ?? q.value.raw).join('');
+  }
+
+  return undefined;
+}
+
+/**
+ * 文字列または文字列配列を配列として取得（styleUrl / styleUrls / styles）
+ */
+export function readStringList(node: any): string[] {
+  if (!node) return [];
+
+  if (node.type === 'ArrayExpression') {
+    return node.elements
+      .map((el: any) => readString(el))
+      .filter((value: string | undefined): value is string => value !== undefined);
+  }
+
+  const value = readString(node);
+  return value !== undefined ? [value] : [];
+}
+
+/**
+ * imports / providers などの配列要素を表示用の名前に変換
+ */
+export function readExpressionList(node: any): string[] {
+  if (!node) return [];
+
+  if (node.type === 'ArrayExpression') {
+    return node.elements
+      .filter((el: any) => el)
+      .map((el: any) => expressionToString(el));
+  }
+
+  return [expressionToString(node)];
+}
+
+/**
+ * 式ノードを簡潔な文字列表現に変換
+ * 例: ChangeDetectionStrategy.OnPush / RouterModule.forChild(...) / forwardRef(() => Foo) → Foo
+ */
+export function expressionToString(node: any): string {
+  if (!node) return '';
+
+  switch (node.type) {
+    case 'Identifier':
+      return node.name;
+    case 'ThisExpression':
+      return 'this';
+    case 'Literal':
+      return String(node.value);
+    case 'MemberExpression':
+      return `${expressionToString(node.object)}.${node.computed ? `[${expressionToString(node.property)}]` : node.property.name}`;
+    case 'CallExpression': {
+      const callee = expressionToString(node.callee);
+      // forwardRef(() => Foo) は参照先のクラス名として扱う
+      if (callee === 'forwardRef' && node.arguments[0]?.type === 'ArrowFunctionExpression') {
+        return expressionToString(node.arguments[0].body);
+      }
+      return `${callee}(${node.arguments.length > 0 ? '...' : ''})`;
+    }
+    case 'SpreadElement':
+      return `...${expressionToString(node.argument)}`;
+    case 'ObjectExpression': {
+      // プロバイダ定義 { provide: X, useClass: Y } は provide の値で表す
+      const provide = getMetadataProperty(node, 'provide');
+      return provide ? expressionToString(provide) : '{...}';
+    }
+    case 'ArrowFunctionExpression':
+    case 'FunctionExpression':
+      return '() => ...';
+    case 'TemplateLiteral':
+      return readString(node) ?? '`...`';
+    default:
+      return node.type;
+  }
+}
+
+/**
+ * loadChildren / loadComponent の遅延import先を読み取る
+ * 例: () => import('./x').then(m => m.X) → { source: './x', exportName: 'X' }
+ *     () => import('./x') → { source: './x', exportName: 'default' }
+ *     './x#XModule'（旧形式の文字列） → { source: './x', exportName: 'XModule' }
+ */
+export function parseLazyImport(node: any): { source: string; exportName?: string } | null {
+  if (!node) return null;
+
+  const legacy = readString(node);
+  if (legacy !== undefined) {
+    const [source, exportName] = legacy.split('#');
+    return { source, exportName };
+  }
+
+  const body = node.type === 'ArrowFunctionExpression' || node.type === 'FunctionExpression'
+    ? (node.body.type === 'BlockStatement'
+      ? node.body.body.find((s: any) => s.type === 'ReturnStatement')?.argument
+      : node.body)
+    : node;
+
+  if (body?.type === 'ImportExpression') {
+    return body.source?.type === 'Literal' ? { source: body.source.value, exportName: 'default' } : null;
+  }
+
+  if (body?.type === 'CallExpression' && body.callee?.property?.name === 'then' &&
+      body.callee.object?.type === 'ImportExpression' && body.callee.object.source?.type === 'Literal') {
+    const callback = body.arguments[0];
+    const exportName = callback?.body?.type === 'MemberExpression' ? callback.body.property?.name : undefined;
+    return { source: body.callee.object.source.value, exportName };
+  }
+
+  return null;
+}
+
+/**
+ * @Component デコレータの引数からメタデータを抽出
+ */
+export function extractComponentMetadata(metadata: any): ComponentMetadata {
+  const standaloneNode = getMetadataProperty(metadata, 'standalone');
+  const changeDetection = getMetadataProperty(metadata, 'changeDetection');
+  const encapsulation = getMetadataProperty(metadata, 'encapsulation');
+
+  const host: Record<string, string> = {};
+  const hostNode = getMetadataProperty(metadata, 'host');
+  if (hostNode?.type === 'ObjectExpression') {
+    for (const prop of hostNode.properties) {
+      if (prop.type !== 'Property') continue;
+      const key = prop.key?.value ?? prop.key?.name;
+      host[key] = readString(prop.value) ?? expressionToString(prop.value);
+    }
+  }
+
+  return {
+    selector: readString(getMetadataProperty(metadata, 'selector')),
+    standalone: standaloneNode?.type === 'Literal' && typeof standaloneNode.value === 'boolean'
+      ? standaloneNode.value
+      : undefined,
+    imports: readExpressionList(getMetadataProperty(metadata, 'imports')),
+    templateUrl: readString(getMetadataProperty(metadata, 'templateUrl')),
+    template: readString(getMetadataProperty(metadata, 'template')),
+    styleUrls: [
+      ...readStringList(getMetadataProperty(metadata, 'styleUrl')),
+      ...readStringList(getMetadataProperty(metadata, 'styleUrls'))
+    ],
+    styles: readStringList(getMetadataProperty(metadata, 'styles')),
+    // ChangeDetectionStrategy.OnPush → OnPush
+    changeDetection: changeDetection ? lastSegment(expressionToString(changeDetection)) : undefined,
+    encapsulation: encapsulation ? lastSegment(expressionToString(encapsulation)) : undefined,
+    providers: readExpressionList(getMetadataProperty(metadata, 'providers')),
+    viewProviders: readExpressionList(getMetadataProperty(metadata, 'viewProviders')),
+    host
+  };
+}
+
+function lastSegment(value: string): string {
+  return value.split('.').pop() || value;
+}
@@ -29,7 +29,7 @@ export interface CachedFileAnalysis {
 export class CacheManager {
   private cachePath: string;
   private cache: AnalysisCache | null = null;
-  private version = '1.0.0';
+  private version = '1.2.0';
 
   constructor(projectPath: string) {
     // .cache ディレクトリを作成
@@ -0,0 +1,71 @@
+/**
+ * class-members.ts
+ * クラス宣言のASTからメンバー（プロパティ、メソッド、アクセサ、コンストラクタ引数プロパティ）を抽出
+ */
+
+// ==================== Interfaces ====================
+
+export interface ClassMember {
+  name: string;
+  kind: 'property' | 'method' | 'getter' | 'setter' | 'parameter-property';
+  accessibility: 'public' | 'private' | 'protected';
+  isStatic: boolean;
+  isReadonly: boolean;
+  isEcmaPrivate: boolean; // #field
+  line: number;
+}
+
+// ==================== Member Extraction ====================
+
+/**
+ * ClassDeclaration / ClassExpression ノードからメンバー一覧を取得
+ */
+export function extractClassMembers(classNode: any): ClassMember[] {
+  const members: ClassMember[] = [];
+  const body = classNode?.body?.body || [];
+
+  for (const member of body) {
+    const key = member.key;
+    if (!key) continue;
+
+    const isEcmaPrivate = key.type === 'PrivateIdentifier';
+    const name = key.name ?? key.value;
+    if (typeof name !== 'string') continue;
+
+    const base = {
+      name,
+      accessibility: (isEcmaPrivate ? 'private' : member.accessibility || 'public') as ClassMember['accessibility'],
+      isStatic: member.static || false,
+      isReadonly: member.readonly || false,
+      isEcmaPrivate,
+      line: member.loc?.start.line || 0
+    };
+
+    if (member.type === 'PropertyDefinition' || member.type === 'TSAbstractPropertyDefinition') {
+      members.push({ ...base, kind: 'property' });
+    } else if (member.type === 'MethodDefinition' || member.type === 'TSAbstractMethodDefinition') {
+      if (member.kind === 'constructor') {
+        // constructor(private http: HttpClient) のような引数プロパティ
+        for (const param of member.value?.params || []) {
+          if (param.type !== 'TSParameterProperty') continue;
+          const paramName = param.parameter?.name ?? param.parameter?.left?.name;
+          if (!paramName) continue;
+          members.push({
+            name: paramName,
+            kind: 'parameter-property',
+            accessibility: param.accessibility || 'public',
+            isStatic: false,
+            isReadonly: param.readonly || false,
+            isEcmaPrivate: false,
+            line: param.loc?.start.line || 0
+          });
+        }
+      } else {
+        const kind = member.kind === 'get' ? 'getter' : member.kind === 'set' ? 'setter' : 'method';
+        members.push({ ...base, kind });
+      }
+    }
+  }
+
+  return members;
+}
@@ -0,0 +1,429 @@
+/**
+ * di-providers.ts
+ * プロバイダ定義（providers配列）と注入箇所（コンストラクタ引数 / inject()）をASTから読み取る
+ */
+
+import { expressionToString, getMetadataProperty } from './angular-metadata';
+import { ProjectModel } from './project-model';
+
+// ==================== Interfaces ====================
+
+export interface ProviderDefinition {
+  token: string;
+  shape: 'class' | 'useClass' | 'useValue' | 'useFactory' | 'useExisting' | 'function';
+  target?: string; // useClass / useExisting のクラス、useFactory の関数、provideXxx() の関数名
+  multi: boolean;
+  opaque?: boolean; // プロジェクト内の参照だが、提供するトークンを静的に読み取れない
+  file?: string; // 別ファイルの配列・関数から展開した場合の定義元（絶対パス）
+  line: number;
+}
+
+/**
+ * providers 配列内の識別子・関数呼び出しが指す定義
+ * node は定数の初期値または関数の戻り値（読み取れない関数の場合はnull）
+ */
+export interface ProviderSource {
+  node: any | null;
+  file: string;
+  resolve: ProviderResolver;
+}
+
+export type ProviderResolver = (reference: any) => ProviderSource | null;
+
+export interface InjectionTokenDefinition {
+  name: string;
+  description?: string;
+  type?: string; // InjectionToken<T> の T
+  providedIn?: string; // { providedIn: 'root', factory } で自己提供される場合
+  line: number;
+}
+
+export type InjectionModifier = 'optional' | 'self' | 'skipSelf' | 'host';
+
+export interface InjectionPoint {
+  token: string;
+  kind: 'constructor' | 'inject-decorator' | 'inject-function';
+  member?: string; // 受け取るプロパティ名・引数名
+  modifiers: InjectionModifier[];
+  line: number;
+}
+
+// ==================== Provider Parsing ====================
+
+const PROVIDER_SHAPES: Array<ProviderDefinition['shape']> = ['useClass', 'useValue', 'useFactory', 'useExisting'];
+
+const MODIFIER_DECORATORS: Record<string, InjectionModifier> = {
+  Optional: 'optional',
+  Self: 'self',
+  SkipSelf: 'skipSelf',
+  Host: 'host'
+};
+
+/**
+ * providers / viewProviders 配列を読み取る（ネストした配列・スプレッドは展開）
+ * resolve を渡すと、[...CORE_PROVIDERS] や provideApi() のようなプロジェクト内の配列・関数の中身も辿る
+ */
+export function parseProviders(node: any, resolve?: ProviderResolver, visited = new Set<any>()): ProviderDefinition[] {
+  if (!node || visited.has(node)) return [];
+
+  if (node.type === 'ArrayExpression') {
+    return node.elements.flatMap((el: any) => parseProviders(el, resolve, visited));
+  }
+  if (node.type === 'SpreadElement') {
+    // 解決できない配列のスプレッド（外部ライブラリの配列など）はクラスとして扱わない
+    const isReference = ['Identifier', 'MemberExpression'].includes(node.argument?.type);
+    return isReference && !resolve?.(node.argument) ? [] : parseProviders(node.argument, resolve, visited);
+  }
+
+  // makeEnvironmentProviders([...]) は配列をそのまま提供する
+  if (node.type === 'CallExpression' && expressionToString(node.callee) === 'makeEnvironmentProviders') {
+    return parseProviders(node.arguments[0], resolve, visited);
+  }
+
+  const provider = parseProvider(node);
+  if (!provider) return [];
+
+  const reference = node.type === 'CallExpression' ? node.callee : node;
+  const source = resolve && ['Identifier', 'MemberExpression'].includes(reference.type) ? resolve(reference) : null;
+  if (!source) return [provider];
+
+  visited.add(node);
+  const expanded = parseProviders(source.node, source.resolve, visited)
+    .map(definition => ({ ...definition, file: definition.file ?? source.file }));
+  visited.delete(node);
+
+  if (node.type === 'CallExpression') {
+    return [{ ...provider, opaque: source.node ? undefined : true }, ...expanded];
+  }
+  return expanded.length > 0 || source.node?.type === 'ArrayExpression' ? expanded : [{ ...provider, opaque: true }];
+}
+
+/**
+ * providers 内の識別子・関数名をプロジェクト内の const / function 宣言に解決する（import 先も辿る）
+ */
+export function createProviderResolver(model: ProjectModel, filePath: string): ProviderResolver {
+  return reference => {
+    const parts = referencePath(reference);
+    const declaration = parts ? findTopLevelDeclaration(model, filePath, parts[0], new Set()) : null;
+    if (!parts || !declaration) return null;
+
+    // appConfig.providers のようなプロパティ参照
+    let value = declaration.node;
+    for (const key of parts.slice(1)) {
+      value = getMetadataProperty(unwrapExpression(value), key);
+      if (!value) return null;
+    }
+
+    value = unwrapExpression(value);
+    const node = ['ArrowFunctionExpression', 'FunctionExpression', 'FunctionDeclaration'].includes(value?.type)
+      ? getReturnedExpression(value)
+      : value;
+    return { node, file: declaration.file, resolve: createProviderResolver(model, declaration.file) };
+  };
+}
+
+/**
+ * ファイル内のトップレベルの const / function 宣言（import されていれば定義元のファイルまで辿る）
+ */
+function findTopLevelDeclaration(model: ProjectModel, file: string, name: string, visited: Set<string>): { node: any; file: string } | null {
+  if (visited.has(`${file}#${name}`)) return null;
+  visited.add(`${file}#${name}`);
+
+  const ast = model.getAst(file);
+  for (const statement of ast?.body || []) {
+    const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+    if (declaration?.type === 'FunctionDeclaration' && declaration.id?.name === name) {
+      return { node: declaration, file };
+    }
+    if (declaration?.type !== 'VariableDeclaration' || declaration.kind !== 'const') continue;
+
+    const declarator = declaration.declarations.find((d: any) => d.id.type === 'Identifier' && d.id.name === name && d.init);
+    if (declarator) {
+      return { node: declarator.init, file };
+    }
+  }
+
+  for (const imp of model.getFacts(file).imports) {
+    const spec = imp.specifiers.find(s => s.kind === 'named' && s.local === name);
+    const target = spec ? model.getModuleResolver().resolve(imp.source, file) : null;
+    if (spec && target) {
+      return findTopLevelDeclaration(model, target, spec.imported, visited);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 関数の戻り値の式（return が1つだけの場合。return providers; の providers は関数内の const まで辿る）
+ */
+function getReturnedExpression(fn: any): any | null {
+  if (fn.body?.type !== 'BlockStatement') {
+    return unwrapExpression(fn.body);
+  }
+
+  const returns: any[] = [];
+  const collectReturns = (node: any): void => {
+    if (!node || typeof node !== 'object') return;
+    if (node.type === 'ReturnStatement') returns.push(node);
+    // 内側の関数の return は対象外
+    if (node !== fn.body && /Function/.test(node.type)) return;
+
+    for (const key in node) {
+      if (key === 'parent' || key === 'loc' || key === 'range') continue;
+      const child = node[key];
+      if (Array.isArray(child)) {
+        child.forEach(collectReturns);
+      } else if (child && typeof child.type === 'string') {
+        collectReturns(child);
+      }
+    }
+  };
+  collectReturns(fn.body);
+
+  const returned = returns.length === 1 ? unwrapExpression(returns[0].argument) : null;
+  if (returned?.type !== 'Identifier') {
+    return returned;
+  }
+
+  for (const statement of fn.body.body) {
+    if (statement.type !== 'VariableDeclaration' || statement.kind !== 'const') continue;
+    const declarator = statement.declarations.find((d: any) => d.id.type === 'Identifier' && d.id.name === returned.name);
+    if (declarator?.init) return unwrapExpression(declarator.init);
+  }
+  return null;
+}
+
+function referencePath(node: any): string[] | null {
+  switch (node?.type) {
+    case 'Identifier':
+      return [node.name];
+    case 'MemberExpression': {
+      const object = referencePath(node.object);
+      return object && !node.computed ? [...object, node.property.name] : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// [...] as Provider[] / satisfies
+function unwrapExpression(node: any): any {
+  while (['TSAsExpression', 'TSSatisfiesExpression', 'TSTypeAssertion', 'TSNonNullExpression'].includes(node?.type)) {
+    node = node.expression;
+  }
+  return node;
+}
+
+/**
+ * 1つのプロバイダを読み取る
+ * Foo / { provide: TOKEN, useClass: Foo, multi: true } / provideHttpClient() など
+ */
+export function parseProvider(node: any): ProviderDefinition | null {
+  if (!node) return null;
+  const line = node.loc?.start.line || 0;
+
+  if (node.type === 'Identifier' || node.type === 'MemberExpression') {
+    return { token: expressionToString(node), shape: 'class', multi: false, line };
+  }
+
+  if (node.type === 'ObjectExpression') {
+    const provide = getMetadataProperty(node, 'provide');
+    if (!provide) return null;
+
+    const shape = PROVIDER_SHAPES.find(name => getMetadataProperty(node, name)) || 'class';
+    const targetNode = shape !== 'class' ? getMetadataProperty(node, shape) : null;
+    const multi = getMetadataProperty(node, 'multi');
+
+    return {
+      token: expressionToString(provide),
+      shape,
+      target: targetNode && shape !== 'useValue' ? expressionToString(targetNode) : undefined,
+      multi: multi?.type === 'Literal' && multi.value === true,
+      line
+    };
+  }
+
+  // provideRouter(routes) / importProvidersFrom(SomeModule) のような関数呼び出し
+  if (node.type === 'CallExpression') {
+    const callee = expressionToString(node.callee);
+    return { token: `${callee}()`, shape: 'function', target: callee, multi: false, line };
+  }
+
+  return null;
+}
+
+// ==================== Injection Tokens ====================
+
+/**
+ * const TOKEN = new InjectionToken<T>('description', { providedIn, factory }) を探す
+ */
+export function findInjectionTokens(ast: any): InjectionTokenDefinition[] {
+  const tokens: InjectionTokenDefinition[] = [];
+
+  const traverse = (node: any): void => {
+    if (!node || typeof node !== 'object') return;
+
+    if (node.type === 'VariableDeclarator' && node.id?.type === 'Identifier' &&
+        node.init?.type === 'NewExpression' && node.init.callee?.name === 'InjectionToken') {
+      const [description, options] = node.init.arguments;
+      const typeNode = (node.init.typeArguments || node.init.typeParameters)?.params?.[0];
+      const providedIn = getMetadataProperty(options, 'providedIn');
+
+      tokens.push({
+        name: node.id.name,
+        description: description?.type === 'Literal' ? String(description.value) : undefined,
+        type: typeNode ? typeToString(typeNode) : undefined,
+        providedIn: providedIn?.type === 'Literal' ? String(providedIn.value) : undefined,
+        line: node.loc.start.line
+      });
+    }
+
+    for (const key in node) {
+      if (key === 'parent' || key === 'loc' || key === 'range') continue;
+      const child = node[key];
+      if (Array.isArray(child)) {
+        child.forEach(traverse);
+      } else if (child && typeof child.type === 'string') {
+        traverse(child);
+      }
+    }
+  };
+
+  traverse(ast);
+  return tokens;
+}
+
+/**
+ * 型注釈を文字列にする（Observable<Order[]> など）
+ */
+export function typeToString(node: any): string {
+  switch (node.type) {
+    case 'TSTypeReference': {
+      const args = (node.typeArguments || node.typeParameters)?.params || [];
+      const name = node.typeName.type === 'TSQualifiedName'
+        ? `${node.typeName.left.name}.${node.typeName.right.name}`
+        : node.typeName.name;
+      return args.length > 0 ? `${name}<${args.map(typeToString).join(', ')}>` : name;
+    }
+    case 'TSArrayType':
+      return `${typeToString(node.elementType)}[]`;
+    case 'TSUnionType':
+      return node.types.map(typeToString).join(' | ');
+    case 'TSTypeLiteral':
+      return '{...}';
+    case 'TSFunctionType':
+      return '(...) => ...';
+    default:
+      // TSStringKeyword → string
+      return node.type.replace(/^TS/, '').replace(/Keyword$/, '').toLowerCase();
+  }
+}
+
+// ==================== Injection Points ====================
+
+/**
+ * クラス内の注入箇所（コンストラクタ引数の型 / @Inject(TOKEN) / inject(TOKEN)）
+ */
+export function extractInjectionPoints(classNode: any): InjectionPoint[] {
+  const points: InjectionPoint[] = [];
+
+  for (const member of classNode?.body?.body || []) {
+    if (member.type === 'MethodDefinition' && member.kind === 'constructor') {
+      for (const param of member.value?.params || []) {
+        const point = parseConstructorParameter(param);
+        if (point) {
+          points.push(point);
+        }
+      }
+    }
+  }
+
+  points.push(...findInjectCalls(classNode?.body));
+  return points;
+}
+
+/**
+ * inject(TOKEN, { optional: true }) 呼び出しを探す
+ */
+export function findInjectCalls(root: any): InjectionPoint[] {
+  const points: InjectionPoint[] = [];
+
+  const traverse = (node: any, member?: string): void => {
+    if (!node || typeof node !== 'object') return;
+
+    if (node.type === 'PropertyDefinition') {
+      traverse(node.value, node.key?.name);
+      return;
+    }
+    if (node.type === 'VariableDeclarator') {
+      traverse(node.init, node.id?.name);
+      return;
+    }
+
+    if (node.type === 'CallExpression' && node.callee.type === 'Identifier' && node.callee.name === 'inject' && node.arguments[0]) {
+      const options = node.arguments[1];
+      points.push({
+        token: expressionToString(node.arguments[0]),
+        kind: 'inject-function',
+        member,
+        modifiers: options?.type === 'ObjectExpression'
+          ? (Object.values(MODIFIER_DECORATORS) as InjectionModifier[]).filter(modifier => {
+            const value = getMetadataProperty(options, modifier);
+            return value?.type === 'Literal' && value.value === true;
+          })
+          : [],
+        line: node.loc.start.line
+      });
+    }
+
+    for (const key in node) {
+      if (key === 'parent' || key === 'loc' || key === 'range') continue;
+      const child = node[key];
+      if (Array.isArray(child)) {
+        child.forEach(c => traverse(c, member));
+      } else if (child && typeof child.type === 'string') {
+        traverse(child, member);
+      }
+    }
+  };
+
+  traverse(root);
+  return points;
+}
+
+function parseConstructorParameter(param: any): InjectionPoint | null {
+  // constructor(private http: HttpClient) は TSParameterProperty で包まれる
+  const target = param.type === 'TSParameterProperty' ? param.parameter : param;
+  const decorators: any[] = [...(param.decorators || []), ...(target?.decorators || [])];
+  const identifier = target?.type === 'AssignmentPattern' ? target.left : target;
+
+  const modifiers = decorators
+    .map(dec => MODIFIER_DECORATORS[dec.expression?.callee?.name])
+    .filter((modifier): modifier is InjectionModifier => !!modifier);
+
+  // @Inject(TOKEN) が型注釈より優先
+  const injectDecorator = decorators.find(dec => dec.expression?.callee?.name === 'Inject');
+  if (injectDecorator?.expression.arguments[0]) {
+    return {
+      token: expressionToString(injectDecorator.expression.arguments[0]),
+      kind: 'inject-decorator',
+      member: identifier?.name,
+      modifiers,
+      line: param.loc?.start.line || 0
+    };
+  }
+
+  const typeName = identifier?.typeAnnotation?.typeAnnotation?.typeName;
+  if (!typeName) return null;
+
+  return {
+    token: expressionToString(typeName.type === 'TSQualifiedName'
+      ? { type: 'MemberExpression', object: typeName.left, property: typeName.right }
+      : typeName),
+    kind: 'constructor',
+    member: identifier?.name,
+    modifiers,
+    line: param.loc?.start.line || 0
+  };
+}
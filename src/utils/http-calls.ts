@@ -0,0 +1,230 @@
+/**
+ * http-calls.ts
+ * クラス内の HttpClient 呼び出し（this.http.get<T>(url) など）をASTから読み取る
+ */
+
+import { expressionToString, getMetadataProperty } from './angular-metadata';
+import { extractInjectionPoints, typeToString } from './di-providers';
+import { ProjectModel } from './project-model';
+
+// ==================== Interfaces ====================
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS' | 'JSONP' | 'REQUEST';
+
+export interface HttpCallSite {
+  method: HttpMethod;
+  url: string; // テンプレートリテラルの式部分は ${...} のまま
+  resolvedUrl?: string; // environment.apiUrl などの定数を値に置き換えたURL（解決関数を渡した場合）
+  responseType?: string; // get<T>() の T
+  caller?: string; // 呼び出しを含むメソッド・プロパティ名
+  line: number;
+}
+
+/**
+ * 式の値を文字列で返す（解決できなければnull）
+ */
+export type ExpressionResolver = (node: any) => string | null;
+
+// ==================== HttpClient Calls ====================
+
+const HTTP_METHODS: Record<string, HttpMethod> = {
+  get: 'GET',
+  post: 'POST',
+  put: 'PUT',
+  patch: 'PATCH',
+  delete: 'DELETE',
+  head: 'HEAD',
+  options: 'OPTIONS',
+  jsonp: 'JSONP',
+  request: 'REQUEST'
+};
+
+/**
+ * HttpClient を注入しているメンバー名（コンストラクタ引数 / inject(HttpClient)）
+ */
+export function getHttpClientMembers(classNode: any): string[] {
+  return extractInjectionPoints(classNode)
+    .filter(point => point.token === 'HttpClient' && point.member)
+    .map(point => point.member!);
+}
+
+/**
+ * クラス内の HttpClient 呼び出し
+ * this.http.get<T>(url) / http.post(url, body)（コンストラクタ引数） / this.http.request('GET', url)
+ */
+export function findHttpCalls(classNode: any, resolve?: ExpressionResolver): HttpCallSite[] {
+  const clients = getHttpClientMembers(classNode);
+  if (clients.length === 0) return [];
+
+  const calls: HttpCallSite[] = [];
+
+  const traverse = (node: any, caller?: string): void => {
+    if (!node || typeof node !== 'object') return;
+
+    if ((node.type === 'MethodDefinition' || node.type === 'PropertyDefinition') && node.key?.name) {
+      traverse(node.value, node.key.name);
+      return;
+    }
+
+    if (node.type === 'CallExpression' && node.callee.type === 'MemberExpression' && !node.callee.computed) {
+      const method = HTTP_METHODS[node.callee.property.name];
+      const client = node.callee.object;
+      const isClient = (client.type === 'MemberExpression' && client.object.type === 'ThisExpression' && clients.includes(client.property.name)) ||
+        (client.type === 'Identifier' && clients.includes(client.name));
+
+      if (method && isClient) {
+        const typeNode = (node.typeArguments || node.typeParameters)?.params?.[0];
+        const [first, second] = node.arguments;
+        const isRequest = method === 'REQUEST';
+        const requestMethod = isRequest && first?.type === 'Literal' ? String(first.value).toUpperCase() : null;
+        const urlNode = isRequest ? second : first;
+
+        calls.push({
+          method: requestMethod && requestMethod !== 'REQUEST' && Object.values(HTTP_METHODS).includes(requestMethod as HttpMethod) ? requestMethod as HttpMethod : method,
+          url: urlToString(urlNode),
+          resolvedUrl: resolve ? urlToString(urlNode, resolve) : undefined,
+          responseType: typeNode ? typeToString(typeNode) : undefined,
+          caller,
+          line: node.loc.start.line
+        });
+      }
+    }
+
+    for (const key in node) {
+      if (key === 'parent' || key === 'loc' || key === 'range') continue;
+      const child = node[key];
+      if (Array.isArray(child)) {
+        child.forEach(c => traverse(c, caller));
+      } else if (child && typeof child.type === 'string') {
+        traverse(child, caller);
+      }
+    }
+  };
+
+  traverse(classNode?.body);
+  return calls;
+}
+
+/**
+ * URL式を文字列にする（'/api/' + id や `${base}/orders` は式部分を ${...} で表す）
+ * resolve を渡すと、値が分かる式（environment.apiUrl など）はその値に置き換える
+ */
+export function urlToString(node: any, resolve?: ExpressionResolver): string {
+  if (!node) return '';
+
+  switch (node.type) {
+    case 'Literal':
+      return String(node.value);
+    case 'TemplateLiteral':
+      return node.quasis.map((quasi: any, i: number) =>
+        quasi.value.cooked + (i < node.expressions.length ? urlToString(node.expressions[i], resolve) : '')
+      ).join('');
+    case 'BinaryExpression':
+      if (node.operator === '+') {
+        return urlToString(node.left, resolve) + urlToString(node.right, resolve);
+      }
+      break;
+    case 'TSAsExpression':
+    case 'TSNonNullExpression':
+      return urlToString(node.expression, resolve);
+  }
+
+  return resolve?.(node) ?? `\${${expressionToString(node)}}`;
+}
+
+// ==================== URL Constants ====================
+
+/**
+ * URL式の中の定数を値に置き換える解決関数を作る
+ * this.baseUrl（クラスのフィールド初期化子）、モジュールの const、import した environment.apiUrl などを辿る
+ */
+export function createUrlResolver(model: ProjectModel, filePath: string, classNode?: any): ExpressionResolver {
+  const visiting = new Set<any>();
+
+  const evaluate = (node: any, file: string, cls?: any): string | null => {
+    if (visiting.has(node)) return null;
+    visiting.add(node);
+    const value = urlToString(node, inner => resolve(inner, file, cls));
+    visiting.delete(node);
+    return value;
+  };
+
+  const resolve = (node: any, file: string, cls?: any): string | null => {
+    const parts = referencePath(node);
+    if (!parts) return null;
+
+    if (parts[0] === 'this') {
+      const field = parts.length === 2
+        ? cls?.body?.body.find((member: any) => member.type === 'PropertyDefinition' && member.key?.name === parts[1] && member.value)
+        : null;
+      return field ? evaluate(field.value, file, cls) : null;
+    }
+
+    const constant = findConstant(model, file, parts[0], new Set());
+    if (!constant) return null;
+
+    let value = constant.init;
+    for (const key of parts.slice(1)) {
+      value = getMetadataProperty(unwrapExpression(value), key);
+      if (!value) return null;
+    }
+    return evaluate(value, constant.file);
+  };
+
+  return node => resolve(node, filePath, classNode);
+}
+
+/**
+ * ファイル内のトップレベルの const 宣言（import されていれば定義元のファイルまで辿る）
+ */
+function findConstant(model: ProjectModel, file: string, name: string, visited: Set<string>): { init: any; file: string } | null {
+  if (visited.has(`${file}#${name}`)) return null;
+  visited.add(`${file}#${name}`);
+
+  const ast = model.getAst(file);
+  for (const statement of ast?.body || []) {
+    const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+    if (declaration?.type !== 'VariableDeclaration' || declaration.kind !== 'const') continue;
+
+    const declarator = declaration.declarations.find((d: any) => d.id.type === 'Identifier' && d.id.name === name && d.init);
+    if (declarator) {
+      return { init: unwrapExpression(declarator.init), file };
+    }
+  }
+
+  for (const imp of model.getFacts(file).imports) {
+    const spec = imp.specifiers.find(s => s.kind === 'named' && s.local === name);
+    const target = spec ? model.getModuleResolver().resolve(imp.source, file) : null;
+    if (spec && target) {
+      return findConstant(model, target, spec.imported, visited);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * this.a.b / environment.apiUrl を ['this', 'a', 'b'] / ['environment', 'apiUrl'] にする
+ */
+function referencePath(node: any): string[] | null {
+  switch (node?.type) {
+    case 'ThisExpression':
+      return ['this'];
+    case 'Identifier':
+      return [node.name];
+    case 'MemberExpression': {
+      const object = referencePath(node.object);
+      return object && !node.computed ? [...object, node.property.name] : null;
+    }
+    default:
+      return null;
+  }
+}
+
+// { ... } as const / <T>{ ... } / satisfies
+function unwrapExpression(node: any): any {
+  while (['TSAsExpression', 'TSSatisfiesExpression', 'TSTypeAssertion', 'TSNonNullExpression'].includes(node?.type)) {
+    node = node.expression;
+  }
+  return node;
+}
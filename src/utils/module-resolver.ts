@@ -0,0 +1,230 @@
+/**
+ * module-resolver.ts
+ * tsconfig.json（extends / baseUrl / paths）を考慮してimport先のファイルを解決
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+// ==================== Interfaces ====================
+
+export interface TsConfigInfo {
+  configPath: string | null;
+  baseUrl?: string;
+  paths: Record<string, string[]>;
+  pathsBasePath: string;
+}
+
+// ==================== Module Resolver ====================
+
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts'];
+
+// ESM形式のimport（'./foo.js'）は対応するTypeScriptファイルを探す
+const JS_TO_TS_EXTENSIONS: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts']
+};
+
+export class ModuleResolver {
+  private config: TsConfigInfo;
+  private resolutionCache = new Map<string, string | null>();
+
+  constructor(projectPath: string, tsconfigPath?: string) {
+    const configPath = tsconfigPath
+      ? path.resolve(tsconfigPath)
+      : ModuleResolver.findTsConfig(path.resolve(projectPath));
+    this.config = ModuleResolver.loadTsConfig(configPath, path.resolve(projectPath));
+  }
+
+  /**
+   * 指定ディレクトリから親方向にtsconfig.jsonを探す
+   */
+  static findTsConfig(startDir: string): string | null {
+    let dir = startDir;
+    while (true) {
+      const candidate = path.join(dir, 'tsconfig.json');
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return null;
+      }
+      dir = parent;
+    }
+  }
+
+  /**
+   * tsconfigを読み込み、extendsチェーンを解決したbaseUrl/pathsを返す
+   */
+  static loadTsConfig(configPath: string | null, fallbackDir: string): TsConfigInfo {
+    if (!configPath || !fs.existsSync(configPath)) {
+      return { configPath: null, paths: {}, pathsBasePath: fallbackDir };
+    }
+
+    const configDir = path.dirname(configPath);
+    const read = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (read.error) {
+      console.warn(`Failed to read ${configPath}: ${ts.flattenDiagnosticMessageText(read.error.messageText, '\n')}`);
+      return { configPath, paths: {}, pathsBasePath: configDir };
+    }
+
+    // includeのファイル列挙は不要なのでreadDirectoryは空を返す
+    const host: ts.ParseConfigHost = {
+      useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+      readDirectory: () => [],
+      fileExists: ts.sys.fileExists,
+      readFile: ts.sys.readFile
+    };
+    const parsed = ts.parseJsonConfigFileContent(read.config, host, configDir, undefined, configPath);
+    const options = parsed.options;
+    // TypeScript は paths を定義した設定ファイルのディレクトリを内部オプション pathsBasePath に記録する
+    // （baseUrl がある場合はそちらが優先。TypeScript の getPathsBasePath と同じ順序）
+    const pathsBasePath = options['pathsBasePath'];
+
+    return {
+      configPath,
+      baseUrl: options.baseUrl,
+      paths: options.paths || {},
+      pathsBasePath: options.baseUrl ?? (typeof pathsBasePath === 'string' ? pathsBasePath : undefined) ?? configDir
+    };
+  }
+
+  getConfig(): TsConfigInfo {
+    return this.config;
+  }
+
+  /**
+   * import元ファイルからの相対/エイリアスimportを絶対パスに解決
+   * 外部パッケージや解決できないものはnull
+   */
+  resolve(source: string, containingFile: string): string | null {
+    const containingDir = path.dirname(path.resolve(containingFile));
+    const isRelative = source.startsWith('./') || source.startsWith('../') || source === '.' || source === '..';
+    const cacheKey = isRelative ? `${containingDir}\0${source}` : source;
+
+    if (this.resolutionCache.has(cacheKey)) {
+      return this.resolutionCache.get(cacheKey)!;
+    }
+
+    let resolved: string | null = null;
+    if (isRelative || path.isAbsolute(source)) {
+      resolved = this.tryFile(path.resolve(containingDir, source));
+    } else {
+      resolved = this.resolveWithPaths(source);
+      if (!resolved && this.config.baseUrl) {
+        resolved = this.tryFile(path.resolve(this.config.baseUrl, source));
+      }
+    }
+
+    this.resolutionCache.set(cacheKey, resolved);
+    return resolved;
+  }
+
+  /**
+   * 相対パスまたはtsconfigのエイリアスで解決されるimportかどうか
+   */
+  isInternal(source: string, containingFile: string): boolean {
+    return this.resolve(source, containingFile) !== null;
+  }
+
+  private resolveWithPaths(source: string): string | null {
+    // TypeScriptと同じく、最も長いプレフィックスにマッチしたパターンを優先
+    let bestPattern: string | null = null;
+    let bestMatch = '';
+    let bestPrefixLength = -1;
+
+    for (const pattern of Object.keys(this.config.paths)) {
+      const starIndex = pattern.indexOf('*');
+      if (starIndex === -1) {
+        if (pattern === source) {
+          bestPattern = pattern;
+          bestMatch = '';
+          break;
+        }
+        continue;
+      }
+
+      const prefix = pattern.slice(0, starIndex);
+      const suffix = pattern.slice(starIndex + 1);
+      if (
+        source.length >= prefix.length + suffix.length &&
+        source.startsWith(prefix) &&
+        source.endsWith(suffix) &&
+        prefix.length > bestPrefixLength
+      ) {
+        bestPattern = pattern;
+        bestMatch = source.slice(prefix.length, source.length - suffix.length);
+        bestPrefixLength = prefix.length;
+      }
+    }
+
+    if (bestPattern === null) {
+      return null;
+    }
+
+    for (const target of this.config.paths[bestPattern]) {
+      const substituted = target.replace('*', bestMatch);
+      const resolved = this.tryFile(path.resolve(this.config.pathsBasePath, substituted));
+      if (resolved) {
+        return resolved;
+      }
+    }
+
+    return null;
+  }
+
+  private tryFile(candidate: string): string | null {
+    const ext = path.extname(candidate);
+
+    if (SOURCE_EXTENSIONS.includes(ext) && this.isFile(candidate)) {
+      return candidate;
+    }
+
+    if (JS_TO_TS_EXTENSIONS[ext]) {
+      const base = candidate.slice(0, -ext.length);
+      for (const tsExt of JS_TO_TS_EXTENSIONS[ext]) {
+        if (this.isFile(base + tsExt)) {
+          return base + tsExt;
+        }
+      }
+    }
+
+    for (const sourceExt of SOURCE_EXTENSIONS) {
+      if (this.isFile(candidate + sourceExt)) {
+        return candidate + sourceExt;
+      }
+    }
+
+    // バレルファイル（index.ts）
+    if (this.isDirectory(candidate)) {
+      for (const sourceExt of SOURCE_EXTENSIONS) {
+        const indexFile = path.join(candidate, `index${sourceExt}`);
+        if (this.isFile(indexFile)) {
+          return indexFile;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private isFile(filePath: string): boolean {
+    try {
+      return fs.statSync(filePath).isFile();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private isDirectory(filePath: string): boolean {
+    try {
+      return fs.statSync(filePath).isDirectory();
+    } catch (error) {
+      return false;
+    }
+  }
+}
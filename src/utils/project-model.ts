@@ -0,0 +1,258 @@
+/**
+ * project-model.ts
+ * ファイル探索・AST・抽出済み情報を1回だけ構築し、全アナライザで共有する
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse } from '@typescript-eslint/typescript-estree';
+import { ModuleResolver } from './module-resolver';
+
+// ==================== Interfaces ====================
+
+export interface SourceFile {
+  path: string;
+  content: string;
+  ast: any | null;
+  parseError?: string;
+}
+
+export interface FileFacts {
+  imports: ImportFact[];
+  classes: ClassFact[];
+}
+
+export interface ImportFact {
+  source: string;
+  specifiers: ImportSpecifierFact[];
+  line: number;
+}
+
+export interface ImportSpecifierFact {
+  kind: 'named' | 'default' | 'namespace';
+  imported: string;
+  local: string;
+}
+
+export interface ClassFact {
+  name: string;
+  line: number;
+  decorators: DecoratorFact[];
+  implements: string[];
+  extends?: string;
+  node: any;
+}
+
+export interface DecoratorFact {
+  name: string;
+  metadata: any | null;
+  node: any;
+}
+
+// ==================== Project Model ====================
+
+const IGNORED_DIRECTORIES = ['node_modules', 'dist', 'coverage'];
+const TYPESCRIPT_FILE = /\.(ts|tsx|mts|cts)$/;
+const SPEC_FILE = /\.spec\.(ts|tsx|mts|cts)$/;
+
+export class ProjectModel {
+  readonly projectPath: string;
+  private typeScriptFiles: string[] | null = null;
+  private htmlFiles: string[] | null = null;
+  private sources = new Map<string, SourceFile>();
+  private facts = new Map<string, FileFacts>();
+  private parseCount = 0;
+  private tsconfigPath?: string;
+  private moduleResolver: ModuleResolver | null = null;
+
+  constructor(projectPath: string, tsconfigPath?: string) {
+    this.projectPath = path.resolve(projectPath);
+    this.tsconfigPath = tsconfigPath;
+  }
+
+  /**
+   * プロジェクト配下の.ts/.tsx/.mts/.ctsファイル（specを除く）を絶対パスで取得
+   */
+  getTypeScriptFiles(): string[] {
+    if (!this.typeScriptFiles) {
+      this.typeScriptFiles = this.collectFiles(
+        item => TYPESCRIPT_FILE.test(item) && !SPEC_FILE.test(item)
+      );
+    }
+    return this.typeScriptFiles;
+  }
+
+  /**
+   * プロジェクト配下の.htmlファイルを絶対パスで取得
+   */
+  getHtmlFiles(): string[] {
+    if (!this.htmlFiles) {
+      this.htmlFiles = this.collectFiles(item => item.endsWith('.html'));
+    }
+    return this.htmlFiles;
+  }
+
+  /**
+   * ファイル内容とASTを取得（初回アクセス時のみ読み込み・パース）
+   */
+  getSourceFile(filePath: string): SourceFile {
+    const absPath = path.resolve(filePath);
+    const cached = this.sources.get(absPath);
+    if (cached) {
+      return cached;
+    }
+
+    const content = fs.readFileSync(absPath, 'utf-8');
+    const source: SourceFile = { path: absPath, content, ast: null };
+
+    if (TYPESCRIPT_FILE.test(absPath)) {
+      try {
+        this.parseCount++;
+        source.ast = parse(content, {
+          loc: true,
+          range: true,
+          comment: false,
+          jsx: absPath.endsWith('.tsx')
+        });
+      } catch (error) {
+        source.parseError = String(error);
+      }
+    }
+
+    this.sources.set(absPath, source);
+    return source;
+  }
+
+  getContent(filePath: string): string {
+    return this.getSourceFile(filePath).content;
+  }
+
+  /**
+   * ASTを取得（パースに失敗した場合はnull）
+   */
+  getAst(filePath: string): any | null {
+    return this.getSourceFile(filePath).ast;
+  }
+
+  /**
+   * import文とデコレータ付きクラスの情報を取得
+   */
+  getFacts(filePath: string): FileFacts {
+    const absPath = path.resolve(filePath);
+    const cached = this.facts.get(absPath);
+    if (cached) {
+      return cached;
+    }
+
+    const facts = extractFacts(this.getAst(absPath));
+    this.facts.set(absPath, facts);
+    return facts;
+  }
+
+  /**
+   * tsconfigのpaths/baseUrlを考慮したimport解決器を取得
+   */
+  getModuleResolver(): ModuleResolver {
+    if (!this.moduleResolver) {
+      this.moduleResolver = new ModuleResolver(this.projectPath, this.tsconfigPath);
+    }
+    return this.moduleResolver;
+  }
+
+  /**
+   * 実際にパースを行った回数（同一ファイルは1回のみ）
+   */
+  getParseCount(): number {
+    return this.parseCount;
+  }
+
+  relative(filePath: string): string {
+    return path.relative(this.projectPath, path.resolve(filePath));
+  }
+
+  private collectFiles(predicate: (item: string) => boolean): string[] {
+    const files: string[] = [];
+
+    const traverse = (currentPath: string): void => {
+      try {
+        const items = fs.readdirSync(currentPath);
+
+        for (const item of items) {
+          const fullPath = path.join(currentPath, item);
+          const stat = fs.statSync(fullPath);
+
+          if (stat.isDirectory()) {
+            if (!item.startsWith('.') && !IGNORED_DIRECTORIES.includes(item)) {
+              traverse(fullPath);
+            }
+          } else if (stat.isFile() && predicate(item)) {
+            files.push(fullPath);
+          }
+        }
+      } catch (error) {
+        console.error(`Error reading directory ${currentPath}:`, error);
+      }
+    };
+
+    traverse(this.projectPath);
+    return files;
+  }
+}
+
+// ==================== Fact Extraction ====================
+
+function extractFacts(ast: any | null): FileFacts {
+  const facts: FileFacts = { imports: [], classes: [] };
+  if (!ast) {
+    return facts;
+  }
+
+  const traverse = (node: any): void => {
+    if (!node) return;
+
+    if (node.type === 'ImportDeclaration') {
+      facts.imports.push({
+        source: node.source.value,
+        specifiers: (node.specifiers || []).map((spec: any) => ({
+          kind: spec.type === 'ImportDefaultSpecifier'
+            ? 'default'
+            : spec.type === 'ImportNamespaceSpecifier' ? 'namespace' : 'named',
+          imported: spec.imported?.name || spec.imported?.value || spec.local.name,
+          local: spec.local.name
+        })),
+        line: node.loc.start.line
+      });
+    }
+
+    if (node.type === 'ClassDeclaration' && node.id) {
+      facts.classes.push({
+        name: node.id.name,
+        line: node.loc.start.line,
+        decorators: (node.decorators || []).map((dec: any) => ({
+          name: dec.expression?.callee?.name || dec.expression?.name || '',
+          metadata: dec.expression?.arguments?.[0] || null,
+          node: dec
+        })),
+        implements: (node.implements || [])
+          .map((impl: any) => impl.expression?.name)
+          .filter((name: string | undefined) => !!name),
+        extends: node.superClass?.name,
+        node
+      });
+    }
+
+    for (const key in node) {
+      if (key === 'parent') continue;
+      if (node[key] && typeof node[key] === 'object') {
+        if (Array.isArray(node[key])) {
+          node[key].forEach((child: any) => traverse(child));
+        } else {
+          traverse(node[key]);
+        }
+      }
+    }
+  };
+
+  traverse(ast);
+  return facts;
+}
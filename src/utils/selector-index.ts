@@ -0,0 +1,173 @@
+/**
+ * selector-index.ts
+ * プロジェクト内の @Component / @Directive セレクタと @Pipe 名から、クラスとファイルを引くためのレジストリ
+ */
+
+import { ProjectModel } from './project-model';
+import { AngularDeclaration, DeclarationIndex, getLibraryDeclarations } from './angular-declarations';
+import { TemplateElement, parseTemplate, getTemplateElements, matchesSelector, splitTopLevel } from './template-parser';
+
+// ==================== Interfaces ====================
+
+export interface SelectorEntry {
+  name: string;
+  kind: 'component' | 'directive' | 'pipe';
+  file: string | null; // プロジェクトルートからの相対パス（ライブラリの場合はnull）
+  library?: string;
+  selector?: string;
+  selectors: string[]; // カンマ区切りを分割したもの
+  pipeName?: string;
+  exportAs?: string;
+  standalone?: boolean;
+}
+
+export interface SelectorConflict {
+  kind: 'selector' | 'pipe';
+  key: string;
+  entries: SelectorEntry[];
+}
+
+// ==================== Selector Index ====================
+
+export class SelectorIndex {
+  private model: ProjectModel;
+  private declarations: DeclarationIndex;
+  private entries: SelectorEntry[] | null = null;
+  private libraryEntries: SelectorEntry[] | null = null;
+
+  constructor(model: ProjectModel, declarations?: DeclarationIndex) {
+    this.model = model;
+    this.declarations = declarations || new DeclarationIndex(model);
+  }
+
+  /**
+   * プロジェクト内のコンポーネント/ディレクティブ/パイプ
+   */
+  getEntries(): SelectorEntry[] {
+    if (!this.entries) {
+      this.entries = this.declarations.getDeclarations()
+        .filter(decl => decl.kind !== 'module')
+        .map(decl => this.toEntry(decl))
+        .sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name));
+    }
+    return this.entries;
+  }
+
+  /**
+   * プロジェクトと内蔵の @angular/* 宣言を合わせたもの
+   */
+  getAllEntries(): SelectorEntry[] {
+    if (!this.libraryEntries) {
+      this.libraryEntries = getLibraryDeclarations().map(decl => this.toEntry(decl));
+    }
+    return [...this.getEntries(), ...this.libraryEntries];
+  }
+
+  /**
+   * 要素に一致するコンポーネント/ディレクティブ
+   */
+  matchElement(element: TemplateElement): SelectorEntry[] {
+    return this.getAllEntries().filter(entry => entry.selector && matchesSelector(element, entry.selector));
+  }
+
+  findPipe(name: string): SelectorEntry[] {
+    return this.getAllEntries().filter(entry => entry.pipeName === name);
+  }
+
+  /**
+   * クラス名・セレクタ（全体またはカンマ区切りの一部）・パイプ名で検索
+   */
+  find(query: string): SelectorEntry[] {
+    const normalized = query.trim();
+    return this.getAllEntries().filter(entry =>
+      entry.name === normalized ||
+      entry.selector === normalized ||
+      entry.selectors.includes(normalized) ||
+      entry.pipeName === normalized
+    );
+  }
+
+  /**
+   * タグ・HTML断片・セレクタ・パイプ名が何に解決されるか
+   * 例: "app-user-card" / "<button appTooltip>" / "[appTooltip]" / "currency"
+   */
+  whatIs(input: string): SelectorEntry[] {
+    const element = toElement(input);
+    const matched = element ? this.matchElement(element) : [];
+    return [...matched, ...this.findPipe(input.trim())];
+  }
+
+  /**
+   * 同じセレクタやパイプ名を持つ宣言の重複
+   */
+  getConflicts(): SelectorConflict[] {
+    const groups = new Map<string, SelectorConflict>();
+
+    for (const entry of this.getEntries()) {
+      const keys: Array<[SelectorConflict['kind'], string]> = entry.kind === 'pipe'
+        ? [['pipe', entry.pipeName || '']]
+        : entry.selectors.map(selector => ['selector', selector] as [SelectorConflict['kind'], string]);
+
+      for (const [kind, key] of keys) {
+        if (!key) continue;
+        const id = `${kind}:${key}`;
+        if (!groups.has(id)) {
+          groups.set(id, { kind, key, entries: [] });
+        }
+        groups.get(id)!.entries.push(entry);
+      }
+    }
+
+    // ディレクティブは同じセレクタを共有できるため、コンポーネントとパイプのみ対象
+    return Array.from(groups.values()).filter(group =>
+      group.kind === 'pipe'
+        ? group.entries.length > 1
+        : group.entries.filter(e => e.kind === 'component').length > 1
+    );
+  }
+
+  private toEntry(decl: AngularDeclaration): SelectorEntry {
+    return {
+      name: decl.name,
+      kind: decl.kind as SelectorEntry['kind'],
+      file: decl.file ? this.model.relative(decl.file) : null,
+      library: decl.library,
+      selector: decl.selector,
+      selectors: decl.selector ? splitTopLevel(decl.selector, [',']).map(s => s.trim()).filter(s => s) : [],
+      pipeName: decl.pipeName,
+      exportAs: decl.exportAs,
+      standalone: decl.standalone
+    };
+  }
+}
+
+/**
+ * 入力を照合用の要素に変換（HTML断片はそのまま、セレクタは要素に組み立てる）
+ */
+function toElement(input: string): TemplateElement | null {
+  let source = input.trim();
+
+  if (!source.startsWith('<')) {
+    // button[type=submit][appTooltip].primary → <button type="submit" appTooltip class="primary">
+    const tag = /^[a-zA-Z][\w-]*/.exec(source)?.[0];
+    if (!tag && !/^[[.]/.test(source)) {
+      return null;
+    }
+
+    const attributes: string[] = [];
+    const attrPattern = /\[([^\]=]+)(?:=["']?([^\]"']*)["']?)?\]/g;
+    let match: RegExpExecArray | null;
+    while ((match = attrPattern.exec(source)) !== null) {
+      attributes.push(match[2] !== undefined ? `${match[1].trim()}="${match[2]}"` : match[1].trim());
+    }
+
+    const classes = (source.replace(attrPattern, '').match(/\.[\w-]+/g) || []).map(c => c.slice(1));
+    if (classes.length > 0) {
+      attributes.push(`class="${classes.join(' ')}"`);
+    }
+
+    source = `<${[tag || 'div', ...attributes].join(' ')}>`;
+  }
+
+  return getTemplateElements(parseTemplate(source))[0] || null;
+}
@@ -0,0 +1,943 @@
+/**
+ * template-parser.ts
+ * Angularテンプレート（HTML + 制御フローブロック + バインディング構文）をパースする
+ *
+ * - 要素・属性（[prop] / (event) / [(twoWay)] / bind- / on- / bindon- / *structural / #ref / let-）
+ * - 補間 {{ }} とパイプ（引数付き、|| とは区別）
+ * - @if / @else / @for / @empty / @switch / @case / @default / @defer（@placeholder / @loading / @error）/ @let
+ */
+
+// ==================== Interfaces ====================
+
+export type TemplateNode = TemplateElement | TemplateText | TemplateBlock | TemplateLetDeclaration;
+
+export interface TemplateElement {
+  kind: 'element';
+  name: string;
+  attributes: TemplateAttribute[];
+  children: TemplateNode[];
+  line: number;
+}
+
+export type TemplateAttributeKind =
+  | 'static'
+  | 'property'
+  | 'event'
+  | 'two-way'
+  | 'structural'
+  | 'reference'
+  | 'let'
+  | 'animation';
+
+export interface TemplateAttribute {
+  kind: TemplateAttributeKind;
+  rawName: string;
+  name: string;
+  value: string;
+  line: number;
+  expressions: TemplateExpression[];
+  variables: string[];
+}
+
+export interface TemplateText {
+  kind: 'text';
+  value: string;
+  line: number;
+  expressions: TemplateExpression[];
+}
+
+export interface TemplateBlock {
+  kind: 'block';
+  name: string;
+  parameters: string;
+  expressions: TemplateExpression[];
+  variables: string[];
+  children: TemplateNode[];
+  line: number;
+}
+
+export interface TemplateLetDeclaration {
+  kind: 'let';
+  name: string;
+  value: string;
+  expressions: TemplateExpression[];
+  line: number;
+}
+
+export type TemplateExpressionContext =
+  | 'interpolation'
+  | 'property'
+  | 'event'
+  | 'two-way'
+  | 'structural'
+  | 'block'
+  | 'let';
+
+export interface TemplateExpression {
+  source: string;
+  context: TemplateExpressionContext;
+  line: number;
+  pipes: TemplatePipe[];
+}
+
+export interface TemplatePipe {
+  name: string;
+  arguments: string[];
+}
+
+export interface TemplateParseError {
+  message: string;
+  line: number;
+}
+
+export interface ParsedTemplate {
+  nodes: TemplateNode[];
+  errors: TemplateParseError[];
+}
+
+// ==================== Template Parser ====================
+
+const BLOCK_NAMES = [
+  'if', 'else', 'for', 'empty', 'switch', 'case', 'default',
+  'defer', 'placeholder', 'loading', 'error'
+];
+
+const VOID_ELEMENTS = [
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'source', 'track', 'wbr'
+];
+
+const RAW_TEXT_ELEMENTS = ['script', 'style'];
+
+type OpenContainer = TemplateElement | TemplateBlock;
+
+/**
+ * テンプレート文字列をパースする（構文エラーがあっても可能な範囲で結果を返す）
+ */
+export function parseTemplate(source: string): ParsedTemplate {
+  return new TemplateParser(source).parse();
+}
+
+class TemplateParser {
+  private pos = 0;
+  private lineStarts: number[] = [0];
+  private root: TemplateNode[] = [];
+  private stack: OpenContainer[] = [];
+  private errors: TemplateParseError[] = [];
+  private icuDepth = 0;
+
+  constructor(private source: string) {
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  parse(): ParsedTemplate {
+    let textStart = this.pos;
+
+    const flushText = (end: number): void => {
+      if (end > textStart) {
+        this.addText(textStart, end);
+      }
+    };
+
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos];
+
+      if (this.startsWith('<!--')) {
+        flushText(this.pos);
+        const end = this.source.indexOf('-->', this.pos + 4);
+        this.pos = end === -1 ? this.source.length : end + 3;
+        textStart = this.pos;
+      } else if (this.startsWith('{{')) {
+        // 補間はテキストの一部として扱い、中の { } をブロックと誤認しない
+        const end = this.findInterpolationEnd(this.pos + 2);
+        this.pos = end === -1 ? this.source.length : end + 2;
+      } else if (ch === '<' && this.source[this.pos + 1] === '/') {
+        flushText(this.pos);
+        this.parseClosingTag();
+        textStart = this.pos;
+      } else if (ch === '<' && /[a-zA-Z]/.test(this.source[this.pos + 1] || '')) {
+        flushText(this.pos);
+        this.parseElement();
+        textStart = this.pos;
+      } else if (ch === '@' && this.isBlockStart()) {
+        flushText(this.pos);
+        this.parseBlock();
+        textStart = this.pos;
+      } else if (ch === '{') {
+        // ICU式 {count, plural, ...}
+        this.icuDepth++;
+        this.pos++;
+      } else if (ch === '}') {
+        if (this.icuDepth > 0) {
+          this.icuDepth--;
+          this.pos++;
+        } else if (this.stack.some(c => c.kind === 'block')) {
+          flushText(this.pos);
+          this.closeBlock();
+          this.pos++;
+          textStart = this.pos;
+        } else {
+          this.pos++;
+        }
+      } else {
+        this.pos++;
+      }
+    }
+    flushText(this.pos);
+
+    for (const open of this.stack) {
+      this.errors.push({
+        message: open.kind === 'block' ? `Unclosed block @${open.name}` : `Unclosed element <${open.name}>`,
+        line: open.line
+      });
+    }
+
+    return { nodes: this.root, errors: this.errors };
+  }
+
+  // ==================== Elements ====================
+
+  private parseElement(): void {
+    const line = this.lineAt(this.pos);
+    this.pos++; // <
+    const name = this.readWhile(c => /[\w\-:.]/.test(c));
+    const element: TemplateElement = { kind: 'element', name, attributes: [], children: [], line };
+
+    let selfClosing = false;
+    while (this.pos < this.source.length) {
+      this.skipWhitespace();
+      if (this.startsWith('/>')) {
+        selfClosing = true;
+        this.pos += 2;
+        break;
+      }
+      if (this.source[this.pos] === '>') {
+        this.pos++;
+        break;
+      }
+      if (this.pos >= this.source.length) {
+        break;
+      }
+
+      const attrLine = this.lineAt(this.pos);
+      const attrName = this.readWhile(c => !/[\s=>]/.test(c) && !(c === '/' && this.source[this.pos + 1] === '>'));
+      if (!attrName) {
+        // 不正な文字は読み飛ばす
+        this.pos++;
+        continue;
+      }
+
+      let value = '';
+      this.skipWhitespace();
+      if (this.source[this.pos] === '=') {
+        this.pos++;
+        this.skipWhitespace();
+        value = this.readAttributeValue();
+      }
+
+      element.attributes.push(createAttribute(attrName, value, attrLine));
+    }
+
+    this.appendNode(element);
+
+    const lowerName = name.toLowerCase();
+    if (RAW_TEXT_ELEMENTS.includes(lowerName) && !selfClosing) {
+      const closeTag = `</${lowerName}`;
+      const end = this.source.toLowerCase().indexOf(closeTag, this.pos);
+      const tagEnd = end === -1 ? -1 : this.source.indexOf('>', end);
+      this.pos = tagEnd === -1 ? this.source.length : tagEnd + 1;
+      return;
+    }
+
+    if (!selfClosing && !VOID_ELEMENTS.includes(lowerName)) {
+      this.stack.push(element);
+    }
+  }
+
+  private parseClosingTag(): void {
+    const line = this.lineAt(this.pos);
+    this.pos += 2; // </
+    const name = this.readWhile(c => /[\w\-:.]/.test(c));
+    const end = this.source.indexOf('>', this.pos);
+    this.pos = end === -1 ? this.source.length : end + 1;
+
+    if (VOID_ELEMENTS.includes(name.toLowerCase())) {
+      return;
+    }
+
+    // 直近のブロックより内側で同名の要素を探す
+    for (let i = this.stack.length - 1; i >= 0; i--) {
+      const open = this.stack[i];
+      if (open.kind === 'block') {
+        break;
+      }
+      if (open.name.toLowerCase() === name.toLowerCase()) {
+        for (let j = this.stack.length - 1; j > i; j--) {
+          this.errors.push({ message: `Unclosed element <${this.stack[j].name}>`, line: this.stack[j].line });
+        }
+        this.stack.length = i;
+        return;
+      }
+    }
+
+    this.errors.push({ message: `Unexpected closing tag </${name}>`, line });
+  }
+
+  private readAttributeValue(): string {
+    const quote = this.source[this.pos];
+    if (quote === '"' || quote === "'") {
+      const end = this.source.indexOf(quote, this.pos + 1);
+      const value = this.source.slice(this.pos + 1, end === -1 ? this.source.length : end);
+      this.pos = end === -1 ? this.source.length : end + 1;
+      return value;
+    }
+    return this.readWhile(c => !/[\s>]/.test(c));
+  }
+
+  // ==================== Blocks ====================
+
+  private isBlockStart(): boolean {
+    const match = /^@(\w+)/.exec(this.source.slice(this.pos, this.pos + 20));
+    if (!match) return false;
+    return match[1] === 'let' || BLOCK_NAMES.includes(match[1]);
+  }
+
+  private parseBlock(): void {
+    const line = this.lineAt(this.pos);
+    this.pos++; // @
+    let name = this.readWhile(c => /\w/.test(c));
+
+    if (name === 'let') {
+      this.parseLetDeclaration(line);
+      return;
+    }
+
+    this.skipWhitespace();
+    // @else if (...)
+    if (name === 'else' && /^if\b/.test(this.source.slice(this.pos, this.pos + 3))) {
+      this.pos += 2;
+      name = 'else if';
+      this.skipWhitespace();
+    }
+
+    let parameters = '';
+    if (this.source[this.pos] === '(') {
+      const end = this.findClosingParen(this.pos);
+      parameters = this.source.slice(this.pos + 1, end === -1 ? this.source.length : end).trim();
+      this.pos = end === -1 ? this.source.length : end + 1;
+      this.skipWhitespace();
+    }
+
+    if (this.source[this.pos] !== '{') {
+      this.errors.push({ message: `Expected "{" after @${name}`, line });
+      return;
+    }
+    this.pos++;
+
+    const block: TemplateBlock = {
+      kind: 'block',
+      name,
+      parameters,
+      expressions: [],
+      variables: [],
+      children: [],
+      line
+    };
+    parseBlockParameters(block);
+
+    this.appendNode(block);
+    this.stack.push(block);
+  }
+
+  private closeBlock(): void {
+    // ブロック内で閉じられていない要素はエラーとして閉じる
+    while (this.stack.length > 0) {
+      const open = this.stack.pop()!;
+      if (open.kind === 'block') {
+        return;
+      }
+      this.errors.push({ message: `Unclosed element <${open.name}>`, line: open.line });
+    }
+  }
+
+  private parseLetDeclaration(line: number): void {
+    this.skipWhitespace();
+    const name = this.readWhile(c => /[\w$]/.test(c));
+    this.skipWhitespace();
+    if (this.source[this.pos] !== '=') {
+      this.errors.push({ message: 'Invalid @let declaration', line });
+      return;
+    }
+    this.pos++;
+
+    const end = findTopLevel(this.source, ';', this.pos);
+    const value = this.source.slice(this.pos, end === -1 ? this.source.length : end).trim();
+    this.pos = end === -1 ? this.source.length : end + 1;
+
+    this.appendNode({
+      kind: 'let',
+      name,
+      value,
+      expressions: [createExpression(value, 'let', line)],
+      line
+    });
+  }
+
+  // ==================== Text ====================
+
+  private addText(start: number, end: number): void {
+    const value = this.source.slice(start, end);
+    if (!value.trim()) return;
+
+    const text: TemplateText = {
+      kind: 'text',
+      value,
+      line: this.lineAt(start),
+      expressions: extractInterpolations(value, this.lineAt(start))
+    };
+    this.appendNode(text);
+  }
+
+  // ==================== Helpers ====================
+
+  private appendNode(node: TemplateNode): void {
+    const parent = this.stack[this.stack.length - 1];
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      this.root.push(node);
+    }
+  }
+
+  private startsWith(text: string): boolean {
+    return this.source.startsWith(text, this.pos);
+  }
+
+  private readWhile(predicate: (c: string) => boolean): string {
+    const start = this.pos;
+    while (this.pos < this.source.length && predicate(this.source[this.pos])) {
+      this.pos++;
+    }
+    return this.source.slice(start, this.pos);
+  }
+
+  private skipWhitespace(): void {
+    this.readWhile(c => /\s/.test(c));
+  }
+
+  private findInterpolationEnd(from: number): number {
+    return this.source.indexOf('}}', from);
+  }
+
+  private findClosingParen(openIndex: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = openIndex; i < this.source.length; i++) {
+      const c = this.source[i];
+      if (quote) {
+        if (c === quote && this.source[i - 1] !== '\\') quote = null;
+      } else if (c === '"' || c === "'" || c === '`') {
+        quote = c;
+      } else if (c === '(') {
+        depth++;
+      } else if (c === ')') {
+        depth--;
+        if (depth === 0) return i;
+      }
+    }
+    return -1;
+  }
+
+  private lineAt(offset: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return low + 1;
+  }
+}
+
+// ==================== Attribute Classification ====================
+
+function createAttribute(rawName: string, value: string, line: number): TemplateAttribute {
+  const attr: TemplateAttribute = { kind: 'static', rawName, name: rawName, value, line, expressions: [], variables: [] };
+
+  let match: RegExpExecArray | null;
+  if ((match = /^\[\((.+)\)\]$/.exec(rawName)) || (match = /^bindon-(.+)$/.exec(rawName))) {
+    attr.kind = 'two-way';
+    attr.name = match[1];
+    attr.expressions.push(createExpression(value, 'two-way', line));
+  } else if ((match = /^\[@(.+)\]$/.exec(rawName))) {
+    attr.kind = 'animation';
+    attr.name = match[1];
+    if (value) attr.expressions.push(createExpression(value, 'property', line));
+  } else if ((match = /^\[(.+)\]$/.exec(rawName)) || (match = /^bind-(.+)$/.exec(rawName))) {
+    attr.kind = 'property';
+    attr.name = match[1];
+    attr.expressions.push(createExpression(value, 'property', line));
+  } else if ((match = /^\((.+)\)$/.exec(rawName)) || (match = /^on-(.+)$/.exec(rawName))) {
+    attr.kind = 'event';
+    attr.name = match[1];
+    attr.expressions.push(createExpression(value, 'event', line));
+  } else if ((match = /^\*(.+)$/.exec(rawName))) {
+    attr.kind = 'structural';
+    attr.name = match[1];
+    parseMicrosyntax(attr);
+  } else if ((match = /^#(.+)$/.exec(rawName)) || (match = /^ref-(.+)$/.exec(rawName))) {
+    attr.kind = 'reference';
+    attr.name = match[1];
+    attr.variables.push(match[1]);
+  } else if ((match = /^let-(.+)$/.exec(rawName))) {
+    attr.kind = 'let';
+    attr.name = match[1];
+    attr.variables.push(match[1]);
+  } else if ((match = /^@(.+)$/.exec(rawName))) {
+    attr.kind = 'animation';
+    attr.name = match[1];
+  } else {
+    attr.expressions.push(...extractInterpolations(value, line));
+  }
+
+  return attr;
+}
+
+/**
+ * 構造ディレクティブのマイクロ構文
+ * 例: *ngFor="let item of items; trackBy: trackById; let i = index"
+ *     *ngIf="user$ | async as user; else loading"
+ */
+function parseMicrosyntax(attr: TemplateAttribute): void {
+  const segments = splitTopLevel(attr.value, [';', ',']).map(s => s.trim()).filter(s => s);
+
+  segments.forEach((segment, index) => {
+    let rest = segment;
+
+    const letMatch = /^let\s+([\w$]+)(?:\s*=\s*([\w$]+))?\s*/.exec(rest);
+    if (letMatch) {
+      attr.variables.push(letMatch[1]);
+      rest = rest.slice(letMatch[0].length);
+      if (!rest) return;
+    }
+
+    // 先頭以外（または let の後）は "key: expr" / "key expr"
+    if (index > 0 || letMatch) {
+      // "index as i" 形式
+      const asVariable = /^([\w$]+)\s+as\s+([\w$]+)$/.exec(rest);
+      if (asVariable) {
+        attr.variables.push(asVariable[2]);
+        return;
+      }
+
+      const keyMatch = /^([\w$]+)\s*:?\s*/.exec(rest);
+      if (keyMatch && /^[a-zA-Z]/.test(rest)) {
+        const key = keyMatch[1];
+        const expression = rest.slice(keyMatch[0].length);
+        if (key === 'as' && expression) {
+          attr.variables.push(expression.trim());
+          return;
+        }
+        if (expression) {
+          pushExpressionWithAlias(attr, expression);
+        }
+        return;
+      }
+    }
+
+    pushExpressionWithAlias(attr, rest);
+  });
+}
+
+function pushExpressionWithAlias(attr: TemplateAttribute, source: string): void {
+  const aliasMatch = /^([\s\S]*?)\s+as\s+([\w$]+)$/.exec(source.trim());
+  if (aliasMatch) {
+    attr.variables.push(aliasMatch[2]);
+    source = aliasMatch[1];
+  }
+  attr.expressions.push(createExpression(source, 'structural', attr.line));
+}
+
+/**
+ * ブロックのパラメータから式とローカル変数を取り出す
+ */
+function parseBlockParameters(block: TemplateBlock): void {
+  const params = block.parameters;
+  if (!params) return;
+
+  const segments = splitTopLevel(params, [';']).map(s => s.trim()).filter(s => s);
+  const add = (source: string) => block.expressions.push(createExpression(source, 'block', block.line));
+
+  switch (block.name) {
+    case 'if':
+    case 'else if': {
+      add(segments[0]);
+      const alias = segments.slice(1).map(s => /^as\s+([\w$]+)$/.exec(s)).find(m => m);
+      if (alias) block.variables.push(alias[1]);
+      break;
+    }
+    case 'for': {
+      const loop = /^([\w$]+)\s+of\s+([\s\S]+)$/.exec(segments[0] || '');
+      if (loop) {
+        block.variables.push(loop[1]);
+        add(loop[2]);
+      }
+      for (const segment of segments.slice(1)) {
+        if (segment.startsWith('track')) {
+          add(segment.replace(/^track\s*/, ''));
+        } else if (segment.startsWith('let')) {
+          // let i = $index, e = $even
+          for (const decl of splitTopLevel(segment.replace(/^let\s*/, ''), [','])) {
+            const name = decl.split('=')[0].trim();
+            if (name) block.variables.push(name);
+          }
+        }
+      }
+      break;
+    }
+    case 'switch':
+    case 'case':
+      add(params);
+      break;
+    case 'defer':
+    case 'placeholder':
+    case 'loading':
+      // on viewport; when isReady; prefetch when x
+      for (const segment of segments) {
+        const when = /^(?:(?:prefetch|hydrate)\s+)?when\s+([\s\S]+)$/.exec(segment);
+        if (when) add(when[1]);
+      }
+      break;
+  }
+}
+
+// ==================== Expressions ====================
+
+function createExpression(source: string, context: TemplateExpressionContext, line: number): TemplateExpression {
+  return {
+    source: source.trim(),
+    context,
+    line,
+    pipes: context === 'event' ? [] : extractPipes(source)
+  };
+}
+
+function extractInterpolations(text: string, startLine: number): TemplateExpression[] {
+  const expressions: TemplateExpression[] = [];
+  let index = text.indexOf('{{');
+  while (index !== -1) {
+    const end = text.indexOf('}}', index + 2);
+    if (end === -1) break;
+    const line = startLine + (text.slice(0, index).match(/\n/g)?.length || 0);
+    expressions.push(createExpression(text.slice(index + 2, end), 'interpolation', line));
+    index = text.indexOf('{{', end + 2);
+  }
+  return expressions;
+}
+
+/**
+ * 式からパイプ呼び出しを抽出（"a || b" の || は対象外、引数は ":" 区切り）
+ */
+export function extractPipes(expression: string): TemplatePipe[] {
+  const parts = splitTopLevel(expression, ['|']);
+  return parts.slice(1).map(part => {
+    const [name, ...args] = splitTopLevel(part, [':']).map(s => s.trim());
+    return { name, arguments: args };
+  }).filter(pipe => /^[\w$]+$/.test(pipe.name));
+}
+
+/**
+ * パイプを除いた式本体
+ */
+export function stripPipes(expression: string): string {
+  return splitTopLevel(expression, ['|'])[0].trim();
+}
+
+/**
+ * 括弧・文字列の外側にある区切り文字で分割する
+ * "|" は "||" の一部でない場合のみ、":" は "?" に対応しない場合のみ区切りとみなす
+ */
+export function splitTopLevel(text: string, separators: string[]): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let ternary = 0;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+
+    if (quote) {
+      if (c === quote && text[i - 1] !== '\\') quote = null;
+      continue;
+    }
+
+    if (c === '"' || c === "'" || c === '`') {
+      quote = c;
+    } else if (c === '(' || c === '[' || c === '{') {
+      depth++;
+    } else if (c === ')' || c === ']' || c === '}') {
+      depth--;
+    } else if (depth === 0) {
+      if (c === '?' && text[i + 1] !== '.' && text[i + 1] !== '?' && text[i - 1] !== '?') {
+        ternary++;
+      }
+
+      if (!separators.includes(c)) continue;
+
+      if (c === '|' && (text[i + 1] === '|' || text[i - 1] === '|')) continue;
+      if (c === ':' && ternary > 0) {
+        ternary--;
+        continue;
+      }
+
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+
+  parts.push(text.slice(start));
+  return parts;
+}
+
+const EXPRESSION_KEYWORDS = ['true', 'false', 'null', 'undefined', 'this', 'typeof', 'void', 'in', 'as', 'let', 'of'];
+
+/**
+ * 式の中でコンポーネントまたはテンプレート変数を参照しているルート識別子を取得
+ * （a.b.c の a、fn(x) の fn と x。プロパティアクセス・パイプ名・オブジェクトリテラルのキー・文字列は除外）
+ */
+export function getReferencedIdentifiers(expression: string): string[] {
+  const identifiers: string[] = [];
+  const brackets: string[] = [];
+  let prevSignificant = '';
+  let prevPrevSignificant = '';
+  let afterThis = false;
+  let i = 0;
+
+  const nextSignificant = (from: number): string => {
+    for (let j = from; j < expression.length; j++) {
+      if (!/\s/.test(expression[j])) return expression[j];
+    }
+    return '';
+  };
+
+  while (i < expression.length) {
+    const c = expression[i];
+
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+
+    if (c === '"' || c === "'" || c === '`') {
+      let j = i + 1;
+      while (j < expression.length && !(expression[j] === c && expression[j - 1] !== '\\')) j++;
+      i = j + 1;
+      prevPrevSignificant = prevSignificant;
+      prevSignificant = 'literal';
+      continue;
+    }
+
+    if (/[0-9]/.test(c)) {
+      while (i < expression.length && /[\w.]/.test(expression[i])) i++;
+      prevPrevSignificant = prevSignificant;
+      prevSignificant = 'literal';
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(c)) {
+      let j = i;
+      while (j < expression.length && /[\w$]/.test(expression[j])) j++;
+      const name = expression.slice(i, j);
+
+      const isMemberAccess = prevSignificant === '.' && !afterThis;
+      const isPipeName = prevSignificant === '|' && prevPrevSignificant !== '|';
+      const isObjectKey = brackets[brackets.length - 1] === '{' &&
+        (prevSignificant === '{' || prevSignificant === ',') &&
+        nextSignificant(j) === ':';
+
+      afterThis = name === 'this' && nextSignificant(j) === '.';
+
+      if (!isMemberAccess && !isPipeName && !isObjectKey && !EXPRESSION_KEYWORDS.includes(name) && !identifiers.includes(name)) {
+        identifiers.push(name);
+      }
+
+      i = j;
+      prevPrevSignificant = prevSignificant;
+      prevSignificant = 'identifier';
+      continue;
+    }
+
+    if (c === '(' || c === '[' || c === '{') {
+      brackets.push(c);
+    } else if (c === ')' || c === ']' || c === '}') {
+      brackets.pop();
+    }
+
+    if (c !== '.') {
+      afterThis = false;
+    }
+    prevPrevSignificant = prevSignificant;
+    prevSignificant = c;
+    i++;
+  }
+
+  return identifiers;
+}
+
+function findTopLevel(text: string, separator: string, from: number): number {
+  const parts = splitTopLevel(text.slice(from), [separator]);
+  return parts.length > 1 ? from + parts[0].length : -1;
+}
+
+// ==================== Traversal ====================
+
+/**
+ * テンプレートノードを深さ優先で走査
+ */
+export function walkTemplate(
+  nodes: TemplateNode[],
+  visitor: (node: TemplateNode, ancestors: TemplateNode[]) => void,
+  ancestors: TemplateNode[] = []
+): void {
+  for (const node of nodes) {
+    visitor(node, ancestors);
+    if (node.kind === 'element' || node.kind === 'block') {
+      walkTemplate(node.children, visitor, [...ancestors, node]);
+    }
+  }
+}
+
+export function getTemplateElements(template: ParsedTemplate): TemplateElement[] {
+  const elements: TemplateElement[] = [];
+  walkTemplate(template.nodes, node => {
+    if (node.kind === 'element') elements.push(node);
+  });
+  return elements;
+}
+
+export function getTemplateBlocks(template: ParsedTemplate): TemplateBlock[] {
+  const blocks: TemplateBlock[] = [];
+  walkTemplate(template.nodes, node => {
+    if (node.kind === 'block') blocks.push(node);
+  });
+  return blocks;
+}
+
+/**
+ * テンプレート内のすべての式（補間、バインディング、構造ディレクティブ、ブロック、@let）
+ */
+export function getTemplateExpressions(template: ParsedTemplate): TemplateExpression[] {
+  const expressions: TemplateExpression[] = [];
+  walkTemplate(template.nodes, node => {
+    if (node.kind === 'element') {
+      node.attributes.forEach(attr => expressions.push(...attr.expressions));
+    } else {
+      expressions.push(...node.expressions);
+    }
+  });
+  return expressions;
+}
+
+// ==================== Selector Matching ====================
+
+/**
+ * ディレクティブのセレクタ照合に使われる属性名
+ * （静的属性、プロパティ/イベント/双方向バインディング、構造ディレクティブのキー）
+ */
+export function getMatchableAttributes(element: TemplateElement): Map<string, string | null> {
+  const attributes = new Map<string, string | null>();
+
+  for (const attr of element.attributes) {
+    switch (attr.kind) {
+      case 'static':
+        attributes.set(attr.name, attr.value);
+        break;
+      case 'property':
+        if (!/^(attr|class|style)\./.test(attr.name)) {
+          attributes.set(attr.name, null);
+        }
+        break;
+      case 'event':
+      case 'two-way':
+        attributes.set(attr.name, null);
+        break;
+      case 'structural': {
+        attributes.set(attr.name, null);
+        // *ngFor="let x of xs; trackBy: fn" → ngForOf, ngForTrackBy
+        splitTopLevel(attr.value, [';', ',']).forEach((segment, index) => {
+          const key = index === 0
+            ? /^\s*let\s+[\w$]+\s+([a-zA-Z]\w*)\s*:?\s+\S/.exec(segment)
+            : /^\s*([a-zA-Z]\w*)\s*:?\s+(?!as\b)\S/.exec(segment);
+          if (key && key[1] !== 'let') {
+            attributes.set(attr.name + key[1].charAt(0).toUpperCase() + key[1].slice(1), null);
+          }
+        });
+        break;
+      }
+    }
+  }
+
+  return attributes;
+}
+
+/**
+ * 要素がCSSセレクタ（Angularのディレクティブ/コンポーネントセレクタ）に一致するか
+ * 対応: 要素名、[attr]、[attr=value]、.class、:not(...)、カンマ区切り
+ */
+export function matchesSelector(element: TemplateElement, selector: string): boolean {
+  const attributes = getMatchableAttributes(element);
+  const classes = (attributes.get('class') || '').split(/\s+/).filter(c => c);
+
+  return splitTopLevel(selector, [',']).some(part => matchesSimpleSelector(element, part.trim(), attributes, classes));
+}
+
+function matchesSimpleSelector(
+  element: TemplateElement,
+  selector: string,
+  attributes: Map<string, string | null>,
+  classes: string[]
+): boolean {
+  if (!selector) return false;
+
+  let rest = selector;
+
+  // :not(...)
+  const notPattern = /:not\(([^)]*)\)/g;
+  let notMatch: RegExpExecArray | null;
+  while ((notMatch = notPattern.exec(selector)) !== null) {
+    if (matchesSimpleSelector(element, notMatch[1].trim(), attributes, classes)) {
+      return false;
+    }
+  }
+  rest = rest.replace(notPattern, '');
+
+  const tagMatch = /^[\w-]+/.exec(rest);
+  if (tagMatch && tagMatch[0].toLowerCase() !== element.name.toLowerCase()) {
+    return false;
+  }
+
+  const attrPattern = /\[([^\]=]+)(?:=["']?([^\]"']*)["']?)?\]/g;
+  let attrMatch: RegExpExecArray | null;
+  while ((attrMatch = attrPattern.exec(rest)) !== null) {
+    const name = attrMatch[1].trim();
+    if (!attributes.has(name)) return false;
+    if (attrMatch[2] !== undefined && attributes.get(name) !== attrMatch[2]) return false;
+  }
+
+  const classPattern = /\.([\w-]+)/g;
+  let classMatch: RegExpExecArray | null;
+  while ((classMatch = classPattern.exec(rest.replace(attrPattern, ''))) !== null) {
+    if (!classes.includes(classMatch[1])) return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,245 @@
+/**
+ * workspace.ts
+ * angular.json / Nx project.json からワークスペースのプロジェクト構成を読み込む
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+
+// ==================== Interfaces ====================
+
+export interface WorkspaceProject {
+  name: string;
+  type: 'application' | 'library';
+  root: string;
+  sourceRoot: string;
+  tsConfig?: string;
+  main?: string;
+  styles: string[];
+  configFile: string;
+}
+
+export interface AnalysisTarget {
+  project: WorkspaceProject | null;
+  path: string;
+  tsconfigPath?: string;
+}
+
+// ==================== Angular Workspace ====================
+
+const IGNORED_DIRECTORIES = ['node_modules', 'dist', 'coverage', 'tmp'];
+
+export class AngularWorkspace {
+  readonly rootPath: string;
+  readonly kind: 'angular' | 'nx';
+  private projects: WorkspaceProject[];
+
+  private constructor(rootPath: string, kind: 'angular' | 'nx', projects: WorkspaceProject[]) {
+    this.rootPath = rootPath;
+    this.kind = kind;
+    this.projects = projects.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * 指定ディレクトリから親方向にangular.json / workspace.json / nx.jsonを探して読み込む
+   */
+  static find(startDir: string): AngularWorkspace | null {
+    let dir = path.resolve(startDir);
+    if (fs.existsSync(dir) && fs.statSync(dir).isFile()) {
+      dir = path.dirname(dir);
+    }
+
+    while (true) {
+      for (const fileName of ['angular.json', 'workspace.json']) {
+        const candidate = path.join(dir, fileName);
+        if (fs.existsSync(candidate)) {
+          return AngularWorkspace.loadWorkspaceFile(candidate);
+        }
+      }
+      if (fs.existsSync(path.join(dir, 'nx.json'))) {
+        return AngularWorkspace.loadNxWorkspace(dir);
+      }
+
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return null;
+      }
+      dir = parent;
+    }
+  }
+
+  getProjects(): WorkspaceProject[] {
+    return this.projects;
+  }
+
+  getApplications(): WorkspaceProject[] {
+    return this.projects.filter(p => p.type === 'application');
+  }
+
+  getLibraries(): WorkspaceProject[] {
+    return this.projects.filter(p => p.type === 'library');
+  }
+
+  getProject(name: string): WorkspaceProject | undefined {
+    return this.projects.find(p => p.name === name);
+  }
+
+  /**
+   * ファイルが属するプロジェクトを取得（sourceRootが最も深いものを優先）
+   */
+  findProjectForFile(filePath: string): WorkspaceProject | undefined {
+    const absPath = path.resolve(filePath);
+    return this.projects
+      .filter(p => absPath === p.sourceRoot || absPath.startsWith(p.sourceRoot + path.sep))
+      .sort((a, b) => b.sourceRoot.length - a.sourceRoot.length)[0];
+  }
+
+  /**
+   * angular.json（またはNxのworkspace.json）を読み込む
+   */
+  private static loadWorkspaceFile(configFile: string): AngularWorkspace {
+    const rootPath = path.dirname(configFile);
+    const json = readJson(configFile);
+    const projects: WorkspaceProject[] = [];
+
+    for (const [name, value] of Object.entries<any>(json?.projects || {})) {
+      // Nxのworkspace.jsonでは "name": "libs/foo" のようにproject.jsonへのパスの場合がある
+      if (typeof value === 'string') {
+        const projectFile = path.join(rootPath, value, 'project.json');
+        if (fs.existsSync(projectFile)) {
+          projects.push(createProject(name, readJson(projectFile), rootPath, projectFile));
+        }
+        continue;
+      }
+      projects.push(createProject(name, value, rootPath, configFile));
+    }
+
+    return new AngularWorkspace(rootPath, path.basename(configFile) === 'angular.json' ? 'angular' : 'nx', projects);
+  }
+
+  /**
+   * Nxワークスペース配下のproject.jsonをすべて読み込む
+   */
+  private static loadNxWorkspace(rootPath: string): AngularWorkspace {
+    const projects: WorkspaceProject[] = [];
+
+    const traverse = (currentPath: string): void => {
+      try {
+        const items = fs.readdirSync(currentPath);
+
+        for (const item of items) {
+          const fullPath = path.join(currentPath, item);
+          const stat = fs.statSync(fullPath);
+
+          if (stat.isDirectory()) {
+            if (!item.startsWith('.') && !IGNORED_DIRECTORIES.includes(item)) {
+              traverse(fullPath);
+            }
+          } else if (item === 'project.json') {
+            const json = readJson(fullPath);
+            const name = json?.name || path.basename(currentPath);
+            projects.push(createProject(name, { root: path.relative(rootPath, currentPath), ...json }, rootPath, fullPath));
+          }
+        }
+      } catch (error) {
+        console.error(`Error reading directory ${currentPath}:`, error);
+      }
+    };
+
+    traverse(rootPath);
+    return new AngularWorkspace(rootPath, 'nx', projects);
+  }
+}
+
+// ==================== Target Resolution ====================
+
+/**
+ * CLI引数の --project <name[,name]> / --workspace から解析対象を決定
+ * どちらも指定されない場合は <dir> をそのまま1つの対象として返す
+ */
+export function resolveAnalysisTargets(inputPath: string, args: string[]): AnalysisTarget[] {
+  const projectArg = args.includes('--project') ? args[args.indexOf('--project') + 1] : null;
+  const allProjects = args.includes('--workspace');
+
+  if (!projectArg && !allProjects) {
+    return [{ project: null, path: inputPath }];
+  }
+
+  const workspace = AngularWorkspace.find(inputPath);
+  if (!workspace) {
+    throw new Error(`No angular.json, workspace.json or nx.json found for "${inputPath}"`);
+  }
+
+  let projects: WorkspaceProject[];
+  if (projectArg) {
+    projects = projectArg.split(',').map(name => {
+      const project = workspace.getProject(name.trim());
+      if (!project) {
+        const available = workspace.getProjects().map(p => p.name).join(', ');
+        throw new Error(`Unknown project "${name}". Available projects: ${available}`);
+      }
+      return project;
+    });
+  } else {
+    projects = [...workspace.getApplications(), ...workspace.getLibraries()];
+  }
+
+  return projects
+    .filter(project => fs.existsSync(project.sourceRoot))
+    .map(project => ({
+      project,
+      path: project.sourceRoot,
+      // tsConfigが見つからない場合はsourceRootから親方向に探す
+      tsconfigPath: project.tsConfig && fs.existsSync(project.tsConfig) ? project.tsConfig : undefined
+    }));
+}
+
+/**
+ * プロジェクトごとのMarkdownセクション見出し
+ */
+export function formatProjectHeading(target: AnalysisTarget): string {
+  if (!target.project) {
+    return '';
+  }
+  return `# Project: ${target.project.name} (${target.project.type})\n\n` +
+    `**Source Root**: ${target.project.sourceRoot}\n\n`;
+}
+
+// ==================== Helpers ====================
+
+function createProject(name: string, json: any, rootPath: string, configFile: string): WorkspaceProject {
+  const root = path.resolve(rootPath, json?.root || '');
+  const sourceRoot = json?.sourceRoot ? path.resolve(rootPath, json.sourceRoot) : path.join(root, 'src');
+  const targets = json?.architect || json?.targets || {};
+  const buildOptions = targets.build?.options || {};
+
+  const styles: string[] = (buildOptions.styles || [])
+    .map((style: any) => (typeof style === 'string' ? style : style?.input))
+    .filter((style: string | undefined) => !!style)
+    .map((style: string) => path.resolve(rootPath, style));
+
+  const tsConfig = buildOptions.tsConfig || targets.test?.options?.tsConfig;
+  const main = buildOptions.main || buildOptions.browser;
+
+  return {
+    name,
+    type: json?.projectType === 'library' ? 'library' : 'application',
+    root,
+    sourceRoot,
+    tsConfig: tsConfig ? path.resolve(rootPath, tsConfig) : undefined,
+    main: main ? path.resolve(rootPath, main) : undefined,
+    styles,
+    configFile
+  };
+}
+
+function readJson(filePath: string): any {
+  // angular.jsonはコメントを含む場合があるためTypeScriptのJSONパーサを使う
+  const result = ts.readConfigFile(filePath, ts.sys.readFile);
+  if (result.error) {
+    console.warn(`Failed to read ${filePath}: ${ts.flattenDiagnosticMessageText(result.error.messageText, '\n')}`);
+    return null;
+  }
+  return result.config;
+}